@@ -8,8 +8,15 @@ async function main() {
   const pkg = JSON.parse(await readFile(pkgPath, "utf8"));
   const { dependencies, peerDependencies } = pkg;
 
+  // The reference providers are shipped from their own entry point, so that
+  // the consumers of the main entry point do not bundle their dependencies,
+  // and the modules using Node built-ins from the Node-only one
   const shared = {
-    entryPoints: ["src/index.ts"],
+    entryPoints: {
+      index: "src/index.ts",
+      providers: "src/providers/index.ts",
+      node: "src/node/index.ts",
+    },
     bundle: true,
     external: [
       ...Object.keys(dependencies || {}),
@@ -20,7 +27,8 @@ async function main() {
   await build({
     ...shared,
     platform: "node", // for CJS
-    outfile: "dist/index.cjs",
+    outdir: "dist",
+    outExtension: { ".js": ".cjs" },
     format: "cjs",
     sourcemap: true,
   });
@@ -28,7 +36,7 @@ async function main() {
   await build({
     ...shared,
     platform: "node", // for ESM
-    outfile: "dist/index.js",
+    outdir: "dist",
     format: "esm",
     sourcemap: true,
   });
@@ -23,3 +23,11 @@ export const OP_RETURN_OUTPUT_VALUE_SIZE = 8;
 // Because our OP_RETURN data will always be less than 80 bytes, which is less than 0xfd (253),
 // the value serialization size will always be 1 byte.
 export const OP_RETURN_VALUE_SERIALIZE_SIZE = 1;
+// Size of the placeholder of an ECDSA signature in bytes, i.e. the largest
+// low-S DER encoded signature along with its sighash type byte
+export const ECDSA_SIGNATURE_PLACEHOLDER_SIZE = 72;
+// Size of a Schnorr signature with the default sighash type in bytes
+export const SCHNORR_SIGNATURE_SIZE = 64;
+// Minimum fee rate increase of a replacement transaction in sat/vbyte, i.e. the
+// default incremental relay fee rate of Bitcoin Core (BIP125 rule 4)
+export const INCREMENTAL_RELAY_FEE_RATE = 1;
@@ -1,3 +1,5 @@
+import type { SigningPolicyRule } from "../types/policy";
+
 export enum StakingErrorCode {
   UNKNOWN_ERROR = "UNKNOWN_ERROR",
   INVALID_INPUT = "INVALID_INPUT",
@@ -5,6 +7,8 @@ export enum StakingErrorCode {
   SCRIPT_FAILURE = "SCRIPT_FAILURE",
   BUILD_TRANSACTION_FAILURE = "BUILD_TRANSACTION_FAILURE",
   INVALID_PARAMS = "INVALID_PARAMS",
+  ABORTED = "ABORTED",
+  POLICY_VIOLATION = "POLICY_VIOLATION",
 }
 
 export class StakingError extends Error {
@@ -30,3 +34,44 @@ export class StakingError extends Error {
     return new StakingError(code, fallbackMsg);
   }
 }
+
+// The name of a leaf in the staking script tree, or of the observable staking
+// data embed script
+export type StakingScriptLeaf =
+  | "timelockScript"
+  | "unbondingScript"
+  | "slashingScript"
+  | "unbondingTimelockScript"
+  | "dataEmbedScript";
+
+// StakingScriptParseError is thrown when a compiled staking script does not
+// match the expected opcode template. The leaf identifies the malformed script.
+export class StakingScriptParseError extends StakingError {
+  public leaf: StakingScriptLeaf;
+  constructor(leaf: StakingScriptLeaf, message: string) {
+    super(StakingErrorCode.SCRIPT_FAILURE, `Invalid ${leaf}: ${message}`);
+    this.leaf = leaf;
+  }
+}
+
+// CovenantSignatureError is thrown when covenant signatures fail to verify
+// against the sighash of the transaction they are attached to and the
+// remaining signatures do not reach the covenant quorum.
+export class CovenantSignatureError extends StakingError {
+  public invalidCovenantPks: string[];
+  constructor(invalidCovenantPks: string[], message: string) {
+    super(StakingErrorCode.INVALID_INPUT, message);
+    this.invalidCovenantPks = invalidCovenantPks;
+  }
+}
+
+// SigningPolicyError is thrown when a PSBT violates a rule of the signing
+// policy of the manager. The rule identifies the violated rule, the PSBT is
+// not sent to the BTC provider.
+export class SigningPolicyError extends StakingError {
+  public rule: SigningPolicyRule;
+  constructor(rule: SigningPolicyRule, message: string) {
+    super(StakingErrorCode.POLICY_VIOLATION, `${rule}: ${message}`);
+    this.rule = rule;
+  }
+}
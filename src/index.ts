@@ -1,13 +1,22 @@
+export * from "./policy";
 export { Staking, StakingScriptData } from "./staking";
 export type { StakingScripts } from "./staking";
+export * from "./staking/decoder";
 export * from "./staking/manager";
 export {
   ObservableStaking,
   ObservableStakingScriptData,
+  parseObservableStakingTransaction,
 } from "./staking/observable";
+export type { ObservableStakingTransactionInfo } from "./staking/observable";
+export * from "./staking/spendPath";
 export * from "./staking/transactions";
+export * from "./tracker";
 export * from "./types";
 export * from "./utils/btc";
+export type { FeeEstimationMode } from "./utils/fee";
+export * from "./utils/fee/coinSelection";
+export * from "./utils/merkle";
 export {
   getBabylonParamByBtcHeight,
   getBabylonParamByVersion,
@@ -15,3 +24,4 @@ export {
 export * from "./utils/utxo/findInputUTXO";
 export * from "./utils/utxo/getPsbtInputFields";
 export * from "./utils/utxo/getScriptType";
+export * from "./utils/utxo/multisig";
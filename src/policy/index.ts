@@ -0,0 +1,192 @@
+import { Psbt, Transaction } from "bitcoinjs-lib";
+import { SigningPolicyError } from "../error";
+import { ActionName } from "../types/action";
+import {
+  SigningPolicy,
+  SigningPolicyConfig,
+  SigningPolicyRule,
+  SigningRequest,
+} from "../types/policy";
+import {
+  getPlaceholderTxVirtualSize,
+  getPsbtPlaceholderInput,
+} from "../utils/fee/vsize";
+
+// The actions staking or registering delegations, to which the rules on the
+// delegations apply. Unbonding and withdrawing stay allowed so that the funds
+// of a delegation can always be returned to the staker.
+const STAKING_ACTIONS = [
+  ActionName.SIGN_BTC_STAKING_TRANSACTION,
+  ActionName.SIGN_BTC_STAKING_EXPANSION_TRANSACTION,
+  ActionName.SIGN_BTC_SLASHING_TRANSACTION,
+  ActionName.SIGN_BTC_UNBONDING_SLASHING_TRANSACTION,
+];
+
+// The actions of the transactions whose fee is chosen by the manager, the
+// fees of the unbonding and slashing transactions being set by the params
+const FEE_ACTIONS = [
+  ActionName.SIGN_BTC_STAKING_TRANSACTION,
+  ActionName.SIGN_BTC_STAKING_EXPANSION_TRANSACTION,
+  ActionName.SIGN_BTC_WITHDRAW_TRANSACTION,
+];
+
+/**
+ * Creates a signing policy enforcing the built-in rules of the given config,
+ * see `SigningPolicyRule`. A rule is only enforced if its value is set in the
+ * config.
+ *
+ * The fee rate is computed on the size of the signed transaction, estimated
+ * with placeholder signatures sized for the script type or the staking script
+ * path spent by each input.
+ *
+ * @param config - The config of the rules.
+ * @returns The signing policy, which throws a `SigningPolicyError` naming the
+ * violated rule.
+ */
+export const createSigningPolicy =
+  (config: SigningPolicyConfig): SigningPolicy =>
+  (request: SigningRequest) => {
+    if (STAKING_ACTIONS.includes(request.action)) {
+      checkDelegations(config, request);
+    }
+    if (request.action === ActionName.SIGN_BTC_WITHDRAW_TRANSACTION) {
+      checkWithdrawalDestinations(config, request.psbt);
+    }
+    if (FEE_ACTIONS.includes(request.action)) {
+      checkFee(config, request.psbt);
+    }
+  };
+
+const checkDelegations = (
+  {
+    finalityProviderPksNoCoordHex,
+    maxStakingAmountSat,
+    stakingParamsVersions,
+  }: SigningPolicyConfig,
+  { delegations }: SigningRequest,
+) => {
+  delegations.forEach(({ stakingInput, stakingParamsVersion }) => {
+    if (finalityProviderPksNoCoordHex) {
+      const pk = stakingInput.finalityProviderPksNoCoordHex.find(
+        (pk) => !finalityProviderPksNoCoordHex.includes(pk),
+      );
+      if (pk) {
+        throw new SigningPolicyError(
+          "finality-provider",
+          `Finality provider ${pk} is not allowed`,
+        );
+      }
+    }
+    if (
+      maxStakingAmountSat !== undefined &&
+      stakingInput.stakingAmountSat > maxStakingAmountSat
+    ) {
+      throw new SigningPolicyError(
+        "max-staking-amount",
+        `Staking amount ${stakingInput.stakingAmountSat} exceeds the maximum of ${maxStakingAmountSat}`,
+      );
+    }
+    if (
+      stakingParamsVersions &&
+      !stakingParamsVersions.includes(stakingParamsVersion)
+    ) {
+      throw new SigningPolicyError(
+        "params-version",
+        `Params version ${stakingParamsVersion} is not allowed`,
+      );
+    }
+  });
+};
+
+const checkWithdrawalDestinations = (
+  { withdrawalAddresses }: SigningPolicyConfig,
+  psbt: Psbt,
+) => {
+  if (!withdrawalAddresses) {
+    return;
+  }
+  psbt.txOutputs.forEach(({ address }, i) => {
+    if (!address || !withdrawalAddresses.includes(address)) {
+      throw new SigningPolicyError(
+        "withdrawal-destination",
+        `Output ${i} is not sent to an allowed address`,
+      );
+    }
+  });
+};
+
+const checkFee = (
+  { maxFeeSat, maxFeeRate }: SigningPolicyConfig,
+  psbt: Psbt,
+) => {
+  if (maxFeeSat !== undefined) {
+    const fee = getFee(psbt, "max-fee");
+    if (fee > maxFeeSat) {
+      throw new SigningPolicyError(
+        "max-fee",
+        `Fee ${fee} exceeds the maximum of ${maxFeeSat}`,
+      );
+    }
+  }
+  if (maxFeeRate !== undefined) {
+    const feeRate = getFee(psbt, "max-fee-rate") / getSignedVirtualSize(psbt);
+    if (feeRate > maxFeeRate) {
+      throw new SigningPolicyError(
+        "max-fee-rate",
+        `Fee rate ${feeRate.toFixed(2)} exceeds the maximum of ${maxFeeRate}`,
+      );
+    }
+  }
+};
+
+// Gets the fee paid by the PSBT, the rule being the one reported if the value
+// spent by an input is unknown
+const getFee = (psbt: Psbt, rule: SigningPolicyRule): number => {
+  const inputValue = psbt.txInputs.reduce(
+    (sum, _, i) => sum + getInputValue(psbt, i, rule),
+    0,
+  );
+  const outputValue = psbt.txOutputs.reduce((sum, { value }) => sum + value, 0);
+  return inputValue - outputValue;
+};
+
+// Estimates the virtual size of the signed transaction of the PSBT with
+// placeholder signatures sized for each input
+const getSignedVirtualSize = (psbt: Psbt): number => {
+  const inputs = psbt.txInputs.map((_, i) => {
+    try {
+      return getPsbtPlaceholderInput(psbt, i);
+    } catch (error) {
+      throw new SigningPolicyError(
+        "max-fee-rate",
+        `The size of input ${i} cannot be estimated`,
+      );
+    }
+  });
+  const outputs = psbt.txOutputs.map(({ script, value }) => ({
+    scriptPubKey: script,
+    value,
+  }));
+  return getPlaceholderTxVirtualSize(inputs, outputs);
+};
+
+// Gets the value of the output spent by an input of the PSBT
+const getInputValue = (
+  psbt: Psbt,
+  index: number,
+  rule: SigningPolicyRule,
+): number => {
+  const { witnessUtxo, nonWitnessUtxo } = psbt.data.inputs[index];
+  if (witnessUtxo) {
+    return witnessUtxo.value;
+  }
+  if (nonWitnessUtxo) {
+    return Transaction.fromBuffer(nonWitnessUtxo).outs[
+      psbt.txInputs[index].index
+    ].value;
+  }
+  throw new SigningPolicyError(
+    rule,
+    `The value spent by input ${index} is unknown`,
+  );
+};
@@ -0,0 +1,144 @@
+import { btcstakingtx } from "@babylonlabs-io/babylon-proto-ts";
+import * as ecc from "@bitcoin-js/tiny-secp256k1-asmjs";
+import { encodeSecp256k1Pubkey, StdFee } from "@cosmjs/amino";
+import { toBech32 } from "@cosmjs/encoding";
+import {
+  encodePubkey,
+  makeAuthInfoBytes,
+  makeSignBytes,
+  makeSignDoc,
+  Registry,
+} from "@cosmjs/proto-signing";
+import { crypto } from "bitcoinjs-lib";
+import { TxRaw } from "cosmjs-types/cosmos/tx/v1beta1/tx";
+import { BABYLON_REGISTRY_TYPE_URLS } from "../constants/registry";
+import { StakingError, StakingErrorCode } from "../error";
+import { BabylonProvider } from "../types/manager";
+
+// Bech32 prefix of the Babylon Genesis addresses
+const BABYLON_ADDRESS_PREFIX = "bbn";
+
+/**
+ * The signing context of a `PrivateKeyBabylonProvider`, i.e. the on-chain
+ * account of the key and the fee paid by the transactions it signs.
+ */
+export interface PrivateKeyBabylonProviderOptions {
+  // The Babylon Genesis chain ID
+  chainId: string;
+  // The account number of the key on the chain
+  accountNumber: number;
+  // The sequence of the account for the next signed transaction
+  sequence: number;
+  // The fee and gas limit of the signed transactions
+  fee: StdFee;
+  // The memo of the signed transactions
+  memo?: string;
+  // Returns the current height of the chain, e.g. from a node or a local
+  // stand-in. If not set, the provider does not expose `getCurrentHeight`.
+  getCurrentHeight?: () => Promise<number>;
+  // Returns the chain ID, defaults to the `chainId` option
+  getChainId?: () => Promise<string>;
+}
+
+/**
+ * A `BabylonProvider` signing with a secp256k1 private key held in memory. It
+ * builds the Cosmos SDK transactions offline (SIGN_MODE_DIRECT) from the
+ * account number, sequence, chain ID and fee given by the caller, and returns
+ * the `TxRaw` bytes ready to be broadcast.
+ *
+ * The sequence is incremented after each signed transaction, so that the
+ * transactions signed in a row can be broadcast in the same order.
+ */
+export class PrivateKeyBabylonProvider implements BabylonProvider {
+  getCurrentHeight?: () => Promise<number>;
+  getChainId: () => Promise<string>;
+
+  private privateKey: Buffer;
+  private publicKey: Buffer;
+  private options: PrivateKeyBabylonProviderOptions;
+  private sequence: number;
+  private registry = new Registry([
+    [
+      BABYLON_REGISTRY_TYPE_URLS.MsgCreateBTCDelegation,
+      btcstakingtx.MsgCreateBTCDelegation,
+    ],
+    [
+      BABYLON_REGISTRY_TYPE_URLS.MsgBtcStakeExpand,
+      btcstakingtx.MsgBtcStakeExpand,
+    ],
+  ]);
+
+  constructor(
+    privateKeyHex: string,
+    options: PrivateKeyBabylonProviderOptions,
+  ) {
+    const privateKey = Buffer.from(privateKeyHex, "hex");
+    if (!ecc.isPrivate(privateKey)) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        "Invalid private key",
+      );
+    }
+    this.privateKey = privateKey;
+    this.publicKey = Buffer.from(ecc.pointFromScalar(privateKey, true)!);
+    this.options = options;
+    this.sequence = options.sequence;
+    this.getCurrentHeight = options.getCurrentHeight;
+    this.getChainId =
+      options.getChainId ?? (() => Promise.resolve(options.chainId));
+  }
+
+  /**
+   * Returns the Babylon Genesis bech32 address of the key.
+   *
+   * @returns {string} - The address of the key.
+   */
+  getAddress(): string {
+    return toBech32(BABYLON_ADDRESS_PREFIX, crypto.hash160(this.publicKey));
+  }
+
+  async signTransaction<T extends object>(msg: {
+    typeUrl: string;
+    value: T;
+  }): Promise<Uint8Array> {
+    if (!Object.values(BABYLON_REGISTRY_TYPE_URLS).includes(msg.typeUrl)) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        `Unsupported Babylon message type: ${msg.typeUrl}`,
+      );
+    }
+    const { chainId, accountNumber, fee, memo } = this.options;
+
+    const bodyBytes = this.registry.encodeTxBody({ messages: [msg], memo });
+    const authInfoBytes = makeAuthInfoBytes(
+      [
+        {
+          pubkey: encodePubkey(encodeSecp256k1Pubkey(this.publicKey)),
+          sequence: this.sequence,
+        },
+      ],
+      fee.amount,
+      Number(fee.gas),
+      fee.granter,
+      fee.payer,
+    );
+    const signBytes = makeSignBytes(
+      makeSignDoc(bodyBytes, authInfoBytes, chainId, accountNumber),
+    );
+    // Cosmos SDK secp256k1 signatures are the 64 bytes (r, s) of the ECDSA
+    // signature of the SHA-256 hash of the sign bytes
+    const signature = ecc.sign(
+      crypto.sha256(Buffer.from(signBytes)),
+      this.privateKey,
+    );
+    this.sequence++;
+
+    return TxRaw.encode(
+      TxRaw.fromPartial({
+        bodyBytes,
+        authInfoBytes,
+        signatures: [signature],
+      }),
+    ).finish();
+  }
+}
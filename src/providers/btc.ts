@@ -0,0 +1,417 @@
+import * as ecc from "@bitcoin-js/tiny-secp256k1-asmjs";
+import { hmac } from "@noble/hashes/hmac";
+import { sha512 } from "@noble/hashes/sha512";
+import { PsbtInput } from "bip174/src/lib/interfaces";
+import {
+  crypto,
+  networks,
+  opcodes,
+  payments,
+  Psbt,
+  script,
+  Signer,
+  Transaction,
+} from "bitcoinjs-lib";
+import { BufferWriter, varuint } from "bitcoinjs-lib/src/bufferutils";
+import { tapTweakHash } from "bitcoinjs-lib/src/payments/bip341";
+import bs58check from "bs58check";
+import { StakingError, StakingErrorCode } from "../error";
+import { StakerInfo } from "../staking";
+import { BtcProvider, SignPsbtOptions } from "../types/manager";
+
+// Prefix of the messages signed with the Bitcoin Core "signmessage" format
+const MESSAGE_MAGIC = "Bitcoin Signed Message:\n";
+// Tag of the BIP322 message hash
+const BIP322_TAG = "BIP0322-signed-message";
+// Header of a compact recoverable signature of a compressed public key
+const COMPACT_SIG_HEADER = 27 + 4;
+// Key of the HMAC deriving the BIP32 master key from the seed
+const BIP32_SEED_KEY = "Bitcoin seed";
+// Offset of the hardened child indexes of a BIP32 derivation path
+const BIP32_HARDENED_OFFSET = 0x80000000;
+
+/**
+ * The private key held by a `PrivateKeyBtcProvider`, given either as a raw
+ * key, a WIF encoded key or a BIP32 seed along with the derivation path of the
+ * key (e.g. "m/86'/0'/0'/0/0").
+ */
+export type PrivateKeyBtcProviderKey =
+  | { privateKeyHex: string }
+  | { wif: string }
+  | { seedHex: string; derivationPath: string };
+
+// The address type the provider uses to receive funds and sign messages
+export type PrivateKeyBtcProviderAddressType = "taproot" | "nativeSegwit";
+
+/**
+ * A `BtcProvider` signing with a private key held in memory. It is meant for
+ * backends and tests which cannot rely on a wallet.
+ *
+ * The provider signs the PSBT inputs spending its taproot (key path) or native
+ * segwit address, and the staking script leaves having its public key (e.g.
+ * the timelock, unbonding and slashing scripts). Signed inputs are finalized,
+ * the other inputs are left untouched.
+ *
+ * Transactions fetched through `getTransactionHex` are looked up in a local
+ * map filled with `addTransaction`.
+ */
+export class PrivateKeyBtcProvider implements BtcProvider {
+  private network: networks.Network;
+  private addressType: PrivateKeyBtcProviderAddressType;
+  private privateKey: Buffer;
+  private signer: Signer;
+  private tweakedSigner: Signer;
+  private transactions = new Map<string, string>();
+
+  constructor(
+    network: networks.Network,
+    key: PrivateKeyBtcProviderKey,
+    addressType: PrivateKeyBtcProviderAddressType = "taproot",
+  ) {
+    this.network = network;
+    this.addressType = addressType;
+    this.privateKey = derivePrivateKey(key, network);
+    this.signer = createSigner(this.privateKey);
+    this.tweakedSigner = createSigner(tweakPrivateKey(this.privateKey));
+  }
+
+  /**
+   * Returns the address and the public key without coordinate of the
+   * provider, as expected by the staking manager.
+   *
+   * @returns {StakerInfo} - The staker info of the provider.
+   */
+  getStakerInfo(): StakerInfo {
+    return {
+      address: this.getOutput().address!,
+      publicKeyNoCoordHex: toXOnly(this.signer.publicKey).toString("hex"),
+    };
+  }
+
+  /**
+   * Adds a transaction to the local map used by `getTransactionHex`.
+   *
+   * @param {string} txHex - The transaction in hex format.
+   * @returns {string} - The id of the transaction.
+   */
+  addTransaction(txHex: string): string {
+    const txid = Transaction.fromHex(txHex).getId();
+    this.transactions.set(txid, txHex);
+    return txid;
+  }
+
+  async getTransactionHex(txid: string): Promise<string> {
+    const txHex = this.transactions.get(txid);
+    if (!txHex) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        `Transaction ${txid} is not known to the provider`,
+      );
+    }
+    return txHex;
+  }
+
+  async signPsbt(psbtHex: string, options?: SignPsbtOptions): Promise<string> {
+    const psbt = Psbt.fromHex(psbtHex, { network: this.network });
+    if (this.signInputs(psbt, options?.inputIndexes) === 0) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        "No input of the PSBT can be signed with the provider key",
+      );
+    }
+    return psbt.toHex();
+  }
+
+  async signMessage(
+    message: string,
+    type: "ecdsa" | "bip322-simple",
+  ): Promise<string> {
+    if (type === "ecdsa") {
+      return this.signEcdsaMessage(message);
+    }
+    return this.signBip322SimpleMessage(message);
+  }
+
+  /**
+   * Signs the inputs of the PSBT that can be signed with the provider key,
+   * finalizing the ones that have all their signatures.
+   *
+   * @param {number[]} [inputIndexes] - The indexes of the inputs to sign, all
+   * the inputs by default.
+   * @returns {number} - The number of signed inputs.
+   */
+  private signInputs(psbt: Psbt, inputIndexes?: number[]): number {
+    let signedInputs = 0;
+    psbt.data.inputs.forEach((input, index) => {
+      if (
+        input.finalScriptWitness ||
+        input.finalScriptSig ||
+        (inputIndexes && !inputIndexes.includes(index))
+      ) {
+        return;
+      }
+      // Taproot key path spends are signed with the tweaked key, script path
+      // and segwit v0 spends with the key itself
+      const signer = isTaprootKeyPathInput(input)
+        ? this.tweakedSigner
+        : this.signer;
+      try {
+        psbt.signInput(index, signer);
+      } catch (error) {
+        // The input is not spendable with the provider key
+        return;
+      }
+      try {
+        psbt.finalizeInput(index);
+      } catch (error) {
+        // A multisig input needs the signatures of the other cosigners, it
+        // is left partially signed until their PSBTs are combined
+      }
+      signedInputs++;
+    });
+    return signedInputs;
+  }
+
+  /**
+   * Signs the message with the Bitcoin Core "signmessage" format, returning
+   * the compact recoverable signature in base64 format.
+   */
+  private signEcdsaMessage(message: string): string {
+    const prefix = Buffer.from(MESSAGE_MAGIC, "utf8");
+    const payload = Buffer.from(message, "utf8");
+    const writer = BufferWriter.withCapacity(
+      varuint.encodingLength(prefix.length) +
+        prefix.length +
+        varuint.encodingLength(payload.length) +
+        payload.length,
+    );
+    writer.writeVarSlice(prefix);
+    writer.writeVarSlice(payload);
+    const { signature, recoveryId } = ecc.signRecoverable(
+      crypto.hash256(writer.end()),
+      this.privateKey,
+    );
+    return Buffer.concat([
+      Buffer.from([COMPACT_SIG_HEADER + recoveryId]),
+      signature,
+    ]).toString("base64");
+  }
+
+  /**
+   * Signs the message with the BIP322 simple format, returning the witness of
+   * the virtual "to_sign" transaction in base64 format.
+   */
+  private signBip322SimpleMessage(message: string): string {
+    const { output } = this.getOutput();
+    const tag = crypto.sha256(Buffer.from(BIP322_TAG, "utf8"));
+    const messageHash = crypto.sha256(
+      Buffer.concat([tag, tag, Buffer.from(message, "utf8")]),
+    );
+
+    const toSpend = new Transaction();
+    toSpend.version = 0;
+    toSpend.addInput(
+      Buffer.alloc(32),
+      0xffffffff,
+      0,
+      script.compile([opcodes.OP_0, messageHash]),
+    );
+    toSpend.addOutput(output!, 0);
+
+    const toSign = new Psbt({ network: this.network });
+    toSign.setVersion(0);
+    toSign.addInput({
+      hash: toSpend.getHash(),
+      index: 0,
+      sequence: 0,
+      witnessUtxo: { script: output!, value: 0 },
+      ...(this.addressType === "taproot"
+        ? { tapInternalKey: toXOnly(this.signer.publicKey) }
+        : {}),
+    });
+    toSign.addOutput({ script: script.compile([opcodes.OP_RETURN]), value: 0 });
+    this.signInputs(toSign);
+
+    const { witness } = toSign.extractTransaction(true).ins[0];
+    const writer = BufferWriter.withCapacity(
+      varuint.encodingLength(witness.length) +
+        witness.reduce(
+          (size, item) =>
+            size + varuint.encodingLength(item.length) + item.length,
+          0,
+        ),
+    );
+    writer.writeVector(witness);
+    return writer.end().toString("base64");
+  }
+
+  private getOutput(): payments.Payment {
+    if (this.addressType === "taproot") {
+      return payments.p2tr({
+        internalPubkey: toXOnly(this.signer.publicKey),
+        network: this.network,
+      });
+    }
+    return payments.p2wpkh({
+      pubkey: this.signer.publicKey,
+      network: this.network,
+    });
+  }
+}
+
+const toXOnly = (publicKey: Buffer): Buffer => publicKey.subarray(1, 33);
+
+const isTaprootKeyPathInput = (input: PsbtInput): boolean =>
+  !!input.tapInternalKey && !input.tapLeafScript?.length;
+
+const createSigner = (privateKey: Buffer): Signer => ({
+  publicKey: Buffer.from(ecc.pointFromScalar(privateKey)!),
+  sign: (hash: Buffer) => signLowR(hash, privateKey),
+  signSchnorr: (hash: Buffer) => Buffer.from(ecc.signSchnorr(hash, privateKey)),
+});
+
+/**
+ * Signs the hash with ECDSA, grinding the nonce until the R value is low like
+ * Bitcoin Core does, so that DER signatures are at most 71 bytes long.
+ */
+const signLowR = (hash: Buffer, privateKey: Buffer): Buffer => {
+  let signature = ecc.sign(hash, privateKey);
+  const extraData = Buffer.alloc(32);
+  for (let counter = 1; signature[0] > 0x7f; counter++) {
+    extraData.writeUIntLE(counter, 0, 6);
+    signature = ecc.sign(hash, privateKey, extraData);
+  }
+  return Buffer.from(signature);
+};
+
+/**
+ * Tweaks the private key with the taproot tweak of its public key (BIP86), so
+ * that it signs the key path of the taproot output having no script tree.
+ */
+const tweakPrivateKey = (privateKey: Buffer): Buffer => {
+  const publicKey = ecc.pointFromScalar(privateKey)!;
+  // The internal key is the x-only public key, which has an even y coordinate
+  const evenPrivateKey =
+    publicKey[0] === 3 ? ecc.privateNegate(privateKey) : privateKey;
+  const tweakedPrivateKey = ecc.privateAdd(
+    evenPrivateKey,
+    tapTweakHash(toXOnly(Buffer.from(publicKey)), undefined),
+  );
+  if (!tweakedPrivateKey) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      "Invalid tweaked private key",
+    );
+  }
+  return Buffer.from(tweakedPrivateKey);
+};
+
+const derivePrivateKey = (
+  key: PrivateKeyBtcProviderKey,
+  network: networks.Network,
+): Buffer => {
+  let privateKey: Buffer;
+  if ("privateKeyHex" in key) {
+    privateKey = Buffer.from(key.privateKeyHex, "hex");
+  } else if ("wif" in key) {
+    privateKey = decodeWif(key.wif, network);
+  } else {
+    privateKey = deriveHdPrivateKey(
+      Buffer.from(key.seedHex, "hex"),
+      key.derivationPath,
+    );
+  }
+  if (!ecc.isPrivate(privateKey)) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      "Invalid private key",
+    );
+  }
+  return privateKey;
+};
+
+/**
+ * Derives the private key of the derivation path from the BIP32 seed. Only
+ * the private key is derived, the extended keys are not exposed.
+ */
+const deriveHdPrivateKey = (seed: Buffer, derivationPath: string): Buffer => {
+  let digest = Buffer.from(hmac(sha512, BIP32_SEED_KEY, seed));
+  let privateKey = digest.subarray(0, 32);
+  let chainCode = digest.subarray(32);
+  for (const index of parseDerivationPath(derivationPath)) {
+    const serializedIndex = Buffer.alloc(4);
+    serializedIndex.writeUInt32BE(index);
+    // Hardened children are derived from the private key, normal children
+    // from the compressed public key
+    const data =
+      index >= BIP32_HARDENED_OFFSET
+        ? Buffer.concat([Buffer.alloc(1), privateKey, serializedIndex])
+        : Buffer.concat([ecc.pointFromScalar(privateKey)!, serializedIndex]);
+    digest = Buffer.from(hmac(sha512, chainCode, data));
+    const tweak = digest.subarray(0, 32);
+    const childKey = ecc.isPrivate(tweak)
+      ? ecc.privateAdd(privateKey, tweak)
+      : null;
+    // BIP32 skips such an index, which happens with a negligible probability
+    if (!childKey) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        `Invalid child key at index ${index} of the derivation path`,
+      );
+    }
+    privateKey = Buffer.from(childKey);
+    chainCode = digest.subarray(32);
+  }
+  return privateKey;
+};
+
+// Parses a derivation path such as "m/86'/0'/0'/0/0" into its child indexes,
+// the hardened ones being marked with either ' or h
+const parseDerivationPath = (derivationPath: string): number[] => {
+  const [master, ...components] = derivationPath.split("/");
+  if (master !== "m") {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      "The derivation path must start with m",
+    );
+  }
+  return components.map((component) => {
+    const match = /^(\d+)(['h]?)$/.exec(component);
+    const index = match ? Number(match[1]) : NaN;
+    if (!(index < BIP32_HARDENED_OFFSET)) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        `Invalid derivation path component ${component}`,
+      );
+    }
+    return match![2] ? index + BIP32_HARDENED_OFFSET : index;
+  });
+};
+
+const decodeWif = (wif: string, network: networks.Network): Buffer => {
+  let payload: Buffer;
+  try {
+    payload = Buffer.from(bs58check.decode(wif));
+  } catch (error) {
+    throw StakingError.fromUnknown(
+      error,
+      StakingErrorCode.INVALID_INPUT,
+      "Invalid WIF",
+    );
+  }
+  if (payload[0] !== network.wif) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      "WIF does not match the network",
+    );
+  }
+  // The key is followed by a 0x01 byte if its public key is compressed. The
+  // provider always uses the compressed public key.
+  if (!(
+    payload.length === 33 ||
+    (payload.length === 34 && payload[33] === 1)
+  )) {
+    throw new StakingError(StakingErrorCode.INVALID_INPUT, "Invalid WIF");
+  }
+  return payload.subarray(1, 33);
+};
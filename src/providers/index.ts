@@ -0,0 +1,2 @@
+export * from "./babylon";
+export * from "./btc";
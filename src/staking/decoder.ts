@@ -0,0 +1,336 @@
+import { crypto, networks, opcodes, script, Transaction } from "bitcoinjs-lib";
+import { tapleafHash, tweakKey } from "bitcoinjs-lib/src/payments/bip341";
+import { internalPubkey } from "../constants/internalPubkey";
+import { StakingError, StakingErrorCode } from "../error";
+import { StakingInputs } from "../types/manager";
+import {
+  ObservableVersionedStakingParams,
+  VersionedStakingParams,
+} from "../types/params";
+import { toBuffers } from "../utils/staking";
+import {
+  ObservableStakingTransactionInfo,
+  parseObservableStakingTransaction,
+} from "./observable/parser";
+import { StakingScriptData } from "./stakingScript";
+
+/**
+ * The result of decoding a staking transaction.
+ */
+export interface DecodedStakingTransaction {
+  // The staker public key without the coordinate in hex format
+  stakerPkNoCoordHex: string;
+  // The staking inputs committed to by the staking output
+  stakingInput: StakingInputs;
+  // The index of the staking output in the transaction
+  outputIndex: number;
+  // The version of the staking params the staking output was built with
+  paramsVersion: number;
+}
+
+/**
+ * Candidate values used to brute-check a non-observable staking transaction.
+ * The staking output is a taproot output that only commits to the hash of the
+ * staking scripts, hence the keys can not be read from the transaction and
+ * must be supplied by the caller.
+ */
+export interface StakingTransactionCandidates {
+  // The staker public key without the coordinate in hex format
+  stakerPkNoCoordHex: string;
+  // Candidate finality provider sets, e.g. every registered finality provider
+  // wrapped in its own single-item set.
+  finalityProviderPksNoCoordHex: string[][];
+  // Optional candidate staking timelocks. Defaults to every timelock within
+  // the min and max staking time of each params version.
+  stakingTimelocks?: number[];
+}
+
+/**
+ * Decodes a staking transaction back into the staking inputs, output index
+ * and params version it was created with.
+ *
+ * Observable (phase-1) staking transactions carry the staker key, the
+ * finality provider key and the staking timelock in their OP_RETURN output, so
+ * no candidates are required for them. For all other staking transactions the
+ * staker key and the candidate finality provider sets must be provided.
+ *
+ * When several params versions produce the same staking output (i.e. the
+ * covenant committee did not change), the latest version whose staking amount
+ * and timelock bounds accept the output is returned.
+ *
+ * Decoding a non-observable staking transaction rebuilds the taproot output
+ * for each finality provider set, staking script inputs and staking timelock
+ * candidate, until one matches. Params versions sharing the covenant
+ * committee, quorum and unbonding time are tried once, and only the timelock
+ * leaf and the output key are recomputed per timelock. Without
+ * `stakingTimelocks` every timelock of the staking time range of those params
+ * versions is tried. Each timelock candidate still costs one taproot key
+ * tweak, hence callers decoding many transactions against wide staking time
+ * ranges should narrow the candidates, e.g. to the timelocks offered by their
+ * staking UI.
+ *
+ * @param {Transaction} tx - The staking transaction to decode.
+ * @param {networks.Network} network - The Bitcoin network.
+ * @param {VersionedStakingParams[]} stakingParams - All known params versions.
+ * @param {StakingTransactionCandidates} [candidates] - The candidate values
+ * used to brute-check a non-observable staking transaction.
+ * @returns {DecodedStakingTransaction} - The decoded staking transaction.
+ * @throws {StakingError} - If no params version and candidates match any of
+ * the transaction outputs.
+ */
+export const decodeStakingTransaction = (
+  tx: Transaction,
+  network: networks.Network,
+  stakingParams: VersionedStakingParams[],
+  candidates?: StakingTransactionCandidates,
+): DecodedStakingTransaction => {
+  if (stakingParams.length === 0) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_PARAMS,
+      "No staking parameters provided",
+    );
+  }
+  // Try the latest params version first
+  const sortedParams = [...stakingParams].sort((a, b) => b.version - a.version);
+
+  const observable = decodeObservableStakingTransaction(
+    tx,
+    network,
+    sortedParams,
+  );
+  if (observable) {
+    return observable;
+  }
+
+  if (!candidates) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      "Staker key and finality provider candidates are required to decode " +
+        "a non-observable staking transaction",
+    );
+  }
+
+  const paramsGroups = groupByStakingScripts(sortedParams);
+  for (const fpPks of candidates.finalityProviderPksNoCoordHex) {
+    for (const paramsGroup of paramsGroups) {
+      const timelocks =
+        candidates.stakingTimelocks ?? stakingTimelockRange(paramsGroup);
+      const stakingOutputs = buildStakingOutputs(
+        candidates.stakerPkNoCoordHex,
+        fpPks,
+        paramsGroup[0],
+      );
+      if (!stakingOutputs) {
+        continue;
+      }
+      for (const stakingTimelock of timelocks) {
+        const scriptPubKey = stakingOutputs.scriptPubKey(stakingTimelock);
+        if (!scriptPubKey) {
+          continue;
+        }
+        const outputIndex = tx.outs.findIndex((output) =>
+          output.script.equals(scriptPubKey),
+        );
+        if (outputIndex === -1) {
+          continue;
+        }
+        const stakingInput = {
+          finalityProviderPksNoCoordHex: fpPks,
+          stakingAmountSat: tx.outs[outputIndex].value,
+          stakingTimelock,
+        };
+        // Fall back to the latest version of the group whose staking time
+        // range contains the timelock
+        const matchedParams =
+          paramsGroup.find(
+            (p) =>
+              stakingTimelock >= p.minStakingTimeBlocks &&
+              stakingTimelock <= p.maxStakingTimeBlocks,
+          ) ?? paramsGroup[0];
+        return {
+          stakerPkNoCoordHex: candidates.stakerPkNoCoordHex,
+          stakingInput,
+          outputIndex,
+          paramsVersion: selectParamsVersion(
+            paramsGroup,
+            matchedParams,
+            stakingInput,
+          ),
+        };
+      }
+    }
+  }
+
+  throw new StakingError(
+    StakingErrorCode.INVALID_OUTPUT,
+    "No staking output matching the provided params and candidates found",
+  );
+};
+
+/**
+ * Decodes an observable staking transaction by parsing it against every params
+ * version carrying a tag.
+ *
+ * @returns {DecodedStakingTransaction | undefined} - The decoded staking
+ * transaction or undefined if the transaction is not a valid observable staking
+ * transaction for any of the params versions.
+ */
+const decodeObservableStakingTransaction = (
+  tx: Transaction,
+  network: networks.Network,
+  sortedParams: VersionedStakingParams[],
+): DecodedStakingTransaction | undefined => {
+  const observableParams = sortedParams.filter(
+    (p): p is ObservableVersionedStakingParams =>
+      !!(p as ObservableVersionedStakingParams).tag,
+  );
+  for (const params of observableParams) {
+    let info: ObservableStakingTransactionInfo;
+    try {
+      info = parseObservableStakingTransaction(tx, params, network);
+    } catch (error) {
+      continue;
+    }
+    const stakingInput = {
+      finalityProviderPksNoCoordHex: [info.finalityProviderPkNoCoordHex],
+      stakingAmountSat: info.stakingAmountSat,
+      stakingTimelock: info.stakingTimelock,
+    };
+    return {
+      stakerPkNoCoordHex: info.stakerPkNoCoordHex,
+      stakingInput,
+      outputIndex: info.stakingOutputIndex,
+      paramsVersion: selectParamsVersion(
+        observableParams.filter((p) => p.tag === params.tag),
+        params,
+        stakingInput,
+      ),
+    };
+  }
+  return undefined;
+};
+
+/**
+ * Groups the params versions producing the same staking scripts, i.e. sharing
+ * the covenant committee, quorum and unbonding time. The groups and the
+ * versions within them keep the order of the sorted params.
+ */
+const groupByStakingScripts = (
+  sortedParams: VersionedStakingParams[],
+): VersionedStakingParams[][] => {
+  const groups = new Map<string, VersionedStakingParams[]>();
+  for (const params of sortedParams) {
+    const key = stakingScriptsKey(params);
+    groups.set(key, [...(groups.get(key) ?? []), params]);
+  }
+  return [...groups.values()];
+};
+
+const stakingScriptsKey = (params: VersionedStakingParams): string =>
+  [
+    params.covenantQuorum,
+    params.unbondingTime,
+    ...[...params.covenantNoCoordPks].sort(),
+  ].join();
+
+// The staking timelock is encoded as a uint16, see `StakingScriptData`
+const MAX_STAKING_TIMELOCK = 65535;
+
+/**
+ * Builds the slashing and unbonding leaves of the staking output once and
+ * returns a function deriving the staking output script for a timelock.
+ * Returns undefined if the combination of keys and params is not a valid
+ * staking script.
+ */
+const buildStakingOutputs = (
+  stakerPkNoCoordHex: string,
+  fpPksNoCoordHex: string[],
+  params: VersionedStakingParams,
+) => {
+  let stakingScriptData: StakingScriptData;
+  try {
+    stakingScriptData = new StakingScriptData(
+      Buffer.from(stakerPkNoCoordHex, "hex"),
+      toBuffers(fpPksNoCoordHex),
+      toBuffers(params.covenantNoCoordPks),
+      params.covenantQuorum,
+      // Placeholder, the timelock leaf is built per candidate timelock
+      1,
+      params.unbondingTime,
+    );
+  } catch (error) {
+    return undefined;
+  }
+  const slashingLeafHash = tapleafHash({
+    output: stakingScriptData.buildSlashingScript(),
+  });
+  const unbondingLeafHash = tapleafHash({
+    output: stakingScriptData.buildUnbondingScript(),
+  });
+
+  return {
+    // Mirrors the script tree of `deriveStakingOutputInfo`:
+    // [slashing, [unbonding, timelock]]
+    scriptPubKey: (stakingTimelock: number): Buffer | undefined => {
+      if (
+        !Number.isInteger(stakingTimelock) ||
+        stakingTimelock <= 0 ||
+        stakingTimelock > MAX_STAKING_TIMELOCK
+      ) {
+        return undefined;
+      }
+      const timelockLeafHash = tapleafHash({
+        output: stakingScriptData.buildTimelockScript(stakingTimelock),
+      });
+      const hash = tapBranchHash(
+        slashingLeafHash,
+        tapBranchHash(unbondingLeafHash, timelockLeafHash),
+      );
+      const outputKey = tweakKey(internalPubkey, hash);
+      return outputKey
+        ? script.compile([opcodes.OP_1, outputKey.x])
+        : undefined;
+    },
+  };
+};
+
+const tapBranchHash = (a: Buffer, b: Buffer): Buffer =>
+  crypto.taggedHash(
+    "TapBranch",
+    a.compare(b) < 0 ? Buffer.concat([a, b]) : Buffer.concat([b, a]),
+  );
+
+/**
+ * Picks the latest params version that produces the same staking scripts as
+ * the matched params and whose bounds accept the staking inputs. Falls back to
+ * the matched params version.
+ */
+const selectParamsVersion = (
+  sortedParams: VersionedStakingParams[],
+  matchedParams: VersionedStakingParams,
+  stakingInput: StakingInputs,
+): number => {
+  const params = sortedParams.find(
+    (p) =>
+      stakingScriptsKey(p) === stakingScriptsKey(matchedParams) &&
+      stakingInput.stakingAmountSat >= p.minStakingAmountSat &&
+      stakingInput.stakingAmountSat <= p.maxStakingAmountSat &&
+      stakingInput.stakingTimelock >= p.minStakingTimeBlocks &&
+      stakingInput.stakingTimelock <= p.maxStakingTimeBlocks,
+  );
+  return (params ?? matchedParams).version;
+};
+
+/**
+ * Returns every timelock within the staking time range of the params versions,
+ * without duplicates.
+ */
+const stakingTimelockRange = (params: VersionedStakingParams[]): number[] => {
+  const timelocks = new Set<number>();
+  for (const { minStakingTimeBlocks, maxStakingTimeBlocks } of params) {
+    for (let t = minStakingTimeBlocks; t <= maxStakingTimeBlocks; t++) {
+      timelocks.add(t);
+    }
+  }
+  return [...timelocks];
+};
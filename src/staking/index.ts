@@ -1,7 +1,14 @@
-import { networks, Psbt, Transaction } from "bitcoinjs-lib";
+import { address, networks, Psbt, Transaction } from "bitcoinjs-lib";
 import { StakingError, StakingErrorCode } from "../error";
+import { WithdrawalType } from "../types/events";
+import { StakingTransactionOptions } from "../types/manager";
 import { StakingParams } from "../types/params";
-import { PsbtResult, TransactionResult } from "../types/transaction";
+import {
+  PsbtResult,
+  TransactionResult,
+  WithdrawalDestination,
+  WithdrawalInput,
+} from "../types/transaction";
 import { UTXO } from "../types/UTXO";
 import {
   isTaproot,
@@ -11,6 +18,7 @@ import {
 import {
   deriveSlashingOutput,
   deriveStakingOutputInfo,
+  deriveUnbondingOutputInfo,
   findMatchingTxOutputIndex,
   toBuffers,
 } from "../utils/staking";
@@ -21,9 +29,19 @@ import {
   validateStakingTimelock,
   validateStakingTxInputData,
 } from "../utils/staking/validation";
-import { stakingExpansionPsbt, stakingPsbt, unbondingPsbt } from "./psbt";
+import { attachMultisigScripts } from "../utils/utxo/multisig";
+import {
+  restakingPsbt,
+  stakingExpansionPsbt,
+  stakingPsbt,
+  unbondingPsbt,
+} from "./psbt";
 import { StakingScriptData, StakingScripts } from "./stakingScript";
 import {
+  batchStakingTransaction,
+  bumpStakingTransactionFee,
+  cpfpTransaction,
+  restakingTransaction,
   slashEarlyUnbondedTransaction,
   slashTimelockUnbondedTransaction,
   stakingExpansionTransaction,
@@ -136,6 +154,18 @@ export class Staking {
    * transaction.
    * @param {number} feeRate - The fee rate for the transaction in satoshis per
    * byte.
+   * @param {StakingTransactionOptions} [options] - The optional settings of
+   * the transaction.
+   * @param {CoinSelector} [options.coinSelector] - The strategy selecting the
+   * input UTXOs, largest first by default.
+   * @param {boolean} [options.replaceable=false] - Whether the transaction
+   * signals opt-in replace-by-fee, so that its fee can be bumped with
+   * `bumpStakingTransactionFee`.
+   * @param {MultisigFunding} [options.multisigFunding] - The multisig wallet
+   * funding the transaction instead of the staker. Its address receives the
+   * change and the fee is estimated from the size of its signed inputs.
+   * @param {FeeSponsor} [options.feeSponsor] - The wallet paying the fee, in
+   * which case the input UTXOs only cover the staking amount.
    * @returns {TransactionResult} - An object containing the unsigned
    * transaction, and fee
    * @throws {StakingError} - If the transaction cannot be built
@@ -144,7 +174,14 @@ export class Staking {
     stakingAmountSat: number,
     inputUTXOs: UTXO[],
     feeRate: number,
+    options: StakingTransactionOptions = {},
   ): TransactionResult {
+    const {
+      coinSelector,
+      replaceable = false,
+      multisigFunding,
+      feeSponsor,
+    } = options;
     validateStakingTxInputData(
       stakingAmountSat,
       this.stakingTimelock,
@@ -154,15 +191,24 @@ export class Staking {
     );
 
     const scripts = this.buildScripts();
+    const fundingUTXOs = multisigFunding
+      ? attachMultisigScripts(inputUTXOs, multisigFunding, this.network)
+      : inputUTXOs;
 
     try {
       const { transaction, fee } = stakingTransaction(
         scripts,
         stakingAmountSat,
-        this.stakerInfo.address,
-        inputUTXOs,
+        multisigFunding?.address ?? this.stakerInfo.address,
+        fundingUTXOs,
         this.network,
         feeRate,
+        {
+          feeEstimationMode: multisigFunding ? "exact" : undefined,
+          coinSelector,
+          replaceable,
+          feeSponsor,
+        },
       );
       return {
         transaction,
@@ -177,6 +223,133 @@ export class Staking {
     }
   }
 
+  /**
+   * Create a staking transaction with one staking output per delegation,
+   * funded by the same UTXOs and with a single change output.
+   *
+   * Each delegation can have its own finality providers, timelock and params,
+   * but all of them must be staked by the wallet funding the transaction,
+   * which is the only signer. The staking outputs are added in the order of
+   * the delegations.
+   *
+   * Babylon identifies a delegation by the hash of its staking transaction, so
+   * at most one staking output of the transaction can be registered as a
+   * delegation. The other outputs can only be withdrawn once their timelock
+   * expires, hence the manager does not register batch staking transactions.
+   *
+   * @param {Object[]} delegations - The delegations of the transaction, with
+   * their staking instance and amount to stake in satoshis.
+   * @param {StakerInfo} funderBtcInfo - The BTC info of the wallet funding the
+   * transaction, which receives the change.
+   * @param {UTXO[]} inputUTXOs - The UTXOs to use as inputs for the staking
+   * transaction.
+   * @param {number} feeRate - The fee rate for the transaction in satoshis per
+   * byte.
+   * @param {Object} [options] - The optional settings of the transaction.
+   * @param {CoinSelector} [options.coinSelector] - The strategy selecting the
+   * input UTXOs, largest first by default.
+   * @param {boolean} [options.replaceable=false] - Whether the transaction
+   * signals opt-in replace-by-fee.
+   * @returns {TransactionResult} - An object containing the unsigned
+   * transaction, and fee
+   * @throws {StakingError} - If a delegation is invalid, is staked by another
+   * wallet than the funder or the transaction cannot be built
+   */
+  public static createBatchStakingTransaction(
+    delegations: { staking: Staking; stakingAmountSat: number }[],
+    funderBtcInfo: StakerInfo,
+    inputUTXOs: UTXO[],
+    feeRate: number,
+    options: Pick<
+      StakingTransactionOptions,
+      "coinSelector" | "replaceable"
+    > = {},
+  ): TransactionResult {
+    const { coinSelector, replaceable = false } = options;
+    const network = Staking.getBatchNetwork(
+      delegations.map(({ staking }) => staking),
+      funderBtcInfo,
+    );
+    const stakingOutputs = delegations.map(({ staking, stakingAmountSat }) => {
+      validateStakingTxInputData(
+        stakingAmountSat,
+        staking.stakingTimelock,
+        staking.params,
+        inputUTXOs,
+        feeRate,
+      );
+      return { scripts: staking.buildScripts(), amount: stakingAmountSat };
+    });
+
+    try {
+      return batchStakingTransaction(
+        stakingOutputs,
+        funderBtcInfo.address,
+        inputUTXOs,
+        network,
+        feeRate,
+        { coinSelector, replaceable },
+      );
+    } catch (error: unknown) {
+      throw StakingError.fromUnknown(
+        error,
+        StakingErrorCode.BUILD_TRANSACTION_FAILURE,
+        "Cannot build unsigned batch staking transaction",
+      );
+    }
+  }
+
+  /**
+   * Bumps the fee of a replaceable staking transaction by building its
+   * replacement, which keeps the staking output and sends the change to the
+   * staker address.
+   *
+   * The replacement always has a new transaction ID, so a delegation
+   * registered on the Babylon chain with the original transaction has to be
+   * registered again with the replacement.
+   *
+   * @param {Transaction} originalTx - The staking transaction to replace,
+   * created with replace-by-fee enabled.
+   * @param {number} newFeeRate - The fee rate of the replacement in satoshis
+   * per byte.
+   * @param {UTXO[]} inputUTXOs - The UTXOs spent by the original transaction
+   * and the confirmed UTXOs that can be added to fund the replacement.
+   * @returns {TransactionResult} - An object containing the unsigned
+   * replacement and its fee.
+   * @throws {StakingError} - If the original transaction does not contain the
+   * staking output or if the replacement cannot be built
+   */
+  public bumpStakingTransactionFee(
+    originalTx: Transaction,
+    newFeeRate: number,
+    inputUTXOs: UTXO[],
+  ): TransactionResult {
+    // Check the staking output of the instance is the one being replaced
+    const scripts = this.buildScripts();
+    const stakingOutputInfo = deriveStakingOutputInfo(scripts, this.network);
+    findMatchingTxOutputIndex(
+      originalTx,
+      stakingOutputInfo.outputAddress,
+      this.network,
+    );
+
+    try {
+      return bumpStakingTransactionFee(
+        originalTx,
+        newFeeRate,
+        inputUTXOs,
+        this.stakerInfo.address,
+        this.network,
+      );
+    } catch (error: unknown) {
+      throw StakingError.fromUnknown(
+        error,
+        StakingErrorCode.BUILD_TRANSACTION_FAILURE,
+        "Cannot build the staking replacement transaction",
+      );
+    }
+  }
+
   /**
    * Creates a staking expansion transaction that extends an existing BTC stake
    * to new finality providers or renews the timelock.
@@ -188,24 +361,29 @@ export class Staking {
    *
    * The expansion transaction:
    * 1. Spends the previous staking transaction output as the first input
-   * 2. Uses funding UTXO as additional input to cover transaction fees or
-   *    to increase the staking amount
+   * 2. Uses a single funding UTXO as the second input to cover transaction
+   *    fees and the increase of the staking amount
    * 3. Creates a new staking output with expanded finality provider coverage or
    *    renews the timelock
    * 4. Has an output returning the remaining funds as change (if any) to the
    * staker BTC address
    *
-   * @param {number} stakingAmountSat - The total staking amount in satoshis
-   * (The amount had to be equal to the previous staking amount for now, this
-   * lib does not yet support increasing the staking amount at this stage)
+   * @param {number} stakingAmountSat - The total staking amount in satoshis,
+   * which must be at least the previous staking amount. The difference is
+   * staked from the funding UTXO.
    * @param {UTXO[]} inputUTXOs - Available UTXOs to use for funding the
-   * expansion transaction fees. Only one will be selected for the expansion
+   * expansion transaction fees and the staking amount increase. Only one will
+   * be selected for the expansion
    * @param {number} feeRate - Fee rate in satoshis per byte for the
    * expansion transaction
    * @param {StakingParams} paramsForPreviousStakingTx - Staking parameters
    * used in the previous staking transaction
    * @param {Object} previousStakingTxInfo - Necessary information to spend the
    * previous staking transaction.
+   * @param {Object} [options] - The optional settings of the transaction.
+   * @param {CoinSelector} [options.coinSelector] - The strategy selecting the
+   * funding UTXO, which must select a single UTXO. By default the smallest
+   * UTXO covering the fees and the increase is selected.
    * @returns {TransactionResult & { fundingUTXO: UTXO }} - An object containing
    * the unsigned expansion transaction and calculated fee, and the funding UTXO
    * @throws {StakingError} - If the transaction cannot be built or validation
@@ -223,9 +401,11 @@ export class Staking {
         stakingTimelock: number;
       };
     },
+    options: Pick<StakingTransactionOptions, "coinSelector"> = {},
   ): TransactionResult & {
     fundingUTXO: UTXO;
   } {
+    const { coinSelector } = options;
     validateStakingTxInputData(
       stakingAmountSat,
       this.stakingTimelock,
@@ -274,6 +454,7 @@ export class Staking {
         stakingTx: previousStakingTxInfo.stakingTx,
         scripts: previousStaking.buildScripts(),
       },
+      { coinSelector },
     );
 
     return {
@@ -290,9 +471,23 @@ export class Staking {
    * @param {UTXO[]} inputUTXOs - The UTXOs to use as inputs for the staking
    * transaction. The UTXOs that were used to create the staking transaction should
    * be included in this array.
+   * @param {Object} [options] - The optional settings of the transaction.
+   * @param {MultisigFunding} [options.multisigFunding] - The multisig wallet
+   * funding the transaction, whose scripts are added to the inputs for its
+   * cosigners.
+   * @param {FeeSponsor} [options.feeSponsor] - The wallet paying the fee,
+   * whose inputs are found in its own UTXOs.
    * @returns {Psbt} - The psbt.
    */
-  public toStakingPsbt(stakingTx: Transaction, inputUTXOs: UTXO[]): Psbt {
+  public toStakingPsbt(
+    stakingTx: Transaction,
+    inputUTXOs: UTXO[],
+    options: Pick<
+      StakingTransactionOptions,
+      "multisigFunding" | "feeSponsor"
+    > = {},
+  ): Psbt {
+    const { multisigFunding, feeSponsor } = options;
     // Check the staking output index can be found
     const scripts = this.buildScripts();
     const stakingOutputInfo = deriveStakingOutputInfo(scripts, this.network);
@@ -302,6 +497,23 @@ export class Staking {
       this.network,
     );
 
+    const sponsor = feeSponsor && {
+      inputUTXOs: feeSponsor.inputUTXOs,
+      publicKeyNoCoord: isTaproot(feeSponsor.address, this.network)
+        ? Buffer.from(feeSponsor.publicKeyNoCoordHex, "hex")
+        : undefined,
+    };
+
+    if (multisigFunding) {
+      return stakingPsbt(
+        stakingTx,
+        this.network,
+        attachMultisigScripts(inputUTXOs, multisigFunding, this.network),
+        undefined,
+        sponsor,
+      );
+    }
+
     return stakingPsbt(
       stakingTx,
       this.network,
@@ -309,6 +521,49 @@ export class Staking {
       isTaproot(this.stakerInfo.address, this.network)
         ? Buffer.from(this.stakerInfo.publicKeyNoCoordHex, "hex")
         : undefined,
+      sponsor,
+    );
+  }
+
+  /**
+   * Create a batch staking psbt based on the existing batch staking
+   * transaction.
+   *
+   * @param {Staking[]} stakings - The staking instances of the delegations of
+   * the transaction.
+   * @param {StakerInfo} funderBtcInfo - The BTC info of the wallet funding the
+   * transaction.
+   * @param {Transaction} stakingTx - The batch staking transaction.
+   * @param {UTXO[]} inputUTXOs - The UTXOs to use as inputs for the staking
+   * transaction. The UTXOs that were used to create the staking transaction
+   * should be included in this array.
+   * @returns {Psbt} - The psbt.
+   * @throws {StakingError} - If a delegation is staked by another wallet than
+   * the funder or its staking output is not found in the transaction
+   */
+  public static toBatchStakingPsbt(
+    stakings: Staking[],
+    funderBtcInfo: StakerInfo,
+    stakingTx: Transaction,
+    inputUTXOs: UTXO[],
+  ): Psbt {
+    const network = Staking.getBatchNetwork(stakings, funderBtcInfo);
+    // Check the staking output index of each delegation can be found
+    stakings.forEach((staking) => {
+      const { outputAddress } = deriveStakingOutputInfo(
+        staking.buildScripts(),
+        network,
+      );
+      findMatchingTxOutputIndex(stakingTx, outputAddress, network);
+    });
+
+    return stakingPsbt(
+      stakingTx,
+      network,
+      inputUTXOs,
+      isTaproot(funderBtcInfo.address, network)
+        ? Buffer.from(funderBtcInfo.publicKeyNoCoordHex, "hex")
+        : undefined,
     );
   }
 
@@ -391,6 +646,102 @@ export class Staking {
     );
   }
 
+  /**
+   * Create a re-staking transaction, which spends expired outputs of previous
+   * delegations through their timelock path straight into the staking output
+   * of this delegation, paying one fee instead of a withdrawal fee and a
+   * staking fee.
+   *
+   * @param {WithdrawalInput[]} withdrawals - The expired outputs to re-stake,
+   * see `createWithdrawalInput` of the staking instance of each delegation.
+   * @param {number} stakingAmountSat - The amount to stake in satoshis.
+   * @param {UTXO[]} inputUTXOs - The wallet UTXOs funding the part of the
+   * staking amount and fee not covered by the withdrawn outputs, possibly
+   * none.
+   * @param {number} feeRate - The fee rate for the transaction in satoshis per
+   * byte.
+   * @param {Object} [options] - The optional settings of the transaction.
+   * @param {CoinSelector} [options.coinSelector] - The strategy selecting the
+   * input UTXOs, largest first by default.
+   * @returns {TransactionResult & { fundingUTXOs: UTXO[] }} - An object
+   * containing the unsigned transaction, its fee and the wallet UTXOs it
+   * spends.
+   * @throws {StakingError} - If the input data is invalid or the transaction
+   * cannot be built
+   */
+  public createRestakingTransaction(
+    withdrawals: WithdrawalInput[],
+    stakingAmountSat: number,
+    inputUTXOs: UTXO[],
+    feeRate: number,
+    options: Pick<StakingTransactionOptions, "coinSelector"> = {},
+  ): TransactionResult & { fundingUTXOs: UTXO[] } {
+    const { coinSelector } = options;
+    validateStakingTxInputData(
+      stakingAmountSat,
+      this.stakingTimelock,
+      this.params,
+      inputUTXOs,
+      feeRate,
+      false,
+    );
+
+    const scripts = this.buildScripts();
+
+    try {
+      return restakingTransaction(
+        scripts,
+        stakingAmountSat,
+        withdrawals,
+        this.stakerInfo.address,
+        inputUTXOs,
+        this.network,
+        feeRate,
+        { coinSelector },
+      );
+    } catch (error: unknown) {
+      throw StakingError.fromUnknown(
+        error,
+        StakingErrorCode.BUILD_TRANSACTION_FAILURE,
+        "Cannot build unsigned re-staking transaction",
+      );
+    }
+  }
+
+  /**
+   * Convert a re-staking transaction to a PSBT.
+   *
+   * @param {Transaction} restakingTx - The re-staking transaction to convert.
+   * @param {WithdrawalInput[]} withdrawals - The expired outputs spent by the
+   * transaction, in input order.
+   * @param {UTXO[]} inputUTXOs - The wallet UTXOs spent by the transaction.
+   * @returns {Psbt} - The PSBT for the re-staking transaction.
+   * @throws {StakingError} - If the transaction has no staking output of the
+   * delegation
+   */
+  public toRestakingPsbt(
+    restakingTx: Transaction,
+    withdrawals: WithdrawalInput[],
+    inputUTXOs: UTXO[],
+  ): Psbt {
+    // Check the staking output index can be found
+    const { outputAddress } = deriveStakingOutputInfo(
+      this.buildScripts(),
+      this.network,
+    );
+    findMatchingTxOutputIndex(restakingTx, outputAddress, this.network);
+
+    return restakingPsbt(
+      this.network,
+      restakingTx,
+      withdrawals,
+      inputUTXOs,
+      isTaproot(this.stakerInfo.address, this.network)
+        ? Buffer.from(this.stakerInfo.publicKeyNoCoordHex, "hex")
+        : undefined,
+    );
+  }
+
   /**
    * Create an unbonding transaction for staking.
    *
@@ -462,6 +813,9 @@ export class Staking {
    * transaction to withdraw from
    * @param {number} feeRate - Fee rate in satoshis per byte for the withdrawal
    * transaction
+   * @param {WithdrawalDestination[]} [destinations] - The outputs to send the
+   * withdrawn funds to. The remainder goes to the staker address unless a
+   * destination receives it.
    * @returns {PsbtResult} - Contains the unsigned PSBT and fee amount
    * @throws {StakingError} - If the input transaction is invalid or withdrawal
    * transaction cannot be built
@@ -469,6 +823,7 @@ export class Staking {
   public createWithdrawEarlyUnbondedTransaction(
     earlyUnbondedTx: Transaction,
     feeRate: number,
+    destinations?: WithdrawalDestination[],
   ): PsbtResult {
     // Build scripts
     const scripts = this.buildScripts();
@@ -481,6 +836,8 @@ export class Staking {
         this.stakerInfo.address,
         this.network,
         feeRate,
+        "heuristic",
+        destinations,
       );
     } catch (error) {
       throw StakingError.fromUnknown(
@@ -497,12 +854,16 @@ export class Staking {
    *
    * @param {Transaction} stakingTx - The staking transaction to withdraw from.
    * @param {number} feeRate - The fee rate for the transaction in satoshis per byte.
+   * @param {WithdrawalDestination[]} [destinations] - The outputs to send the
+   * withdrawn funds to. The remainder goes to the staker address unless a
+   * destination receives it.
    * @returns {PsbtResult} - An object containing the unsigned psbt and fee
    * @throws {StakingError} - If the delegation is invalid or the transaction cannot be built
    */
   public createWithdrawStakingExpiredPsbt(
     stakingTx: Transaction,
     feeRate: number,
+    destinations?: WithdrawalDestination[],
   ): PsbtResult {
     // Build scripts
     const scripts = this.buildScripts();
@@ -523,6 +884,8 @@ export class Staking {
         this.network,
         feeRate,
         stakingOutputIndex,
+        "heuristic",
+        destinations,
       );
     } catch (error) {
       throw StakingError.fromUnknown(
@@ -633,12 +996,16 @@ export class Staking {
    *
    * @param {Transaction} slashingTx - The slashing transaction.
    * @param {number} feeRate - The fee rate for the transaction in satoshis per byte.
+   * @param {WithdrawalDestination[]} [destinations] - The outputs to send the
+   * withdrawn funds to. The remainder goes to the staker address unless a
+   * destination receives it.
    * @returns {PsbtResult} - An object containing the unsigned psbt and fee
    * @throws {StakingError} - If the delegation is invalid or the transaction cannot be built
    */
   public createWithdrawSlashingPsbt(
     slashingTx: Transaction,
     feeRate: number,
+    destinations?: WithdrawalDestination[],
   ): PsbtResult {
     // Build scripts
     const scripts = this.buildScripts();
@@ -660,6 +1027,8 @@ export class Staking {
         this.network,
         feeRate,
         slashingOutputIndex,
+        "heuristic",
+        destinations,
       );
     } catch (error) {
       throw StakingError.fromUnknown(
@@ -669,4 +1038,141 @@ export class Staking {
       );
     }
   }
+
+  /**
+   * Creates the input withdrawing the expired output of the delegation from a
+   * transaction, to be swept along with the outputs of other delegations by
+   * `batchWithdrawalTransaction`.
+   *
+   * @param {WithdrawalType} type - The withdrawal type, which tells whether the
+   * transaction is the staking, unbonding or slashing transaction.
+   * @param {Transaction} transaction - The transaction to withdraw from.
+   * @returns {WithdrawalInput} - The output to withdraw and its scripts.
+   * @throws {StakingError} - If the transaction has no output of the delegation
+   */
+  public createWithdrawalInput(
+    type: WithdrawalType,
+    transaction: Transaction,
+  ): WithdrawalInput {
+    // Build scripts
+    const scripts = this.buildScripts();
+
+    let outputAddress: string;
+    switch (type) {
+      case "staking-expired":
+        outputAddress = deriveStakingOutputInfo(
+          scripts,
+          this.network,
+        ).outputAddress;
+        break;
+      case "early-unbonded":
+        outputAddress = deriveUnbondingOutputInfo(
+          scripts,
+          this.network,
+        ).outputAddress;
+        break;
+      case "slashing":
+        outputAddress = deriveSlashingOutput(
+          scripts,
+          this.network,
+        ).outputAddress;
+        break;
+    }
+    const outputIndex = findMatchingTxOutputIndex(
+      transaction,
+      outputAddress,
+      this.network,
+    );
+
+    return { type, scripts, transaction, outputIndex };
+  }
+
+  /**
+   * Creates a child-pays-for-parent PSBT bumping the fee rate of an
+   * unconfirmed transaction with an output to the staker address, such as a
+   * withdrawal or the change of a staking transaction. The child output is
+   * sent to the staker address.
+   *
+   * @param {Object} parent - The signed parent transaction and its fee.
+   * @param {number} parentOutputIndex - The index of the parent output to the
+   * staker address.
+   * @param {UTXO[]} inputUTXOs - The wallet UTXOs that can fund the child.
+   * @param {number} targetFeeRate - The target fee rate of the package in
+   * satoshis per vbyte.
+   * @returns {PsbtResult} - An object containing the child PSBT and its fee.
+   * @throws {StakingError} - If the parent output is not sent to the staker
+   * address or if the child transaction cannot be built
+   */
+  public createCpfpPsbt(
+    parent: { transaction: Transaction; fee: number },
+    parentOutputIndex: number,
+    inputUTXOs: UTXO[],
+    targetFeeRate: number,
+  ): PsbtResult {
+    const parentOutput = parent.transaction.outs[parentOutputIndex];
+    if (
+      !parentOutput ||
+      !parentOutput.script.equals(
+        address.toOutputScript(this.stakerInfo.address, this.network),
+      )
+    ) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        "The parent output is not sent to the staker address",
+      );
+    }
+
+    try {
+      return cpfpTransaction(
+        parent,
+        parentOutputIndex,
+        inputUTXOs,
+        this.stakerInfo.address,
+        this.network,
+        targetFeeRate,
+        isTaproot(this.stakerInfo.address, this.network)
+          ? Buffer.from(this.stakerInfo.publicKeyNoCoordHex, "hex")
+          : undefined,
+      );
+    } catch (error) {
+      throw StakingError.fromUnknown(
+        error,
+        StakingErrorCode.BUILD_TRANSACTION_FAILURE,
+        "Cannot build the child-pays-for-parent transaction",
+      );
+    }
+  }
+
+  // Returns the network shared by the delegations of a batch transaction,
+  // checking they are all staked by the wallet funding it
+  private static getBatchNetwork(
+    stakings: Staking[],
+    funderBtcInfo: StakerInfo,
+  ): networks.Network {
+    if (stakings.length === 0) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        "At least one delegation is required",
+      );
+    }
+    const [{ network }] = stakings;
+    if (stakings.some((staking) => staking.network !== network)) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        "All the delegations must be on the same network",
+      );
+    }
+    if (
+      stakings.some(
+        ({ stakerInfo }) =>
+          stakerInfo.publicKeyNoCoordHex !== funderBtcInfo.publicKeyNoCoordHex,
+      )
+    ) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        "All the delegations must be staked by the wallet funding the transaction",
+      );
+    }
+    return network;
+  }
 }
@@ -4,31 +4,64 @@ import {
   btcstakingpop,
   btcstakingtx,
 } from "@babylonlabs-io/babylon-proto-ts";
-import { Psbt, Transaction, networks } from "bitcoinjs-lib";
+import { networks, Psbt, Transaction } from "bitcoinjs-lib";
 import type { Emitter } from "nanoevents";
 
 import { StakerInfo, Staking } from ".";
 import { BABYLON_REGISTRY_TYPE_URLS } from "../constants/registry";
 import { StakingError, StakingErrorCode } from "../error";
-import { TransactionResult, UTXO } from "../types";
+import {
+  PsbtResult,
+  TransactionResult,
+  UTXO,
+  WithdrawalDestination,
+  WithdrawalInput,
+} from "../types";
 import { ActionName } from "../types/action";
 import { Contract, ContractId } from "../types/contract";
-import { ManagerEvents } from "../types/events";
+import {
+  DelegationChannel,
+  ManagerEvents,
+  RegistrationChannel,
+  RegistrationStep,
+  StepProgress,
+} from "../types/events";
 import {
   BabylonProvider,
+  BatchWithdrawalOptions,
   BtcProvider,
+  DelegationWithdrawal,
   InclusionProof,
+  PostStakeRegistrationOptions,
+  RegistrationCheckpoint,
+  SigningOptions,
+  SignPsbtOptions,
   StakingInputs,
+  StakingRegistrationOptions,
+  StakingSigningOptions,
+  StakingTransactionOptions,
   UpgradeConfig,
+  WithdrawalOptions,
 } from "../types/manager";
-import { StakingParams, VersionedStakingParams } from "../types/params";
+import {
+  hasSlashing,
+  StakingParamsWithSlashing,
+  VersionedStakingParams,
+} from "../types/params";
+import { SigningDelegation, SigningPolicy } from "../types/policy";
 import { reverseBuffer } from "../utils";
 import { isValidBabylonAddress } from "../utils/babylon";
-import { isNativeSegwit, isTaproot } from "../utils/btc";
+import {
+  isNativeSegwit,
+  isP2WSH,
+  isTaproot,
+  isValidBitcoinAddress,
+  transactionIdToHash,
+} from "../utils/btc";
+import { verifyInclusionProof } from "../utils/merkle";
 import { buildPopMessage } from "../utils/pop";
-import { validateSignedPsbtIntegrity } from "../utils/psbt";
+import { combineSignedPsbts, validateSignedPsbtIntegrity } from "../utils/psbt";
 import {
-  clearTxSignatures,
   deriveMerkleProof,
   deriveStakingOutputInfo,
   extractFirstSchnorrSignatureFromTransaction,
@@ -40,7 +73,36 @@ import {
 } from "../utils/staking/param";
 
 import { validateStakingExpansionInputs } from "../utils/staking/validation";
-import { createCovenantWitness } from "./transactions";
+import { findInputUTXO } from "../utils/utxo/findInputUTXO";
+import {
+  batchWithdrawalTransaction,
+  createCovenantWitness,
+  filterValidCovenantSignatures,
+} from "./transactions";
+
+// The steps of the registration of a delegation, in the order they are signed
+const REGISTRATION_STEPS: RegistrationStep[] = [
+  "staking-slashing",
+  "unbonding-slashing",
+  "proof-of-possession",
+  "create-btc-delegation-msg",
+];
+
+// The progress of the methods signing a single BTC transaction
+const SINGLE_STEP: StepProgress = { stepIndex: 0, totalSteps: 1 };
+
+const registrationProgress = (step: RegistrationStep): StepProgress => ({
+  stepIndex: REGISTRATION_STEPS.indexOf(step),
+  totalSteps: REGISTRATION_STEPS.length,
+});
+
+// The event of a step on its channel
+type StepEvent = {
+  [C in DelegationChannel]: {
+    channel: C;
+    data: Parameters<ManagerEvents[C]>[0];
+  };
+}[DelegationChannel];
 
 export class BabylonBtcStakingManager {
   private upgradeConfig?: UpgradeConfig;
@@ -52,6 +114,7 @@ export class BabylonBtcStakingManager {
     private babylonProvider: BabylonProvider,
     private ee?: Emitter<ManagerEvents>,
     upgradeConfig?: UpgradeConfig,
+    private signingPolicy?: SigningPolicy,
   ) {
     this.network = network;
 
@@ -76,6 +139,26 @@ export class BabylonBtcStakingManager {
    * fee rate is above 1. If the fee rate is too low, the transaction will not
    * be included in a block.
    * @param babylonAddress - The Babylon bech32 encoded address of the staker.
+   * @param options - The options of the registration.
+   * @param options.coinSelector - The strategy selecting the UTXOs funding the
+   * staking transaction, largest first by default.
+   * @param options.replaceable - Whether the staking transaction signals opt-in
+   * replace-by-fee. Bumping its fee requires registering the replacement
+   * again.
+   * @param options.multisigFunding - The multisig wallet funding the staking
+   * transaction with its UTXOs, in which case the staker BTC info is the
+   * single staking key designated by the wallet.
+   * @param options.feeSponsor - The wallet paying the fee of the staking
+   * transaction, in which case the input UTXOs only cover the staking amount.
+   * @param options.checkpoint - The checkpoint of the registration, see
+   * `RegistrationCheckpoint`. The signatures of each completed step are added
+   * to it, and the steps already in it are not signed again, so that a failed
+   * registration can be resumed by calling the method again with the same
+   * checkpoint.
+   * @param options.signal - The signal aborting the flow, e.g. when the user
+   * closes the signing modal. It is checked before each wallet request and
+   * passed to `signPsbt`. An aborted flow runs the `onAbort` hooks of the
+   * providers with a pending request and rejects with the `ABORTED` error code.
    * @returns The signed babylon pre-staking registration transaction in base64
    * format.
    */
@@ -86,10 +169,19 @@ export class BabylonBtcStakingManager {
     inputUTXOs: UTXO[],
     feeRate: number,
     babylonAddress: string,
+    options: StakingRegistrationOptions = {},
   ): Promise<{
     signedBabylonTx: Uint8Array;
     stakingTx: Transaction;
   }> {
+    const {
+      coinSelector,
+      replaceable = false,
+      multisigFunding,
+      feeSponsor,
+      checkpoint,
+      signal,
+    } = options;
     if (babylonBtcTipHeight === 0) {
       throw new Error("Babylon BTC tip height cannot be 0");
     }
@@ -119,6 +211,7 @@ export class BabylonBtcStakingManager {
       stakingInput.stakingAmountSat,
       inputUTXOs,
       feeRate,
+      { coinSelector, replaceable, multisigFunding, feeSponsor },
     );
 
     // Create delegation message without including inclusion proof
@@ -130,14 +223,121 @@ export class BabylonBtcStakingManager {
       babylonAddress,
       stakerBtcInfo,
       params,
+      { checkpoint, signal },
     );
 
-    this.ee?.emit("delegation:create", {
-      type: "create-btc-delegation-msg",
-    });
+    return {
+      signedBabylonTx: await this.signDelegationMsg(
+        "delegation:create",
+        msg,
+        signal,
+      ),
+      stakingTx: transaction,
+    };
+  }
+
+  /**
+   * Creates a signed Pre-Staking Registration transaction for a re-staking
+   * transaction, which spends expired outputs of previous delegations through
+   * their timelock path straight into a new staking output. This saves the
+   * fee and the confirmation of a withdrawal transaction.
+   *
+   * The withdrawn outputs can be staking outputs whose timelock expired,
+   * unbonding outputs or slashing change outputs. The input UTXOs only fund
+   * the part of the staking amount and fee not covered by the withdrawn
+   * outputs, and can be empty.
+   *
+   * @param stakerBtcInfo - The staker BTC info which includes the BTC address
+   * and the no-coord public key in hex format.
+   * @param stakingInput - The staking inputs of the new delegation.
+   * @param babylonBtcTipHeight - The Babylon BTC tip height.
+   * @param withdrawals - The expired outputs of the previous delegations to
+   * re-stake, each with the staking inputs and params version of its
+   * delegation, the transaction to withdraw from and the withdrawal type.
+   * @param inputUTXOs - The UTXOs that can fund the rest of the staking
+   * transaction, possibly none.
+   * @param feeRate - The fee rate in satoshis per byte.
+   * @param babylonAddress - The Babylon bech32 encoded address of the staker.
+   * @param options - The options of the registration.
+   * @param options.coinSelector - The strategy selecting the input UTXOs,
+   * largest first by default.
+   * @param options.checkpoint - The checkpoint of the registration, see
+   * `RegistrationCheckpoint`. The signatures of each completed step are added
+   * to it, and the steps already in it are not signed again, so that a failed
+   * registration can be resumed by calling the method again with the same
+   * checkpoint.
+   * @param options.signal - The signal aborting the flow.
+   * @returns The signed babylon pre-staking registration transaction and the
+   * unsigned re-staking transaction.
+   */
+  async restakeRegistrationBabylonTransaction(
+    stakerBtcInfo: StakerInfo,
+    stakingInput: StakingInputs,
+    babylonBtcTipHeight: number,
+    withdrawals: DelegationWithdrawal[],
+    inputUTXOs: UTXO[],
+    feeRate: number,
+    babylonAddress: string,
+    options: Pick<
+      StakingRegistrationOptions,
+      "coinSelector" | "checkpoint" | "signal"
+    > = {},
+  ): Promise<{
+    signedBabylonTx: Uint8Array;
+    stakingTx: Transaction;
+  }> {
+    const { coinSelector, checkpoint, signal } = options;
+    if (babylonBtcTipHeight === 0) {
+      throw new Error("Babylon BTC tip height cannot be 0");
+    }
+    if (!isValidBabylonAddress(babylonAddress)) {
+      throw new Error("Invalid Babylon address");
+    }
+
+    // Get the Babylon params based on the BTC tip height from Babylon chain
+    const params = getBabylonParamByBtcHeight(
+      babylonBtcTipHeight,
+      this.stakingParams,
+    );
+
+    const staking = new Staking(
+      this.network,
+      stakerBtcInfo,
+      params,
+      stakingInput.finalityProviderPksNoCoordHex,
+      stakingInput.stakingTimelock,
+    );
+
+    const { withdrawalInputs } = this.createWithdrawalInputs(
+      stakerBtcInfo,
+      withdrawals,
+    );
+    const { transaction } = staking.createRestakingTransaction(
+      withdrawalInputs,
+      stakingInput.stakingAmountSat,
+      inputUTXOs,
+      feeRate,
+      { coinSelector },
+    );
+
+    // Create delegation message without including inclusion proof
+    const msg = await this.createBtcDelegationMsg(
+      "delegation:create",
+      staking,
+      stakingInput,
+      transaction,
+      babylonAddress,
+      stakerBtcInfo,
+      params,
+      { checkpoint, signal },
+    );
 
     return {
-      signedBabylonTx: await this.babylonProvider.signTransaction(msg),
+      signedBabylonTx: await this.signDelegationMsg(
+        "delegation:create",
+        msg,
+        signal,
+      ),
       stakingTx: transaction,
     };
   }
@@ -145,6 +345,17 @@ export class BabylonBtcStakingManager {
   /**
    * Create a signed staking expansion transaction that is ready to be sent to
    * the Babylon chain.
+   *
+   * The staking amount of the expansion can be higher than the previous
+   * staking amount, the increase is then staked from the funding UTXO along
+   * with the fees. The expansion is funded by a single UTXO, whose transaction
+   * is the funding transaction registered on Babylon. It is selected by the
+   * given coin selector, see `Staking.createStakingExpansionTransaction` for
+   * the default strategy.
+   *
+   * A failed registration can be resumed with the same checkpoint, and the
+   * flow can be aborted with the signal, see
+   * `preStakeRegistrationBabylonTransaction`.
    */
   async stakingExpansionRegistrationBabylonTransaction(
     stakerBtcInfo: StakerInfo,
@@ -159,10 +370,15 @@ export class BabylonBtcStakingManager {
       paramVersion: number;
       stakingInput: StakingInputs;
     },
+    options: Pick<
+      StakingRegistrationOptions,
+      "coinSelector" | "checkpoint" | "signal"
+    > = {},
   ): Promise<{
     signedBabylonTx: Uint8Array;
     stakingTx: Transaction;
   }> {
+    const { coinSelector, checkpoint, signal } = options;
     // Perform validation for the staking expansion inputs
     validateStakingExpansionInputs({
       babylonBtcTipHeight,
@@ -197,6 +413,7 @@ export class BabylonBtcStakingManager {
         feeRate,
         paramsForPreviousStakingTx,
         previousStakingTxInfo,
+        { coinSelector },
       );
     let fundingTx;
     try {
@@ -223,15 +440,17 @@ export class BabylonBtcStakingManager {
           previousStakingTx: previousStakingTxInfo.stakingTx,
           fundingTx: Transaction.fromHex(fundingTx),
         },
+        checkpoint,
+        signal,
       },
     );
 
-    this.ee?.emit("delegation:expand", {
-      type: "create-btc-delegation-msg",
-    });
-
     return {
-      signedBabylonTx: await this.babylonProvider.signTransaction(msg),
+      signedBabylonTx: await this.signDelegationMsg(
+        "delegation:expand",
+        msg,
+        signal,
+      ),
       stakingTx: stakingExpansionTx,
     };
   }
@@ -251,6 +470,9 @@ export class BabylonBtcStakingManager {
    * transaction
    * @param {Object} previousStakingTxInfo - Information about the previous
    * staking transaction being expanded
+   * @param {Object} [options] - The options of the expansion transaction
+   * @param {CoinSelector} [options.coinSelector] - The strategy selecting the
+   * funding UTXO
    * @returns {number} - The estimated transaction fee in satoshis
    * @throws {Error} - If validation fails or the fee cannot be calculated
    */
@@ -265,7 +487,9 @@ export class BabylonBtcStakingManager {
       paramVersion: number;
       stakingInput: StakingInputs;
     },
+    options: Pick<StakingTransactionOptions, "coinSelector"> = {},
   ): number {
+    const { coinSelector } = options;
     // Validate all input parameters before fee calculation
     validateStakingExpansionInputs({
       babylonBtcTipHeight,
@@ -306,6 +530,7 @@ export class BabylonBtcStakingManager {
       feeRate,
       paramsForPreviousStakingTx,
       previousStakingTxInfo,
+      { coinSelector },
     );
 
     return fee;
@@ -325,6 +550,16 @@ export class BabylonBtcStakingManager {
    * @param inclusionProof - Merkle Proof of Inclusion: Verifies transaction
    * inclusion in a Bitcoin block that is k-deep.
    * @param babylonAddress - The Babylon bech32 encoded address of the staker.
+   * @param options - The options of the registration.
+   * @param options.blockHeaderHex - Optional 80 bytes block header (or 32 bytes
+   * merkle root) of the block including the staking transaction. When provided,
+   * the inclusion proof is verified against it before any signing request.
+   * @param options.checkpoint - The checkpoint of the registration, see
+   * `RegistrationCheckpoint`. The signatures of each completed step are added
+   * to it, and the steps already in it are not signed again, so that a failed
+   * registration can be resumed by calling the method again with the same
+   * checkpoint.
+   * @param options.signal - The signal aborting the flow.
    * @returns The signed babylon transaction in base64 format.
    */
   async postStakeRegistrationBabylonTransaction(
@@ -334,9 +569,11 @@ export class BabylonBtcStakingManager {
     stakingInput: StakingInputs,
     inclusionProof: InclusionProof,
     babylonAddress: string,
+    options: PostStakeRegistrationOptions = {},
   ): Promise<{
     signedBabylonTx: Uint8Array;
   }> {
+    const { blockHeaderHex, checkpoint, signal } = options;
     // Get the Babylon params at the time of the staking transaction
     const params = getBabylonParamByBtcHeight(
       stakingTxHeight,
@@ -366,6 +603,12 @@ export class BabylonBtcStakingManager {
       this.network,
     );
 
+    // Catch a bad inclusion proof locally instead of having the delegation
+    // rejected by the Babylon chain
+    if (blockHeaderHex) {
+      verifyInclusionProof(stakingTx, inclusionProof, blockHeaderHex);
+    }
+
     // Create delegation message
     const delegationMsg = await this.createBtcDelegationMsg(
       "delegation:register",
@@ -377,16 +620,17 @@ export class BabylonBtcStakingManager {
       params,
       {
         inclusionProof: this.getInclusionProof(inclusionProof),
+        checkpoint,
+        signal,
       },
     );
 
-    this.ee?.emit("delegation:register", {
-      type: "create-btc-delegation-msg",
-    });
-
     return {
-      signedBabylonTx:
-        await this.babylonProvider.signTransaction(delegationMsg),
+      signedBabylonTx: await this.signDelegationMsg(
+        "delegation:register",
+        delegationMsg,
+        signal,
+      ),
     };
   }
 
@@ -402,6 +646,13 @@ export class BabylonBtcStakingManager {
    * @param feeRate - The fee rate in satoshis per byte. Typical value for the
    * fee rate is above 1. If the fee rate is too low, the transaction will not
    * be included in a block.
+   * @param options - The options of the staking transaction.
+   * @param options.coinSelector - The strategy selecting the UTXOs funding the
+   * staking transaction, largest first by default.
+   * @param options.multisigFunding - The multisig wallet funding the staking
+   * transaction with its UTXOs.
+   * @param options.feeSponsor - The wallet paying the fee of the staking
+   * transaction.
    * @returns The estimated BTC fee in satoshis.
    */
   estimateBtcStakingFee(
@@ -410,7 +661,9 @@ export class BabylonBtcStakingManager {
     stakingInput: StakingInputs,
     inputUTXOs: UTXO[],
     feeRate: number,
+    options: Omit<StakingTransactionOptions, "replaceable"> = {},
   ): number {
+    const { coinSelector, multisigFunding, feeSponsor } = options;
     if (babylonBtcTipHeight === 0) {
       throw new Error("Babylon BTC tip height cannot be 0");
     }
@@ -432,6 +685,7 @@ export class BabylonBtcStakingManager {
       stakingInput.stakingAmountSat,
       inputUTXOs,
       feeRate,
+      { coinSelector, multisigFunding, feeSponsor },
     );
 
     return stakingFee;
@@ -448,6 +702,14 @@ export class BabylonBtcStakingManager {
    * transaction.
    * @param stakingParamsVersion - The params version that was used to create the
    * delegation in Babylon chain
+   * @param options - The options of the signing.
+   * @param options.multisigFunding - The multisig wallet funding the staking
+   * transaction. Each of its cosigners signs the staking transaction and
+   * their signatures are combined before the transaction is extracted.
+   * @param options.feeSponsor - The wallet paying the fee of the staking
+   * transaction. Its provider only signs the inputs of the sponsor, and the
+   * staker only signs the other inputs.
+   * @param options.signal - The signal aborting the flow.
    * @returns The signed staking transaction.
    */
   async createSignedBtcStakingTransaction(
@@ -456,7 +718,9 @@ export class BabylonBtcStakingManager {
     unsignedStakingTx: Transaction,
     inputUTXOs: UTXO[],
     stakingParamsVersion: number,
+    options: StakingSigningOptions = {},
   ): Promise<Transaction> {
+    const { multisigFunding, feeSponsor, signal } = options;
     const params = getBabylonParamByVersion(
       stakingParamsVersion,
       this.stakingParams,
@@ -474,7 +738,12 @@ export class BabylonBtcStakingManager {
       stakingInput.stakingTimelock,
     );
 
-    const stakingPsbt = staking.toStakingPsbt(unsignedStakingTx, inputUTXOs);
+    this.validateStakingOutputValue(staking, unsignedStakingTx, stakingInput);
+
+    const stakingPsbt = staking.toStakingPsbt(unsignedStakingTx, inputUTXOs, {
+      multisigFunding,
+      feeSponsor,
+    });
 
     const contracts: Contract[] = [
       {
@@ -490,26 +759,98 @@ export class BabylonBtcStakingManager {
       },
     ];
 
-    this.ee?.emit("delegation:stake", {
-      stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
-      finalityProviders: stakingInput.finalityProviderPksNoCoordHex,
-      covenantPks: params.covenantNoCoordPks,
-      covenantThreshold: params.covenantQuorum,
-      unbondingTimeBlocks: params.unbondingTime,
-      stakingDuration: stakingInput.stakingTimelock,
-      type: "staking",
-    });
-
     const unsignedPsbtHex = stakingPsbt.toHex();
-
-    const signedStakingPsbtHex = await this.btcProvider.signPsbt(
-      unsignedPsbtHex,
+    const stakeEvents: StepEvent[] = [
       {
-        contracts,
-        action: {
-          name: ActionName.SIGN_BTC_STAKING_TRANSACTION,
+        channel: "delegation:stake",
+        data: {
+          stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
+          finalityProviders: stakingInput.finalityProviderPksNoCoordHex,
+          covenantPks: params.covenantNoCoordPks,
+          covenantThreshold: params.covenantQuorum,
+          unbondingTimeBlocks: params.unbondingTime,
+          stakingDuration: stakingInput.stakingTimelock,
+          type: "staking",
+          psbtHex: unsignedPsbtHex,
+          ...SINGLE_STEP,
         },
       },
+    ];
+    const signPsbtOptions = {
+      contracts,
+      action: {
+        name: ActionName.SIGN_BTC_STAKING_TRANSACTION,
+      },
+      signal,
+    };
+    await this.checkSigningPolicy(stakingPsbt, signPsbtOptions, [
+      { stakingInput, stakingParamsVersion },
+    ]);
+
+    if (multisigFunding || feeSponsor) {
+      // Each party only signs its own inputs
+      const sponsorInputIndexes = feeSponsor
+        ? unsignedStakingTx.ins.flatMap(({ hash, index }, i) =>
+            feeSponsor.inputUTXOs.some(
+              ({ txid, vout }) =>
+                transactionIdToHash(txid).equals(hash) && vout === index,
+            )
+              ? [i]
+              : [],
+          )
+        : [];
+      const stakerSignPsbtOptions = feeSponsor
+        ? {
+            ...signPsbtOptions,
+            inputIndexes: unsignedStakingTx.ins
+              .map((_, i) => i)
+              .filter((i) => !sponsorInputIndexes.includes(i)),
+          }
+        : signPsbtOptions;
+
+      // The cosigners sign in turn, as each of them may need to approve the
+      // transaction on their own device. The signal is checked between their
+      // requests so that no wallet is asked to sign once the flow is aborted.
+      const signers = multisigFunding?.cosigners ?? [this.btcProvider];
+      const signedPsbts = await this.runStep(
+        stakeEvents,
+        async () => {
+          const psbts: Psbt[] = [];
+          for (const signer of signers) {
+            throwIfAborted(signal);
+            psbts.push(
+              Psbt.fromHex(
+                await signer.signPsbt(unsignedPsbtHex, stakerSignPsbtOptions),
+              ),
+            );
+          }
+          if (feeSponsor) {
+            throwIfAborted(signal);
+            psbts.push(
+              Psbt.fromHex(
+                await feeSponsor.provider.signPsbt(unsignedPsbtHex, {
+                  ...signPsbtOptions,
+                  inputIndexes: sponsorInputIndexes,
+                }),
+              ),
+            );
+          }
+          return psbts;
+        },
+        signal,
+        feeSponsor ? [...signers, feeSponsor.provider] : signers,
+      );
+
+      const signedStakingPsbt = combineSignedPsbts(stakingPsbt, signedPsbts);
+      validateSignedPsbtIntegrity(stakingPsbt, signedStakingPsbt);
+
+      return signedStakingPsbt.extractTransaction();
+    }
+
+    const signedStakingPsbtHex = await this.runStep(
+      stakeEvents,
+      () => this.btcProvider.signPsbt(unsignedPsbtHex, signPsbtOptions),
+      signal,
     );
 
     const signedStakingPsbt = Psbt.fromHex(signedStakingPsbtHex);
@@ -518,6 +859,130 @@ export class BabylonBtcStakingManager {
     return signedStakingPsbt.extractTransaction();
   }
 
+  /**
+   * Creates a signed re-staking transaction that is ready to be sent to the
+   * BTC network. The wallet is shown the staking contract of the new
+   * delegation along with the withdrawal contract of each withdrawn output.
+   * @param stakerBtcInfo - The staker BTC info which includes the BTC address
+   * and the no-coord public key in hex format.
+   * @param stakingInput - The staking inputs of the new delegation.
+   * @param unsignedRestakingTx - The unsigned re-staking transaction.
+   * @param withdrawals - The expired outputs spent by the transaction, in the
+   * order they were given to `restakeRegistrationBabylonTransaction`.
+   * @param inputUTXOs - The UTXOs that were used to fund the rest of the
+   * transaction, possibly none.
+   * @param stakingParamsVersion - The params version that was used to create
+   * the delegation in Babylon chain
+   * @param options - The options of the signing.
+   * @param options.signal - The signal aborting the flow.
+   * @returns The signed re-staking transaction.
+   */
+  async createSignedBtcRestakingTransaction(
+    stakerBtcInfo: StakerInfo,
+    stakingInput: StakingInputs,
+    unsignedRestakingTx: Transaction,
+    withdrawals: DelegationWithdrawal[],
+    inputUTXOs: UTXO[],
+    stakingParamsVersion: number,
+    options: SigningOptions = {},
+  ): Promise<Transaction> {
+    const { signal } = options;
+    const params = getBabylonParamByVersion(
+      stakingParamsVersion,
+      this.stakingParams,
+    );
+
+    const staking = new Staking(
+      this.network,
+      stakerBtcInfo,
+      params,
+      stakingInput.finalityProviderPksNoCoordHex,
+      stakingInput.stakingTimelock,
+    );
+
+    const { withdrawalInputs, timelocks } = this.createWithdrawalInputs(
+      stakerBtcInfo,
+      withdrawals,
+    );
+    this.validateStakingOutputValue(staking, unsignedRestakingTx, stakingInput);
+    const restakingPsbt = staking.toRestakingPsbt(
+      unsignedRestakingTx,
+      withdrawalInputs,
+      inputUTXOs,
+    );
+
+    const contracts: Contract[] = [
+      {
+        id: ContractId.STAKING,
+        params: {
+          stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
+          finalityProviders: stakingInput.finalityProviderPksNoCoordHex,
+          covenantPks: params.covenantNoCoordPks,
+          covenantThreshold: params.covenantQuorum,
+          minUnbondingTime: params.unbondingTime,
+          stakingDuration: stakingInput.stakingTimelock,
+        },
+      },
+      ...timelocks.map((timelockBlocks) =>
+        this.createWithdrawContract(
+          stakerBtcInfo,
+          timelockBlocks,
+          restakingPsbt,
+        ),
+      ),
+    ];
+
+    const unsignedPsbtHex = restakingPsbt.toHex();
+    const restakeEvents: StepEvent[] = [
+      ...withdrawals.map(({ type }, i): StepEvent => ({
+        channel: "delegation:withdraw",
+        data: {
+          stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
+          timelockBlocks: timelocks[i],
+          type,
+          psbtHex: unsignedPsbtHex,
+          ...SINGLE_STEP,
+        },
+      })),
+      {
+        channel: "delegation:stake",
+        data: {
+          stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
+          finalityProviders: stakingInput.finalityProviderPksNoCoordHex,
+          covenantPks: params.covenantNoCoordPks,
+          covenantThreshold: params.covenantQuorum,
+          unbondingTimeBlocks: params.unbondingTime,
+          stakingDuration: stakingInput.stakingTimelock,
+          type: "staking",
+          psbtHex: unsignedPsbtHex,
+          ...SINGLE_STEP,
+        },
+      },
+    ];
+
+    const signPsbtOptions = {
+      contracts,
+      action: {
+        name: ActionName.SIGN_BTC_STAKING_TRANSACTION,
+      },
+      signal,
+    };
+    await this.checkSigningPolicy(restakingPsbt, signPsbtOptions, [
+      { stakingInput, stakingParamsVersion },
+    ]);
+
+    const signedRestakingPsbtHex = await this.runStep(
+      restakeEvents,
+      () => this.btcProvider.signPsbt(unsignedPsbtHex, signPsbtOptions),
+      signal,
+    );
+
+    const signedRestakingPsbt = Psbt.fromHex(signedRestakingPsbtHex);
+    validateSignedPsbtIntegrity(restakingPsbt, signedRestakingPsbt);
+
+    return signedRestakingPsbt.extractTransaction();
+  }
+
   /**
    * Creates a signed staking expansion transaction that is ready to be sent to
    * the BTC network.
@@ -534,6 +999,8 @@ export class BabylonBtcStakingManager {
    * staking transaction
    * @param {Array} covenantStakingExpansionSignatures - Covenant committee
    * signatures for the expansion
+   * @param {SigningOptions} [options] - The options of the signing
+   * @param {AbortSignal} [options.signal] - The signal aborting the flow
    * @returns {Promise<Transaction>} The fully signed staking expansion
    * transaction
    * @throws {Error} If signing fails, validation fails, or required data is
@@ -554,7 +1021,9 @@ export class BabylonBtcStakingManager {
       btcPkHex: string;
       sigHex: string;
     }[],
+    options: SigningOptions = {},
   ): Promise<Transaction> {
+    const { signal } = options;
     validateStakingExpansionInputs({
       inputUTXOs,
       stakingInput,
@@ -588,6 +1057,13 @@ export class BabylonBtcStakingManager {
       this.stakingParams,
     );
 
+    // The expansion output holds the whole staking amount of the expansion
+    this.validateStakingOutputValue(
+      staking,
+      unsignedStakingExpansionTx,
+      stakingInput,
+    );
+
     // Create the PSBT for the staking expansion transaction
     // This PSBT will have two inputs: the previous staking output and a
     // funding UTXO
@@ -615,29 +1091,45 @@ export class BabylonBtcStakingManager {
 
     // Emit an event to notify listeners about the staking expansion
     // This can be used for logging, monitoring, or UI updates
-    this.ee?.emit("delegation:stake", {
-      stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
-      finalityProviders: stakingInput.finalityProviderPksNoCoordHex,
-      covenantPks: params.covenantNoCoordPks,
-      covenantThreshold: params.covenantQuorum,
-      unbondingTimeBlocks: params.unbondingTime,
-      stakingDuration: stakingInput.stakingTimelock,
-      type: "staking-expansion",
-    });
+    const unsignedStakingExpansionPsbtHex = stakingExpansionPsbt.toHex();
+
+    const signPsbtOptions = {
+      contracts,
+      action: {
+        name: ActionName.SIGN_BTC_STAKING_EXPANSION_TRANSACTION,
+      },
+      signal,
+    };
+    await this.checkSigningPolicy(stakingExpansionPsbt, signPsbtOptions, [
+      { stakingInput, stakingParamsVersion },
+    ]);
 
     // Sign the PSBT using the BTC provider (wallet)
     // The wallet will sign the transaction based on the contract information
     // provided
-    const unsignedStakingExpansionPsbtHex = stakingExpansionPsbt.toHex();
-
-    const signedStakingPsbtHex = await this.btcProvider.signPsbt(
-      unsignedStakingExpansionPsbtHex,
-      {
-        contracts,
-        action: {
-          name: ActionName.SIGN_BTC_STAKING_EXPANSION_TRANSACTION,
+    const signedStakingPsbtHex = await this.runStep(
+      [
+        {
+          channel: "delegation:stake",
+          data: {
+            stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
+            finalityProviders: stakingInput.finalityProviderPksNoCoordHex,
+            covenantPks: params.covenantNoCoordPks,
+            covenantThreshold: params.covenantQuorum,
+            unbondingTimeBlocks: params.unbondingTime,
+            stakingDuration: stakingInput.stakingTimelock,
+            type: "staking-expansion",
+            psbtHex: unsignedStakingExpansionPsbtHex,
+            ...SINGLE_STEP,
+          },
         },
-      },
+      ],
+      () =>
+        this.btcProvider.signPsbt(
+          unsignedStakingExpansionPsbtHex,
+          signPsbtOptions,
+        ),
+      signal,
     );
 
     const signedStakingExpansionPsbt = Psbt.fromHex(signedStakingPsbtHex);
@@ -670,6 +1162,39 @@ export class BabylonBtcStakingManager {
       Buffer.from(covenant, "hex"),
     );
 
+    // Drop the covenant signatures that do not sign the previous staking
+    // output unbonding path of the staking expansion transaction. The sighash
+    // commits to the outputs spent by both inputs.
+    const previousStakingOutput =
+      previousStakingTxInfo.stakingTx.outs[
+        signedStakingExpansionTx.ins[0].index
+      ];
+    const fundingUTXO = findInputUTXO(
+      inputUTXOs,
+      signedStakingExpansionTx.ins[1],
+    );
+    const previousStaking = new Staking(
+      this.network,
+      stakerBtcInfo,
+      previousParams,
+      previousStakingTxInfo.stakingInput.finalityProviderPksNoCoordHex,
+      previousStakingTxInfo.stakingInput.stakingTimelock,
+    );
+    const validCovenantSignatures = filterValidCovenantSignatures(
+      signedStakingExpansionTx,
+      0,
+      [
+        previousStakingOutput,
+        {
+          script: Buffer.from(fundingUTXO.scriptPubKey, "hex"),
+          value: fundingUTXO.value,
+        },
+      ],
+      previousStaking.buildScripts().unbondingScript,
+      covenantStakingExpansionSignatures,
+      previousParams.covenantQuorum,
+    );
+
     // Create the witness that includes both the staker's signature and covenant
     // signatures
     // The witness is the data that proves the transaction is authorized
@@ -679,7 +1204,7 @@ export class BabylonBtcStakingManager {
       // to unbond the previousstaking output.
       signedStakingExpansionTx.ins[0].witness,
       covenantBuffers,
-      covenantStakingExpansionSignatures,
+      validCovenantSignatures,
       previousParams.covenantQuorum,
     );
 
@@ -702,6 +1227,8 @@ export class BabylonBtcStakingManager {
    * @param stakingParamsVersion - The params version that was used to create the
    * delegation in Babylon chain
    * @param stakingTx - The staking transaction.
+   * @param options - The options of the signing.
+   * @param options.signal - The signal aborting the flow.
    * @returns The partial signed unbonding transaction and its fee.
    */
   async createPartialSignedBtcUnbondingTransaction(
@@ -709,7 +1236,9 @@ export class BabylonBtcStakingManager {
     stakingInput: StakingInputs,
     stakingParamsVersion: number,
     stakingTx: Transaction,
+    options: SigningOptions = {},
   ): Promise<TransactionResult> {
+    const { signal } = options;
     // Get the staking params at the time of the staking transaction
     const params = getBabylonParamByVersion(
       stakingParamsVersion,
@@ -754,27 +1283,38 @@ export class BabylonBtcStakingManager {
       },
     ];
 
-    this.ee?.emit("delegation:unbond", {
-      stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
-      finalityProviders: stakingInput.finalityProviderPksNoCoordHex,
-      covenantPks: params.covenantNoCoordPks,
-      covenantThreshold: params.covenantQuorum,
-      stakingDuration: stakingInput.stakingTimelock,
-      unbondingTimeBlocks: params.unbondingTime,
-      unbondingFeeSat: params.unbondingFeeSat,
-      type: "unbonding",
-    });
-
     const unsignedUnbondingPsbtHex = psbt.toHex();
 
-    const signedUnbondingPsbtHex = await this.btcProvider.signPsbt(
-      unsignedUnbondingPsbtHex,
-      {
-        contracts,
-        action: {
-          name: ActionName.SIGN_BTC_UNBONDING_TRANSACTION,
-        },
+    const signPsbtOptions = {
+      contracts,
+      action: {
+        name: ActionName.SIGN_BTC_UNBONDING_TRANSACTION,
       },
+      signal,
+    };
+    await this.checkSigningPolicy(psbt, signPsbtOptions);
+
+    const signedUnbondingPsbtHex = await this.runStep(
+      [
+        {
+          channel: "delegation:unbond",
+          data: {
+            stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
+            finalityProviders: stakingInput.finalityProviderPksNoCoordHex,
+            covenantPks: params.covenantNoCoordPks,
+            covenantThreshold: params.covenantQuorum,
+            stakingDuration: stakingInput.stakingTimelock,
+            unbondingTimeBlocks: params.unbondingTime,
+            unbondingFeeSat: params.unbondingFeeSat,
+            type: "unbonding",
+            psbtHex: unsignedUnbondingPsbtHex,
+            ...SINGLE_STEP,
+          },
+        },
+      ],
+      () =>
+        this.btcProvider.signPsbt(unsignedUnbondingPsbtHex, signPsbtOptions),
+      signal,
     );
 
     const signedUnbondingPsbt = Psbt.fromHex(signedUnbondingPsbtHex);
@@ -800,6 +1340,8 @@ export class BabylonBtcStakingManager {
    * @param unsignedUnbondingTx - The unsigned unbonding transaction.
    * @param covenantUnbondingSignatures - The covenant unbonding signatures.
    * It can be retrieved from the Babylon chain or API.
+   * @param options - The options of the signing.
+   * @param options.signal - The signal aborting the flow.
    * @returns The signed unbonding transaction and its fee.
    */
   async createSignedBtcUnbondingTransaction(
@@ -812,7 +1354,9 @@ export class BabylonBtcStakingManager {
       btcPkHex: string;
       sigHex: string;
     }[],
+    options: SigningOptions = {},
   ): Promise<TransactionResult> {
+    const { signal } = options;
     // Get the staking params at the time of the staking transaction
     const params = getBabylonParamByVersion(
       stakingParamsVersion,
@@ -825,6 +1369,7 @@ export class BabylonBtcStakingManager {
         stakingInput,
         stakingParamsVersion,
         stakingTx,
+        { signal },
       );
 
     // Check the computed txid of the signed unbonding transaction is the same as
@@ -835,6 +1380,24 @@ export class BabylonBtcStakingManager {
       );
     }
 
+    // Drop the covenant signatures that do not sign the unbonding path of the
+    // staking output
+    const staking = new Staking(
+      this.network,
+      stakerBtcInfo,
+      params,
+      stakingInput.finalityProviderPksNoCoordHex,
+      stakingInput.stakingTimelock,
+    );
+    const validCovenantSignatures = filterValidCovenantSignatures(
+      signedUnbondingTx,
+      0,
+      [stakingTx.outs[signedUnbondingTx.ins[0].index]],
+      staking.buildScripts().unbondingScript,
+      covenantUnbondingSignatures,
+      params.covenantQuorum,
+    );
+
     // Add covenant unbonding signatures
     // Convert the params of covenants to buffer
     const covenantBuffers = params.covenantNoCoordPks.map((covenant) =>
@@ -846,7 +1409,7 @@ export class BabylonBtcStakingManager {
       // signing is successful
       signedUnbondingTx.ins[0].witness,
       covenantBuffers,
-      covenantUnbondingSignatures,
+      validCovenantSignatures,
       params.covenantQuorum,
     );
     // Overwrite the witness to include the covenant unbonding signatures
@@ -868,6 +1431,11 @@ export class BabylonBtcStakingManager {
    * @param feeRate - The fee rate in satoshis per byte. Typical value for the
    * fee rate is above 1. If the fee rate is too low, the transaction will not
    * be included in a block.
+   * @param options - The options of the withdrawal.
+   * @param options.destinations - The outputs to send the withdrawn funds to,
+   * shown to the wallet in the withdrawal contract. The remainder goes to the
+   * staker address unless a destination receives it.
+   * @param options.signal - The signal aborting the flow.
    * @returns The signed withdrawal transaction and its fee.
    */
   async createSignedBtcWithdrawEarlyUnbondedTransaction(
@@ -876,7 +1444,9 @@ export class BabylonBtcStakingManager {
     stakingParamsVersion: number,
     earlyUnbondingTx: Transaction,
     feeRate: number,
+    options: WithdrawalOptions = {},
   ): Promise<TransactionResult> {
+    const { destinations, signal } = options;
     const params = getBabylonParamByVersion(
       stakingParamsVersion,
       this.stakingParams,
@@ -891,34 +1461,48 @@ export class BabylonBtcStakingManager {
     );
 
     const { psbt: unbondingPsbt, fee } =
-      staking.createWithdrawEarlyUnbondedTransaction(earlyUnbondingTx, feeRate);
+      staking.createWithdrawEarlyUnbondedTransaction(
+        earlyUnbondingTx,
+        feeRate,
+        destinations,
+      );
 
     const contracts: Contract[] = [
-      {
-        id: ContractId.WITHDRAW,
-        params: {
-          stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
-          timelockBlocks: params.unbondingTime,
-        },
-      },
+      this.createWithdrawContract(
+        stakerBtcInfo,
+        params.unbondingTime,
+        unbondingPsbt,
+        destinations,
+      ),
     ];
 
-    this.ee?.emit("delegation:withdraw", {
-      stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
-      timelockBlocks: params.unbondingTime,
-      type: "early-unbonded",
-    });
-
     const unsignedWithdrawalPsbtHex = unbondingPsbt.toHex();
 
-    const signedWithdrawalPsbtHex = await this.btcProvider.signPsbt(
-      unsignedWithdrawalPsbtHex,
-      {
-        contracts,
-        action: {
-          name: ActionName.SIGN_BTC_WITHDRAW_TRANSACTION,
-        },
+    const signPsbtOptions = {
+      contracts,
+      action: {
+        name: ActionName.SIGN_BTC_WITHDRAW_TRANSACTION,
       },
+      signal,
+    };
+    await this.checkSigningPolicy(unbondingPsbt, signPsbtOptions);
+
+    const signedWithdrawalPsbtHex = await this.runStep(
+      [
+        {
+          channel: "delegation:withdraw",
+          data: {
+            stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
+            timelockBlocks: params.unbondingTime,
+            type: "early-unbonded",
+            psbtHex: unsignedWithdrawalPsbtHex,
+            ...SINGLE_STEP,
+          },
+        },
+      ],
+      () =>
+        this.btcProvider.signPsbt(unsignedWithdrawalPsbtHex, signPsbtOptions),
+      signal,
     );
 
     const signedWithdrawalPsbt = Psbt.fromHex(signedWithdrawalPsbtHex);
@@ -942,6 +1526,11 @@ export class BabylonBtcStakingManager {
    * @param feeRate - The fee rate in satoshis per byte. Typical value for the
    * fee rate is above 1. If the fee rate is too low, the transaction will not
    * be included in a block.
+   * @param options - The options of the withdrawal.
+   * @param options.destinations - The outputs to send the withdrawn funds to,
+   * shown to the wallet in the withdrawal contract. The remainder goes to the
+   * staker address unless a destination receives it.
+   * @param options.signal - The signal aborting the flow.
    * @returns The signed withdrawal transaction and its fee.
    */
   async createSignedBtcWithdrawStakingExpiredTransaction(
@@ -950,7 +1539,9 @@ export class BabylonBtcStakingManager {
     stakingParamsVersion: number,
     stakingTx: Transaction,
     feeRate: number,
+    options: WithdrawalOptions = {},
   ): Promise<TransactionResult> {
+    const { destinations, signal } = options;
     const params = getBabylonParamByVersion(
       stakingParamsVersion,
       this.stakingParams,
@@ -967,34 +1558,45 @@ export class BabylonBtcStakingManager {
     const { psbt, fee } = staking.createWithdrawStakingExpiredPsbt(
       stakingTx,
       feeRate,
+      destinations,
     );
 
     const contracts: Contract[] = [
-      {
-        id: ContractId.WITHDRAW,
-        params: {
-          stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
-          timelockBlocks: stakingInput.stakingTimelock,
-        },
-      },
+      this.createWithdrawContract(
+        stakerBtcInfo,
+        stakingInput.stakingTimelock,
+        psbt,
+        destinations,
+      ),
     ];
 
-    this.ee?.emit("delegation:withdraw", {
-      stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
-      timelockBlocks: stakingInput.stakingTimelock,
-      type: "staking-expired",
-    });
-
     const unsignedWithdrawalPsbtHex = psbt.toHex();
 
-    const signedWithdrawalPsbtHex = await this.btcProvider.signPsbt(
-      unsignedWithdrawalPsbtHex,
-      {
-        contracts,
-        action: {
-          name: ActionName.SIGN_BTC_WITHDRAW_TRANSACTION,
-        },
+    const signPsbtOptions = {
+      contracts,
+      action: {
+        name: ActionName.SIGN_BTC_WITHDRAW_TRANSACTION,
       },
+      signal,
+    };
+    await this.checkSigningPolicy(psbt, signPsbtOptions);
+
+    const signedWithdrawalPsbtHex = await this.runStep(
+      [
+        {
+          channel: "delegation:withdraw",
+          data: {
+            stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
+            timelockBlocks: stakingInput.stakingTimelock,
+            type: "staking-expired",
+            psbtHex: unsignedWithdrawalPsbtHex,
+            ...SINGLE_STEP,
+          },
+        },
+      ],
+      () =>
+        this.btcProvider.signPsbt(unsignedWithdrawalPsbtHex, signPsbtOptions),
+      signal,
     );
 
     const signedWithdrawalPsbt = Psbt.fromHex(signedWithdrawalPsbtHex);
@@ -1018,6 +1620,11 @@ export class BabylonBtcStakingManager {
    * @param feeRate - The fee rate in satoshis per byte. Typical value for the
    * fee rate is above 1. If the fee rate is too low, the transaction will not
    * be included in a block.
+   * @param options - The options of the withdrawal.
+   * @param options.destinations - The outputs to send the withdrawn funds to,
+   * shown to the wallet in the withdrawal contract. The remainder goes to the
+   * staker address unless a destination receives it.
+   * @param options.signal - The signal aborting the flow.
    * @returns The signed withdrawal transaction and its fee.
    */
   async createSignedBtcWithdrawSlashingTransaction(
@@ -1026,7 +1633,9 @@ export class BabylonBtcStakingManager {
     stakingParamsVersion: number,
     slashingTx: Transaction,
     feeRate: number,
+    options: WithdrawalOptions = {},
   ): Promise<TransactionResult> {
+    const { destinations, signal } = options;
     const params = getBabylonParamByVersion(
       stakingParamsVersion,
       this.stakingParams,
@@ -1043,34 +1652,48 @@ export class BabylonBtcStakingManager {
     const { psbt, fee } = staking.createWithdrawSlashingPsbt(
       slashingTx,
       feeRate,
+      destinations,
     );
 
     const contracts: Contract[] = [
-      {
-        id: ContractId.WITHDRAW,
-        params: {
-          stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
-          timelockBlocks: params.unbondingTime,
-        },
-      },
+      this.createWithdrawContract(
+        stakerBtcInfo,
+        params.unbondingTime,
+        psbt,
+        destinations,
+      ),
     ];
 
-    this.ee?.emit("delegation:withdraw", {
-      stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
-      timelockBlocks: params.unbondingTime,
-      type: "slashing",
-    });
-
     const unsignedWithdrawSlashingPsbtHex = psbt.toHex();
 
-    const signedWithrawSlashingPsbtHex = await this.btcProvider.signPsbt(
-      unsignedWithdrawSlashingPsbtHex,
-      {
-        contracts,
-        action: {
-          name: ActionName.SIGN_BTC_WITHDRAW_TRANSACTION,
-        },
+    const signPsbtOptions = {
+      contracts,
+      action: {
+        name: ActionName.SIGN_BTC_WITHDRAW_TRANSACTION,
       },
+      signal,
+    };
+    await this.checkSigningPolicy(psbt, signPsbtOptions);
+
+    const signedWithrawSlashingPsbtHex = await this.runStep(
+      [
+        {
+          channel: "delegation:withdraw",
+          data: {
+            stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
+            timelockBlocks: params.unbondingTime,
+            type: "slashing",
+            psbtHex: unsignedWithdrawSlashingPsbtHex,
+            ...SINGLE_STEP,
+          },
+        },
+      ],
+      () =>
+        this.btcProvider.signPsbt(
+          unsignedWithdrawSlashingPsbtHex,
+          signPsbtOptions,
+        ),
+      signal,
     );
 
     const signedWithdrawSlashingPsbt = Psbt.fromHex(
@@ -1084,16 +1707,138 @@ export class BabylonBtcStakingManager {
     };
   }
 
+  /**
+   * Creates a signed batch withdrawal transaction sweeping the expired outputs
+   * of several delegations into one output, that is ready to be sent to the BTC
+   * network. A single fee is paid and the PSBT is signed once.
+   * @param stakerBtcInfo - The staker BTC info which includes the BTC address
+   * and the no-coord public key in hex format.
+   * @param withdrawals - The expired outputs of the delegations to withdraw,
+   * each with the staking inputs and params version of its delegation, the
+   * transaction to withdraw from and the withdrawal type.
+   * @param feeRate - The fee rate in satoshis per byte. Typical value for the
+   * fee rate is above 1. If the fee rate is too low, the transaction will not
+   * be included in a block.
+   * @param options - The options of the withdrawal.
+   * @param options.withdrawalAddress - The address to send the withdrawn funds
+   * to, defaults to the staker address.
+   * @param options.destinations - The outputs to send the withdrawn funds to,
+   * shown to the wallet in the withdrawal contracts. The remainder goes to the
+   * withdrawal address unless a destination receives it.
+   * @param options.signal - The signal aborting the flow.
+   * @returns The signed batch withdrawal transaction and its fee.
+   */
+  async createSignedBtcBatchWithdrawalTransaction(
+    stakerBtcInfo: StakerInfo,
+    withdrawals: DelegationWithdrawal[],
+    feeRate: number,
+    options: BatchWithdrawalOptions = {},
+  ): Promise<TransactionResult> {
+    const {
+      withdrawalAddress = stakerBtcInfo.address,
+      destinations,
+      signal,
+    } = options;
+    if (!isValidBitcoinAddress(withdrawalAddress, this.network)) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        "Invalid withdrawal address",
+      );
+    }
+
+    const { withdrawalInputs, timelocks } = this.createWithdrawalInputs(
+      stakerBtcInfo,
+      withdrawals,
+    );
+
+    let result: PsbtResult;
+    try {
+      result = batchWithdrawalTransaction(
+        withdrawalInputs,
+        withdrawalAddress,
+        this.network,
+        feeRate,
+        "heuristic",
+        destinations,
+      );
+    } catch (error) {
+      throw StakingError.fromUnknown(
+        error,
+        StakingErrorCode.BUILD_TRANSACTION_FAILURE,
+        "Cannot build the batch withdrawal transaction",
+      );
+    }
+    const { psbt, fee } = result;
+
+    const contracts = timelocks.map((timelockBlocks) =>
+      this.createWithdrawContract(
+        stakerBtcInfo,
+        timelockBlocks,
+        psbt,
+        destinations,
+      ),
+    );
+
+    const unsignedWithdrawalPsbtHex = psbt.toHex();
+    const withdrawEvents = withdrawals.map(({ type }, i): StepEvent => ({
+      channel: "delegation:withdraw",
+      data: {
+        stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
+        timelockBlocks: timelocks[i],
+        type,
+        psbtHex: unsignedWithdrawalPsbtHex,
+        ...SINGLE_STEP,
+      },
+    }));
+
+    const signPsbtOptions = {
+      contracts,
+      action: {
+        name: ActionName.SIGN_BTC_WITHDRAW_TRANSACTION,
+      },
+      signal,
+    };
+    await this.checkSigningPolicy(psbt, signPsbtOptions);
+
+    const signedWithdrawalPsbtHex = await this.runStep(
+      withdrawEvents,
+      () =>
+        this.btcProvider.signPsbt(unsignedWithdrawalPsbtHex, signPsbtOptions),
+      signal,
+    );
+
+    const signedWithdrawalPsbt = Psbt.fromHex(signedWithdrawalPsbtHex);
+    validateSignedPsbtIntegrity(psbt, signedWithdrawalPsbt);
+
+    return {
+      transaction: signedWithdrawalPsbt.extractTransaction(),
+      fee,
+    };
+  }
+
   /**
    * Creates a proof of possession for the staker based on ECDSA signature.
    * @param bech32Address - The staker's bech32 address.
+   * @param options - The options of the signing.
+   * @param options.signal - The signal aborting the flow.
    * @returns The proof of possession.
    */
   async createProofOfPossession(
-    channel: "delegation:create" | "delegation:register" | "delegation:expand",
+    channel: RegistrationChannel,
     bech32Address: string,
     stakerBtcAddress: string,
+    options: SigningOptions = {},
   ): Promise<btcstakingpop.ProofOfPossessionBTC> {
+    const { signal } = options;
+    // A script hash address has no single key to sign the proof of
+    // possession, a multisig wallet stakes with its designated staking key
+    if (isP2WSH(stakerBtcAddress, this.network)) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        "The proof of possession cannot be signed for a P2WSH address, use the staking key designated by the multisig wallet",
+      );
+    }
+
     let sigType: btcstakingpop.BTCSigType = btcstakingpop.BTCSigType.ECDSA;
 
     // For Taproot or Native SegWit addresses, use the BIP322 signature scheme
@@ -1124,14 +1869,25 @@ export class BabylonBtcStakingManager {
       },
     );
 
-    this.ee?.emit(channel, {
-      messageToSign,
-      type: "proof-of-possession",
-    });
-
-    const signedBabylonAddress = await this.btcProvider.signMessage(
-      messageToSign,
-      sigType === btcstakingpop.BTCSigType.BIP322 ? "bip322-simple" : "ecdsa",
+    const signedBabylonAddress = await this.runStep(
+      [
+        {
+          channel,
+          data: {
+            messageToSign,
+            type: "proof-of-possession",
+            ...registrationProgress("proof-of-possession"),
+          },
+        },
+      ],
+      () =>
+        this.btcProvider.signMessage(
+          messageToSign,
+          sigType === btcstakingpop.BTCSigType.BIP322
+            ? "bip322-simple"
+            : "ecdsa",
+        ),
+      signal,
     );
 
     let btcSig: Uint8Array;
@@ -1153,6 +1909,79 @@ export class BabylonBtcStakingManager {
     };
   }
 
+  /**
+   * Checks the staking output of a delegation holds its staking amount, so
+   * that the amount checked by the signing policy and registered on the
+   * Babylon chain is the amount staked by the transaction.
+   * @param staking - The staking instance of the delegation.
+   * @param stakingTx - The staking transaction.
+   * @param stakingInput - The staking inputs of the delegation.
+   * @throws {StakingError} - If the staking output is not found in the
+   * transaction or its value is not the staking amount.
+   */
+  private validateStakingOutputValue(
+    staking: Staking,
+    stakingTx: Transaction,
+    { stakingAmountSat }: StakingInputs,
+  ): void {
+    const { outputAddress } = deriveStakingOutputInfo(
+      staking.buildScripts(),
+      this.network,
+    );
+    const { value } =
+      stakingTx.outs[
+        findMatchingTxOutputIndex(stakingTx, outputAddress, this.network)
+      ];
+    if (value !== stakingAmountSat) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_OUTPUT,
+        `Staking output value ${value} does not match the staking amount ${stakingAmountSat}`,
+      );
+    }
+  }
+
+  /**
+   * Creates the inputs spending the expired outputs of delegations through
+   * their timelock path, along with the timelock of each output.
+   * @param stakerBtcInfo - The staker BTC info.
+   * @param withdrawals - The expired outputs of the delegations.
+   * @returns The withdrawal inputs and timelocks in the order of the
+   * withdrawals.
+   */
+  private createWithdrawalInputs(
+    stakerBtcInfo: StakerInfo,
+    withdrawals: DelegationWithdrawal[],
+  ): { withdrawalInputs: WithdrawalInput[]; timelocks: number[] } {
+    const timelocks: number[] = [];
+    const withdrawalInputs = withdrawals.map(
+      ({ stakingInput, stakingParamsVersion, transaction, type }) => {
+        const params = getBabylonParamByVersion(
+          stakingParamsVersion,
+          this.stakingParams,
+        );
+
+        const staking = new Staking(
+          this.network,
+          stakerBtcInfo,
+          params,
+          stakingInput.finalityProviderPksNoCoordHex,
+          stakingInput.stakingTimelock,
+        );
+
+        // The unbonding and slashing outputs are locked for the unbonding time
+        timelocks.push(
+          type === "staking-expired"
+            ? stakingInput.stakingTimelock
+            : params.unbondingTime,
+        );
+
+        return staking.createWithdrawalInput(type, transaction);
+      },
+    );
+
+    return { withdrawalInputs, timelocks };
+  }
+
   /**
    * Creates the unbonding, slashing, and unbonding slashing transactions and
    * PSBTs.
@@ -1195,34 +2024,69 @@ export class BabylonBtcStakingManager {
    * @param options.inclusionProof - The inclusion proof of the staking
    * transaction.
    * @param options.delegationExpansionInfo - The information for the BTC
-   * delegation expansion.
+   * delegation expansion. The funding transaction is the transaction of the
+   * funding UTXO, spent by the second input of the expansion.
+   * @param options.checkpoint - The checkpoint of the registration, filled
+   * with the output of each step as it completes. The steps already in the
+   * checkpoint are not signed again.
+   * @param options.signal - The signal aborting the registration.
    * @returns The protobuf message.
    */
   private async createBtcDelegationMsg(
-    channel: "delegation:create" | "delegation:register" | "delegation:expand",
+    channel: RegistrationChannel,
     stakingInstance: Staking,
     stakingInput: StakingInputs,
     stakingTx: Transaction,
     bech32Address: string,
     stakerBtcInfo: StakerInfo,
-    params: StakingParams,
+    params: VersionedStakingParams,
     options?: {
       inclusionProof?: btcstaking.InclusionProof;
       delegationExpansionInfo?: {
         previousStakingTx: Transaction;
         fundingTx: Transaction;
       };
+      checkpoint?: RegistrationCheckpoint;
+      signal?: AbortSignal;
     },
   ): Promise<{
     typeUrl: string;
     value: btcstakingtx.MsgCreateBTCDelegation | btcstakingtx.MsgBtcStakeExpand;
   }> {
-    if (!params.slashing) {
+    if (!hasSlashing(params)) {
       throw new StakingError(
         StakingErrorCode.INVALID_PARAMS,
         "Slashing parameters are required for creating delegation message",
       );
     }
+    // The message registers the staking amount of the inputs as the staking
+    // value of the delegation
+    this.validateStakingOutputValue(stakingInstance, stakingTx, stakingInput);
+
+    const checkpoint = options?.checkpoint;
+    if (checkpoint) {
+      const stakingTxHash = stakingTx.getId();
+      if (
+        checkpoint.stakingTxHash !== undefined &&
+        checkpoint.stakingTxHash !== stakingTxHash
+      ) {
+        throw new StakingError(
+          StakingErrorCode.INVALID_INPUT,
+          "The registration checkpoint belongs to another staking transaction",
+        );
+      }
+      if (
+        checkpoint.stakingParamsVersion !== undefined &&
+        checkpoint.stakingParamsVersion !== params.version
+      ) {
+        throw new StakingError(
+          StakingErrorCode.INVALID_INPUT,
+          "The registration checkpoint belongs to another params version",
+        );
+      }
+      checkpoint.stakingTxHash = stakingTxHash;
+      checkpoint.stakingParamsVersion = params.version;
+    }
 
     const { unbondingTx, slashingPsbt, unbondingSlashingPsbt } =
       await this.createDelegationTransactionsAndPsbts(
@@ -1230,6 +2094,142 @@ export class BabylonBtcStakingManager {
         stakingTx,
       );
 
+    // Each step is skipped if its signature is in the checkpoint, and its
+    // signature is added to the checkpoint once it completes
+    const slashingSigHex =
+      checkpoint?.["staking-slashing"] ??
+      (
+        await this.signSlashingPsbt(
+          channel,
+          slashingPsbt,
+          stakingInput,
+          stakerBtcInfo,
+          params,
+          params.version,
+          options?.signal,
+        )
+      ).toString("hex");
+    if (checkpoint) {
+      checkpoint["staking-slashing"] = slashingSigHex;
+    }
+
+    const unbondingSlashingSigHex =
+      checkpoint?.["unbonding-slashing"] ??
+      (
+        await this.signUnbondingSlashingPsbt(
+          channel,
+          unbondingSlashingPsbt,
+          stakingInput,
+          stakerBtcInfo,
+          params,
+          params.version,
+          options?.signal,
+        )
+      ).toString("hex");
+    if (checkpoint) {
+      checkpoint["unbonding-slashing"] = unbondingSlashingSigHex;
+    }
+
+    // The proof of possession is signed for the Babylon address
+    const checkpointPop = checkpoint?.["proof-of-possession"];
+    let proofOfPossession: btcstakingpop.ProofOfPossessionBTC;
+    if (checkpointPop?.babylonAddress === bech32Address) {
+      proofOfPossession = {
+        btcSigType: checkpointPop.btcSigType,
+        btcSig: Uint8Array.from(Buffer.from(checkpointPop.btcSigHex, "hex")),
+      };
+    } else {
+      proofOfPossession = await this.createProofOfPossession(
+        channel,
+        bech32Address,
+        stakerBtcInfo.address,
+        { signal: options?.signal },
+      );
+      if (checkpoint) {
+        checkpoint["proof-of-possession"] = {
+          babylonAddress: bech32Address,
+          btcSigType: proofOfPossession.btcSigType,
+          btcSigHex: Buffer.from(proofOfPossession.btcSig).toString("hex"),
+        };
+      }
+    }
+
+    const commonMsg = {
+      stakerAddr: bech32Address,
+      pop: proofOfPossession,
+      btcPk: Uint8Array.from(
+        Buffer.from(stakerBtcInfo.publicKeyNoCoordHex, "hex"),
+      ),
+      fpBtcPkList: stakingInput.finalityProviderPksNoCoordHex.map((pk) =>
+        Uint8Array.from(Buffer.from(pk, "hex")),
+      ),
+      stakingTime: stakingInput.stakingTimelock,
+      stakingValue: stakingInput.stakingAmountSat,
+      stakingTx: Uint8Array.from(stakingTx.toBuffer()),
+      slashingTx: Uint8Array.from(slashingPsbt.data.getTransaction()),
+      delegatorSlashingSig: Uint8Array.from(Buffer.from(slashingSigHex, "hex")),
+      unbondingTime: params.unbondingTime,
+      unbondingTx: Uint8Array.from(unbondingTx.toBuffer()),
+      unbondingValue: stakingInput.stakingAmountSat - params.unbondingFeeSat,
+      unbondingSlashingTx: Uint8Array.from(
+        unbondingSlashingPsbt.data.getTransaction(),
+      ),
+      delegatorUnbondingSlashingSig: Uint8Array.from(
+        Buffer.from(unbondingSlashingSigHex, "hex"),
+      ),
+    };
+
+    // If the delegation is an expansion, we use the MsgBtcStakeExpand message
+    if (options?.delegationExpansionInfo) {
+      const fundingTx = Uint8Array.from(
+        options.delegationExpansionInfo.fundingTx.toBuffer(),
+      );
+      const msg = btcstakingtx.MsgBtcStakeExpand.fromPartial({
+        ...commonMsg,
+        previousStakingTxHash:
+          options.delegationExpansionInfo.previousStakingTx.getId(),
+        fundingTx,
+      });
+      return {
+        typeUrl: BABYLON_REGISTRY_TYPE_URLS.MsgBtcStakeExpand,
+        value: msg,
+      };
+    }
+
+    // Otherwise, it's a new staking delegation
+    const msg: btcstakingtx.MsgCreateBTCDelegation =
+      btcstakingtx.MsgCreateBTCDelegation.fromPartial({
+        ...commonMsg,
+        stakingTxInclusionProof: options?.inclusionProof,
+      });
+
+    return {
+      typeUrl: BABYLON_REGISTRY_TYPE_URLS.MsgCreateBTCDelegation,
+      value: msg,
+    };
+  }
+
+  /**
+   * Asks the staker to sign the slashing PSBT of the staking output, the first
+   * step of a delegation registration.
+   * @param channel - The event channel of the registration.
+   * @param slashingPsbt - The slashing PSBT of the staking output.
+   * @param stakingInput - The staking inputs.
+   * @param stakerBtcInfo - The staker BTC info.
+   * @param params - The staking parameters.
+   * @param stakingParamsVersion - The version of the staking parameters.
+   * @param signal - The signal aborting the registration.
+   * @returns The Schnorr signature of the staker.
+   */
+  private async signSlashingPsbt(
+    channel: RegistrationChannel,
+    slashingPsbt: Psbt,
+    stakingInput: StakingInputs,
+    stakerBtcInfo: StakerInfo,
+    params: StakingParamsWithSlashing,
+    stakingParamsVersion: number,
+    signal?: AbortSignal,
+  ): Promise<Buffer> {
     const slashingContracts: Contract[] = [
       {
         id: ContractId.STAKING,
@@ -1260,26 +2260,39 @@ export class BabylonBtcStakingManager {
     ];
 
     // Sign the slashing PSBT
-    this.ee?.emit(channel, {
-      stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
-      finalityProviders: stakingInput.finalityProviderPksNoCoordHex,
-      covenantPks: params.covenantNoCoordPks,
-      covenantThreshold: params.covenantQuorum,
-      unbondingTimeBlocks: params.unbondingTime,
-      stakingDuration: stakingInput.stakingTimelock,
-      slashingFeeSat: params.slashing.minSlashingTxFeeSat,
-      slashingPkScriptHex: params.slashing.slashingPkScriptHex,
-      type: "staking-slashing",
-    });
+    const unsignedSlashingPsbtHex = slashingPsbt.toHex();
+    const signPsbtOptions = {
+      contracts: slashingContracts,
+      action: {
+        name: ActionName.SIGN_BTC_SLASHING_TRANSACTION,
+      },
+      signal,
+    };
+    await this.checkSigningPolicy(slashingPsbt, signPsbtOptions, [
+      { stakingInput, stakingParamsVersion },
+    ]);
 
-    const signedSlashingPsbtHex = await this.btcProvider.signPsbt(
-      slashingPsbt.toHex(),
-      {
-        contracts: slashingContracts,
-        action: {
-          name: ActionName.SIGN_BTC_SLASHING_TRANSACTION,
+    const signedSlashingPsbtHex = await this.runStep(
+      [
+        {
+          channel,
+          data: {
+            stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
+            finalityProviders: stakingInput.finalityProviderPksNoCoordHex,
+            covenantPks: params.covenantNoCoordPks,
+            covenantThreshold: params.covenantQuorum,
+            unbondingTimeBlocks: params.unbondingTime,
+            stakingDuration: stakingInput.stakingTimelock,
+            slashingFeeSat: params.slashing.minSlashingTxFeeSat,
+            slashingPkScriptHex: params.slashing.slashingPkScriptHex,
+            type: "staking-slashing",
+            psbtHex: unsignedSlashingPsbtHex,
+            ...registrationProgress("staking-slashing"),
+          },
         },
-      },
+      ],
+      () => this.btcProvider.signPsbt(unsignedSlashingPsbtHex, signPsbtOptions),
+      signal,
     );
 
     const signedSlashingTx = Psbt.fromHex(
@@ -1291,6 +2304,30 @@ export class BabylonBtcStakingManager {
       throw new Error("No signature found in the staking output slashing PSBT");
     }
 
+    return slashingSig;
+  }
+
+  /**
+   * Asks the staker to sign the slashing PSBT of the unbonding output, the
+   * second step of a delegation registration.
+   * @param channel - The event channel of the registration.
+   * @param unbondingSlashingPsbt - The slashing PSBT of the unbonding output.
+   * @param stakingInput - The staking inputs.
+   * @param stakerBtcInfo - The staker BTC info.
+   * @param params - The staking parameters.
+   * @param stakingParamsVersion - The version of the staking parameters.
+   * @param signal - The signal aborting the registration.
+   * @returns The Schnorr signature of the staker.
+   */
+  private async signUnbondingSlashingPsbt(
+    channel: RegistrationChannel,
+    unbondingSlashingPsbt: Psbt,
+    stakingInput: StakingInputs,
+    stakerBtcInfo: StakerInfo,
+    params: StakingParamsWithSlashing,
+    stakingParamsVersion: number,
+    signal?: AbortSignal,
+  ): Promise<Buffer> {
     const unbondingSlashingContracts: Contract[] = [
       {
         id: ContractId.UNBONDING,
@@ -1321,26 +2358,43 @@ export class BabylonBtcStakingManager {
     ];
 
     // Sign the unbonding slashing PSBT
-    this.ee?.emit(channel, {
-      stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
-      finalityProviders: stakingInput.finalityProviderPksNoCoordHex,
-      covenantPks: params.covenantNoCoordPks,
-      covenantThreshold: params.covenantQuorum,
-      unbondingTimeBlocks: params.unbondingTime,
-      unbondingFeeSat: params.unbondingFeeSat,
-      slashingFeeSat: params.slashing.minSlashingTxFeeSat,
-      slashingPkScriptHex: params.slashing.slashingPkScriptHex,
-      type: "unbonding-slashing",
-    });
+    const unsignedUnbondingSlashingPsbtHex = unbondingSlashingPsbt.toHex();
+    const signPsbtOptions = {
+      contracts: unbondingSlashingContracts,
+      action: {
+        name: ActionName.SIGN_BTC_UNBONDING_SLASHING_TRANSACTION,
+      },
+      signal,
+    };
+    await this.checkSigningPolicy(unbondingSlashingPsbt, signPsbtOptions, [
+      { stakingInput, stakingParamsVersion },
+    ]);
 
-    const signedUnbondingSlashingPsbtHex = await this.btcProvider.signPsbt(
-      unbondingSlashingPsbt.toHex(),
-      {
-        contracts: unbondingSlashingContracts,
-        action: {
-          name: ActionName.SIGN_BTC_UNBONDING_SLASHING_TRANSACTION,
+    const signedUnbondingSlashingPsbtHex = await this.runStep(
+      [
+        {
+          channel,
+          data: {
+            stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
+            finalityProviders: stakingInput.finalityProviderPksNoCoordHex,
+            covenantPks: params.covenantNoCoordPks,
+            covenantThreshold: params.covenantQuorum,
+            unbondingTimeBlocks: params.unbondingTime,
+            unbondingFeeSat: params.unbondingFeeSat,
+            slashingFeeSat: params.slashing.minSlashingTxFeeSat,
+            slashingPkScriptHex: params.slashing.slashingPkScriptHex,
+            type: "unbonding-slashing",
+            psbtHex: unsignedUnbondingSlashingPsbtHex,
+            ...registrationProgress("unbonding-slashing"),
+          },
         },
-      },
+      ],
+      () =>
+        this.btcProvider.signPsbt(
+          unsignedUnbondingSlashingPsbtHex,
+          signPsbtOptions,
+        ),
+      signal,
     );
 
     const signedUnbondingSlashingTx = Psbt.fromHex(
@@ -1355,69 +2409,37 @@ export class BabylonBtcStakingManager {
       );
     }
 
-    // Create proof of possession
-    const proofOfPossession = await this.createProofOfPossession(
-      channel,
-      bech32Address,
-      stakerBtcInfo.address,
-    );
+    return unbondingSignatures;
+  }
 
-    const commonMsg = {
-      stakerAddr: bech32Address,
-      pop: proofOfPossession,
-      btcPk: Uint8Array.from(
-        Buffer.from(stakerBtcInfo.publicKeyNoCoordHex, "hex"),
-      ),
-      fpBtcPkList: stakingInput.finalityProviderPksNoCoordHex.map((pk) =>
-        Uint8Array.from(Buffer.from(pk, "hex")),
-      ),
-      stakingTime: stakingInput.stakingTimelock,
-      stakingValue: stakingInput.stakingAmountSat,
-      stakingTx: Uint8Array.from(stakingTx.toBuffer()),
-      slashingTx: Uint8Array.from(
-        Buffer.from(clearTxSignatures(signedSlashingTx).toHex(), "hex"),
-      ),
-      delegatorSlashingSig: Uint8Array.from(slashingSig),
-      unbondingTime: params.unbondingTime,
-      unbondingTx: Uint8Array.from(unbondingTx.toBuffer()),
-      unbondingValue: stakingInput.stakingAmountSat - params.unbondingFeeSat,
-      unbondingSlashingTx: Uint8Array.from(
-        Buffer.from(
-          clearTxSignatures(signedUnbondingSlashingTx).toHex(),
-          "hex",
-        ),
-      ),
-      delegatorUnbondingSlashingSig: Uint8Array.from(unbondingSignatures),
+  /**
+   * Creates the withdrawal contract of an expired output. When the withdrawn
+   * funds are sent to custom destinations, the contract also lists the
+   * addresses and amounts of the withdrawal outputs for the wallet to show.
+   * @param stakerBtcInfo - The staker BTC info.
+   * @param timelockBlocks - The timelock of the withdrawn output.
+   * @param psbt - The withdrawal PSBT.
+   * @param destinations - The withdrawal destinations, if any.
+   * @returns The withdrawal contract.
+   */
+  private createWithdrawContract(
+    stakerBtcInfo: StakerInfo,
+    timelockBlocks: number,
+    psbt: Psbt,
+    destinations?: WithdrawalDestination[],
+  ): Contract {
+    const params: Contract["params"] = {
+      stakerPk: stakerBtcInfo.publicKeyNoCoordHex,
+      timelockBlocks,
     };
-
-    // If the delegation is an expansion, we use the MsgBtcStakeExpand message
-    if (options?.delegationExpansionInfo) {
-      const fundingTx = Uint8Array.from(
-        options.delegationExpansionInfo.fundingTx.toBuffer(),
+    if (destinations) {
+      // The destination addresses are valid, so each output has an address
+      params.destinationAddresses = psbt.txOutputs.map(
+        ({ address }) => address!,
       );
-      const msg = btcstakingtx.MsgBtcStakeExpand.fromPartial({
-        ...commonMsg,
-        previousStakingTxHash:
-          options.delegationExpansionInfo.previousStakingTx.getId(),
-        fundingTx,
-      });
-      return {
-        typeUrl: BABYLON_REGISTRY_TYPE_URLS.MsgBtcStakeExpand,
-        value: msg,
-      };
+      params.destinationAmounts = psbt.txOutputs.map(({ value }) => value);
     }
-
-    // Otherwise, it's a new staking delegation
-    const msg: btcstakingtx.MsgCreateBTCDelegation =
-      btcstakingtx.MsgCreateBTCDelegation.fromPartial({
-        ...commonMsg,
-        stakingTxInclusionProof: options?.inclusionProof,
-      });
-
-    return {
-      typeUrl: BABYLON_REGISTRY_TYPE_URLS.MsgCreateBTCDelegation,
-      value: msg,
-    };
+    return { id: ContractId.WITHDRAW, params };
   }
 
   /**
@@ -1445,8 +2467,163 @@ export class BabylonBtcStakingManager {
       proof: Uint8Array.from(Buffer.from(proofHex, "hex")),
     });
   }
+
+  /**
+   * Checks a PSBT against the signing policy of the manager, if any, before it
+   * is sent to a BTC provider.
+   * @param psbt - The PSBT to sign.
+   * @param options - The options of the signing request.
+   * @param delegations - The delegations staked or registered by the PSBT.
+   */
+  private async checkSigningPolicy(
+    psbt: Psbt,
+    { contracts, action }: SignPsbtOptions,
+    delegations: SigningDelegation[] = [],
+  ): Promise<void> {
+    await this.signingPolicy?.({
+      psbt,
+      contracts,
+      action: action.name,
+      delegations,
+    });
+  }
+
+  /**
+   * Asks the Babylon provider to sign the registration message of a
+   * delegation, the last step of its registration.
+   * @param channel - The event channel of the registration.
+   * @param msg - The registration message.
+   * @param signal - The signal aborting the registration.
+   * @returns The signed Babylon transaction.
+   */
+  private signDelegationMsg<T extends object>(
+    channel: RegistrationChannel,
+    msg: { typeUrl: string; value: T },
+    signal?: AbortSignal,
+  ): Promise<Uint8Array> {
+    return this.runStep(
+      [
+        {
+          channel,
+          data: {
+            type: "create-btc-delegation-msg",
+            ...registrationProgress("create-btc-delegation-msg"),
+          },
+        },
+      ],
+      () => this.babylonProvider.signTransaction(msg),
+      signal,
+      [this.babylonProvider],
+    );
+  }
+
+  /**
+   * Emits the events of a step, runs the step, then emits whether each of the
+   * events completed or failed. A single signing request can cover several
+   * events, e.g. a re-staking transaction withdraws and stakes at once.
+   *
+   * The step does not start if the signal is already aborted. If the signal
+   * is aborted while the step is pending, the abort hooks of the providers
+   * are run and the step is rejected without waiting for the providers.
+   * @param events - The events of the step.
+   * @param step - The step, which asks the wallet or the Babylon provider to
+   * sign.
+   * @param signal - The signal aborting the flow, if any.
+   * @param providers - The providers asked to sign by the step.
+   * @returns The result of the step.
+   */
+  private async runStep<T>(
+    events: StepEvent[],
+    step: () => Promise<T>,
+    signal?: AbortSignal,
+    providers: Pick<BtcProvider, "onAbort">[] = [this.btcProvider],
+  ): Promise<T> {
+    throwIfAborted(signal);
+
+    // The data of each event matches its channel, which the emitter cannot
+    // infer from the union of the events
+    const emit = this.ee?.emit.bind(this.ee) as
+      | ((channel: DelegationChannel, data: StepEvent["data"]) => void)
+      | undefined;
+    events.forEach(({ channel, data }) => emit?.(channel, data));
+    const outcomes = events.map(({ channel, data }) => ({
+      channel,
+      type: data.type,
+      stepIndex: data.stepIndex,
+      totalSteps: data.totalSteps,
+    }));
+
+    try {
+      const result = await untilAborted(step(), signal, providers);
+      outcomes.forEach((outcome) =>
+        this.ee?.emit("delegation:step-complete", outcome),
+      );
+      return result;
+    } catch (error) {
+      outcomes.forEach((outcome) =>
+        this.ee?.emit("delegation:step-fail", { ...outcome, error }),
+      );
+      throw error;
+    }
+  }
 }
 
+const createAbortError = () =>
+  new StakingError(StakingErrorCode.ABORTED, "The operation was aborted");
+
+// Throws if the flow of a manager method was aborted by its caller
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+};
+
+// Settles with the request, or rejects once the signal is aborted after
+// running the abort hooks of the providers. A failing hook does not prevent
+// the others from running.
+const untilAborted = <T>(
+  request: Promise<T>,
+  signal: AbortSignal | undefined,
+  providers: Pick<BtcProvider, "onAbort">[],
+): Promise<T> => {
+  if (!signal) {
+    return request;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      Promise.all(
+        providers.map(async (provider) => {
+          try {
+            await provider.onAbort?.();
+          } catch {
+            // The flow is aborted regardless of the cleanup
+          }
+        }),
+      ).then(() => reject(createAbortError()));
+    };
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+    // A request settling after the abort is ignored
+    request.then(
+      (result) => {
+        signal.removeEventListener("abort", onAbort);
+        if (!signal.aborted) {
+          resolve(result);
+        }
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        if (!signal.aborted) {
+          reject(error);
+        }
+      },
+    );
+  });
+};
+
 /**
  * Get the staker signature from the unbonding transaction
  * This is used mostly for unbonding transactions from phase-1(Observable)
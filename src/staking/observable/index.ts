@@ -14,6 +14,7 @@ import {
   ObservableStakingScripts,
 } from "./observableStakingScript";
 export * from "./observableStakingScript";
+export * from "./parser";
 
 /**
  * ObservableStaking is a class that provides an interface to create observable
@@ -147,11 +148,13 @@ export class ObservableStaking extends Staking {
         inputUTXOs,
         this.network,
         feeRate,
-        // `lockHeight` is exclusive of the provided value.
-        // For example, if a Bitcoin height of X is provided,
-        // the transaction will be included starting from height X+1.
-        // https://learnmeabitcoin.com/technical/transaction/locktime/
-        this.params.btcActivationHeight - 1,
+        {
+          // `lockHeight` is exclusive of the provided value.
+          // For example, if a Bitcoin height of X is provided,
+          // the transaction will be included starting from height X+1.
+          // https://learnmeabitcoin.com/technical/transaction/locktime/
+          lockHeight: this.params.btcActivationHeight - 1,
+        },
       );
 
       return {
@@ -1,15 +1,32 @@
 import { opcodes, script } from "bitcoinjs-lib";
+import { NO_COORD_PK_BYTE_LENGTH } from "../../constants/keys";
+import { StakingScriptParseError } from "../../error";
 import {
   MAGIC_BYTES_LEN,
   StakingScriptData,
   StakingScripts,
 } from "../stakingScript";
 
+// The version of the serialized staking data in the data embed script
+export const DATA_EMBED_VERSION = 0;
+
+// Length of the serialized staking data in the data embed script
+const DATA_EMBED_LEN = MAGIC_BYTES_LEN + 1 + NO_COORD_PK_BYTE_LENGTH * 2 + 2;
+
 // Extending StakingScripts to add an extra field
 export interface ObservableStakingScripts extends StakingScripts {
   dataEmbedScript: Buffer;
 }
 
+// The staking data serialized in the data embed script
+export interface ParsedDataEmbedScript {
+  magicBytes: Buffer;
+  version: number;
+  stakerKey: Buffer;
+  finalityProviderKey: Buffer;
+  stakingTimeLock: number;
+}
+
 export class ObservableStakingScriptData extends StakingScriptData {
   // The magic bytes used to identify the staking transaction on Babylon
   // through the data return script
@@ -58,7 +75,7 @@ export class ObservableStakingScriptData extends StakingScriptData {
     }
     // 1 byte for version
     const version = Buffer.alloc(1);
-    version.writeUInt8(0);
+    version.writeUInt8(DATA_EMBED_VERSION);
     // 2 bytes for staking time
     const stakingTimeLock = Buffer.alloc(2);
     // big endian
@@ -87,4 +104,47 @@ export class ObservableStakingScriptData extends StakingScriptData {
       dataEmbedScript: this.buildDataEmbedScript(),
     };
   }
+
+  /**
+   * Parses a data embed script built by buildDataEmbedScript, i.e.
+   *    OP_RETURN || MagicBytes || Version || StakerPublicKey ||
+   *    FinalityProviderPublicKey || StakingTimeLock
+   * The version is returned as-is, it is up to the caller to check it.
+   * @param dataEmbedScript - The compiled data embed script.
+   * @returns {ParsedDataEmbedScript} The serialized staking data.
+   * @throws {StakingScriptParseError} If the script is malformed.
+   */
+  static parseDataEmbedScript(dataEmbedScript: Buffer): ParsedDataEmbedScript {
+    const leaf = "dataEmbedScript";
+    const chunks = script.decompile(dataEmbedScript);
+    if (
+      !chunks ||
+      chunks.length !== 2 ||
+      chunks[0] !== opcodes.OP_RETURN ||
+      !Buffer.isBuffer(chunks[1])
+    ) {
+      throw new StakingScriptParseError(
+        leaf,
+        "expected OP_RETURN followed by the staking data",
+      );
+    }
+    const data = chunks[1];
+    if (data.length !== DATA_EMBED_LEN) {
+      throw new StakingScriptParseError(
+        leaf,
+        `expected ${DATA_EMBED_LEN} bytes of staking data, got ${data.length}`,
+      );
+    }
+    const stakerKeyStart = MAGIC_BYTES_LEN + 1;
+    const fpKeyStart = stakerKeyStart + NO_COORD_PK_BYTE_LENGTH;
+    const timelockStart = fpKeyStart + NO_COORD_PK_BYTE_LENGTH;
+    return {
+      magicBytes: data.subarray(0, MAGIC_BYTES_LEN),
+      version: data.readUInt8(MAGIC_BYTES_LEN),
+      stakerKey: data.subarray(stakerKeyStart, fpKeyStart),
+      finalityProviderKey: data.subarray(fpKeyStart, timelockStart),
+      // big endian
+      stakingTimeLock: data.readUInt16BE(timelockStart),
+    };
+  }
 }
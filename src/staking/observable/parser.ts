@@ -0,0 +1,142 @@
+import { networks, Transaction } from "bitcoinjs-lib";
+import { StakingError, StakingErrorCode } from "../../error";
+import { ObservableVersionedStakingParams } from "../../types/params";
+import { deriveStakingOutputInfo, toBuffers } from "../../utils/staking";
+import { MAGIC_BYTES_LEN } from "../stakingScript";
+import {
+  DATA_EMBED_VERSION,
+  ObservableStakingScriptData,
+  ObservableStakingScripts,
+  ParsedDataEmbedScript,
+} from "./observableStakingScript";
+
+/**
+ * The staking data of a phase-1 (observable) staking transaction.
+ */
+export interface ObservableStakingTransactionInfo {
+  // The staker public key without the coordinate in hex format
+  stakerPkNoCoordHex: string;
+  // The finality provider public key without the coordinate in hex format
+  finalityProviderPkNoCoordHex: string;
+  // The staking timelock in BTC blocks
+  stakingTimelock: number;
+  // The value of the staking output in satoshis
+  stakingAmountSat: number;
+  // The index of the taproot staking output
+  stakingOutputIndex: number;
+  // The index of the OP_RETURN data embed output
+  dataEmbedOutputIndex: number;
+  // The staking scripts rebuilt from the parsed data and the params
+  scripts: ObservableStakingScripts;
+}
+
+/**
+ * Parses and validates a phase-1 (observable) staking transaction.
+ *
+ * The transaction must contain exactly one OP_RETURN output carrying the
+ * params tag, with the supported data embed version, and exactly one taproot
+ * output matching the staking scripts rebuilt from the parsed data.
+ *
+ * @param {Transaction} tx - The staking transaction.
+ * @param {ObservableVersionedStakingParams} params - The params the staking
+ * transaction is expected to be created with.
+ * @param {networks.Network} network - The Bitcoin network.
+ * @returns {ObservableStakingTransactionInfo} - The parsed staking data.
+ * @throws {StakingError} - If the transaction is not a valid observable staking
+ * transaction for the params.
+ */
+export const parseObservableStakingTransaction = (
+  tx: Transaction,
+  params: ObservableVersionedStakingParams,
+  network: networks.Network,
+): ObservableStakingTransactionInfo => {
+  const tag = Buffer.from(params.tag ?? "", "hex");
+  if (tag.length !== MAGIC_BYTES_LEN) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_PARAMS,
+      "Observable staking parameters must include a 4 bytes tag",
+    );
+  }
+
+  // Find the data embed outputs carrying the params tag
+  const dataEmbeds: { index: number; data: ParsedDataEmbedScript }[] = [];
+  tx.outs.forEach((output, index) => {
+    let data: ParsedDataEmbedScript;
+    try {
+      data = ObservableStakingScriptData.parseDataEmbedScript(output.script);
+    } catch (error) {
+      return;
+    }
+    if (data.magicBytes.equals(tag)) {
+      dataEmbeds.push({ index, data });
+    }
+  });
+  if (dataEmbeds.length === 0) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_OUTPUT,
+      `No data embed output found for tag: ${params.tag}`,
+    );
+  }
+  if (dataEmbeds.length > 1) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_OUTPUT,
+      "Staking transaction must have exactly one data embed output",
+    );
+  }
+  const { index: dataEmbedOutputIndex, data } = dataEmbeds[0];
+  if (data.version !== DATA_EMBED_VERSION) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_OUTPUT,
+      `Unsupported data embed version: ${data.version}`,
+    );
+  }
+
+  // Rebuild the staking scripts from the parsed data
+  let scripts: ObservableStakingScripts;
+  try {
+    scripts = new ObservableStakingScriptData(
+      data.stakerKey,
+      [data.finalityProviderKey],
+      toBuffers(params.covenantNoCoordPks),
+      params.covenantQuorum,
+      data.stakingTimeLock,
+      params.unbondingTime,
+      tag,
+    ).buildScripts();
+  } catch (error: unknown) {
+    throw StakingError.fromUnknown(
+      error,
+      StakingErrorCode.SCRIPT_FAILURE,
+      "Cannot build staking scripts from the data embed output",
+    );
+  }
+
+  // The taproot output must commit to the rebuilt scripts
+  const { scriptPubKey } = deriveStakingOutputInfo(scripts, network);
+  const stakingOutputIndexes = tx.outs
+    .map((output, index) => (output.script.equals(scriptPubKey) ? index : -1))
+    .filter((index) => index !== -1);
+  if (stakingOutputIndexes.length === 0) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_OUTPUT,
+      "No staking output matches the data embed output",
+    );
+  }
+  if (stakingOutputIndexes.length > 1) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_OUTPUT,
+      "Staking transaction must have exactly one staking output",
+    );
+  }
+  const stakingOutputIndex = stakingOutputIndexes[0];
+
+  return {
+    stakerPkNoCoordHex: data.stakerKey.toString("hex"),
+    finalityProviderPkNoCoordHex: data.finalityProviderKey.toString("hex"),
+    stakingTimelock: data.stakingTimeLock,
+    stakingAmountSat: tx.outs[stakingOutputIndex].value,
+    stakingOutputIndex,
+    dataEmbedOutputIndex,
+    scripts,
+  };
+};
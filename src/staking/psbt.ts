@@ -3,8 +3,13 @@ import { Taptree } from "bitcoinjs-lib/src/types";
 import { internalPubkey } from "../constants/internalPubkey";
 import { NO_COORD_PK_BYTE_LENGTH } from "../constants/keys";
 import { REDEEM_VERSION } from "../constants/transaction";
+import { WithdrawalInput } from "../types/transaction";
 import { UTXO } from "../types/UTXO";
-import { deriveUnbondingOutputInfo } from "../utils/staking";
+import { transactionIdToHash } from "../utils/btc";
+import {
+  deriveUnbondingOutputInfo,
+  deriveWithdrawalSpendInfo,
+} from "../utils/staking";
 import { findInputUTXO } from "../utils/utxo/findInputUTXO";
 import { getPsbtInputFields } from "../utils/utxo/getPsbtInputFields";
 import { BitcoinScriptType, getScriptType } from "../utils/utxo/getScriptType";
@@ -18,6 +23,8 @@ import { StakingScripts } from "./stakingScript";
  * @param {UTXO[]} inputUTXOs - The UTXOs to be used as inputs for the staking
  * transaction.
  * @param {Buffer} [publicKeyNoCoord] - The public key of staker (optional)
+ * @param {Object} [feeSponsor] - The UTXOs of the wallet paying the fee of the
+ * transaction and its public key, if it is a taproot wallet (optional)
  * @returns {Psbt} - The PSBT for the staking transaction.
  * @throws {Error} If unable to create PSBT from transaction
  */
@@ -26,8 +33,13 @@ export const stakingPsbt = (
   network: networks.Network,
   inputUTXOs: UTXO[],
   publicKeyNoCoord?: Buffer,
+  feeSponsor?: { inputUTXOs: UTXO[]; publicKeyNoCoord?: Buffer },
 ): Psbt => {
-  if (publicKeyNoCoord && publicKeyNoCoord.length !== NO_COORD_PK_BYTE_LENGTH) {
+  if (
+    [publicKeyNoCoord, feeSponsor?.publicKeyNoCoord].some(
+      (pk) => pk && pk.length !== NO_COORD_PK_BYTE_LENGTH,
+    )
+  ) {
     throw new Error("Invalid public key");
   }
 
@@ -37,8 +49,14 @@ export const stakingPsbt = (
   if (stakingTx.locktime !== undefined) psbt.setLocktime(stakingTx.locktime);
 
   stakingTx.ins.forEach((input) => {
-    const inputUTXO = findInputUTXO(inputUTXOs, input);
-    const psbtInputData = getPsbtInputFields(inputUTXO, publicKeyNoCoord);
+    // The inputs of the sponsor are signed with its own key
+    const sponsorUTXO = feeSponsor?.inputUTXOs.find(
+      ({ txid, vout }) =>
+        transactionIdToHash(txid).equals(input.hash) && vout === input.index,
+    );
+    const psbtInputData = sponsorUTXO
+      ? getPsbtInputFields(sponsorUTXO, feeSponsor!.publicKeyNoCoord)
+      : getPsbtInputFields(findInputUTXO(inputUTXOs, input), publicKeyNoCoord);
 
     psbt.addInput({
       hash: input.hash,
@@ -55,6 +73,87 @@ export const stakingPsbt = (
   return psbt;
 };
 
+/**
+ * Convert a re-staking transaction to a PSBT.
+ *
+ * The first inputs spend the withdrawn outputs through the timelock path of
+ * their delegations, the other inputs spend the funding UTXOs of the wallet.
+ *
+ * @param {networks.Network} network - The Bitcoin network to use for the PSBT
+ * @param {Transaction} restakingTx - The re-staking transaction to convert
+ * @param {WithdrawalInput[]} withdrawals - The withdrawn outputs, in the order
+ * of the first inputs of the transaction
+ * @param {UTXO[]} inputUTXOs - Available UTXOs for the funding input
+ * @param {Buffer} [publicKeyNoCoord] - The staker's public key without
+ * coordinate (for Taproot)
+ * @returns {Psbt} The PSBT for the re-staking transaction
+ * @throws {Error} If an input does not spend the withdrawn output at its
+ * position or a funding UTXO is missing
+ */
+export const restakingPsbt = (
+  network: networks.Network,
+  restakingTx: Transaction,
+  withdrawals: WithdrawalInput[],
+  inputUTXOs: UTXO[],
+  publicKeyNoCoord?: Buffer,
+): Psbt => {
+  if (publicKeyNoCoord && publicKeyNoCoord.length !== NO_COORD_PK_BYTE_LENGTH) {
+    throw new Error("Invalid public key");
+  }
+  if (restakingTx.ins.length < withdrawals.length) {
+    throw new Error(
+      "Re-staking transaction must spend each of the withdrawn outputs",
+    );
+  }
+
+  const psbt = new Psbt({ network });
+
+  if (restakingTx.version !== undefined) psbt.setVersion(restakingTx.version);
+  if (restakingTx.locktime !== undefined)
+    psbt.setLocktime(restakingTx.locktime);
+
+  withdrawals.forEach((withdrawal, i) => {
+    const { transaction, outputIndex } = withdrawal;
+    const input = restakingTx.ins[i];
+    if (
+      !input.hash.equals(transaction.getHash()) ||
+      input.index !== outputIndex
+    ) {
+      throw new Error(`Input ${i} does not spend the withdrawn output`);
+    }
+    const { tapLeafScript } = deriveWithdrawalSpendInfo(withdrawal, network);
+
+    psbt.addInput({
+      hash: input.hash,
+      index: input.index,
+      sequence: input.sequence,
+      tapInternalKey: internalPubkey,
+      witnessUtxo: {
+        script: transaction.outs[outputIndex].script,
+        value: transaction.outs[outputIndex].value,
+      },
+      tapLeafScript: [tapLeafScript],
+    });
+  });
+
+  restakingTx.ins.slice(withdrawals.length).forEach((input) => {
+    const inputUTXO = findInputUTXO(inputUTXOs, input);
+
+    psbt.addInput({
+      hash: input.hash,
+      index: input.index,
+      sequence: input.sequence,
+      ...getPsbtInputFields(inputUTXO, publicKeyNoCoord),
+    });
+  });
+
+  restakingTx.outs.forEach((o) => {
+    psbt.addOutput({ script: o.script, value: o.value });
+  });
+
+  return psbt;
+};
+
 /**
  * Convert a staking expansion transaction to a PSBT.
  *
@@ -0,0 +1,209 @@
+import { networks, payments, Transaction } from "bitcoinjs-lib";
+import { StakingError, StakingErrorCode } from "../error";
+import {
+  deriveSlashingOutput,
+  deriveStakingOutputInfo,
+  deriveUnbondingOutputInfo,
+} from "../utils/staking";
+import { StakingScriptData, StakingScripts } from "./stakingScript";
+
+// Witness elements starting with this byte are taproot annexes
+const ANNEX_PREFIX = 0x50;
+
+// The script path used to spend a staking, unbonding or slashing output
+export type StakingSpendPath = keyof StakingScripts;
+
+const STAKING_SPEND_PATHS: StakingSpendPath[] = [
+  "timelockScript",
+  "unbondingScript",
+  "slashingScript",
+  "unbondingTimelockScript",
+];
+
+// The kind of output spent through a staking script path
+export type StakingSpentOutput = "staking" | "unbonding" | "slashing";
+
+/**
+ * A signature revealed in the witness of a script path spend.
+ */
+export interface StakingSpendSignature {
+  // The public key without the coordinate the signature is checked against
+  pkNoCoordHex: string;
+  // The signature, including the sighash type byte if not the default one
+  sigHex: string;
+}
+
+/**
+ * The classification of a transaction input spending a staking script path.
+ */
+export interface StakingSpend {
+  // The index of the input in the spending transaction
+  inputIndex: number;
+  // The output spent by the input
+  spentOutput: StakingSpentOutput;
+  // The script path revealed in the input witness
+  path: StakingSpendPath;
+  // The signatures revealed in the input witness. Keys of a multisig that
+  // did not sign are omitted.
+  signatures: StakingSpendSignature[];
+}
+
+/**
+ * Classifies the inputs of a transaction spending a staking, unbonding or
+ * slashing output built from the given staking scripts.
+ *
+ * Each input witness is expected to reveal a tapscript and a control block. An
+ * input is classified only if the tapscript is one of the staking scripts and
+ * the control block commits to the output derived from them, other inputs
+ * (e.g. the funding inputs of a stake expansion) are ignored.
+ *
+ * Note that both an on-demand unbonding and a stake expansion spend the staking
+ * output through the `unbondingScript` path. They can be told apart by the
+ * number of inputs of the spending transaction.
+ *
+ * @param {Transaction} tx - The spending transaction.
+ * @param {StakingScripts} scripts - The staking scripts of the delegation.
+ * @param {networks.Network} network - The Bitcoin network.
+ * @returns {StakingSpend[]} - The classified inputs, empty if the transaction
+ * does not spend any output built from the staking scripts.
+ * @throws {StakingError} - If a classified input does not provide exactly one
+ * witness element per public key of the revealed script.
+ */
+export const classifyStakingSpend = (
+  tx: Transaction,
+  scripts: StakingScripts,
+  network: networks.Network,
+): StakingSpend[] => {
+  const outputs: {
+    spentOutput: StakingSpentOutput;
+    scriptPubKey: Buffer;
+    paths: StakingSpendPath[];
+  }[] = [
+    {
+      spentOutput: "staking",
+      scriptPubKey: deriveStakingOutputInfo(scripts, network).scriptPubKey,
+      paths: ["timelockScript", "unbondingScript", "slashingScript"],
+    },
+    {
+      spentOutput: "unbonding",
+      scriptPubKey: deriveUnbondingOutputInfo(scripts, network).scriptPubKey,
+      paths: ["unbondingTimelockScript", "slashingScript"],
+    },
+    {
+      spentOutput: "slashing",
+      scriptPubKey: deriveSlashingOutput(scripts, network).scriptPubKey,
+      paths: ["unbondingTimelockScript"],
+    },
+  ];
+
+  const spends: StakingSpend[] = [];
+  tx.ins.forEach((input, inputIndex) => {
+    const witness = stripAnnex(input.witness);
+    if (witness.length < 2) {
+      // Key path spend or no witness
+      return;
+    }
+    const tapscript = witness[witness.length - 2];
+    const path = STAKING_SPEND_PATHS.find((leaf) =>
+      scripts[leaf].equals(tapscript),
+    );
+    if (!path) {
+      return;
+    }
+    // The control block must commit to one of the outputs having the path
+    const output = outputs.find(
+      ({ scriptPubKey, paths }) =>
+        paths.includes(path) && commitsToOutput(witness, scriptPubKey),
+    );
+    if (!output) {
+      return;
+    }
+
+    spends.push({
+      inputIndex,
+      spentOutput: output.spentOutput,
+      path,
+      signatures: extractSignatures(
+        witness.slice(0, -2),
+        pathPublicKeys(path, tapscript),
+        inputIndex,
+      ),
+    });
+  });
+  return spends;
+};
+
+const stripAnnex = (witness: Buffer[]): Buffer[] => {
+  if (
+    witness.length >= 2 &&
+    witness[witness.length - 1].length > 0 &&
+    witness[witness.length - 1][0] === ANNEX_PREFIX
+  ) {
+    return witness.slice(0, -1);
+  }
+  return witness;
+};
+
+/**
+ * Checks whether the tapscript and control block of the witness commit to the
+ * taproot output script.
+ */
+const commitsToOutput = (witness: Buffer[], scriptPubKey: Buffer): boolean => {
+  try {
+    payments.p2tr({ output: scriptPubKey, witness });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Returns the public keys of the script in the order their signatures are
+ * checked, i.e. the staker key first.
+ */
+const pathPublicKeys = (
+  path: StakingSpendPath,
+  tapscript: Buffer,
+): Buffer[] => {
+  switch (path) {
+    case "timelockScript":
+    case "unbondingTimelockScript":
+      return [StakingScriptData.parseTimelockScript(tapscript, path).stakerKey];
+    case "unbondingScript": {
+      const { stakerKey, covenantKeys } =
+        StakingScriptData.parseUnbondingScript(tapscript);
+      return [stakerKey, ...covenantKeys];
+    }
+    case "slashingScript": {
+      const { stakerKey, finalityProviderKeys, covenantKeys } =
+        StakingScriptData.parseSlashingScript(tapscript);
+      return [stakerKey, ...finalityProviderKeys, ...covenantKeys];
+    }
+  }
+};
+
+/**
+ * Pairs the witness stack with the public keys of the script. The script pops
+ * the top of the stack first, hence the last witness element is checked
+ * against the first public key.
+ */
+const extractSignatures = (
+  stack: Buffer[],
+  publicKeys: Buffer[],
+  inputIndex: number,
+): StakingSpendSignature[] => {
+  if (stack.length !== publicKeys.length) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      `Input ${inputIndex} has ${stack.length} witness elements for ` +
+        `${publicKeys.length} public keys`,
+    );
+  }
+  const reversed = [...stack].reverse();
+  return publicKeys
+    .map((pk, i) => ({
+      pkNoCoordHex: pk.toString("hex"),
+      sigHex: reversed[i].toString("hex"),
+    }))
+    .filter(({ sigHex }) => sigHex.length > 0);
+};
@@ -1,5 +1,6 @@
 import { opcodes, script } from "bitcoinjs-lib";
 import { NO_COORD_PK_BYTE_LENGTH } from "../constants/keys";
+import { StakingScriptLeaf, StakingScriptParseError } from "../error";
 
 export const MAGIC_BYTES_LEN = 4;
 
@@ -11,6 +12,25 @@ export interface StakingScripts {
   unbondingTimelockScript: Buffer;
 }
 
+// The data encoded in a timelock script, i.e. the staking timelock script or
+// the unbonding timelock script.
+export interface ParsedTimelockScript {
+  stakerKey: Buffer;
+  timelock: number;
+}
+
+// The data encoded in an unbonding script.
+export interface ParsedUnbondingScript {
+  stakerKey: Buffer;
+  covenantKeys: Buffer[];
+  covenantThreshold: number;
+}
+
+// The data encoded in a slashing script.
+export interface ParsedSlashingScript extends ParsedUnbondingScript {
+  finalityProviderKeys: Buffer[];
+}
+
 // StakingScriptData is a class that holds the data required for the BTC Staking Script
 // and exposes methods for converting it into useful formats
 export class StakingScriptData {
@@ -312,4 +332,295 @@ export class StakingScriptData {
     }
     return script.compile(scriptElements);
   }
+
+  // fromScripts and the parse methods below go the other way around: from the
+  // compiled scripts back to the keys, thresholds and timelocks
+
+  /**
+   * Reconstructs the staking script data from the compiled staking scripts.
+   * Each leaf is checked against the exact opcode template produced by the
+   * build methods and all leaves must agree on the staker key, covenant keys
+   * and covenant threshold.
+   * Note: the finality provider and covenant keys are returned in the sorted
+   * order in which they appear in the scripts.
+   * @param scripts - The compiled staking scripts.
+   * @returns {StakingScriptData} The staking script data.
+   * @throws {StakingScriptParseError} If any leaf is malformed or the leaves
+   * are inconsistent with each other.
+   */
+  static fromScripts(scripts: StakingScripts): StakingScriptData {
+    const timelock = StakingScriptData.parseTimelockScript(
+      scripts.timelockScript,
+    );
+    const unbondingTimelock = StakingScriptData.parseTimelockScript(
+      scripts.unbondingTimelockScript,
+      "unbondingTimelockScript",
+    );
+    const unbonding = StakingScriptData.parseUnbondingScript(
+      scripts.unbondingScript,
+    );
+    const slashing = StakingScriptData.parseSlashingScript(
+      scripts.slashingScript,
+    );
+
+    const stakerKeys: [StakingScriptLeaf, Buffer][] = [
+      ["unbondingTimelockScript", unbondingTimelock.stakerKey],
+      ["unbondingScript", unbonding.stakerKey],
+      ["slashingScript", slashing.stakerKey],
+    ];
+    for (const [leaf, stakerKey] of stakerKeys) {
+      if (!stakerKey.equals(timelock.stakerKey)) {
+        throw new StakingScriptParseError(
+          leaf,
+          "staker key does not match the timelockScript",
+        );
+      }
+    }
+    if (
+      slashing.covenantThreshold !== unbonding.covenantThreshold ||
+      slashing.covenantKeys.length !== unbonding.covenantKeys.length ||
+      slashing.covenantKeys.some((k, i) => !k.equals(unbonding.covenantKeys[i]))
+    ) {
+      throw new StakingScriptParseError(
+        "slashingScript",
+        "covenant committee does not match the unbondingScript",
+      );
+    }
+
+    try {
+      return new StakingScriptData(
+        timelock.stakerKey,
+        slashing.finalityProviderKeys,
+        unbonding.covenantKeys,
+        unbonding.covenantThreshold,
+        timelock.timelock,
+        unbondingTimelock.timelock,
+      );
+    } catch (error) {
+      // All other checks are done while parsing, the only remaining failure
+      // is a key shared between the staker, finality providers and covenants,
+      // all of which are part of the slashing script.
+      throw new StakingScriptParseError(
+        "slashingScript",
+        "staker, finality provider and covenant keys must be unique",
+      );
+    }
+  }
+
+  /**
+   * Parses a timelock script in the form:
+   *    <stakerPubKey> OP_CHECKSIGVERIFY <timelock> OP_CHECKSEQUENCEVERIFY
+   * @param timelockScript - The compiled timelock script.
+   * @param leaf - The leaf the script belongs to, used for error reporting.
+   * @returns {ParsedTimelockScript} The staker key and timelock.
+   * @throws {StakingScriptParseError} If the script is malformed.
+   */
+  static parseTimelockScript(
+    timelockScript: Buffer,
+    leaf: "timelockScript" | "unbondingTimelockScript" = "timelockScript",
+  ): ParsedTimelockScript {
+    const chunks = decompileLeaf(timelockScript, leaf);
+    if (chunks.length !== 4) {
+      throw new StakingScriptParseError(leaf, "unexpected number of opcodes");
+    }
+    const stakerKey = expectKey(chunks[0], leaf);
+    expectOpcode(chunks[1], opcodes.OP_CHECKSIGVERIFY, leaf);
+    const timelock = decodeScriptNumber(chunks[2], leaf);
+    expectOpcode(chunks[3], opcodes.OP_CHECKSEQUENCEVERIFY, leaf);
+    if (timelock <= 0 || timelock > 65535) {
+      throw new StakingScriptParseError(leaf, "timelock is out of range");
+    }
+    return { stakerKey, timelock };
+  }
+
+  /**
+   * Parses an unbonding script in the form:
+   *    buildSingleKeyScript(stakerPk, true) ||
+   *    buildMultiKeyScript(covenantPks, covenantThreshold, false)
+   * @param unbondingScript - The compiled unbonding script.
+   * @returns {ParsedUnbondingScript} The staker key and covenant committee.
+   * @throws {StakingScriptParseError} If the script is malformed.
+   */
+  static parseUnbondingScript(unbondingScript: Buffer): ParsedUnbondingScript {
+    const leaf = "unbondingScript";
+    const chunks = decompileLeaf(unbondingScript, leaf);
+    const staker = parseKeyScript(chunks, 0, true, leaf);
+    if (staker.keys.length !== 1) {
+      throw new StakingScriptParseError(leaf, "expected a single staker key");
+    }
+    const covenants = parseKeyScript(chunks, staker.next, false, leaf);
+    if (covenants.next !== chunks.length) {
+      throw new StakingScriptParseError(leaf, "unexpected trailing opcodes");
+    }
+    return {
+      stakerKey: staker.keys[0],
+      covenantKeys: covenants.keys,
+      covenantThreshold: covenants.threshold,
+    };
+  }
+
+  /**
+   * Parses a slashing script in the form:
+   *    buildSingleKeyScript(stakerPk, true) ||
+   *    buildMultiKeyScript(finalityProviderPKs, 1, true) ||
+   *    buildMultiKeyScript(covenantPks, covenantThreshold, false)
+   * @param slashingScript - The compiled slashing script.
+   * @returns {ParsedSlashingScript} The staker key, finality provider keys and
+   * covenant committee.
+   * @throws {StakingScriptParseError} If the script is malformed.
+   */
+  static parseSlashingScript(slashingScript: Buffer): ParsedSlashingScript {
+    const leaf = "slashingScript";
+    const chunks = decompileLeaf(slashingScript, leaf);
+    const staker = parseKeyScript(chunks, 0, true, leaf);
+    if (staker.keys.length !== 1) {
+      throw new StakingScriptParseError(leaf, "expected a single staker key");
+    }
+    const finalityProviders = parseKeyScript(chunks, staker.next, true, leaf);
+    if (finalityProviders.threshold !== 1) {
+      throw new StakingScriptParseError(
+        leaf,
+        "finality provider threshold must be 1",
+      );
+    }
+    const covenants = parseKeyScript(
+      chunks,
+      finalityProviders.next,
+      false,
+      leaf,
+    );
+    if (covenants.next !== chunks.length) {
+      throw new StakingScriptParseError(leaf, "unexpected trailing opcodes");
+    }
+    return {
+      stakerKey: staker.keys[0],
+      finalityProviderKeys: finalityProviders.keys,
+      covenantKeys: covenants.keys,
+      covenantThreshold: covenants.threshold,
+    };
+  }
 }
+
+type ScriptChunks = (number | Buffer)[];
+
+// decompileLeaf decompiles the leaf script and makes sure it is canonically
+// encoded, i.e. compiling the chunks again gives back the same script.
+const decompileLeaf = (
+  leafScript: Buffer,
+  leaf: StakingScriptLeaf,
+): ScriptChunks => {
+  const chunks = script.decompile(leafScript);
+  if (!chunks || !script.compile(chunks).equals(leafScript)) {
+    throw new StakingScriptParseError(leaf, "script cannot be decompiled");
+  }
+  return chunks;
+};
+
+const isKey = (chunk: number | Buffer | undefined): chunk is Buffer =>
+  Buffer.isBuffer(chunk) && chunk.length === NO_COORD_PK_BYTE_LENGTH;
+
+const expectKey = (
+  chunk: number | Buffer | undefined,
+  leaf: StakingScriptLeaf,
+): Buffer => {
+  if (!isKey(chunk)) {
+    throw new StakingScriptParseError(
+      leaf,
+      `expected a ${NO_COORD_PK_BYTE_LENGTH} bytes public key`,
+    );
+  }
+  return chunk;
+};
+
+const expectOpcode = (
+  chunk: number | Buffer | undefined,
+  opcode: number,
+  leaf: StakingScriptLeaf,
+) => {
+  if (chunk !== opcode) {
+    throw new StakingScriptParseError(
+      leaf,
+      `expected ${script.toASM([opcode])}`,
+    );
+  }
+};
+
+// decodeScriptNumber decodes a minimally encoded script number. Numbers from 1
+// to 16 are compiled into OP_1 to OP_16.
+const decodeScriptNumber = (
+  chunk: number | Buffer | undefined,
+  leaf: StakingScriptLeaf,
+): number => {
+  if (typeof chunk === "number") {
+    if (chunk >= opcodes.OP_1 && chunk <= opcodes.OP_16) {
+      return chunk - opcodes.OP_1 + 1;
+    }
+  } else if (chunk) {
+    try {
+      const value = script.number.decode(chunk);
+      if (script.number.encode(value).equals(chunk)) {
+        return value;
+      }
+    } catch (error) {
+      // handled below
+    }
+  }
+  throw new StakingScriptParseError(leaf, "expected a script number");
+};
+
+/**
+ * Parses a key script built by buildSingleKeyScript or buildMultiKeyScript
+ * starting at the given chunk index.
+ * @returns The keys, the threshold and the index of the next chunk.
+ */
+const parseKeyScript = (
+  chunks: ScriptChunks,
+  start: number,
+  withVerify: boolean,
+  leaf: StakingScriptLeaf,
+): { keys: Buffer[]; threshold: number; next: number } => {
+  const keys = [expectKey(chunks[start], leaf)];
+  // <pk> OP_CHECKSIGVERIFY
+  if (withVerify && chunks[start + 1] === opcodes.OP_CHECKSIGVERIFY) {
+    return { keys, threshold: 1, next: start + 2 };
+  }
+  expectOpcode(chunks[start + 1], opcodes.OP_CHECKSIG, leaf);
+  let i = start + 2;
+  while (isKey(chunks[i])) {
+    keys.push(chunks[i] as Buffer);
+    expectOpcode(chunks[i + 1], opcodes.OP_CHECKSIGADD, leaf);
+    i += 2;
+  }
+  // <pk> OP_CHECKSIG
+  if (keys.length === 1) {
+    if (withVerify) {
+      throw new StakingScriptParseError(
+        leaf,
+        `expected ${script.toASM([opcodes.OP_CHECKSIGVERIFY])}`,
+      );
+    }
+    return { keys, threshold: 1, next: i };
+  }
+  // <pk1> OP_CHECKSIG <pk2> OP_CHECKSIGADD ... <threshold> OP_NUMEQUAL(VERIFY)
+  const threshold = decodeScriptNumber(chunks[i], leaf);
+  expectOpcode(
+    chunks[i + 1],
+    withVerify ? opcodes.OP_NUMEQUALVERIFY : opcodes.OP_NUMEQUAL,
+    leaf,
+  );
+  for (let k = 0; k < keys.length - 1; k++) {
+    if (Buffer.compare(keys[k], keys[k + 1]) >= 0) {
+      throw new StakingScriptParseError(
+        leaf,
+        "multisig keys must be sorted and unique",
+      );
+    }
+  }
+  if (threshold > keys.length) {
+    throw new StakingScriptParseError(
+      leaf,
+      "threshold is greater than the number of keys",
+    );
+  }
+  return { keys, threshold, next: i + 2 };
+};
@@ -1,3 +1,4 @@
+import * as ecc from "@bitcoin-js/tiny-secp256k1-asmjs";
 import {
   Psbt,
   Transaction,
@@ -5,30 +6,57 @@ import {
   networks,
   opcodes,
   payments,
-  script,
 } from "bitcoinjs-lib";
+import { tapleafHash } from "bitcoinjs-lib/src/payments/bip341";
 import { Taptree } from "bitcoinjs-lib/src/types";
 
 import { BTC_DUST_SAT } from "../constants/dustSat";
+import { INCREMENTAL_RELAY_FEE_RATE } from "../constants/fee";
 import { internalPubkey } from "../constants/internalPubkey";
-import { NON_RBF_SEQUENCE, TRANSACTION_VERSION } from "../constants/psbt";
+import {
+  NON_RBF_SEQUENCE,
+  RBF_SEQUENCE,
+  TRANSACTION_VERSION,
+} from "../constants/psbt";
 import { REDEEM_VERSION } from "../constants/transaction";
+import { CovenantSignatureError } from "../error";
 import { UTXO } from "../types/UTXO";
 import { CovenantSignature } from "../types/covenantSignatures";
-import { PsbtResult, TransactionResult } from "../types/transaction";
+import { TransactionOutput } from "../types/psbtOutputs";
+import {
+  BatchStakingOutput,
+  FeeSponsor,
+  PsbtResult,
+  StakingTransactionBuildOptions,
+  TransactionResult,
+  WithdrawalDestination,
+  WithdrawalInput,
+} from "../types/transaction";
 import { isValidBitcoinAddress, transactionIdToHash } from "../utils/btc";
 import {
-  getStakingExpansionTxFundingUTXOAndFees,
+  CoinSelector,
+  FeeEstimationMode,
+  getBatchWithdrawTxFee,
+  getCoinSelectionWaste,
+  getCpfpChildFee,
+  getPlaceholderTxVirtualSize,
+  getRestakingTxInputUTXOsAndFees,
+  getSponsoredStakingTxInputUTXOsAndFees,
+  getStakingExpansionTxInputUTXOsAndFees,
+  getStakingScriptPathPlaceholderInput,
   getStakingTxInputUTXOsAndFees,
-  getWithdrawTxFee,
+  getUTXOPlaceholderInput,
 } from "../utils/fee";
 import { inputValueSum } from "../utils/fee/utils";
 import {
   buildStakingTransactionOutputs,
   deriveStakingOutputInfo,
   deriveUnbondingOutputInfo,
+  deriveWithdrawalSpendInfo,
   findMatchingTxOutputIndex,
 } from "../utils/staking";
+import { findInputUTXO } from "../utils/utxo/findInputUTXO";
+import { getPsbtInputFields } from "../utils/utxo/getPsbtInputFields";
 
 // https://bips.xyz/370
 const BTC_LOCKTIME_HEIGHT_TIME_CUTOFF = 500000000;
@@ -53,8 +81,7 @@ const BTC_SLASHING_FRACTION_DIGITS = 4;
  * - inputUTXOs: All available UTXOs from the wallet.
  * - network: Bitcoin network.
  * - feeRate: Fee rate in satoshis per byte.
- * - publicKeyNoCoord: Public key if the wallet is in taproot mode.
- * - lockHeight: Optional block height locktime to set for the transaction (i.e., not mined until the block height).
+ * - options: Optional settings, such as the block height locktime to set for the transaction (i.e., not mined until the block height).
  *
  * @param {Object} scripts - Scripts used to construct the taproot output.
  * such as timelockScript, unbondingScript, slashingScript, and dataEmbedScript.
@@ -63,7 +90,18 @@ const BTC_SLASHING_FRACTION_DIGITS = 4;
  * @param {UTXO[]} inputUTXOs - All available UTXOs from the wallet.
  * @param {networks.Network} network - The Bitcoin network.
  * @param {number} feeRate - The fee rate in satoshis per byte.
- * @param {number} [lockHeight] - The optional block height locktime.
+ * @param {StakingTransactionBuildOptions} [options] - The optional settings of
+ * the transaction.
+ * @param {number} [options.lockHeight] - The optional block height locktime.
+ * @param {FeeEstimationMode} [options.feeEstimationMode="heuristic"] - The fee
+ * estimation mode.
+ * @param {CoinSelector} [options.coinSelector] - The coin selection strategy,
+ * largest first by default.
+ * @param {boolean} [options.replaceable=false] - Whether the transaction
+ * signals opt-in replace-by-fee (BIP125), so that its fee can be bumped with
+ * `bumpStakingTransactionFee`.
+ * @param {FeeSponsor} [options.feeSponsor] - The wallet paying the fee instead
+ * of the staker, see `batchStakingTransaction`.
  * @returns {TransactionResult} - An object containing the unsigned transaction and fee
  * @throws Will throw an error if the amount or fee rate is less than or equal
  * to 0, if the change address is invalid, or if the public key is invalid.
@@ -80,10 +118,81 @@ export function stakingTransaction(
   inputUTXOs: UTXO[],
   network: networks.Network,
   feeRate: number,
-  lockHeight?: number,
+  options: StakingTransactionBuildOptions = {},
 ): TransactionResult {
-  // Check that amount and fee are bigger than 0
-  if (amount <= 0 || feeRate <= 0) {
+  return batchStakingTransaction(
+    [{ scripts, amount }],
+    changeAddress,
+    inputUTXOs,
+    network,
+    feeRate,
+    options,
+  );
+}
+
+/**
+ * Constructs an unsigned BTC Staking transaction creating several staking
+ * outputs, e.g. to several sets of finality providers.
+ *
+ * The staking outputs are added in the given order, followed by the change
+ * output, if the change is above dust. The inputs are shared by all the
+ * staking outputs and selected to cover their total amount and the fee, which
+ * is lower than the fees of one staking transaction per output.
+ *
+ * The unbonding and slashing transactions of a staking output spend it at its
+ * index in the transaction, so the staking outputs must be distinct. Babylon
+ * identifies a delegation by the hash of its staking transaction, hence at
+ * most one of the staking outputs can be registered as a delegation.
+ *
+ * If a fee sponsor is given, the UTXOs of the staker only cover the staking
+ * amounts and the UTXOs of the sponsor cover the fee. The inputs of the staker
+ * come first, followed by the inputs of the sponsor, and each party receives
+ * its own change output after the staking outputs.
+ *
+ * @param {BatchStakingOutput[]} stakingOutputs - The staking outputs to
+ * create, with the scripts of their delegation and their amount.
+ * @param {string} changeAddress - The address to send the change to.
+ * @param {UTXO[]} inputUTXOs - All available UTXOs from the wallet.
+ * @param {networks.Network} network - The Bitcoin network.
+ * @param {number} feeRate - The fee rate in satoshis per byte.
+ * @param {StakingTransactionBuildOptions} [options] - The optional settings of
+ * the transaction.
+ * @param {number} [options.lockHeight] - The optional block height locktime.
+ * @param {FeeEstimationMode} [options.feeEstimationMode="heuristic"] - The fee
+ * estimation mode.
+ * @param {CoinSelector} [options.coinSelector] - The coin selection strategy,
+ * largest first by default.
+ * @param {boolean} [options.replaceable=false] - Whether the transaction
+ * signals opt-in replace-by-fee (BIP125).
+ * @param {FeeSponsor} [options.feeSponsor] - The wallet paying the fee instead
+ * of the staker.
+ * @returns {TransactionResult} - An object containing the unsigned transaction and fee
+ * @throws Will throw an error if there is no staking output, if a staking
+ * output is duplicated, if an amount or the fee rate is less than or equal to
+ * 0, if a change address is invalid, if a UTXO belongs to both the staker and
+ * the fee sponsor or if the UTXOs cannot cover the staking amounts and the
+ * fee.
+ */
+export function batchStakingTransaction(
+  stakingOutputs: BatchStakingOutput[],
+  changeAddress: string,
+  inputUTXOs: UTXO[],
+  network: networks.Network,
+  feeRate: number,
+  options: StakingTransactionBuildOptions = {},
+): TransactionResult {
+  const {
+    lockHeight,
+    feeEstimationMode = "heuristic",
+    coinSelector,
+    replaceable = false,
+    feeSponsor,
+  } = options;
+  if (stakingOutputs.length === 0) {
+    throw new Error("At least one staking output is required");
+  }
+  // Check that amounts and fee are bigger than 0
+  if (stakingOutputs.some(({ amount }) => amount <= 0) || feeRate <= 0) {
     throw new Error("Amount and fee rate must be bigger than 0");
   }
 
@@ -93,39 +202,61 @@ export function stakingTransaction(
   }
 
   // Build outputs and estimate the fee
-  const stakingOutputs = buildStakingTransactionOutputs(
-    scripts,
-    network,
-    amount,
+  const outputs = stakingOutputs.flatMap(({ scripts, amount }) =>
+    buildStakingTransactionOutputs(scripts, network, amount),
   );
-  const { selectedUTXOs, fee } = getStakingTxInputUTXOsAndFees(
-    inputUTXOs,
-    amount,
-    feeRate,
-    stakingOutputs,
+  const stakingScriptPubKeys = new Set(
+    outputs.map(({ scriptPubKey }) => scriptPubKey.toString("hex")),
   );
+  if (stakingScriptPubKeys.size !== outputs.length) {
+    throw new Error("A staking output cannot be created more than once");
+  }
+  const amount = stakingOutputs.reduce((acc, output) => acc + output.amount, 0);
+  const { selectedUTXOs, fee, changes } = feeSponsor
+    ? selectSponsoredStakingTxInputUTXOs(
+        feeSponsor,
+        changeAddress,
+        inputUTXOs,
+        network,
+        amount,
+        feeRate,
+        outputs,
+        feeEstimationMode,
+        coinSelector,
+      )
+    : selectStakingTxInputUTXOs(
+        changeAddress,
+        inputUTXOs,
+        amount,
+        feeRate,
+        outputs,
+        feeEstimationMode,
+        coinSelector,
+      );
 
   const tx = new Transaction();
   tx.version = TRANSACTION_VERSION;
 
   for (let i = 0; i < selectedUTXOs.length; ++i) {
     const input = selectedUTXOs[i];
-    tx.addInput(transactionIdToHash(input.txid), input.vout, NON_RBF_SEQUENCE);
+    tx.addInput(
+      transactionIdToHash(input.txid),
+      input.vout,
+      replaceable ? RBF_SEQUENCE : NON_RBF_SEQUENCE,
+    );
   }
 
-  stakingOutputs.forEach((o) => {
+  outputs.forEach((o) => {
     tx.addOutput(o.scriptPubKey, o.value);
   });
 
-  // Add a change output only if there's any amount leftover from the inputs
-  const inputsSum = inputValueSum(selectedUTXOs);
-  // Check if the change amount is above the dust limit, and if so, add it as a change output
-  if (inputsSum - (amount + fee) > BTC_DUST_SAT) {
-    tx.addOutput(
-      address.toOutputScript(changeAddress, network),
-      inputsSum - (amount + fee),
-    );
-  }
+  // Check if each change amount is above the dust limit, and if so, add it as
+  // a change output
+  changes.forEach(({ changeAddress, value }) => {
+    if (value > BTC_DUST_SAT) {
+      tx.addOutput(address.toOutputScript(changeAddress, network), value);
+    }
+  });
 
   // Set the locktime field if provided. If not provided, the locktime will be set to 0 by default
   // Only height based locktime is supported
@@ -142,27 +273,263 @@ export function stakingTransaction(
   };
 }
 
+// The UTXOs selected to fund a staking transaction, along with the change of
+// each party funding it
+interface StakingTxFunding {
+  selectedUTXOs: UTXO[];
+  fee: number;
+  changes: { changeAddress: string; value: number }[];
+}
+
+// Selects the UTXOs of the staker covering the staking amount and the fee
+const selectStakingTxInputUTXOs = (
+  changeAddress: string,
+  inputUTXOs: UTXO[],
+  amount: number,
+  feeRate: number,
+  outputs: TransactionOutput[],
+  feeEstimationMode: FeeEstimationMode,
+  coinSelector?: CoinSelector,
+): StakingTxFunding => {
+  const { selectedUTXOs, fee } = getStakingTxInputUTXOsAndFees(
+    inputUTXOs,
+    amount,
+    feeRate,
+    outputs,
+    feeEstimationMode,
+    coinSelector,
+  );
+  return {
+    selectedUTXOs,
+    fee,
+    changes: [
+      { changeAddress, value: inputValueSum(selectedUTXOs) - (amount + fee) },
+    ],
+  };
+};
+
+// Selects the UTXOs of the staker covering the staking amount, followed by the
+// UTXOs of the sponsor covering the fee
+const selectSponsoredStakingTxInputUTXOs = (
+  feeSponsor: FeeSponsor,
+  changeAddress: string,
+  inputUTXOs: UTXO[],
+  network: networks.Network,
+  amount: number,
+  feeRate: number,
+  outputs: TransactionOutput[],
+  feeEstimationMode: FeeEstimationMode,
+  coinSelector?: CoinSelector,
+): StakingTxFunding => {
+  if (!isValidBitcoinAddress(feeSponsor.address, network)) {
+    throw new Error("Invalid fee sponsor change address");
+  }
+  const stakerUTXOKeys = new Set(
+    inputUTXOs.map(({ txid, vout }) => `${txid}:${vout}`),
+  );
+  if (
+    feeSponsor.inputUTXOs.some(({ txid, vout }) =>
+      stakerUTXOKeys.has(`${txid}:${vout}`),
+    )
+  ) {
+    throw new Error(
+      "A UTXO cannot be spent by both the staker and the fee sponsor",
+    );
+  }
+
+  const { stakerUTXOs, stakerChange, sponsorUTXOs, fee } =
+    getSponsoredStakingTxInputUTXOsAndFees(
+      inputUTXOs,
+      feeSponsor.inputUTXOs,
+      amount,
+      feeRate,
+      outputs,
+      address.toOutputScript(changeAddress, network),
+      feeEstimationMode,
+      coinSelector,
+    );
+  return {
+    selectedUTXOs: [...stakerUTXOs, ...sponsorUTXOs],
+    fee,
+    changes: [
+      { changeAddress, value: stakerChange },
+      {
+        changeAddress: feeSponsor.address,
+        value: inputValueSum(sponsorUTXOs) - fee,
+      },
+    ],
+  };
+};
+
+/**
+ * Bumps the fee of a staking transaction signaling opt-in replace-by-fee by
+ * building its replacement (BIP125).
+ *
+ * The replacement spends all the inputs of the original transaction, so that
+ * it conflicts with it, and keeps its outputs in the same order, except for the
+ * change output which is recomputed. The staking output is thus unchanged. If
+ * the original inputs do not cover the higher fee, additional UTXOs are spent
+ * from the highest value first. They must be confirmed, as a replacement
+ * cannot spend new unconfirmed outputs (BIP125 rule 2).
+ *
+ * The fee of the replacement is the highest of the fee at the new fee rate and
+ * the fee of the original transaction increased by the incremental relay fee
+ * for the size of the replacement (BIP125 rules 3 and 4).
+ *
+ * The replacement always pays a higher fee and thus always has a new
+ * transaction ID. The unbonding and slashing transactions signed for a
+ * delegation registered on the Babylon chain with the original transaction
+ * spend its staking output by transaction ID, so any such delegation has to be
+ * registered again with the replacement. The staking inputs are unchanged and
+ * can be reused for the new registration.
+ *
+ * @param {Transaction} originalTx - The staking transaction to replace.
+ * @param {number} newFeeRate - The fee rate of the replacement in satoshis per
+ * byte.
+ * @param {UTXO[]} inputUTXOs - The UTXOs spent by the original transaction
+ * and the UTXOs that can be added to fund the replacement.
+ * @param {string} changeAddress - The change address of the original
+ * transaction, which receives the change of the replacement.
+ * @param {networks.Network} network - The Bitcoin network.
+ * @param {FeeEstimationMode} [feeEstimationMode="heuristic"] - The fee
+ * estimation mode.
+ * @returns {TransactionResult} - An object containing the unsigned
+ * replacement and its fee.
+ * @throws Will throw an error if the original transaction does not signal
+ * replace-by-fee, if one of its inputs is not found in the UTXOs or if the
+ * UTXOs cannot cover the higher fee.
+ */
+export function bumpStakingTransactionFee(
+  originalTx: Transaction,
+  newFeeRate: number,
+  inputUTXOs: UTXO[],
+  changeAddress: string,
+  network: networks.Network,
+  feeEstimationMode: FeeEstimationMode = "heuristic",
+): TransactionResult {
+  if (newFeeRate <= 0) {
+    throw new Error("Fee rate must be bigger than 0");
+  }
+  if (!isValidBitcoinAddress(changeAddress, network)) {
+    throw new Error("Invalid change address");
+  }
+  // BIP125 rule 1: the original transaction must signal replaceability
+  if (!originalTx.ins.some((input) => input.sequence < NON_RBF_SEQUENCE - 1)) {
+    throw new Error(
+      "The original transaction does not signal replace-by-fee and cannot be replaced",
+    );
+  }
+
+  const originalUTXOs = originalTx.ins.map((input) =>
+    findInputUTXO(inputUTXOs, input),
+  );
+  const originalFee =
+    inputValueSum(originalUTXOs) -
+    originalTx.outs.reduce((acc, output) => acc + output.value, 0);
+
+  // Keep all the outputs but the change output, which comes last
+  const changeScript = address.toOutputScript(changeAddress, network);
+  const lastOutput = originalTx.outs[originalTx.outs.length - 1];
+  const outputs = (
+    lastOutput.script.equals(changeScript)
+      ? originalTx.outs.slice(0, -1)
+      : originalTx.outs
+  ).map((output) => ({ scriptPubKey: output.script, value: output.value }));
+  const outputsValue = outputs.reduce((acc, output) => acc + output.value, 0);
+
+  const isOriginalInput = (utxo: UTXO) =>
+    originalUTXOs.some((u) => u.txid === utxo.txid && u.vout === utxo.vout);
+  // Spends the original inputs and as few additional UTXOs as possible
+  const replacementSelector: CoinSelector = {
+    select: (availableUTXOs, context) => {
+      const additionalUTXOs = availableUTXOs
+        .filter((utxo) => !isOriginalInput(utxo))
+        .sort((a, b) => b.value - a.value);
+      const selectedUTXOs = [...originalUTXOs];
+      for (let i = 0; i <= additionalUTXOs.length; i++) {
+        const fee = context.getFee(selectedUTXOs);
+        const replacementFee = Math.max(
+          fee,
+          originalFee +
+            Math.ceil(fee / newFeeRate) * INCREMENTAL_RELAY_FEE_RATE,
+        );
+        if (inputValueSum(selectedUTXOs) >= outputsValue + replacementFee) {
+          return {
+            selectedUTXOs,
+            fee: replacementFee,
+            waste: getCoinSelectionWaste(
+              selectedUTXOs,
+              replacementFee,
+              context,
+            ),
+          };
+        }
+        if (i < additionalUTXOs.length) {
+          selectedUTXOs.push(additionalUTXOs[i]);
+        }
+      }
+      throw new Error(
+        "Insufficient funds: unable to gather enough UTXOs to cover the replacement fee",
+      );
+    },
+  };
+  const { selectedUTXOs, fee } = getStakingTxInputUTXOsAndFees(
+    inputUTXOs,
+    outputsValue,
+    newFeeRate,
+    outputs,
+    feeEstimationMode,
+    replacementSelector,
+  );
+
+  const tx = new Transaction();
+  tx.version = originalTx.version;
+  tx.locktime = originalTx.locktime;
+  selectedUTXOs.forEach((input) => {
+    tx.addInput(transactionIdToHash(input.txid), input.vout, RBF_SEQUENCE);
+  });
+  outputs.forEach((o) => {
+    tx.addOutput(o.scriptPubKey, o.value);
+  });
+  const change = inputValueSum(selectedUTXOs) - (outputsValue + fee);
+  if (change > BTC_DUST_SAT) {
+    tx.addOutput(changeScript, change);
+  }
+
+  return {
+    transaction: tx,
+    fee,
+  };
+}
+
 /**
- * Expand an existing staking transaction with additional finality providers
- * or renew timelock.
+ * Expand an existing staking transaction with additional finality providers,
+ * renew timelock or increase the staking amount.
  *
  * This function builds a Bitcoin transaction that:
  * 1. Spends the previous staking transaction output as the first input
- * 2. Uses a funding UTXO as the second input to cover transaction fees
+ * 2. Uses a single funding UTXO as the second input to cover transaction fees
+ * and the increase of the staking amount
  * 3. Creates new staking outputs where the timelock is renewed or FPs added
  * 4. Returns any remaining funds as change
  *
  * @param network - Bitcoin network (mainnet, testnet, etc.)
  * @param scripts - Scripts for the new staking outputs
- * @param amount - Total staking amount (must equal previous staking amount,
- * we only support equal amounts for now)
- * @param changeAddress - Bitcoin address to receive change from funding UTXO
+ * @param amount - Total staking amount, which must be at least the previous
+ * staking amount
+ * @param changeAddress - Bitcoin address to receive change from funding UTXOs
  * @param feeRate - Fee rate in satoshis per byte
  * @param inputUTXOs - Available UTXOs to use for funding the expansion
  * @param previousStakingTxInfo - Details of the previous staking transaction
  * being expanded
+ * @param options - The optional settings of the transaction
+ * @param options.feeEstimationMode - The fee estimation mode, "heuristic" by
+ * default
+ * @param options.coinSelector - The strategy selecting the funding UTXO, see
+ * `getStakingExpansionTxInputUTXOsAndFees` for the default one
  * @returns {TransactionResult & { fundingUTXO: UTXO }} containing the built
- * transaction and calculated fee, and the funding UTXO
+ * transaction and calculated fee, and the funding UTXO, whose transaction is
+ * the funding transaction of the expansion registered on Babylon.
  */
 export function stakingExpansionTransaction(
   network: networks.Network,
@@ -183,9 +550,14 @@ export function stakingExpansionTransaction(
       slashingScript: Buffer;
     };
   },
+  options: Pick<
+    StakingTransactionBuildOptions,
+    "feeEstimationMode" | "coinSelector"
+  > = {},
 ): TransactionResult & {
   fundingUTXO: UTXO;
 } {
+  const { feeEstimationMode = "heuristic", coinSelector } = options;
   // Validate input parameters
   if (amount <= 0 || feeRate <= 0) {
     throw new Error("Amount and fee rate must be bigger than 0");
@@ -214,13 +586,11 @@ export function stakingExpansionTransaction(
   const previousStakingAmount =
     previousStakingTxInfo.stakingTx.outs[previousStakingOutputIndex].value;
 
-  // Validate that the expansion amount matches the previous staking amount
   // According to Babylon protocol, expansion amount must be >= previous amount
-  // Currently, this library only supports equal amounts (no stake increase)
-  if (amount !== previousStakingAmount) {
+  if (amount < previousStakingAmount) {
     throw new Error(
-      "Expansion staking transaction amount must be equal to the previous " +
-        "staking amount. Increase of the staking amount is not supported yet.",
+      "Expansion staking transaction amount must not be lower than the " +
+        "previous staking amount",
     );
   }
 
@@ -232,12 +602,33 @@ export function stakingExpansionTransaction(
     amount,
   );
 
-  // Select a single funding UTXO and calculate the required fee
-  // The funding UTXO will be used as the second input to cover transaction fees
-  const { selectedUTXO, fee } = getStakingExpansionTxFundingUTXOAndFees(
+  // Select the funding UTXO and calculate the required fee
+  // The funding UTXO covers the transaction fees and the staking amount
+  // increase. The previous staking output is spent through the unbonding
+  // path, which requires the covenant signatures on top of the staker
+  // signature
+  const { timelockScript, unbondingScript, slashingScript } =
+    previousStakingTxInfo.scripts;
+  const previousStakingInput =
+    feeEstimationMode === "exact"
+      ? getStakingScriptPathPlaceholderInput(
+          [
+            { output: slashingScript },
+            [{ output: unbondingScript }, { output: timelockScript }],
+          ],
+          unbondingScript,
+          "unbondingScript",
+        )
+      : undefined;
+  const additionalStakingAmount = amount - previousStakingAmount;
+  const { selectedUTXOs, fee } = getStakingExpansionTxInputUTXOsAndFees(
     inputUTXOs,
+    additionalStakingAmount,
     feeRate,
     stakingOutputs,
+    feeEstimationMode,
+    previousStakingInput,
+    coinSelector,
   );
 
   // Initialize the transaction with the standard version
@@ -253,10 +644,11 @@ export function stakingExpansionTransaction(
   );
 
   // Add the second input: selected funding UTXO
-  // This provides the funds to cover transaction fees
+  // This provides the funds to cover transaction fees and the increase
+  const [fundingUTXO] = selectedUTXOs;
   tx.addInput(
-    transactionIdToHash(selectedUTXO.txid),
-    selectedUTXO.vout,
+    transactionIdToHash(fundingUTXO.txid),
+    fundingUTXO.vout,
     NON_RBF_SEQUENCE,
   );
 
@@ -268,17 +660,142 @@ export function stakingExpansionTransaction(
 
   // Add a change output if there are remaining funds from the funding UTXO
   // Only create change if the remaining amount is above the dust threshold
-  if (selectedUTXO.value - fee > BTC_DUST_SAT) {
-    tx.addOutput(
-      address.toOutputScript(changeAddress, network),
-      selectedUTXO.value - fee,
-    );
+  const change = fundingUTXO.value - (additionalStakingAmount + fee);
+  if (change > BTC_DUST_SAT) {
+    tx.addOutput(address.toOutputScript(changeAddress, network), change);
+  }
+
+  return {
+    transaction: tx,
+    fee,
+    fundingUTXO,
+  };
+}
+
+/**
+ * Constructs an unsigned re-staking transaction, which spends expired outputs
+ * through the timelock path of their delegations straight into a new staking
+ * output, instead of withdrawing them and staking again with a second fee.
+ *
+ * The withdrawn outputs can be staking outputs whose timelock expired, the
+ * outputs of unbonding transactions or the change outputs of slashing
+ * transactions, see `WithdrawalInput`. They are spent as the first inputs with
+ * the CSV sequence of their timelock, followed by the wallet UTXOs selected to
+ * cover the rest of the staking amount and fee, if any. The change goes to the
+ * change address if it is above dust.
+ *
+ * Note that the CSV sequences of the withdrawn inputs signal opt-in
+ * replace-by-fee.
+ *
+ * @param {Object} scripts - Scripts used to construct the new staking output,
+ * such as timelockScript, unbondingScript, slashingScript, and dataEmbedScript.
+ * @param {number} amount - The amount to stake.
+ * @param {WithdrawalInput[]} withdrawals - The expired outputs to re-stake
+ * along with the scripts of their delegations.
+ * @param {string} changeAddress - The address to send the change to.
+ * @param {UTXO[]} inputUTXOs - The wallet UTXOs that can fund the part of the
+ * staking amount and fee not covered by the withdrawn outputs, possibly none.
+ * @param {networks.Network} network - The Bitcoin network.
+ * @param {number} feeRate - The fee rate in satoshis per byte.
+ * @param {Object} [options] - The optional settings of the transaction.
+ * @param {FeeEstimationMode} [options.feeEstimationMode="heuristic"] - The fee
+ * estimation mode.
+ * @param {CoinSelector} [options.coinSelector] - The coin selection strategy,
+ * largest first by default.
+ * @returns {TransactionResult & { fundingUTXOs: UTXO[] }} - An object
+ * containing the unsigned transaction, its fee and the wallet UTXOs it spends
+ * after the withdrawn outputs.
+ * @throws Will throw an error if there is no withdrawal, if an output is
+ * withdrawn twice, if the change address is invalid or if the funds cannot
+ * cover the staking amount and fee.
+ */
+export function restakingTransaction(
+  scripts: {
+    timelockScript: Buffer;
+    unbondingScript: Buffer;
+    slashingScript: Buffer;
+    dataEmbedScript?: Buffer;
+  },
+  amount: number,
+  withdrawals: WithdrawalInput[],
+  changeAddress: string,
+  inputUTXOs: UTXO[],
+  network: networks.Network,
+  feeRate: number,
+  options: Pick<
+    StakingTransactionBuildOptions,
+    "feeEstimationMode" | "coinSelector"
+  > = {},
+): TransactionResult & { fundingUTXOs: UTXO[] } {
+  const { feeEstimationMode = "heuristic", coinSelector } = options;
+  if (amount <= 0 || feeRate <= 0) {
+    throw new Error("Amount and fee rate must be bigger than 0");
+  }
+  if (!isValidBitcoinAddress(changeAddress, network)) {
+    throw new Error("Invalid change address");
+  }
+  validateWithdrawals(withdrawals);
+
+  const stakingOutputs = buildStakingTransactionOutputs(
+    scripts,
+    network,
+    amount,
+  );
+  const spendInfos = withdrawals.map((withdrawal) =>
+    deriveWithdrawalSpendInfo(withdrawal, network),
+  );
+  const withdrawnValue = withdrawals.reduce(
+    (acc, { transaction, outputIndex }) =>
+      acc + transaction.outs[outputIndex].value,
+    0,
+  );
+  const { selectedUTXOs, fee } = getRestakingTxInputUTXOsAndFees(
+    inputUTXOs,
+    amount,
+    {
+      value: withdrawnValue,
+      count: withdrawals.length,
+      placeholderInputs:
+        feeEstimationMode === "exact"
+          ? spendInfos.map(({ scriptTree, timelockScript }) =>
+              getStakingScriptPathPlaceholderInput(
+                scriptTree,
+                timelockScript,
+                "timelockScript",
+              ),
+            )
+          : undefined,
+    },
+    feeRate,
+    stakingOutputs,
+    feeEstimationMode,
+    coinSelector,
+  );
+
+  const tx = new Transaction();
+  // only transactions with version 2 can trigger OP_CHECKSEQUENCEVERIFY
+  tx.version = TRANSACTION_VERSION;
+
+  // The withdrawn outputs come first, each with the sequence of its timelock
+  withdrawals.forEach(({ transaction, outputIndex }, i) => {
+    tx.addInput(transaction.getHash(), outputIndex, spendInfos[i].sequence);
+  });
+  selectedUTXOs.forEach((utxo) => {
+    tx.addInput(transactionIdToHash(utxo.txid), utxo.vout, NON_RBF_SEQUENCE);
+  });
+
+  stakingOutputs.forEach((o) => {
+    tx.addOutput(o.scriptPubKey, o.value);
+  });
+  const change = withdrawnValue + inputValueSum(selectedUTXOs) - (amount + fee);
+  if (change > BTC_DUST_SAT) {
+    tx.addOutput(address.toOutputScript(changeAddress, network), change);
   }
 
   return {
     transaction: tx,
     fee,
-    fundingUTXO: selectedUTXO,
+    fundingUTXOs: selectedUTXOs,
   };
 }
 
@@ -304,6 +821,10 @@ export function stakingExpansionTransaction(
  * @param {string} withdrawalAddress - The address to send the withdrawn funds to.
  * @param {networks.Network} network - The Bitcoin network.
  * @param {number} feeRate - The fee rate for the transaction in satoshis per byte.
+ * @param {FeeEstimationMode} [feeEstimationMode="heuristic"] - The fee estimation mode.
+ * @param {WithdrawalDestination[]} [destinations] - The outputs to send the
+ * withdrawn funds to. The remainder goes to the withdrawal address unless a
+ * destination receives it.
  * @returns {PsbtResult} An object containing the partially signed transaction (PSBT).
  */
 export function withdrawEarlyUnbondedTransaction(
@@ -315,24 +836,23 @@ export function withdrawEarlyUnbondedTransaction(
   withdrawalAddress: string,
   network: networks.Network,
   feeRate: number,
+  feeEstimationMode: FeeEstimationMode = "heuristic",
+  destinations?: WithdrawalDestination[],
 ): PsbtResult {
-  const scriptTree: Taptree = [
-    {
-      output: scripts.slashingScript,
-    },
-    { output: scripts.unbondingTimelockScript },
-  ];
-
   return withdrawalTransaction(
-    {
-      timelockScript: scripts.unbondingTimelockScript,
-    },
-    scriptTree,
-    unbondingTx,
+    [
+      {
+        type: "early-unbonded",
+        scripts,
+        transaction: unbondingTx,
+        outputIndex: 0, // unbonding always has a single output
+      },
+    ],
     withdrawalAddress,
     network,
     feeRate,
-    0, // unbonding always has a single output
+    feeEstimationMode,
+    destinations,
   );
 }
 
@@ -361,6 +881,10 @@ export function withdrawEarlyUnbondedTransaction(
  * @param {networks.Network} network - The Bitcoin network.
  * @param {number} feeRate - The fee rate for the transaction in satoshis per byte.
  * @param {number} [outputIndex=0] - The index of the output to be spent in the original transaction.
+ * @param {FeeEstimationMode} [feeEstimationMode="heuristic"] - The fee estimation mode.
+ * @param {WithdrawalDestination[]} [destinations] - The outputs to send the
+ * withdrawn funds to. The remainder goes to the withdrawal address unless a
+ * destination receives it.
  * @returns {PsbtResult} An object containing the partially signed transaction (PSBT).
  */
 export function withdrawTimelockUnbondedTransaction(
@@ -374,22 +898,16 @@ export function withdrawTimelockUnbondedTransaction(
   network: networks.Network,
   feeRate: number,
   outputIndex: number = 0,
+  feeEstimationMode: FeeEstimationMode = "heuristic",
+  destinations?: WithdrawalDestination[],
 ): PsbtResult {
-  const scriptTree: Taptree = [
-    {
-      output: scripts.slashingScript,
-    },
-    [{ output: scripts.unbondingScript }, { output: scripts.timelockScript }],
-  ];
-
   return withdrawalTransaction(
-    scripts,
-    scriptTree,
-    tx,
+    [{ type: "staking-expired", scripts, transaction: tx, outputIndex }],
     withdrawalAddress,
     network,
     feeRate,
-    outputIndex,
+    feeEstimationMode,
+    destinations,
   );
 }
 
@@ -406,6 +924,10 @@ export function withdrawTimelockUnbondedTransaction(
  * @param {networks.Network} network - The Bitcoin network.
  * @param {number} feeRate - The fee rate for the transaction in satoshis per byte.
  * @param {number} outputIndex - The index of the output to be spent in the original transaction.
+ * @param {FeeEstimationMode} [feeEstimationMode="heuristic"] - The fee estimation mode.
+ * @param {WithdrawalDestination[]} [destinations] - The outputs to send the
+ * withdrawn funds to. The remainder goes to the withdrawal address unless a
+ * destination receives it.
  * @returns {PsbtResult} An object containing the partially signed transaction (PSBT).
  */
 export function withdrawSlashingTransaction(
@@ -417,82 +939,81 @@ export function withdrawSlashingTransaction(
   network: networks.Network,
   feeRate: number,
   outputIndex: number,
+  feeEstimationMode: FeeEstimationMode = "heuristic",
+  destinations?: WithdrawalDestination[],
+): PsbtResult {
+  return withdrawalTransaction(
+    [{ type: "slashing", scripts, transaction: slashingTx, outputIndex }],
+    withdrawalAddress,
+    network,
+    feeRate,
+    feeEstimationMode,
+    destinations,
+  );
+}
+
+/**
+ * Constructs a batch withdrawal transaction sweeping several expired outputs,
+ * possibly of different delegations and withdrawal types, into one output.
+ *
+ * Each input spends its output through the timelock path of its delegation,
+ * with its own tap leaf script and CSV sequence. A single fee is paid for the
+ * whole transaction, which is cheaper than one withdrawal per output.
+ *
+ * @param {WithdrawalInput[]} withdrawals - The expired outputs to withdraw
+ * along with the scripts of their delegations.
+ * @param {string} withdrawalAddress - The address to send the withdrawn funds to.
+ * @param {networks.Network} network - The Bitcoin network.
+ * @param {number} feeRate - The fee rate for the transaction in satoshis per byte.
+ * @param {FeeEstimationMode} [feeEstimationMode="heuristic"] - The fee estimation mode.
+ * @param {WithdrawalDestination[]} [destinations] - The outputs to send the
+ * withdrawn funds to. The remainder goes to the withdrawal address unless a
+ * destination receives it.
+ * @returns {PsbtResult} An object containing the partially signed transaction (PSBT).
+ * @throws Will throw an error if there is no withdrawal, if an output is
+ * withdrawn twice, if a destination is invalid or if the outputs cannot cover
+ * the destination amounts and the fee.
+ */
+export function batchWithdrawalTransaction(
+  withdrawals: WithdrawalInput[],
+  withdrawalAddress: string,
+  network: networks.Network,
+  feeRate: number,
+  feeEstimationMode: FeeEstimationMode = "heuristic",
+  destinations?: WithdrawalDestination[],
 ): PsbtResult {
-  const scriptTree: Taptree = { output: scripts.unbondingTimelockScript };
+  validateWithdrawals(withdrawals);
 
   return withdrawalTransaction(
-    {
-      timelockScript: scripts.unbondingTimelockScript,
-    },
-    scriptTree,
-    slashingTx,
+    withdrawals,
     withdrawalAddress,
     network,
     feeRate,
-    outputIndex,
+    feeEstimationMode,
+    destinations,
   );
 }
 
-// withdrawalTransaction generates a transaction that
-// spends the staking output of the staking transaction
+// withdrawalTransaction generates a transaction that spends the expired
+// outputs through their timelock path to the destinations, the remainder going
+// to the withdrawal address unless a destination receives it
 function withdrawalTransaction(
-  scripts: {
-    timelockScript: Buffer;
-  },
-  scriptTree: Taptree,
-  tx: Transaction,
+  withdrawals: WithdrawalInput[],
   withdrawalAddress: string,
   network: networks.Network,
   feeRate: number,
-  outputIndex: number = 0,
+  feeEstimationMode: FeeEstimationMode = "heuristic",
+  destinations: WithdrawalDestination[] = [],
 ): PsbtResult {
   // Check that withdrawal feeRate is bigger than 0
   if (feeRate <= 0) {
     throw new Error("Withdrawal feeRate must be bigger than 0");
   }
-
-  // Check that outputIndex is bigger or equal to 0
-  if (outputIndex < 0) {
-    throw new Error("Output index must be bigger or equal to 0");
-  }
-
-  // position of time in the timelock script
-  const timePosition = 2;
-  const decompiled = script.decompile(scripts.timelockScript);
-
-  if (!decompiled) {
-    throw new Error("Timelock script is not valid");
-  }
-
-  let timelock = 0;
-
-  // if the timelock is a buffer, it means it's a number bigger than 16 blocks
-  if (typeof decompiled[timePosition] !== "number") {
-    const timeBuffer = decompiled[timePosition] as Buffer;
-    timelock = script.number.decode(timeBuffer);
-  } else {
-    // in case timelock is <= 16 it will be a number, not a buffer
-    const wrap = decompiled[timePosition] % 16;
-    timelock = wrap === 0 ? 16 : wrap;
-  }
-
-  const redeem = {
-    output: scripts.timelockScript,
-    redeemVersion: REDEEM_VERSION,
-  };
-
-  const p2tr = payments.p2tr({
-    internalPubkey,
-    scriptTree,
-    redeem,
+  const outputs = getWithdrawalOutputs(
+    destinations,
+    withdrawalAddress,
     network,
-  });
-
-  const tapLeafScript = {
-    leafVersion: redeem.redeemVersion,
-    script: redeem.output,
-    controlBlock: p2tr.witness![p2tr.witness!.length - 1],
-  };
+  );
 
   const psbt = new Psbt({ network });
 
@@ -500,31 +1021,80 @@ function withdrawalTransaction(
   // https://github.com/btcsuite/btcd/blob/master/txscript/opcode.go#L1174
   psbt.setVersion(TRANSACTION_VERSION);
 
-  psbt.addInput({
-    hash: tx.getHash(),
-    index: outputIndex,
-    tapInternalKey: internalPubkey,
-    witnessUtxo: {
-      value: tx.outs[outputIndex].value,
-      script: tx.outs[outputIndex].script,
-    },
-    tapLeafScript: [tapLeafScript],
-    sequence: timelock,
+  const placeholderInputs = withdrawals.map((withdrawal) => {
+    const { transaction: tx, outputIndex } = withdrawal;
+    // Check that outputIndex is bigger or equal to 0
+    if (outputIndex < 0) {
+      throw new Error("Output index must be bigger or equal to 0");
+    }
+
+    const { timelockScript, scriptTree, tapLeafScript, sequence } =
+      deriveWithdrawalSpendInfo(withdrawal, network);
+
+    psbt.addInput({
+      hash: tx.getHash(),
+      index: outputIndex,
+      tapInternalKey: internalPubkey,
+      witnessUtxo: {
+        value: tx.outs[outputIndex].value,
+        script: tx.outs[outputIndex].script,
+      },
+      tapLeafScript: [tapLeafScript],
+      sequence,
+    });
+
+    return feeEstimationMode === "exact"
+      ? getStakingScriptPathPlaceholderInput(
+          scriptTree,
+          timelockScript,
+          "timelockScript",
+        )
+      : undefined;
   });
 
-  const estimatedFee = getWithdrawTxFee(feeRate);
-  const outputValue = tx.outs[outputIndex].value - estimatedFee;
-  if (outputValue < 0) {
+  const estimatedFee =
+    feeEstimationMode === "exact"
+      ? getBatchWithdrawTxFee(feeRate, withdrawals.length, feeEstimationMode, {
+          inputs: placeholderInputs.filter((input) => input !== undefined),
+          outputScriptPubKeys: outputs.map(({ address: outputAddress }) =>
+            address.toOutputScript(outputAddress, network),
+          ),
+        })
+      : getBatchWithdrawTxFee(
+          feeRate,
+          withdrawals.length,
+          feeEstimationMode,
+          undefined,
+          outputs.length,
+        );
+  const withdrawnValue = withdrawals.reduce(
+    (acc, { transaction, outputIndex }) =>
+      acc + transaction.outs[outputIndex].value,
+    0,
+  );
+  const fixedValue = outputs.reduce(
+    (acc, output) => acc + ("amount" in output ? output.amount : 0),
+    0,
+  );
+  if (withdrawnValue < fixedValue) {
+    throw new Error(
+      "Not enough funds to cover the withdrawal destination amounts",
+    );
+  }
+  const remainderValue = withdrawnValue - fixedValue - estimatedFee;
+  if (remainderValue < 0) {
     throw new Error(
       "Not enough funds to cover the fee for withdrawal transaction",
     );
   }
-  if (outputValue < BTC_DUST_SAT) {
+  if (remainderValue < BTC_DUST_SAT) {
     throw new Error("Output value is less than dust limit");
   }
-  psbt.addOutput({
-    address: withdrawalAddress,
-    value: outputValue,
+  outputs.forEach((output) => {
+    psbt.addOutput({
+      address: output.address,
+      value: "amount" in output ? output.amount : remainderValue,
+    });
   });
 
   // Withdraw transaction has no time-based restrictions and can be included
@@ -537,6 +1107,183 @@ function withdrawalTransaction(
   };
 }
 
+// validateWithdrawals checks that there is at least one expired output to
+// spend and that no output is spent twice
+const validateWithdrawals = (withdrawals: WithdrawalInput[]) => {
+  if (withdrawals.length === 0) {
+    throw new Error("At least one withdrawal is required");
+  }
+  const outpoints = new Set(
+    withdrawals.map(
+      ({ transaction, outputIndex }) => `${transaction.getId()}:${outputIndex}`,
+    ),
+  );
+  if (outpoints.size !== withdrawals.length) {
+    throw new Error("An output cannot be withdrawn more than once");
+  }
+  withdrawals.forEach(({ transaction, outputIndex }) => {
+    if (!transaction.outs[outputIndex]) {
+      throw new Error("The withdrawn output does not exist");
+    }
+  });
+};
+
+// getWithdrawalOutputs validates the withdrawal destinations and returns the
+// outputs of the withdrawal transaction, appending the withdrawal address as
+// the remainder output if no destination receives the remainder
+const getWithdrawalOutputs = (
+  destinations: WithdrawalDestination[],
+  withdrawalAddress: string,
+  network: networks.Network,
+): WithdrawalDestination[] => {
+  destinations.forEach((destination) => {
+    if (!isValidBitcoinAddress(destination.address, network)) {
+      throw new Error(
+        `Invalid withdrawal destination address: ${destination.address}`,
+      );
+    }
+    if (
+      "amount" in destination &&
+      (!Number.isInteger(destination.amount) ||
+        destination.amount < BTC_DUST_SAT)
+    ) {
+      throw new Error(
+        `Withdrawal destination amount must be an integer of at least ${BTC_DUST_SAT} satoshis`,
+      );
+    }
+  });
+  const remainderCount = destinations.filter(
+    (destination) => !("amount" in destination),
+  ).length;
+  if (remainderCount > 1) {
+    throw new Error(
+      "Only one withdrawal destination can receive the remainder",
+    );
+  }
+  return remainderCount === 1
+    ? destinations
+    : [...destinations, { address: withdrawalAddress, remainder: true }];
+};
+
+/**
+ * Constructs a child-pays-for-parent (CPFP) transaction bumping the fee rate of
+ * an unconfirmed parent transaction, such as a withdrawal or a staking
+ * transaction with a change output.
+ *
+ * The child spends a staker-controlled output of the parent, e.g. the change
+ * of a staking transaction or the output of a withdrawal, along with wallet
+ * UTXOs from the highest value first if the parent output does not cover the
+ * child fee. It pays the fee bringing the package of both transactions to the
+ * target fee rate and sends the rest to the change address.
+ *
+ * The parent must be signed, as its virtual size is measured on it. Note that
+ * an unbonding transaction has no staker-controlled output until the unbonding
+ * time has passed, so its fee cannot be bumped with CPFP by the staker.
+ *
+ * @param {Object} parent - The parent transaction and the fee it pays.
+ * @param {number} parentOutputIndex - The index of the staker-controlled
+ * output of the parent to spend.
+ * @param {UTXO[]} inputUTXOs - The wallet UTXOs that can fund the child.
+ * @param {string} changeAddress - The address receiving the child output.
+ * @param {networks.Network} network - The Bitcoin network.
+ * @param {number} targetFeeRate - The target fee rate of the package in
+ * satoshis per vbyte.
+ * @param {Buffer} [publicKeyNoCoord] - The staker public key, required to
+ * spend taproot outputs.
+ * @returns {PsbtResult} - An object containing the child PSBT and its fee.
+ * @throws Will throw an error if the parent is not signed, if its output does
+ * not exist or if the UTXOs cannot cover the child fee.
+ */
+export function cpfpTransaction(
+  parent: {
+    transaction: Transaction;
+    fee: number;
+  },
+  parentOutputIndex: number,
+  inputUTXOs: UTXO[],
+  changeAddress: string,
+  network: networks.Network,
+  targetFeeRate: number,
+  publicKeyNoCoord?: Buffer,
+): PsbtResult {
+  if (targetFeeRate <= 0) {
+    throw new Error("Target fee rate must be bigger than 0");
+  }
+  if (!isValidBitcoinAddress(changeAddress, network)) {
+    throw new Error("Invalid change address");
+  }
+  const parentTx = parent.transaction;
+  if (parentOutputIndex < 0 || parentOutputIndex >= parentTx.outs.length) {
+    throw new Error("Parent output index is out of range");
+  }
+  if (
+    !parentTx.ins.every((input) => input.witness.length || input.script.length)
+  ) {
+    throw new Error("The parent transaction must be signed");
+  }
+
+  const parentOutput = parentTx.outs[parentOutputIndex];
+  const parentUTXO: UTXO = {
+    txid: parentTx.getId(),
+    vout: parentOutputIndex,
+    value: parentOutput.value,
+    scriptPubKey: parentOutput.script.toString("hex"),
+    rawTxHex: parentTx.toHex(),
+  };
+  // The wallet may already list the parent output as an unconfirmed UTXO
+  const walletUTXOs = inputUTXOs
+    .filter(
+      (utxo) => utxo.txid !== parentUTXO.txid || utxo.vout !== parentUTXO.vout,
+    )
+    .sort((a, b) => b.value - a.value);
+
+  const selectedUTXOs = [parentUTXO];
+  let fee = 0;
+  for (let i = 0; ; i++) {
+    const childVsize = getPlaceholderTxVirtualSize(
+      selectedUTXOs.map(getUTXOPlaceholderInput),
+      [],
+      true,
+    );
+    fee = getCpfpChildFee(
+      parentTx.virtualSize(),
+      parent.fee,
+      childVsize,
+      targetFeeRate,
+    );
+    if (inputValueSum(selectedUTXOs) - fee > BTC_DUST_SAT) {
+      break;
+    }
+    if (i >= walletUTXOs.length) {
+      throw new Error(
+        "Insufficient funds: unable to gather enough UTXOs to cover the child transaction fee",
+      );
+    }
+    selectedUTXOs.push(walletUTXOs[i]);
+  }
+
+  const psbt = new Psbt({ network });
+  psbt.setVersion(TRANSACTION_VERSION);
+  selectedUTXOs.forEach((utxo) => {
+    psbt.addInput({
+      hash: utxo.txid,
+      index: utxo.vout,
+      sequence: RBF_SEQUENCE,
+      ...getPsbtInputFields(utxo, publicKeyNoCoord),
+    });
+  });
+  psbt.addOutput({
+    address: changeAddress,
+    value: inputValueSum(selectedUTXOs) - fee,
+  });
+  psbt.setLocktime(0);
+
+  return {
+    psbt,
+    fee,
+  };
+}
+
 /**
  * Constructs a slashing transaction for a staking output without prior unbonding.
  *
@@ -921,3 +1668,76 @@ export const createCovenantWitness = (
 
   return [...composedCovenantSigs, ...originalWitness];
 };
+
+/**
+ * Verifies the covenant signatures against the BIP341 script path sighash of
+ * a transaction input and drops the ones that do not verify.
+ *
+ * @param {Transaction} tx - The transaction the signatures are attached to.
+ * @param {number} inputIndex - The index of the input spent by the covenants.
+ * @param {Object[]} prevOutputs - The script and value of the output spent by
+ * each input of the transaction.
+ * @param {Buffer} leafScript - The tapscript signed by the covenants, i.e. the
+ * unbonding script for both unbonding and stake expansion.
+ * @param {CovenantSignature[]} covenantSigs - The covenant signatures.
+ * @param {number} covenantQuorum - The number of required covenant signatures.
+ * @returns {CovenantSignature[]} - The covenant signatures that verify.
+ * @throws {CovenantSignatureError} - If some signatures do not verify and the
+ * remaining ones do not reach the covenant quorum.
+ */
+export const filterValidCovenantSignatures = (
+  tx: Transaction,
+  inputIndex: number,
+  prevOutputs: { script: Buffer; value: number }[],
+  leafScript: Buffer,
+  covenantSigs: CovenantSignature[],
+  covenantQuorum: number,
+): CovenantSignature[] => {
+  const leafHash = tapleafHash({
+    output: leafScript,
+    version: REDEEM_VERSION,
+  });
+  const prevOutScripts = prevOutputs.map((o) => o.script);
+  const values = prevOutputs.map((o) => o.value);
+
+  const isValid = (sig: CovenantSignature): boolean => {
+    try {
+      const sigBuffer = Buffer.from(sig.sigHex, "hex");
+      // A 65 bytes signature carries an explicit non-default sighash type
+      if (
+        sigBuffer.length !== 64 &&
+        !(sigBuffer.length === 65 && sigBuffer[64] !== 0)
+      ) {
+        return false;
+      }
+      const hashType =
+        sigBuffer.length === 65 ? sigBuffer[64] : Transaction.SIGHASH_DEFAULT;
+      const sighash = tx.hashForWitnessV1(
+        inputIndex,
+        prevOutScripts,
+        values,
+        hashType,
+        leafHash,
+      );
+      return ecc.verifySchnorr(
+        sighash,
+        Buffer.from(sig.btcPkHex, "hex"),
+        sigBuffer.subarray(0, 64),
+      );
+    } catch (error) {
+      return false;
+    }
+  };
+
+  const validSigs = covenantSigs.filter(isValid);
+  const invalidSigs = covenantSigs.filter((sig) => !validSigs.includes(sig));
+  if (invalidSigs.length > 0 && validSigs.length < covenantQuorum) {
+    throw new CovenantSignatureError(
+      invalidSigs.map((sig) => sig.btcPkHex),
+      `Not enough valid covenant signatures. Required: ${covenantQuorum}, ` +
+        `got: ${validSigs.length}. Invalid signatures from: ` +
+        invalidSigs.map((sig) => sig.btcPkHex).join(", "),
+    );
+  }
+  return validSigs;
+};
@@ -0,0 +1,417 @@
+import { Transaction } from "bitcoinjs-lib";
+import { StakingError, StakingErrorCode } from "../error";
+import type { StakerInfo } from "../staking";
+import { BabylonBtcStakingManager } from "../staking/manager";
+import {
+  InclusionProof,
+  StakingInputs,
+  TransactionResult,
+  UTXO,
+  VersionedStakingParams,
+  WithdrawalOptions,
+} from "../types";
+import {
+  DelegationState,
+  DelegationStore,
+  TrackedDelegation,
+} from "../types/tracker";
+import {
+  getBabylonParamByBtcHeight,
+  getBabylonParamByVersion,
+} from "../utils/staking/param";
+export * from "./memoryStore";
+
+/**
+ * DelegationTracker records the delegations of a staking manager in a
+ * `DelegationStore` as they move through their lifecycle, so that the caller
+ * does not have to keep the transactions, params version and staking inputs of
+ * each delegation.
+ *
+ * Each step of the lifecycle calls the matching method of the manager with the
+ * recorded data and updates the state of the delegation:
+ * - pre-staking: `create` -> `stake` -> `confirmStakingTransaction`
+ * - post-staking: `stake` -> `confirmStakingTransaction` -> `register`
+ * - then `unbond` -> `confirmUnbondingTransaction`, and `withdraw` once the
+ *   delegation is withdrawable
+ *
+ * The tracker does not watch the BTC chain: the caller supplies the heights in
+ * which the transactions are included, and the BTC tip height through
+ * `updateBtcHeight` to detect the expired timelocks.
+ */
+export class DelegationTracker {
+  constructor(
+    private manager: BabylonBtcStakingManager,
+    private stakingParams: VersionedStakingParams[],
+    private store: DelegationStore,
+  ) {}
+
+  /**
+   * Creates a signed Pre-Staking Registration transaction through the manager
+   * and records the delegation as registered, awaiting the signature of its
+   * staking transaction.
+   * @param stakerBtcInfo - The staker BTC info which includes the BTC address
+   * and the no-coord public key in hex format.
+   * @param stakingInput - The staking inputs.
+   * @param babylonBtcTipHeight - The Babylon BTC tip height.
+   * @param inputUTXOs - The UTXOs that will be used to pay for the staking
+   * transaction.
+   * @param feeRate - The fee rate in satoshis per byte.
+   * @param babylonAddress - The Babylon bech32 encoded address of the staker.
+   * @returns The signed babylon pre-staking registration transaction and the
+   * unsigned staking transaction.
+   */
+  async create(
+    stakerBtcInfo: StakerInfo,
+    stakingInput: StakingInputs,
+    babylonBtcTipHeight: number,
+    inputUTXOs: UTXO[],
+    feeRate: number,
+    babylonAddress: string,
+  ): Promise<{
+    signedBabylonTx: Uint8Array;
+    stakingTx: Transaction;
+  }> {
+    const result = await this.manager.preStakeRegistrationBabylonTransaction(
+      stakerBtcInfo,
+      stakingInput,
+      babylonBtcTipHeight,
+      inputUTXOs,
+      feeRate,
+      babylonAddress,
+    );
+
+    await this.store.put({
+      stakingTxHash: result.stakingTx.getId(),
+      state: "awaiting-staking-signature",
+      stakerBtcInfo,
+      stakingInput,
+      stakingParamsVersion: getBabylonParamByBtcHeight(
+        babylonBtcTipHeight,
+        this.stakingParams,
+      ).version,
+      registered: true,
+      stakingTxHex: result.stakingTx.toHex(),
+    });
+
+    return result;
+  }
+
+  /**
+   * Signs the staking transaction through the manager and records the
+   * delegation as awaiting its BTC confirmation. A delegation created with
+   * `create` must be awaiting this signature, otherwise the delegation is
+   * recorded for a post-staking registration.
+   * @param stakerBtcInfo - The staker BTC info which includes the BTC address
+   * and the no-coord public key in hex format.
+   * @param stakingInput - The staking inputs.
+   * @param unsignedStakingTx - The unsigned staking transaction.
+   * @param inputUTXOs - The UTXOs that will be used to pay for the staking
+   * transaction.
+   * @param stakingParamsVersion - The params version that was used to create
+   * the delegation in Babylon chain
+   * @returns The signed staking transaction.
+   */
+  async stake(
+    stakerBtcInfo: StakerInfo,
+    stakingInput: StakingInputs,
+    unsignedStakingTx: Transaction,
+    inputUTXOs: UTXO[],
+    stakingParamsVersion: number,
+  ): Promise<Transaction> {
+    const stakingTxHash = unsignedStakingTx.getId();
+    const tracked = await this.store.get(stakingTxHash);
+    if (tracked) {
+      assertState(tracked, "awaiting-staking-signature");
+    }
+
+    const signedStakingTx =
+      await this.manager.createSignedBtcStakingTransaction(
+        stakerBtcInfo,
+        stakingInput,
+        unsignedStakingTx,
+        inputUTXOs,
+        stakingParamsVersion,
+      );
+
+    await this.store.put({
+      stakingTxHash,
+      stakerBtcInfo,
+      stakingInput,
+      stakingParamsVersion,
+      registered: false,
+      ...tracked,
+      state: "awaiting-btc-confirmation",
+      stakingTxHex: signedStakingTx.toHex(),
+    });
+
+    return signedStakingTx;
+  }
+
+  /**
+   * Records the BTC height in which the staking transaction of a delegation is
+   * included. The delegation becomes active if it is registered, and pending
+   * registration otherwise.
+   * @param stakingTxHash - The id of the staking transaction.
+   * @param stakingTxHeight - The BTC height in which the staking transaction
+   * is included.
+   * @returns The updated delegation.
+   */
+  async confirmStakingTransaction(
+    stakingTxHash: string,
+    stakingTxHeight: number,
+  ): Promise<TrackedDelegation> {
+    const tracked = await this.getTracked(stakingTxHash);
+    assertState(tracked, "awaiting-btc-confirmation");
+
+    return this.update({
+      ...tracked,
+      state: tracked.registered ? "active" : "pending-registration",
+      stakingTxHeight,
+    });
+  }
+
+  /**
+   * Creates a signed post-staking registration transaction through the
+   * manager for a delegation whose staking transaction is confirmed, and
+   * records the delegation as active.
+   * @param stakingTxHash - The id of the staking transaction.
+   * @param inclusionProof - Merkle Proof of Inclusion of the staking
+   * transaction in its BTC block.
+   * @param babylonAddress - The Babylon bech32 encoded address of the staker.
+   * @returns The signed babylon transaction.
+   */
+  async register(
+    stakingTxHash: string,
+    inclusionProof: InclusionProof,
+    babylonAddress: string,
+  ): Promise<{
+    signedBabylonTx: Uint8Array;
+  }> {
+    const tracked = await this.getTracked(stakingTxHash);
+    assertState(tracked, "pending-registration");
+    if (tracked.stakingTxHeight === undefined) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        `Staking transaction of delegation ${stakingTxHash} is not confirmed`,
+      );
+    }
+
+    const result = await this.manager.postStakeRegistrationBabylonTransaction(
+      tracked.stakerBtcInfo,
+      Transaction.fromHex(tracked.stakingTxHex),
+      tracked.stakingTxHeight,
+      tracked.stakingInput,
+      inclusionProof,
+      babylonAddress,
+    );
+
+    await this.update({
+      ...tracked,
+      state: "active",
+      // The delegation is registered with the params at the time of the
+      // staking transaction
+      stakingParamsVersion: getBabylonParamByBtcHeight(
+        tracked.stakingTxHeight,
+        this.stakingParams,
+      ).version,
+      registered: true,
+    });
+
+    return result;
+  }
+
+  /**
+   * Signs the unbonding transaction of an active delegation through the
+   * manager and records the delegation as unbonding.
+   * @param stakingTxHash - The id of the staking transaction.
+   * @param unsignedUnbondingTx - The unsigned unbonding transaction.
+   * @param covenantUnbondingSignatures - The covenant unbonding signatures.
+   * It can be retrieved from the Babylon chain or API.
+   * @returns The signed unbonding transaction and its fee.
+   */
+  async unbond(
+    stakingTxHash: string,
+    unsignedUnbondingTx: Transaction,
+    covenantUnbondingSignatures: {
+      btcPkHex: string;
+      sigHex: string;
+    }[],
+  ): Promise<TransactionResult> {
+    const tracked = await this.getTracked(stakingTxHash);
+    assertState(tracked, "active");
+
+    const result = await this.manager.createSignedBtcUnbondingTransaction(
+      tracked.stakerBtcInfo,
+      tracked.stakingInput,
+      tracked.stakingParamsVersion,
+      Transaction.fromHex(tracked.stakingTxHex),
+      unsignedUnbondingTx,
+      covenantUnbondingSignatures,
+    );
+
+    await this.update({
+      ...tracked,
+      state: "unbonding",
+      unbondingTxHex: result.transaction.toHex(),
+    });
+
+    return result;
+  }
+
+  /**
+   * Records the BTC height in which the unbonding transaction of a delegation
+   * is included, from which its unbonding time is counted.
+   * @param stakingTxHash - The id of the staking transaction.
+   * @param unbondingTxHeight - The BTC height in which the unbonding
+   * transaction is included.
+   * @returns The updated delegation.
+   */
+  async confirmUnbondingTransaction(
+    stakingTxHash: string,
+    unbondingTxHeight: number,
+  ): Promise<TrackedDelegation> {
+    const tracked = await this.getTracked(stakingTxHash);
+    assertState(tracked, "unbonding");
+
+    return this.update({ ...tracked, unbondingTxHeight });
+  }
+
+  /**
+   * Moves the active and unbonding delegations whose timelock expired at the
+   * given BTC tip height to the withdrawable state. A timelock is expired once
+   * the withdrawal transaction can be included in the next block.
+   * @param btcTipHeight - The current BTC tip height.
+   * @returns The delegations which became withdrawable.
+   */
+  async updateBtcHeight(btcTipHeight: number): Promise<TrackedDelegation[]> {
+    const withdrawable: TrackedDelegation[] = [];
+
+    for (const tracked of await this.store.getAll()) {
+      const expiry = this.getTimelockExpiry(tracked);
+      if (expiry !== undefined && btcTipHeight + 1 >= expiry) {
+        withdrawable.push(
+          await this.update({ ...tracked, state: "withdrawable" }),
+        );
+      }
+    }
+
+    return withdrawable;
+  }
+
+  /**
+   * Signs the withdrawal transaction of a withdrawable delegation through the
+   * manager, from the unbonding output if the delegation was unbonded and from
+   * the staking output otherwise, and records the delegation as withdrawn.
+   * @param stakingTxHash - The id of the staking transaction.
+   * @param feeRate - The fee rate in satoshis per byte.
+   * @param options - The options of the withdrawal, see
+   * `WithdrawalOptions`.
+   * @returns The signed withdrawal transaction and its fee.
+   */
+  async withdraw(
+    stakingTxHash: string,
+    feeRate: number,
+    options?: WithdrawalOptions,
+  ): Promise<TransactionResult> {
+    const tracked = await this.getTracked(stakingTxHash);
+    assertState(tracked, "withdrawable");
+
+    const result = tracked.unbondingTxHex
+      ? await this.manager.createSignedBtcWithdrawEarlyUnbondedTransaction(
+          tracked.stakerBtcInfo,
+          tracked.stakingInput,
+          tracked.stakingParamsVersion,
+          Transaction.fromHex(tracked.unbondingTxHex),
+          feeRate,
+          options,
+        )
+      : await this.manager.createSignedBtcWithdrawStakingExpiredTransaction(
+          tracked.stakerBtcInfo,
+          tracked.stakingInput,
+          tracked.stakingParamsVersion,
+          Transaction.fromHex(tracked.stakingTxHex),
+          feeRate,
+          options,
+        );
+
+    await this.update({
+      ...tracked,
+      state: "withdrawn",
+      withdrawalTxHex: result.transaction.toHex(),
+    });
+
+    return result;
+  }
+
+  /**
+   * Gets a tracked delegation.
+   * @param stakingTxHash - The id of the staking transaction.
+   * @returns The delegation, or undefined if it is not tracked.
+   */
+  async getDelegation(
+    stakingTxHash: string,
+  ): Promise<TrackedDelegation | undefined> {
+    return this.store.get(stakingTxHash);
+  }
+
+  /**
+   * Gets the tracked delegations.
+   * @param state - The state of the delegations to get, all of them if
+   * omitted.
+   * @returns The delegations.
+   */
+  async getDelegations(state?: DelegationState): Promise<TrackedDelegation[]> {
+    const delegations = await this.store.getAll();
+    return state
+      ? delegations.filter((delegation) => delegation.state === state)
+      : delegations;
+  }
+
+  // Gets the BTC height from which the output the delegation can withdraw
+  // from is spendable through its timelock path, if it is confirmed
+  private getTimelockExpiry(tracked: TrackedDelegation): number | undefined {
+    switch (tracked.state) {
+      case "active":
+        return tracked.stakingTxHeight! + tracked.stakingInput.stakingTimelock;
+      case "unbonding": {
+        if (tracked.unbondingTxHeight === undefined) {
+          return undefined;
+        }
+        const { unbondingTime } = getBabylonParamByVersion(
+          tracked.stakingParamsVersion,
+          this.stakingParams,
+        );
+        return tracked.unbondingTxHeight + unbondingTime;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  private async getTracked(stakingTxHash: string): Promise<TrackedDelegation> {
+    const tracked = await this.store.get(stakingTxHash);
+    if (!tracked) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        `Delegation ${stakingTxHash} is not tracked`,
+      );
+    }
+    return tracked;
+  }
+
+  private async update(
+    delegation: TrackedDelegation,
+  ): Promise<TrackedDelegation> {
+    await this.store.put(delegation);
+    return delegation;
+  }
+}
+
+const assertState = (tracked: TrackedDelegation, state: DelegationState) => {
+  if (tracked.state !== state) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      `Delegation ${tracked.stakingTxHash} is ${tracked.state}, expected ${state}`,
+    );
+  }
+};
@@ -0,0 +1,68 @@
+import { readFile, rename, writeFile } from "fs/promises";
+import { DelegationStore, TrackedDelegation } from "../types/tracker";
+
+/**
+ * A `DelegationStore` persisting the delegations in a JSON file, mapping the
+ * id of each staking transaction to its delegation. The file is created on the
+ * first write, and replaced as a whole on each write so that a crash cannot
+ * leave it half written.
+ *
+ * The file is read on each call, so it must not be written by several stores
+ * at the same time.
+ */
+export class JsonFileDelegationStore implements DelegationStore {
+  // Writes are chained so that concurrent updates are not lost
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async get(stakingTxHash: string): Promise<TrackedDelegation | undefined> {
+    await this.pendingWrite;
+    return (await this.read())[stakingTxHash];
+  }
+
+  async getAll(): Promise<TrackedDelegation[]> {
+    await this.pendingWrite;
+    return Object.values(await this.read());
+  }
+
+  async put(delegation: TrackedDelegation): Promise<void> {
+    return this.update((delegations) => {
+      delegations[delegation.stakingTxHash] = delegation;
+    });
+  }
+
+  async delete(stakingTxHash: string): Promise<void> {
+    return this.update((delegations) => {
+      delete delegations[stakingTxHash];
+    });
+  }
+
+  private update(
+    apply: (delegations: Record<string, TrackedDelegation>) => void,
+  ): Promise<void> {
+    const write = this.pendingWrite.then(async () => {
+      const delegations = await this.read();
+      apply(delegations);
+      const tmpPath = `${this.filePath}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(delegations, null, 2), "utf8");
+      await rename(tmpPath, this.filePath);
+    });
+    // A failed write must not fail the next ones
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  private async read(): Promise<Record<string, TrackedDelegation>> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+    return JSON.parse(content);
+  }
+}
@@ -0,0 +1,30 @@
+import { DelegationStore, TrackedDelegation } from "../types/tracker";
+
+/**
+ * A `DelegationStore` keeping the delegations in memory, e.g. for tests or
+ * short lived processes. The delegations are copied in and out of the store so
+ * that the records cannot be modified behind its back.
+ */
+export class InMemoryDelegationStore implements DelegationStore {
+  private delegations = new Map<string, TrackedDelegation>();
+
+  async get(stakingTxHash: string): Promise<TrackedDelegation | undefined> {
+    const delegation = this.delegations.get(stakingTxHash);
+    return delegation && copy(delegation);
+  }
+
+  async getAll(): Promise<TrackedDelegation[]> {
+    return Array.from(this.delegations.values(), copy);
+  }
+
+  async put(delegation: TrackedDelegation): Promise<void> {
+    this.delegations.set(delegation.stakingTxHash, copy(delegation));
+  }
+
+  async delete(stakingTxHash: string): Promise<void> {
+    this.delegations.delete(stakingTxHash);
+  }
+}
+
+const copy = (delegation: TrackedDelegation): TrackedDelegation =>
+  JSON.parse(JSON.stringify(delegation));
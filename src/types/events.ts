@@ -6,16 +6,128 @@ export type RegistrationStep =
 
 export type WithdrawalType = "staking-expired" | "early-unbonded" | "slashing";
 
-type EventData = Record<string, string | number | string[] | number[]>;
+// The channels on which the manager emits the steps of its methods
+export type DelegationChannel =
+  | "delegation:create"
+  | "delegation:register"
+  | "delegation:stake"
+  | "delegation:unbond"
+  | "delegation:withdraw"
+  | "delegation:expand";
+
+// The channels of the registration of a delegation on the Babylon chain
+export type RegistrationChannel =
+  "delegation:create" | "delegation:register" | "delegation:expand";
+
+// The position of a step in the flow of a manager method, e.g. to draw a
+// progress stepper. The step index is 0-based. The steps of a registration
+// are counted per delegation, and the steps restored from a registration
+// checkpoint are skipped without any event.
+export interface StepProgress {
+  stepIndex: number;
+  totalSteps: number;
+}
+
+// The parameters of the staking contract shown to the wallet
+export interface StakingEventParams {
+  stakerPk: string;
+  finalityProviders: string[];
+  covenantPks: string[];
+  covenantThreshold: number;
+  unbondingTimeBlocks: number;
+  stakingDuration: number;
+}
+
+// The parameters of the slashing contracts shown to the wallet
+export interface SlashingEventParams {
+  slashingFeeSat: number;
+  slashingPkScriptHex: string;
+}
+
+export type StakingSlashingEvent = StepProgress &
+  StakingEventParams &
+  SlashingEventParams & {
+    type: "staking-slashing";
+    // The PSBT the wallet is asked to sign, in hex format
+    psbtHex: string;
+  };
+
+export type UnbondingSlashingEvent = StepProgress &
+  Omit<StakingEventParams, "stakingDuration"> &
+  SlashingEventParams & {
+    type: "unbonding-slashing";
+    unbondingFeeSat: number;
+    psbtHex: string;
+  };
+
+export type ProofOfPossessionEvent = StepProgress & {
+  type: "proof-of-possession";
+  messageToSign: string;
+};
+
+// The registration message is created and about to be signed by the Babylon
+// provider
+export type CreateBtcDelegationMsgEvent = StepProgress & {
+  type: "create-btc-delegation-msg";
+};
+
+export type RegistrationEvent =
+  | StakingSlashingEvent
+  | UnbondingSlashingEvent
+  | ProofOfPossessionEvent
+  | CreateBtcDelegationMsgEvent;
+
+export type StakeEvent = StepProgress &
+  StakingEventParams & {
+    type: "staking" | "staking-expansion";
+    psbtHex: string;
+  };
+
+export type UnbondEvent = StepProgress &
+  StakingEventParams & {
+    type: "unbonding";
+    unbondingFeeSat: number;
+    psbtHex: string;
+  };
+
+export type WithdrawEvent = StepProgress & {
+  type: WithdrawalType;
+  stakerPk: string;
+  timelockBlocks: number;
+  psbtHex: string;
+};
+
+// The type of a step emitted on any channel
+export type DelegationStepType =
+  | RegistrationEvent["type"]
+  | StakeEvent["type"]
+  | UnbondEvent["type"]
+  | WithdrawEvent["type"];
+
+// The outcome of a step, emitted after the event of the step
+export type StepOutcomeEvent = StepProgress & {
+  channel: DelegationChannel;
+  type: DelegationStepType;
+};
+
+export type StepFailureEvent = StepOutcomeEvent & {
+  // The error thrown by the step, e.g. the rejection of the wallet
+  error: unknown;
+};
 
 // Events are emitted by manager and used for the staking dashboard UI only.
+// Each step is emitted on its channel before the wallet or the Babylon
+// provider is asked to sign, then on "delegation:step-complete" or
+// "delegation:step-fail" once it is done.
 export interface ManagerEvents {
-  "delegation:create": (data?: EventData) => void;
-  "delegation:register": (data?: EventData) => void;
-  "delegation:stake": (data?: EventData) => void;
-  "delegation:unbond": (data?: EventData) => void;
-  "delegation:withdraw": (data?: EventData) => void;
-  "delegation:expand": (data?: EventData) => void;
+  "delegation:create": (data: RegistrationEvent) => void;
+  "delegation:register": (data: RegistrationEvent) => void;
+  "delegation:stake": (data: StakeEvent) => void;
+  "delegation:unbond": (data: UnbondEvent) => void;
+  "delegation:withdraw": (data: WithdrawEvent) => void;
+  "delegation:expand": (data: RegistrationEvent) => void;
+  "delegation:step-complete": (data: StepOutcomeEvent) => void;
+  "delegation:step-fail": (data: StepFailureEvent) => void;
 }
 
 export type DelegationEvent = keyof ManagerEvents;
@@ -1,5 +1,8 @@
-export * from "./UTXO";
 export * from "./events";
 export * from "./manager";
+export * from "./multisig";
 export * from "./params";
+export * from "./policy";
+export * from "./tracker";
 export * from "./transaction";
+export * from "./UTXO";
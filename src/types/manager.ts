@@ -1,5 +1,10 @@
+import { Transaction } from "bitcoinjs-lib";
+import type { CoinSelector } from "../utils/fee/coinSelection";
 import { Action } from "./action";
 import { Contract } from "./contract";
+import { WithdrawalType } from "./events";
+import { MultisigFunding } from "./multisig";
+import { FeeSponsor, WithdrawalDestination } from "./transaction";
 
 // Provides additional information about the transaction
 // Allows users to visually compare and verify contract parameters
@@ -7,6 +12,12 @@ import { Contract } from "./contract";
 export interface SignPsbtOptions {
   contracts: Contract[];
   action: Action;
+  // The indexes of the inputs the provider is asked to sign, when the other
+  // inputs belong to another wallet such as a fee sponsor
+  inputIndexes?: number[];
+  // Aborted when the caller of the manager cancels the flow, e.g. to close
+  // the signing popup of the wallet
+  signal?: AbortSignal;
 }
 
 export interface BtcProvider {
@@ -25,6 +36,11 @@ export interface BtcProvider {
 
   // Get the transaction hex from the transaction ID
   getTransactionHex(txid: string): Promise<string>;
+
+  // Called when a flow of the manager is aborted while a request of the
+  // provider is pending, e.g. to close the signing popup of the wallet. The
+  // result of the pending request is ignored.
+  onAbort?: () => void | Promise<void>;
 }
 
 export interface BabylonProvider {
@@ -56,6 +72,13 @@ export interface BabylonProvider {
    * @returns {Promise<string>} The Babylon chain ID
    */
   getChainId?: () => Promise<string>;
+
+  /**
+   * Called when a flow of the manager is aborted while a request of the
+   * provider is pending, e.g. to close the signing popup of the wallet. The
+   * result of the pending request is ignored.
+   */
+  onAbort?: () => void | Promise<void>;
 }
 
 export interface StakingInputs {
@@ -64,6 +87,115 @@ export interface StakingInputs {
   stakingTimelock: number;
 }
 
+// The multisig wallet funding a staking transaction, along with the providers
+// of its cosigners. Each cosigner signs the staking transaction instead of
+// the BTC provider of the manager, which only holds the staking key.
+export interface MultisigStakingFunding extends MultisigFunding {
+  cosigners: BtcProvider[];
+}
+
+// The wallet paying the fee of a staking transaction, along with its provider
+// which only signs the inputs of the sponsor
+export interface StakingFeeSponsor extends FeeSponsor {
+  provider: BtcProvider;
+}
+
+// An expired output of a delegation to withdraw in a batch withdrawal
+// transaction or to re-stake in a re-staking transaction
+export interface DelegationWithdrawal {
+  stakingInput: StakingInputs;
+  // The params version that was used to create the delegation in Babylon chain
+  stakingParamsVersion: number;
+  // The staking, unbonding or slashing transaction to withdraw from,
+  // depending on the withdrawal type
+  transaction: Transaction;
+  type: WithdrawalType;
+}
+
+// The output of the completed steps of a delegation registration, keyed by
+// their RegistrationStep. The manager fills the checkpoint as the steps
+// complete, so that a failed registration can be resumed without asking the
+// wallet to sign the completed steps again. The checkpoint only holds strings
+// and numbers so that it can be serialized, and starts empty.
+export interface RegistrationCheckpoint {
+  // The id of the staking transaction the signatures belong to
+  stakingTxHash?: string;
+  // The params version the slashing transactions of the signatures are
+  // created with
+  stakingParamsVersion?: number;
+  // The Schnorr signature of the staker on the slashing transaction of the
+  // staking output, in hex format
+  "staking-slashing"?: string;
+  // The Schnorr signature of the staker on the slashing transaction of the
+  // unbonding output, in hex format
+  "unbonding-slashing"?: string;
+  "proof-of-possession"?: {
+    // The Babylon address the proof of possession is signed for
+    babylonAddress: string;
+    btcSigType: number;
+    btcSigHex: string;
+  };
+}
+
+// The options of the manager methods asking the wallets to sign
+export interface SigningOptions {
+  // Aborts the flow, e.g. when the user closes the signing modal
+  signal?: AbortSignal;
+}
+
+// The options of the manager methods registering a delegation
+export interface RegistrationOptions extends SigningOptions {
+  // The signatures of the completed steps, see RegistrationCheckpoint
+  checkpoint?: RegistrationCheckpoint;
+}
+
+// The options of the staking transaction created by the manager
+export interface StakingTransactionOptions {
+  // The strategy selecting the UTXOs funding the staking transaction, largest
+  // first by default
+  coinSelector?: CoinSelector;
+  // Whether the staking transaction signals opt-in replace-by-fee
+  replaceable?: boolean;
+  // The multisig wallet funding the staking transaction with its UTXOs
+  multisigFunding?: MultisigFunding;
+  // The wallet paying the fee of the staking transaction
+  feeSponsor?: FeeSponsor;
+}
+
+// The options of a pre-staking registration
+export interface StakingRegistrationOptions
+  extends StakingTransactionOptions, RegistrationOptions {}
+
+// The options of a post-staking registration
+export interface PostStakeRegistrationOptions extends RegistrationOptions {
+  // The 80 bytes block header, or 32 bytes merkle root, of the block
+  // including the staking transaction, verifying the inclusion proof
+  blockHeaderHex?: string;
+}
+
+// The options of the signing of a staking transaction
+export interface StakingSigningOptions extends SigningOptions {
+  // The multisig wallet funding the staking transaction, along with the
+  // providers of its cosigners
+  multisigFunding?: MultisigStakingFunding;
+  // The wallet paying the fee of the staking transaction, along with its
+  // provider
+  feeSponsor?: StakingFeeSponsor;
+}
+
+// The options of a withdrawal transaction
+export interface WithdrawalOptions extends SigningOptions {
+  // The outputs to send the withdrawn funds to
+  destinations?: WithdrawalDestination[];
+}
+
+// The options of a batch withdrawal transaction
+export interface BatchWithdrawalOptions extends WithdrawalOptions {
+  // The address receiving the remainder of the withdrawn funds, the staker
+  // address by default
+  withdrawalAddress?: string;
+}
+
 // Inclusion proof for a BTC staking transaction that is included in a BTC block
 // This is used for post-staking registration on the Babylon chain
 // You can refer to https://electrumx.readthedocs.io/en/latest/protocol-methods.html#blockchain-transaction-get-merkle
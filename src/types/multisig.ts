@@ -0,0 +1,11 @@
+// MultisigFunding describes an m-of-n multisig wallet, e.g. a custody vault,
+// funding a staking transaction. Its UTXOs are outputs of the multisig script
+// wrapped in P2WSH, P2SH or P2SH-P2WSH, and its address receives the change.
+// The delegation is staked with a separate single key designated by the
+// wallet, which signs the proof of possession and the staking scripts.
+export interface MultisigFunding {
+  // The P2WSH, P2SH or P2SH-P2WSH address of the multisig script
+  address: string;
+  // The OP_CHECKMULTISIG script in hex format
+  multisigScriptHex: string;
+}
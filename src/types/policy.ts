@@ -0,0 +1,59 @@
+import type { Psbt } from "bitcoinjs-lib";
+import { ActionName } from "./action";
+import { Contract } from "./contract";
+import { StakingInputs } from "./manager";
+
+// A delegation staked or registered by a PSBT, along with the params version
+// of its staking output
+export interface SigningDelegation {
+  stakingInput: StakingInputs;
+  stakingParamsVersion: number;
+}
+
+// A PSBT the manager is about to send to a BTC provider for signing, along
+// with the contracts and the action shown to the wallet
+export interface SigningRequest {
+  psbt: Psbt;
+  contracts: Contract[];
+  action: ActionName;
+  // The delegations staked or registered by the PSBT, none for the unbonding
+  // and withdrawal transactions which return the funds to the staker
+  delegations: SigningDelegation[];
+}
+
+// SigningPolicy is called with each PSBT before it reaches a BTC provider,
+// and throws to prevent the PSBT from being signed
+export type SigningPolicy = (request: SigningRequest) => void | Promise<void>;
+
+/**
+ * SigningPolicyRule is a built-in rule of `createSigningPolicy`:
+ * - "finality-provider": the delegations only stake to allowlisted finality
+ *   providers
+ * - "max-staking-amount": the staking amount of each delegation is capped. The
+ *   manager rejects a transaction whose staking output does not hold the
+ *   staking amount of the delegation before the policy is called.
+ * - "withdrawal-destination": the withdrawal transactions only send funds to
+ *   allowlisted addresses
+ * - "max-fee": the fee of the transactions is capped, in satoshis
+ * - "max-fee-rate": the fee rate of the transactions is capped, in satoshis
+ *   per vbyte
+ * - "params-version": the delegations only use allowlisted params versions
+ */
+export type SigningPolicyRule =
+  | "finality-provider"
+  | "max-staking-amount"
+  | "withdrawal-destination"
+  | "max-fee"
+  | "max-fee-rate"
+  | "params-version";
+
+// The configuration of the built-in rules, each rule being enforced only if
+// its value is set
+export interface SigningPolicyConfig {
+  finalityProviderPksNoCoordHex?: string[];
+  maxStakingAmountSat?: number;
+  withdrawalAddresses?: string[];
+  maxFeeSat?: number;
+  maxFeeRate?: number;
+  stakingParamsVersions?: number[];
+}
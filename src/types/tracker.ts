@@ -0,0 +1,60 @@
+import type { StakerInfo } from "../staking";
+import { StakingInputs } from "./manager";
+
+/**
+ * DelegationState is the lifecycle state of a delegation recorded by the
+ * `DelegationTracker`:
+ * - "awaiting-staking-signature": the Babylon registration of a pre-staking
+ *   delegation is signed, and its staking transaction is not signed yet
+ * - "pending-registration": the staking transaction of a post-staking
+ *   delegation is confirmed, and the delegation is not registered on the
+ *   Babylon chain yet
+ * - "awaiting-btc-confirmation": the signed staking transaction is waiting to
+ *   be included in a BTC block
+ * - "active": the staking output is confirmed and registered, and its timelock
+ *   has not expired
+ * - "unbonding": the unbonding transaction is signed, and the timelock of its
+ *   output has not expired
+ * - "withdrawable": the timelock of the staking or unbonding output expired
+ * - "withdrawn": the withdrawal transaction is signed
+ */
+export type DelegationState =
+  | "awaiting-staking-signature"
+  | "pending-registration"
+  | "awaiting-btc-confirmation"
+  | "active"
+  | "unbonding"
+  | "withdrawable"
+  | "withdrawn";
+
+// A delegation recorded by the DelegationTracker. The transactions are kept in
+// hex format so that the record can be serialized to JSON.
+export interface TrackedDelegation {
+  // The id of the staking transaction, identifying the delegation
+  stakingTxHash: string;
+  state: DelegationState;
+  stakerBtcInfo: StakerInfo;
+  stakingInput: StakingInputs;
+  // The params version that was used to create the delegation in Babylon chain
+  stakingParamsVersion: number;
+  // Whether the Babylon registration message of the delegation was signed
+  registered: boolean;
+  stakingTxHex: string;
+  // The BTC height in which the staking transaction is included
+  stakingTxHeight?: number;
+  unbondingTxHex?: string;
+  // The BTC height in which the unbonding transaction is included
+  unbondingTxHeight?: number;
+  withdrawalTxHex?: string;
+}
+
+// The storage of the delegations recorded by the DelegationTracker, keyed by
+// the id of their staking transaction
+export interface DelegationStore {
+  get(stakingTxHash: string): Promise<TrackedDelegation | undefined>;
+  getAll(): Promise<TrackedDelegation[]>;
+  // Inserts the delegation or replaces the one with the same staking
+  // transaction id
+  put(delegation: TrackedDelegation): Promise<void>;
+  delete(stakingTxHash: string): Promise<void>;
+}
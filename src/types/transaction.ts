@@ -1,4 +1,7 @@
 import { Psbt, Transaction } from "bitcoinjs-lib";
+import type { CoinSelector } from "../utils/fee/coinSelection";
+import type { FeeEstimationMode } from "../utils/fee/vsize";
+import { UTXO } from "./UTXO";
 
 /**
  * PsbtResult is an object containing a partially signed transaction and its fee
@@ -15,3 +18,95 @@ export interface TransactionResult {
   transaction: Transaction;
   fee: number;
 }
+
+/**
+ * WithdrawalInput is an expired output to spend in a batch withdrawal
+ * transaction along with the scripts of the delegation it belongs to:
+ * - "staking-expired": the staking output of a staking transaction
+ * - "early-unbonded": the output of an unbonding transaction
+ * - "slashing": the change output of a slashing transaction
+ */
+export type WithdrawalInput = {
+  transaction: Transaction;
+  outputIndex: number;
+} & (
+  | {
+      type: "staking-expired";
+      scripts: {
+        timelockScript: Buffer;
+        slashingScript: Buffer;
+        unbondingScript: Buffer;
+      };
+    }
+  | {
+      type: "early-unbonded";
+      scripts: {
+        unbondingTimelockScript: Buffer;
+        slashingScript: Buffer;
+      };
+    }
+  | {
+      type: "slashing";
+      scripts: {
+        unbondingTimelockScript: Buffer;
+      };
+    }
+);
+
+/**
+ * BatchStakingOutput is a staking output to create in a batch staking
+ * transaction along with the scripts of the delegation it belongs to
+ */
+export interface BatchStakingOutput {
+  scripts: {
+    timelockScript: Buffer;
+    unbondingScript: Buffer;
+    slashingScript: Buffer;
+    dataEmbedScript?: Buffer;
+  };
+  amount: number;
+}
+
+/**
+ * FeeSponsor is a wallet paying the fee of a staking transaction instead of the
+ * staker, e.g. the operational wallet of an exchange staking client funds. Its
+ * UTXOs only cover the fee and its change goes back to its address
+ */
+export interface FeeSponsor {
+  address: string;
+  publicKeyNoCoordHex: string;
+  inputUTXOs: UTXO[];
+}
+
+/**
+ * StakingTransactionBuildOptions are the optional settings of the builders of
+ * staking transactions
+ */
+export interface StakingTransactionBuildOptions {
+  // The block height locktime of the transaction
+  lockHeight?: number;
+  // The fee estimation mode, "heuristic" by default
+  feeEstimationMode?: FeeEstimationMode;
+  // The coin selection strategy of the input UTXOs
+  coinSelector?: CoinSelector;
+  // Whether the transaction signals opt-in replace-by-fee (BIP125), false by
+  // default
+  replaceable?: boolean;
+  // The wallet paying the fee instead of the staker
+  feeSponsor?: FeeSponsor;
+}
+
+/**
+ * WithdrawalDestination is an output of a withdrawal transaction receiving
+ * either a fixed amount or the remainder of the withdrawn funds once the fixed
+ * amounts and the fee are paid, e.g. a cold storage address of a treasury
+ */
+export type WithdrawalDestination =
+  | {
+      address: string;
+      amount: number;
+    }
+  | {
+      address: string;
+      remainder: true;
+    };
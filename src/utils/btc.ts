@@ -93,6 +93,30 @@ export const isNativeSegwit = (
   }
 };
 
+/**
+ * Check whether the given address is a Native SegWit script hash (P2WSH)
+ * address, such as the address of a multisig wallet.
+ *
+ * @param {string} p2wshAddress - The Bitcoin bech32 encoded address to check.
+ * @param {object} network - The Bitcoin network (e.g., bitcoin.networks.bitcoin).
+ * @returns {boolean} - True if the address is a P2WSH address, otherwise false.
+ */
+export const isP2WSH = (
+  p2wshAddress: string,
+  network: networks.Network,
+): boolean => {
+  try {
+    const decoded = address.fromBech32(p2wshAddress);
+    return (
+      decoded.version === 0 &&
+      decoded.data.length === 32 &&
+      decoded.prefix === network.bech32
+    );
+  } catch (error) {
+    return false;
+  }
+};
+
 /**
  * Check whether the given public key is a valid public key without a coordinate.
  *
@@ -0,0 +1,334 @@
+import { BTC_DUST_SAT } from "../../constants/dustSat";
+import { P2TR_INPUT_SIZE } from "../../constants/fee";
+import { UTXO } from "../../types/UTXO";
+import { getEstimatedChangeOutputSize, inputValueSum } from "./utils";
+
+const INSUFFICIENT_FUNDS_MESSAGE =
+  "Insufficient funds: unable to gather enough UTXOs to cover the staking amount and fees";
+
+/**
+ * The staking transaction the UTXOs are selected for.
+ */
+export interface CoinSelectionContext {
+  // The amount to stake in satoshis
+  stakingAmount: number;
+  // The fee rate in satoshis per vbyte
+  feeRate: number;
+  // Returns the fee of the staking transaction spending the UTXOs, including
+  // a change output if the change is above dust
+  getFee: (utxos: UTXO[]) => number;
+  // Returns the fee of the staking transaction spending the UTXOs without a
+  // change output
+  getChangelessFee: (utxos: UTXO[]) => number;
+}
+
+/**
+ * The UTXOs selected to fund a staking transaction.
+ */
+export interface CoinSelection {
+  selectedUTXOs: UTXO[];
+  // The fee of the staking transaction in satoshis. A changeless selection
+  // pays its excess as fee.
+  fee: number;
+  // The waste metric of the selection in satoshis, see
+  // `getCoinSelectionWaste`. The lower the better.
+  waste: number;
+}
+
+/**
+ * A strategy selecting the UTXOs funding a staking transaction.
+ */
+export interface CoinSelector {
+  /**
+   * Selects the UTXOs covering the staking amount and the fee.
+   *
+   * @param {UTXO[]} availableUTXOs - The deduplicated UTXOs of the wallet.
+   * @param {CoinSelectionContext} context - The staking transaction.
+   * @returns {CoinSelection} - The selected UTXOs, fee and waste.
+   * @throws {Error} - If the UTXOs cannot cover the staking amount and fee.
+   */
+  select(availableUTXOs: UTXO[], context: CoinSelectionContext): CoinSelection;
+}
+
+export interface CoinSelectorOptions {
+  // The fee rate the UTXOs are expected to be spent at in the long run,
+  // weighting the inputs in the waste metric. Defaults to the fee rate of the
+  // transaction, i.e. the waste only accounts for the change or the excess.
+  longTermFeeRate?: number;
+}
+
+/**
+ * Computes the waste metric of a selection, as defined by Bitcoin Core:
+ *
+ * waste = inputsFee * (feeRate - longTermFeeRate) / feeRate
+ *         + (hasChange ? costOfChange : excess)
+ *
+ * The first term is the premium paid for spending the inputs now rather than
+ * at the long-term fee rate. The cost of change is the fee of the change output
+ * plus the fee of spending it later as a taproot input, and the excess is the
+ * amount above the staking amount and fee dropped to the miners by a
+ * changeless selection.
+ *
+ * @param {UTXO[]} selectedUTXOs - The selected UTXOs.
+ * @param {number} fee - The fee paid by the selection.
+ * @param {CoinSelectionContext} context - The staking transaction.
+ * @param {number} [longTermFeeRate] - The long-term fee rate, defaults to the
+ * fee rate of the transaction.
+ * @returns {number} - The waste in satoshis.
+ */
+export const getCoinSelectionWaste = (
+  selectedUTXOs: UTXO[],
+  fee: number,
+  context: CoinSelectionContext,
+  longTermFeeRate: number = context.feeRate,
+): number => {
+  const { stakingAmount, feeRate, getChangelessFee } = context;
+  const changelessFee = getChangelessFee(selectedUTXOs);
+  const inputsFee = changelessFee - getChangelessFee([]);
+  const timingCost = (inputsFee * (feeRate - longTermFeeRate)) / feeRate;
+
+  const inputsValue = inputValueSum(selectedUTXOs);
+  const changeOrExcessCost =
+    inputsValue - stakingAmount - fee > BTC_DUST_SAT
+      ? getCostOfChange(feeRate, longTermFeeRate)
+      : inputsValue - stakingAmount - changelessFee;
+
+  return Math.round(timingCost + changeOrExcessCost);
+};
+
+/**
+ * Selects the highest value UTXOs first until they cover the staking amount
+ * and the fee. This is the default strategy, it minimizes the number of inputs
+ * at the expense of privacy and usually creates a change output.
+ */
+export class LargestFirstCoinSelector implements CoinSelector {
+  constructor(private options: CoinSelectorOptions = {}) {}
+
+  select(availableUTXOs: UTXO[], context: CoinSelectionContext): CoinSelection {
+    const sortedUTXOs = [...availableUTXOs].sort((a, b) => b.value - a.value);
+    return accumulate(sortedUTXOs, context, this.options);
+  }
+}
+
+/**
+ * Selects the lowest value UTXOs first until they cover the staking amount and
+ * the fee, consolidating small UTXOs. UTXOs whose value does not cover the fee
+ * of spending them are skipped.
+ */
+export class SmallestFirstCoinSelector implements CoinSelector {
+  constructor(private options: CoinSelectorOptions = {}) {}
+
+  select(availableUTXOs: UTXO[], context: CoinSelectionContext): CoinSelection {
+    const sortedUTXOs = availableUTXOs
+      .filter((utxo) => getEffectiveValue(utxo, context) > 0)
+      .sort((a, b) => a.value - b.value);
+    return accumulate(sortedUTXOs, context, this.options);
+  }
+}
+
+/**
+ * Selects the lowest value UTXO covering the staking amount and the fee on its
+ * own, so that the transaction does not link several UTXOs of the wallet.
+ * Falls back to the given selector if no single UTXO is large enough.
+ */
+export class SingleUTXOCoinSelector implements CoinSelector {
+  constructor(
+    private options: CoinSelectorOptions & { fallback?: CoinSelector } = {},
+  ) {}
+
+  select(availableUTXOs: UTXO[], context: CoinSelectionContext): CoinSelection {
+    const sortedUTXOs = [...availableUTXOs].sort((a, b) => a.value - b.value);
+    for (const utxo of sortedUTXOs) {
+      const fee = context.getFee([utxo]);
+      if (utxo.value >= context.stakingAmount + fee) {
+        return toCoinSelection([utxo], fee, context, this.options);
+      }
+    }
+    if (this.options.fallback) {
+      return this.options.fallback.select(availableUTXOs, context);
+    }
+    throw new Error(INSUFFICIENT_FUNDS_MESSAGE);
+  }
+}
+
+/**
+ * Searches for a changeless selection with the branch-and-bound algorithm of
+ * Bitcoin Core, i.e. a set of UTXOs whose effective values (value minus the fee
+ * of spending the UTXO) exceed the staking amount and fee by less than the cost
+ * of a change output. Among the matches found, the one with the lowest waste is
+ * selected and its excess is paid as fee.
+ *
+ * Falls back to the given selector, or the largest first strategy by default,
+ * if no changeless selection is found within `maxTries` search steps.
+ */
+export class BranchAndBoundCoinSelector implements CoinSelector {
+  constructor(
+    private options: CoinSelectorOptions & {
+      maxTries?: number;
+      fallback?: CoinSelector;
+    } = {},
+  ) {}
+
+  select(availableUTXOs: UTXO[], context: CoinSelectionContext): CoinSelection {
+    const {
+      longTermFeeRate = context.feeRate,
+      maxTries = 100_000,
+      fallback = new LargestFirstCoinSelector(this.options),
+    } = this.options;
+    const { stakingAmount, feeRate, getChangelessFee } = context;
+
+    const candidates = availableUTXOs
+      .map((utxo) => ({
+        utxo,
+        effectiveValue: getEffectiveValue(utxo, context),
+      }))
+      .filter(({ effectiveValue }) => effectiveValue > 0)
+      .sort((a, b) => b.effectiveValue - a.effectiveValue);
+    // The remaining effective value from each candidate onwards
+    const remaining: number[] = [];
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      remaining[i] = candidates[i].effectiveValue + (remaining[i + 1] ?? 0);
+    }
+    const target = stakingAmount + getChangelessFee([]);
+    const upperBound = target + getCostOfChange(feeRate, longTermFeeRate);
+
+    let tries = 0;
+    let best: CoinSelection | undefined;
+    const selected: UTXO[] = [];
+    const search = (index: number, value: number) => {
+      if (++tries > maxTries || value > upperBound) {
+        return;
+      }
+      if (value >= target) {
+        const fee = inputValueSum(selected) - stakingAmount;
+        // Check the fee of the match itself, since the effective values may
+        // be off by a rounding satoshi in the exact estimation mode
+        if (fee >= getChangelessFee(selected)) {
+          const match = toCoinSelection(
+            [...selected],
+            fee,
+            context,
+            this.options,
+          );
+          if (!best || match.waste < best.waste) {
+            best = match;
+          }
+        }
+        return;
+      }
+      if (index >= candidates.length || value + remaining[index] < target) {
+        return;
+      }
+      // Explore the inclusion branch first, then the omission branch
+      selected.push(candidates[index].utxo);
+      search(index + 1, value + candidates[index].effectiveValue);
+      selected.pop();
+      search(index + 1, value);
+    };
+    search(0, 0);
+
+    return best ?? fallback.select(availableUTXOs, context);
+  }
+}
+
+/**
+ * Spends exactly the given UTXOs, e.g. UTXOs chosen by the user for coin
+ * control. The UTXOs must be part of the available UTXOs.
+ */
+export class ExactInputsCoinSelector implements CoinSelector {
+  constructor(
+    private utxos: UTXO[],
+    private options: CoinSelectorOptions = {},
+  ) {}
+
+  select(availableUTXOs: UTXO[], context: CoinSelectionContext): CoinSelection {
+    if (this.utxos.length === 0) {
+      throw new Error("No input UTXOs to spend");
+    }
+    const available = new Set(availableUTXOs.map(toOutpoint));
+    const missing = this.utxos.find((utxo) => !available.has(toOutpoint(utxo)));
+    if (missing) {
+      throw new Error(
+        `UTXO ${toOutpoint(missing)} is not part of the available UTXOs`,
+      );
+    }
+    const fee = context.getFee(this.utxos);
+    if (inputValueSum(this.utxos) < context.stakingAmount + fee) {
+      throw new Error(INSUFFICIENT_FUNDS_MESSAGE);
+    }
+    return toCoinSelection([...this.utxos], fee, context, this.options);
+  }
+}
+
+/**
+ * Runs each of the given selectors and keeps the selection with the lowest
+ * waste. Selectors failing to fund the transaction are ignored.
+ */
+export class LeastWasteCoinSelector implements CoinSelector {
+  constructor(private selectors: CoinSelector[]) {}
+
+  select(availableUTXOs: UTXO[], context: CoinSelectionContext): CoinSelection {
+    let best: CoinSelection | undefined;
+    let lastError: unknown;
+    for (const selector of this.selectors) {
+      try {
+        const selection = selector.select(availableUTXOs, context);
+        if (!best || selection.waste < best.waste) {
+          best = selection;
+        }
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    if (!best) {
+      throw lastError ?? new Error(INSUFFICIENT_FUNDS_MESSAGE);
+    }
+    return best;
+  }
+}
+
+// Adds the UTXOs in order until they cover the staking amount and the fee
+const accumulate = (
+  sortedUTXOs: UTXO[],
+  context: CoinSelectionContext,
+  options: CoinSelectorOptions,
+): CoinSelection => {
+  const selectedUTXOs: UTXO[] = [];
+  let accumulatedValue = 0;
+  for (const utxo of sortedUTXOs) {
+    selectedUTXOs.push(utxo);
+    accumulatedValue += utxo.value;
+    const fee = context.getFee(selectedUTXOs);
+    if (accumulatedValue >= context.stakingAmount + fee) {
+      return toCoinSelection(selectedUTXOs, fee, context, options);
+    }
+  }
+  throw new Error(INSUFFICIENT_FUNDS_MESSAGE);
+};
+
+const toCoinSelection = (
+  selectedUTXOs: UTXO[],
+  fee: number,
+  context: CoinSelectionContext,
+  options: CoinSelectorOptions,
+): CoinSelection => ({
+  selectedUTXOs,
+  fee,
+  waste: getCoinSelectionWaste(
+    selectedUTXOs,
+    fee,
+    context,
+    options.longTermFeeRate,
+  ),
+});
+
+// The value of the UTXO minus the fee of spending it
+const getEffectiveValue = (utxo: UTXO, context: CoinSelectionContext) =>
+  utxo.value -
+  (context.getChangelessFee([utxo]) - context.getChangelessFee([]));
+
+// The fee of a change output plus the fee of spending it later
+const getCostOfChange = (feeRate: number, longTermFeeRate: number) =>
+  getEstimatedChangeOutputSize() * feeRate + P2TR_INPUT_SIZE * longTermFeeRate;
+
+const toOutpoint = (utxo: UTXO) => `${utxo.txid}:${utxo.vout}`;
@@ -13,11 +13,29 @@ import {
 } from "../../constants/fee";
 import { UTXO } from "../../types/UTXO";
 import { TransactionOutput } from "../../types/psbtOutputs";
+import {
+  CoinSelection,
+  CoinSelectionContext,
+  CoinSelector,
+  getCoinSelectionWaste,
+  LargestFirstCoinSelector,
+  SingleUTXOCoinSelector,
+} from "./coinSelection";
 import {
   getEstimatedChangeOutputSize,
   getInputSizeByScript,
+  inputValueSum,
   isOP_RETURN,
 } from "./utils";
+import {
+  FeeEstimationMode,
+  getPlaceholderTxVirtualSize,
+  getUTXOPlaceholderInput,
+  PlaceholderInput,
+} from "./vsize";
+
+export * from "./coinSelection";
+export * from "./vsize";
 
 /**
  * Deduplicates UTXOs based on their (txid, vout) pair.
@@ -40,18 +58,25 @@ const deduplicateUTXOs = (utxos: UTXO[]): UTXO[] => {
 
 /**
  * Selects UTXOs and calculates the fee for a staking transaction.
- * This method selects the highest value UTXOs from all available UTXOs to
- * cover the staking amount and the transaction fees.
+ * By default, this method selects the highest value UTXOs from all available
+ * UTXOs to cover the staking amount and the transaction fees, another strategy
+ * can be given as a coin selector.
  * The formula used is:
  *
  * totalFee = (inputSize + outputSize) * feeRate + buffer
  * where outputSize may or may not include the change output size depending on the remaining value.
  *
+ * In the "exact" estimation mode, the size is the virtual size of the
+ * transaction built with placeholder signatures and no buffer is added.
+ *
  * @param availableUTXOs - All available UTXOs from the wallet.
  * @param stakingAmount - The amount to stake.
  * @param feeRate - The fee rate in satoshis per byte.
  * @param outputs - The outputs in the transaction.
- * @returns An object containing the selected UTXOs and the fee.
+ * @param feeEstimationMode - The fee estimation mode, "heuristic" by default.
+ * @param coinSelector - The coin selection strategy, largest first by default.
+ * @returns An object containing the selected UTXOs, the fee and the waste
+ * metric of the selection.
  * @throws Will throw an error if there are insufficient funds or if the fee cannot be calculated.
  */
 export const getStakingTxInputUTXOsAndFees = (
@@ -59,10 +84,26 @@ export const getStakingTxInputUTXOsAndFees = (
   stakingAmount: number,
   feeRate: number,
   outputs: TransactionOutput[],
-): {
-  selectedUTXOs: UTXO[];
-  fee: number;
-} => {
+  feeEstimationMode: FeeEstimationMode = "heuristic",
+  coinSelector: CoinSelector = new LargestFirstCoinSelector(),
+): CoinSelection =>
+  selectInputUTXOs(
+    availableUTXOs,
+    getStakingTxCoinSelectionContext(
+      stakingAmount,
+      feeRate,
+      outputs,
+      feeEstimationMode,
+    ),
+    coinSelector,
+  );
+
+// Selects the UTXOs with the coin selector among the deduplicated valid UTXOs
+const selectInputUTXOs = (
+  availableUTXOs: UTXO[],
+  context: CoinSelectionContext,
+  coinSelector: CoinSelector,
+): CoinSelection => {
   if (availableUTXOs.length === 0) {
     throw new Error("Insufficient funds");
   }
@@ -79,60 +120,293 @@ export const getStakingTxInputUTXOsAndFees = (
     throw new Error("Insufficient funds: no valid UTXOs available for staking");
   }
 
-  // Sort available UTXOs from highest to lowest value
-  const sortedUTXOs = validUTXOs.sort((a, b) => b.value - a.value);
-
-  const selectedUTXOs: UTXO[] = [];
-  let accumulatedValue = 0;
-  let estimatedFee = 0;
+  return coinSelector.select(validUTXOs, context);
+};
 
-  for (const utxo of sortedUTXOs) {
-    selectedUTXOs.push(utxo);
-    accumulatedValue += utxo.value;
+/**
+ * Builds the coin selection context of a staking transaction, i.e. the fee of
+ * the transaction spending a set of UTXOs with or without a change output.
+ * A staking expansion transaction also spends the previous staking output on
+ * top of the selected UTXOs, a re-staking transaction the withdrawn outputs and
+ * a fee sponsored transaction the UTXOs of the staker.
+ */
+const getStakingTxCoinSelectionContext = (
+  stakingAmount: number,
+  feeRate: number,
+  outputs: TransactionOutput[],
+  feeEstimationMode: FeeEstimationMode,
+  scriptPathInputs?: { placeholderInputs: PlaceholderInput[]; size: number },
+  spentUTXOs: UTXO[] = [],
+): CoinSelectionContext => {
+  const getPlaceholderInputs = (utxos: UTXO[]): PlaceholderInput[] => [
+    ...(scriptPathInputs?.placeholderInputs ?? []),
+    ...[...spentUTXOs, ...utxos].map(getUTXOPlaceholderInput),
+  ];
+  const getChangelessFee = (utxos: UTXO[]): number =>
+    feeEstimationMode === "exact"
+      ? getExactFee(getPlaceholderInputs(utxos), outputs, feeRate)
+      : (getEstimatedSize([...spentUTXOs, ...utxos], outputs) +
+          (scriptPathInputs?.size ?? 0)) *
+          feeRate +
+        rateBasedTxBufferFee(feeRate);
 
-    // Calculate the fee for the current set of UTXOs and outputs
-    const estimatedSize = getEstimatedSize(selectedUTXOs, outputs);
-    estimatedFee = estimatedSize * feeRate + rateBasedTxBufferFee(feeRate);
+  const getFee = (utxos: UTXO[]): number => {
+    const fee = getChangelessFee(utxos);
     // Check if there will be any change left after the staking amount and fee.
     // If there is, a change output needs to be added, which also comes with an additional fee.
-    if (accumulatedValue - (stakingAmount + estimatedFee) > BTC_DUST_SAT) {
-      estimatedFee += getEstimatedChangeOutputSize() * feeRate;
-    }
-    if (accumulatedValue >= stakingAmount + estimatedFee) {
-      break;
+    if (inputValueSum(utxos) - (stakingAmount + fee) <= BTC_DUST_SAT) {
+      return fee;
     }
+    return feeEstimationMode === "exact"
+      ? getExactFee(getPlaceholderInputs(utxos), outputs, feeRate, true)
+      : fee + getEstimatedChangeOutputSize() * feeRate;
+  };
+
+  return { stakingAmount, feeRate, getFee, getChangelessFee };
+};
+
+/**
+ * The UTXOs selected to fund a staking transaction whose fee is paid by a
+ * sponsor.
+ */
+export interface SponsoredCoinSelection {
+  // The UTXOs of the staker covering the staking amount
+  stakerUTXOs: UTXO[];
+  // The change of the staker, which has no output if it is dust
+  stakerChange: number;
+  // The UTXOs of the sponsor covering the fee
+  sponsorUTXOs: UTXO[];
+  // The fee of the staking transaction in satoshis
+  fee: number;
+}
+
+/**
+ * Selects the UTXOs and calculates the fee for a staking transaction whose fee
+ * is paid by a sponsor, e.g. the operational wallet of an exchange staking
+ * client funds.
+ *
+ * The UTXOs of the staker are selected to cover the staking amount only, and
+ * the change of the staker is added as an output if it is above dust. The
+ * UTXOs of the sponsor are then selected to cover the fee of the whole
+ * transaction, including the inputs and change of the staker, and the change
+ * output of the sponsor if any.
+ *
+ * @param stakerUTXOs - All available UTXOs of the staker.
+ * @param sponsorUTXOs - All available UTXOs of the sponsor.
+ * @param stakingAmount - The amount to stake.
+ * @param feeRate - The fee rate in satoshis per byte.
+ * @param outputs - The staking outputs of the transaction.
+ * @param stakerChangeScript - The output script of the staker change.
+ * @param feeEstimationMode - The fee estimation mode, "heuristic" by default.
+ * @param coinSelector - The coin selection strategy, largest first by default.
+ * @returns An object containing the selected UTXOs of each party, the change
+ * of the staker and the fee.
+ * @throws Will throw an error if the staker cannot cover the staking amount or
+ * the sponsor cannot cover the fee.
+ */
+export const getSponsoredStakingTxInputUTXOsAndFees = (
+  stakerUTXOs: UTXO[],
+  sponsorUTXOs: UTXO[],
+  stakingAmount: number,
+  feeRate: number,
+  outputs: TransactionOutput[],
+  stakerChangeScript: Buffer,
+  feeEstimationMode: FeeEstimationMode = "heuristic",
+  coinSelector: CoinSelector = new LargestFirstCoinSelector(),
+): SponsoredCoinSelection => {
+  const { selectedUTXOs: selectedStakerUTXOs } = selectInputUTXOs(
+    stakerUTXOs,
+    {
+      stakingAmount,
+      feeRate,
+      getFee: () => 0,
+      getChangelessFee: () => 0,
+    },
+    coinSelector,
+  );
+  const stakerChange = inputValueSum(selectedStakerUTXOs) - stakingAmount;
+  const sponsoredOutputs =
+    stakerChange > BTC_DUST_SAT
+      ? [...outputs, { scriptPubKey: stakerChangeScript, value: stakerChange }]
+      : outputs;
+
+  const { selectedUTXOs: selectedSponsorUTXOs, fee } = selectInputUTXOs(
+    sponsorUTXOs,
+    getStakingTxCoinSelectionContext(
+      0,
+      feeRate,
+      sponsoredOutputs,
+      feeEstimationMode,
+      undefined,
+      selectedStakerUTXOs,
+    ),
+    coinSelector,
+  );
+
+  return {
+    stakerUTXOs: selectedStakerUTXOs,
+    stakerChange,
+    sponsorUTXOs: selectedSponsorUTXOs,
+    fee,
+  };
+};
+
+/**
+ * Selects the UTXO funding a staking expansion transaction and calculates its
+ * fee. The previous staking output is spent as the first input, the selected
+ * UTXO covers the fee and the increase of the staking amount, if any.
+ *
+ * The expansion is registered on Babylon with a single funding transaction,
+ * so it must be funded by exactly one UTXO. By default, the smallest UTXO
+ * covering the fee and the increase on its own is selected, so that large
+ * UTXOs remain available for other activities. Another strategy can be given
+ * as a coin selector, as long as it selects a single UTXO.
+ *
+ * @param availableUTXOs - All available UTXOs from the wallet.
+ * @param additionalStakingAmount - The staking amount of the expansion minus
+ * the previous staking amount, 0 if the staking amount is unchanged.
+ * @param feeRate - The fee rate in satoshis per byte.
+ * @param outputs - The outputs of the expansion transaction.
+ * @param feeEstimationMode - The fee estimation mode, "heuristic" by default.
+ * @param previousStakingInput - The placeholder input spending the previous
+ * staking output, required by the "exact" estimation mode.
+ * @param coinSelector - The coin selection strategy.
+ * @returns An object containing the selected UTXO, the fee and the waste
+ * metric of the selection.
+ * @throws Will throw an error if no single UTXO covers the fee and the
+ * increase, or if the coin selector selects several UTXOs.
+ */
+export const getStakingExpansionTxInputUTXOsAndFees = (
+  availableUTXOs: UTXO[],
+  additionalStakingAmount: number,
+  feeRate: number,
+  outputs: TransactionOutput[],
+  feeEstimationMode: FeeEstimationMode = "heuristic",
+  previousStakingInput?: PlaceholderInput,
+  coinSelector: CoinSelector = new SingleUTXOCoinSelector(),
+): CoinSelection => {
+  if (feeEstimationMode === "exact" && !previousStakingInput) {
+    throw new Error(
+      "The previous staking input is required by the exact fee estimation",
+    );
   }
 
-  if (accumulatedValue < stakingAmount + estimatedFee) {
+  const selection = selectInputUTXOs(
+    availableUTXOs,
+    getStakingTxCoinSelectionContext(
+      additionalStakingAmount,
+      feeRate,
+      outputs,
+      feeEstimationMode,
+      {
+        placeholderInputs: previousStakingInput ? [previousStakingInput] : [],
+        size: P2TR_STAKING_EXPANSION_INPUT_SIZE,
+      },
+    ),
+    coinSelector,
+  );
+  // MsgBtcStakeExpand carries a single funding transaction, Babylon could not
+  // validate the transactions of additional funding inputs
+  if (selection.selectedUTXOs.length !== 1) {
     throw new Error(
-      "Insufficient funds: unable to gather enough UTXOs to cover the staking amount and fees",
+      "A staking expansion transaction must be funded by a single UTXO",
     );
   }
+  return selection;
+};
 
-  return {
-    selectedUTXOs,
-    fee: estimatedFee,
-  };
+/**
+ * Selects the UTXOs funding a re-staking transaction and calculates its fee.
+ * The withdrawn outputs are spent through their timelock path as the first
+ * inputs and fund the staking output, the selected UTXOs only cover the part
+ * of the staking amount and fee that the withdrawn outputs do not.
+ *
+ * No UTXO is selected if the withdrawn outputs cover the staking amount and
+ * the fee on their own.
+ *
+ * @param availableUTXOs - All available UTXOs from the wallet, possibly none.
+ * @param stakingAmount - The amount to stake.
+ * @param withdrawn - The total value of the withdrawn outputs, their number
+ * and their placeholder inputs, which are required by the "exact" estimation
+ * mode.
+ * @param feeRate - The fee rate in satoshis per byte.
+ * @param outputs - The outputs of the re-staking transaction.
+ * @param feeEstimationMode - The fee estimation mode, "heuristic" by default.
+ * @param coinSelector - The coin selection strategy, largest first by default.
+ * @returns An object containing the selected UTXOs, the fee and the waste
+ * metric of the selection.
+ * @throws Will throw an error if there are insufficient funds.
+ */
+export const getRestakingTxInputUTXOsAndFees = (
+  availableUTXOs: UTXO[],
+  stakingAmount: number,
+  withdrawn: {
+    value: number;
+    count: number;
+    placeholderInputs?: PlaceholderInput[];
+  },
+  feeRate: number,
+  outputs: TransactionOutput[],
+  feeEstimationMode: FeeEstimationMode = "heuristic",
+  coinSelector: CoinSelector = new LargestFirstCoinSelector(),
+): CoinSelection => {
+  if (
+    feeEstimationMode === "exact" &&
+    withdrawn.placeholderInputs?.length !== withdrawn.count
+  ) {
+    throw new Error(
+      "The withdrawn inputs are required by the exact fee estimation",
+    );
+  }
+
+  const context = getStakingTxCoinSelectionContext(
+    stakingAmount - withdrawn.value,
+    feeRate,
+    outputs,
+    feeEstimationMode,
+    {
+      placeholderInputs: withdrawn.placeholderInputs ?? [],
+      size: withdrawn.count * (P2TR_INPUT_SIZE + WITHDRAW_TX_BUFFER_SIZE),
+    },
+  );
+  // The withdrawn outputs may cover the staking amount and the fee on their own
+  const fee = context.getFee([]);
+  if (context.stakingAmount + fee <= 0) {
+    return {
+      selectedUTXOs: [],
+      fee,
+      waste: getCoinSelectionWaste([], fee, context),
+    };
+  }
+
+  return selectInputUTXOs(availableUTXOs, context, coinSelector);
 };
 
 /**
  * Calculates the required funding UTXO and fees for a staking expansion transaction.
  *
- * This function selects a single UTXO from available UTXOs to cover:
- * 1. Transaction fees for the expansion
- * 2. Any additional staking amount beyond the previous stake
+ * This function selects a single UTXO from available UTXOs to cover the
+ * transaction fees for the expansion.
+ *
+ * @deprecated Use `getStakingExpansionTxInputUTXOsAndFees`, which also covers
+ * an increase of the staking amount.
  *
  * @param availableUTXOs - List of available UTXOs to choose from for funding
  * @param previousStakingTx - Details of the previous staking transaction being expanded
  * @param stakingAmount - Total staking amount for the expansion (includes previous + additional)
  * @param feeRate - Fee rate in satoshis per byte
  * @param outputs - Transaction outputs for the expansion
+ * @param feeEstimationMode - The fee estimation mode, "heuristic" by default
+ * @param previousStakingInput - The placeholder input spending the previous
+ * staking output, required by the "exact" estimation mode
  * @returns Object containing the selected funding UTXO and calculated fee
  */
 export const getStakingExpansionTxFundingUTXOAndFees = (
   availableUTXOs: UTXO[],
   feeRate: number,
   outputs: TransactionOutput[],
+  feeEstimationMode: FeeEstimationMode = "heuristic",
+  previousStakingInput?: PlaceholderInput,
 ): {
   selectedUTXO: UTXO;
   fee: number;
@@ -141,6 +415,11 @@ export const getStakingExpansionTxFundingUTXOAndFees = (
   if (availableUTXOs.length === 0) {
     throw new Error("Insufficient funds");
   }
+  if (feeEstimationMode === "exact" && !previousStakingInput) {
+    throw new Error(
+      "The previous staking input is required by the exact fee estimation",
+    );
+  }
 
   // Deduplicate UTXOs to prevent duplicate inputs
   const uniqueUTXOs = deduplicateUTXOs(availableUTXOs);
@@ -164,6 +443,20 @@ export const getStakingExpansionTxFundingUTXOAndFees = (
 
   // Iterate through UTXOs to find one that can cover the required fees
   for (const utxo of sortedUTXOs) {
+    if (feeEstimationMode === "exact") {
+      const inputs = [previousStakingInput!, getUTXOPlaceholderInput(utxo)];
+      let exactFee = getExactFee(inputs, outputs, feeRate);
+      if (utxo.value - exactFee > BTC_DUST_SAT) {
+        exactFee = getExactFee(inputs, outputs, feeRate, true);
+      }
+      if (utxo.value >= exactFee) {
+        return {
+          selectedUTXO: utxo,
+          fee: exactFee,
+        };
+      }
+      continue;
+    }
     // Calculate the estimated transaction size including:
     // - Base transaction size (additional UTXOs + Outputs)
     // - Previous staking transaction output as the input for the expansion tx
@@ -180,9 +473,8 @@ export const getStakingExpansionTxFundingUTXOAndFees = (
     // Check if this UTXO has enough value to cover the estimated fee
     // We are selecting a UTXO that can only cover the fee as
     // in the case of stake expansion we only want the additional UTXO to cover
-    // the staking fee.
-    // TODO: In the future, we will want to support selecting a UTXO for an increased
-    // staking amount.
+    // the staking fee. Use `getStakingExpansionTxInputUTXOsAndFees` to select
+    // UTXOs for an increased staking amount.
     if (utxo.value >= estimatedFee) {
       // Check if there will be change left after paying the fee
       // If change amount is above dust threshold, we need to add a change output
@@ -216,22 +508,113 @@ export const getStakingExpansionTxFundingUTXOAndFees = (
  * Due to the slightly larger size of withdrawal transactions, an additional
  * buffer is included to account for this difference.
  *
+ * In the "exact" estimation mode, the fee is based on the virtual size of the
+ * withdrawal transaction built with a placeholder signature.
+ *
  * @param feeRate - The fee rate in satoshis per vbyte.
+ * @param feeEstimationMode - The fee estimation mode, "heuristic" by default.
+ * @param withdrawal - The placeholder input spending the withdrawn output and
+ * the withdrawal output script, required by the "exact" estimation mode.
  * @returns The estimated fee for a withdrawal transaction in satoshis.
  */
-export const getWithdrawTxFee = (feeRate: number): number => {
-  const inputSize = P2TR_INPUT_SIZE;
+export const getWithdrawTxFee = (
+  feeRate: number,
+  feeEstimationMode: FeeEstimationMode = "heuristic",
+  withdrawal?: {
+    input: PlaceholderInput;
+    outputScriptPubKey: Buffer;
+  },
+): number =>
+  getBatchWithdrawTxFee(
+    feeRate,
+    1,
+    feeEstimationMode,
+    withdrawal && {
+      inputs: [withdrawal.input],
+      outputScriptPubKeys: [withdrawal.outputScriptPubKey],
+    },
+  );
+
+/**
+ * Calculates the estimated fee for a batch withdrawal transaction spending
+ * several expired outputs to one or more outputs. Each input is estimated like
+ * the input of a withdrawal transaction, see `getWithdrawTxFee`.
+ *
+ * @param feeRate - The fee rate in satoshis per vbyte.
+ * @param inputCount - The number of withdrawn outputs.
+ * @param feeEstimationMode - The fee estimation mode, "heuristic" by default.
+ * @param withdrawal - The placeholder inputs spending the withdrawn outputs and
+ * the withdrawal output scripts, required by the "exact" estimation mode.
+ * @param outputCount - The number of withdrawal outputs, 1 by default. Only
+ * used by the "heuristic" estimation mode.
+ * @returns The estimated fee for a batch withdrawal transaction in satoshis.
+ */
+export const getBatchWithdrawTxFee = (
+  feeRate: number,
+  inputCount: number,
+  feeEstimationMode: FeeEstimationMode = "heuristic",
+  withdrawal?: {
+    inputs: PlaceholderInput[];
+    outputScriptPubKeys: Buffer[];
+  },
+  outputCount: number = 1,
+): number => {
+  if (feeEstimationMode === "exact") {
+    if (!withdrawal) {
+      throw new Error(
+        "The withdrawal input and output are required by the exact fee " +
+          "estimation",
+      );
+    }
+    return getExactFee(
+      withdrawal.inputs,
+      withdrawal.outputScriptPubKeys.map((scriptPubKey) => ({
+        scriptPubKey,
+        value: 0,
+      })),
+      feeRate,
+    );
+  }
+  const inputSize = P2TR_INPUT_SIZE + WITHDRAW_TX_BUFFER_SIZE;
   const outputSize = getEstimatedChangeOutputSize();
   return (
     feeRate *
-      (inputSize +
-        outputSize +
-        TX_BUFFER_SIZE_OVERHEAD +
-        WITHDRAW_TX_BUFFER_SIZE) +
+      (inputSize * inputCount +
+        outputSize * outputCount +
+        TX_BUFFER_SIZE_OVERHEAD) +
     rateBasedTxBufferFee(feeRate)
   );
 };
 
+/**
+ * Calculates the fee a child transaction has to pay so that the package made
+ * of its unconfirmed parent and itself reaches the target fee rate
+ * (child-pays-for-parent). The formula used is:
+ *
+ * childFee = (parentVsize + childVsize) * targetFeeRate - parentFee
+ *
+ * The child pays at least the target fee rate for its own size, in case the
+ * parent already pays more than the target fee rate.
+ *
+ * @param parentVsize - The virtual size of the signed parent transaction.
+ * @param parentFee - The fee paid by the parent transaction in satoshis.
+ * @param childVsize - The virtual size of the child transaction.
+ * @param targetFeeRate - The target fee rate of the package in satoshis per
+ * vbyte.
+ * @returns The fee of the child transaction in satoshis.
+ */
+export const getCpfpChildFee = (
+  parentVsize: number,
+  parentFee: number,
+  childVsize: number,
+  targetFeeRate: number,
+): number => {
+  return Math.max(
+    Math.ceil((parentVsize + childVsize) * targetFeeRate) - parentFee,
+    Math.ceil(childVsize * targetFeeRate),
+  );
+};
+
 /**
  * Calculates the estimated transaction size using a heuristic formula which
  * includes the input size, output size, and a fixexd buffer for the transaction size.
@@ -274,6 +657,27 @@ const getEstimatedSize = (
   return inputSize + outputSize + TX_BUFFER_SIZE_OVERHEAD;
 };
 
+/**
+ * Calculates the fee of a transaction from its virtual size measured with
+ * placeholder signatures.
+ *
+ * @param inputs - The placeholder inputs of the transaction.
+ * @param outputs - The outputs in the transaction.
+ * @param feeRate - The fee rate in satoshis per vbyte.
+ * @param withChange - Whether the transaction has a change output.
+ * @returns The fee in satoshis.
+ */
+const getExactFee = (
+  inputs: PlaceholderInput[],
+  outputs: TransactionOutput[],
+  feeRate: number,
+  withChange: boolean = false,
+): number => {
+  return Math.ceil(
+    getPlaceholderTxVirtualSize(inputs, outputs, withChange) * feeRate,
+  );
+};
+
 /**
  * Adds a buffer to the transaction size-based fee calculation if the fee rate is low.
  * Some wallets have a relayer fee requirement, which means if the fee rate is
@@ -0,0 +1,317 @@
+import {
+  script as bitcoinScript,
+  opcodes,
+  payments,
+  Psbt,
+  Transaction,
+} from "bitcoinjs-lib";
+import { Taptree } from "bitcoinjs-lib/src/types";
+import {
+  ECDSA_SIGNATURE_PLACEHOLDER_SIZE,
+  SCHNORR_SIGNATURE_SIZE,
+} from "../../constants/fee";
+import { internalPubkey } from "../../constants/internalPubkey";
+import { TRANSACTION_VERSION } from "../../constants/psbt";
+import { REDEEM_VERSION } from "../../constants/transaction";
+import { StakingError, StakingErrorCode } from "../../error";
+import { StakingSpendPath } from "../../staking/spendPath";
+import { StakingScriptData } from "../../staking/stakingScript";
+import { UTXO } from "../../types/UTXO";
+import { TransactionOutput } from "../../types/psbtOutputs";
+import { BitcoinScriptType, getScriptType } from "../utxo/getScriptType";
+
+// The fee estimation mode of the fee calculation functions.
+// - "heuristic" sums up fixed input and output sizes.
+// - "exact" measures the virtual size of the transaction built with
+//   placeholder signatures sized for each input type and spend path.
+export type FeeEstimationMode = "heuristic" | "exact";
+
+/**
+ * The unlocking data of a transaction input with placeholder signatures. Its
+ * size matches the size of the signed input.
+ */
+export interface PlaceholderInput {
+  // The scriptSig of the input
+  script: Buffer;
+  witness: Buffer[];
+}
+
+// The size of a compressed public key in bytes
+const COMPRESSED_PUBLIC_KEY_SIZE = 33;
+// The change output placeholder has the size of a taproot output script, the
+// largest non-legacy output script
+const CHANGE_OUTPUT_PLACEHOLDER = bitcoinScript.compile([
+  opcodes.OP_1,
+  Buffer.alloc(32),
+]);
+
+const ecdsaSignature = () => Buffer.alloc(ECDSA_SIGNATURE_PLACEHOLDER_SIZE);
+const schnorrSignature = () => Buffer.alloc(SCHNORR_SIGNATURE_SIZE);
+const publicKey = () => Buffer.alloc(COMPRESSED_PUBLIC_KEY_SIZE);
+
+/**
+ * Returns the placeholder signatures of a script spent with ECDSA signatures.
+ * A multisig script needs its threshold number of signatures preceded by the
+ * dummy element consumed by OP_CHECKMULTISIG, other scripts are assumed to
+ * need a single signature.
+ */
+const scriptPlaceholderStack = (redeemScript: Buffer): Buffer[] => {
+  try {
+    const { m } = payments.p2ms({ output: redeemScript });
+    return [Buffer.alloc(0), ...Array.from({ length: m! }, ecdsaSignature)];
+  } catch (error) {
+    return [ecdsaSignature()];
+  }
+};
+
+/**
+ * Builds the placeholder unlocking data of a UTXO spent by the staker wallet.
+ * Taproot UTXOs are spent through the key path. P2SH UTXOs without a redeem
+ * script are assumed to wrap a P2WPKH output, which is the most common
+ * wrapped output type.
+ *
+ * @param {UTXO} utxo - The UTXO to spend.
+ * @returns {PlaceholderInput} - The placeholder unlocking data.
+ * @throws {Error} - If the script type of the UTXO is unknown.
+ */
+export const getUTXOPlaceholderInput = (utxo: UTXO): PlaceholderInput => {
+  const scriptPubKey = Buffer.from(utxo.scriptPubKey, "hex");
+  const p2wpkhWitness = [ecdsaSignature(), publicKey()];
+
+  switch (getScriptType(scriptPubKey)) {
+    case BitcoinScriptType.P2PKH:
+      return {
+        script: bitcoinScript.compile([ecdsaSignature(), publicKey()]),
+        witness: [],
+      };
+    case BitcoinScriptType.P2SH: {
+      if (!utxo.redeemScript) {
+        return {
+          script: bitcoinScript.compile([
+            payments.p2wpkh({ hash: Buffer.alloc(20) }).output!,
+          ]),
+          witness: p2wpkhWitness,
+        };
+      }
+      const redeemScript = Buffer.from(utxo.redeemScript, "hex");
+      const redeemScriptType = getRedeemScriptType(redeemScript);
+      if (redeemScriptType === BitcoinScriptType.P2WPKH) {
+        return {
+          script: bitcoinScript.compile([redeemScript]),
+          witness: p2wpkhWitness,
+        };
+      }
+      if (redeemScriptType === BitcoinScriptType.P2WSH) {
+        return {
+          script: bitcoinScript.compile([redeemScript]),
+          witness: witnessScriptPlaceholderStack(utxo),
+        };
+      }
+      return {
+        script: bitcoinScript.compile([
+          ...scriptPlaceholderStack(redeemScript),
+          redeemScript,
+        ]),
+        witness: [],
+      };
+    }
+    case BitcoinScriptType.P2WPKH:
+      return { script: Buffer.alloc(0), witness: p2wpkhWitness };
+    case BitcoinScriptType.P2WSH:
+      return {
+        script: Buffer.alloc(0),
+        witness: witnessScriptPlaceholderStack(utxo),
+      };
+    case BitcoinScriptType.P2TR:
+      return { script: Buffer.alloc(0), witness: [schnorrSignature()] };
+  }
+};
+
+const getRedeemScriptType = (
+  redeemScript: Buffer,
+): BitcoinScriptType | undefined => {
+  try {
+    return getScriptType(redeemScript);
+  } catch (error) {
+    return undefined;
+  }
+};
+
+const witnessScriptPlaceholderStack = (utxo: UTXO): Buffer[] => {
+  if (!utxo.witnessScript) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      "Missing witnessScript for P2WSH input",
+    );
+  }
+  const witnessScript = Buffer.from(utxo.witnessScript, "hex");
+  return [...scriptPlaceholderStack(witnessScript), witnessScript];
+};
+
+/**
+ * Builds the placeholder unlocking data of a staking script path spend, i.e.
+ * the signatures required by the leaf script, the leaf script and its control
+ * block. Keys of a multisig beyond its threshold get an empty signature.
+ *
+ * @param {Taptree} scriptTree - The script tree of the spent output.
+ * @param {Buffer} leafScript - The leaf script to spend.
+ * @param {StakingSpendPath} path - The staking script path of the leaf.
+ * @returns {PlaceholderInput} - The placeholder unlocking data.
+ */
+export const getStakingScriptPathPlaceholderInput = (
+  scriptTree: Taptree,
+  leafScript: Buffer,
+  path: StakingSpendPath,
+): PlaceholderInput => {
+  const { witness } = payments.p2tr({
+    internalPubkey,
+    scriptTree,
+    redeem: { output: leafScript, redeemVersion: REDEEM_VERSION },
+  });
+  return {
+    script: Buffer.alloc(0),
+    witness: [...stakingPathPlaceholderStack(leafScript, path), ...witness!],
+  };
+};
+
+/**
+ * Builds the placeholder unlocking data of an input of a PSBT from the data
+ * of the input. An input with a tapleaf script is spent through that staking
+ * script path, other inputs are sized as UTXOs of the staker wallet, see
+ * `getUTXOPlaceholderInput`.
+ *
+ * @param {Psbt} psbt - The PSBT.
+ * @param {number} index - The index of the input.
+ * @returns {PlaceholderInput} - The placeholder unlocking data.
+ * @throws {Error} - If the output spent by the input is unknown or its script
+ * type is not supported.
+ */
+export const getPsbtPlaceholderInput = (
+  psbt: Psbt,
+  index: number,
+): PlaceholderInput => {
+  const {
+    witnessUtxo,
+    nonWitnessUtxo,
+    redeemScript,
+    witnessScript,
+    tapLeafScript,
+  } = psbt.data.inputs[index];
+  if (tapLeafScript && tapLeafScript.length > 0) {
+    const { script: leafScript, controlBlock } = tapLeafScript[0];
+    return {
+      script: Buffer.alloc(0),
+      witness: [
+        ...stakingPathPlaceholderStack(
+          leafScript,
+          getLeafSpendPath(leafScript),
+        ),
+        leafScript,
+        controlBlock,
+      ],
+    };
+  }
+
+  let scriptPubKey: Buffer;
+  if (witnessUtxo) {
+    scriptPubKey = witnessUtxo.script;
+  } else if (nonWitnessUtxo) {
+    scriptPubKey =
+      Transaction.fromBuffer(nonWitnessUtxo).outs[psbt.txInputs[index].index]
+        .script;
+  } else {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      `The output spent by input ${index} is unknown`,
+    );
+  }
+  const { hash, index: vout } = psbt.txInputs[index];
+  return getUTXOPlaceholderInput({
+    txid: Buffer.from(hash).reverse().toString("hex"),
+    vout,
+    value: 0,
+    scriptPubKey: scriptPubKey.toString("hex"),
+    redeemScript: redeemScript?.toString("hex"),
+    witnessScript: witnessScript?.toString("hex"),
+  });
+};
+
+// Identifies the staking script path of a leaf script by its shape, the
+// timelock scripts of the staking and unbonding outputs having the same one
+const getLeafSpendPath = (leafScript: Buffer): StakingSpendPath => {
+  const parses = (parse: (script: Buffer) => unknown) => {
+    try {
+      parse(leafScript);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  };
+  if (parses(StakingScriptData.parseSlashingScript)) {
+    return "slashingScript";
+  }
+  if (parses(StakingScriptData.parseUnbondingScript)) {
+    return "unbondingScript";
+  }
+  return "timelockScript";
+};
+
+const stakingPathPlaceholderStack = (
+  leafScript: Buffer,
+  path: StakingSpendPath,
+): Buffer[] => {
+  const thresholdSignatures = (keys: Buffer[], threshold: number) =>
+    keys.map((_, i) => (i < threshold ? schnorrSignature() : Buffer.alloc(0)));
+
+  switch (path) {
+    case "timelockScript":
+    case "unbondingTimelockScript":
+      return [schnorrSignature()];
+    case "unbondingScript": {
+      const { covenantKeys, covenantThreshold } =
+        StakingScriptData.parseUnbondingScript(leafScript);
+      return [
+        ...thresholdSignatures(covenantKeys, covenantThreshold),
+        schnorrSignature(),
+      ];
+    }
+    case "slashingScript": {
+      const { finalityProviderKeys, covenantKeys, covenantThreshold } =
+        StakingScriptData.parseSlashingScript(leafScript);
+      return [
+        ...thresholdSignatures(covenantKeys, covenantThreshold),
+        ...thresholdSignatures(finalityProviderKeys, 1),
+        schnorrSignature(),
+      ];
+    }
+  }
+};
+
+/**
+ * Measures the virtual size of a transaction spending the placeholder inputs
+ * to the outputs.
+ *
+ * @param {PlaceholderInput[]} inputs - The placeholder inputs.
+ * @param {TransactionOutput[]} outputs - The outputs.
+ * @param {boolean} withChange - Whether to add a change output placeholder.
+ * @returns {number} - The virtual size of the transaction in vbytes.
+ */
+export const getPlaceholderTxVirtualSize = (
+  inputs: PlaceholderInput[],
+  outputs: TransactionOutput[],
+  withChange: boolean = false,
+): number => {
+  const tx = new Transaction();
+  tx.version = TRANSACTION_VERSION;
+  inputs.forEach(({ script, witness }, index) => {
+    tx.addInput(Buffer.alloc(32), index, undefined, script);
+    tx.setWitness(index, witness);
+  });
+  outputs.forEach(({ scriptPubKey, value }) => {
+    tx.addOutput(scriptPubKey, value);
+  });
+  if (withChange) {
+    tx.addOutput(CHANGE_OUTPUT_PLACEHOLDER, 0);
+  }
+  return tx.virtualSize();
+};
@@ -0,0 +1,338 @@
+import { Transaction } from "bitcoinjs-lib";
+import { BufferReader } from "bitcoinjs-lib/src/bufferutils";
+import { hash256 } from "bitcoinjs-lib/src/crypto";
+
+import { StakingError, StakingErrorCode } from "../error";
+import { InclusionProof } from "../types/manager";
+
+const BLOCK_HEADER_LENGTH = 80;
+const MERKLE_ROOT_LENGTH = 32;
+// Offset of the merkle root in the block header, after the version (4 bytes)
+// and the previous block hash (32 bytes)
+const HEADER_MERKLE_ROOT_OFFSET = 36;
+
+/**
+ * Verifies the inclusion proof of a transaction locally.
+ *
+ * The merkle branch of the proof is folded from the transaction hash up to the
+ * merkle root, using the proof position to pick the side of each sibling. The
+ * rebuilt root is compared to the given merkle root or to the merkle root of
+ * the given block header. When a block header is given, its hash must also
+ * match the block hash of the proof.
+ *
+ * @param {Transaction} tx - The transaction the proof is for.
+ * @param {InclusionProof} inclusionProof - The inclusion proof.
+ * @param {string} headerOrMerkleRootHex - Either the 80 bytes block header in
+ * hex, or the 32 bytes merkle root of the block in hex as displayed by block
+ * explorers (i.e. in reversed byte order).
+ * @throws {StakingError} - If the inclusion proof is invalid.
+ */
+export const verifyInclusionProof = (
+  tx: Transaction,
+  inclusionProof: InclusionProof,
+  headerOrMerkleRootHex: string,
+): void => {
+  const { pos, merkle, blockHashHex } = inclusionProof;
+  const headerOrMerkleRoot = Buffer.from(headerOrMerkleRootHex, "hex");
+
+  let merkleRoot: Buffer;
+  if (headerOrMerkleRoot.length === BLOCK_HEADER_LENGTH) {
+    const header = parseBlockHeader(headerOrMerkleRoot);
+    if (header.blockHashHex !== blockHashHex.toLowerCase()) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        `Block header hash ${header.blockHashHex} does not match the ` +
+          `inclusion proof block hash ${blockHashHex}`,
+      );
+    }
+    merkleRoot = header.merkleRoot;
+  } else if (headerOrMerkleRoot.length === MERKLE_ROOT_LENGTH) {
+    merkleRoot = Buffer.from(headerOrMerkleRoot).reverse();
+  } else {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      "Expected an 80 bytes block header or a 32 bytes merkle root",
+    );
+  }
+
+  if (!Number.isInteger(pos) || pos < 0 || pos >= 2 ** merkle.length) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      `Inclusion proof position ${pos} is out of range for a merkle branch ` +
+        `of ${merkle.length} hashes`,
+    );
+  }
+
+  const computedRoot = merkle.reduce((hash: Buffer, siblingHex, depth) => {
+    // The merkle hashes are in reversed byte order, same as txids
+    const sibling = Buffer.from(siblingHex, "hex").reverse();
+    if (sibling.length !== MERKLE_ROOT_LENGTH) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        `Invalid merkle hash at depth ${depth}: ${siblingHex}`,
+      );
+    }
+    // The bit of the position at this depth tells whether the current hash is
+    // the right child
+    const isRight = Math.floor(pos / 2 ** depth) % 2 === 1;
+    return hash256(
+      isRight ? Buffer.concat([sibling, hash]) : Buffer.concat([hash, sibling]),
+    );
+  }, tx.getHash());
+
+  if (!computedRoot.equals(merkleRoot)) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      "Inclusion proof does not match the merkle root of the block",
+    );
+  }
+};
+
+/**
+ * Builds the inclusion proof of a transaction from the ordered list of the
+ * txids of its block, e.g. as returned by Esplora `/block/:hash/txids`.
+ *
+ * @param {string[]} blockTxids - The txids of the block, in block order.
+ * @param {string} txid - The txid of the transaction to prove.
+ * @param {string} blockHeaderHex - The 80 bytes block header in hex. The
+ * merkle root of the txids must match the one of the header.
+ * @returns {InclusionProof} - The inclusion proof.
+ * @throws {StakingError} - If the txids are invalid, do not contain the txid
+ * or do not match the block header.
+ */
+export const buildInclusionProofFromTxids = (
+  blockTxids: string[],
+  txid: string,
+  blockHeaderHex: string,
+): InclusionProof => {
+  const header = parseBlockHeader(Buffer.from(blockHeaderHex, "hex"));
+  if (blockTxids.length === 0) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      "The block txids list is empty",
+    );
+  }
+  const hashes = blockTxids.map((id) => txidToHash(id));
+  // Duplicated txids allow to forge a block with the same merkle root
+  // (CVE-2012-2459)
+  if (new Set(hashes.map((h) => h.toString("hex"))).size !== hashes.length) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      "The block txids list contains duplicates",
+    );
+  }
+  const target = txidToHash(txid);
+  const pos = hashes.findIndex((h) => h.equals(target));
+  if (pos === -1) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      `Transaction ${txid} is not in the block txids list`,
+    );
+  }
+
+  // Build the tree level by level, collecting the sibling of the target on the
+  // way up. The last hash of an odd level is paired with itself.
+  const merkle: string[] = [];
+  let level = hashes;
+  let index = pos;
+  while (level.length > 1) {
+    const sibling = level[Math.min(index ^ 1, level.length - 1)];
+    merkle.push(hashToHex(sibling));
+    const next: Buffer[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const right = level[Math.min(i + 1, level.length - 1)];
+      next.push(hash256(Buffer.concat([level[i], right])));
+    }
+    level = next;
+    index = Math.floor(index / 2);
+  }
+
+  if (!level[0].equals(header.merkleRoot)) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      "The block txids do not match the merkle root of the block header",
+    );
+  }
+  return { pos, merkle, blockHashHex: header.blockHashHex };
+};
+
+/**
+ * Builds the inclusion proof of a transaction from a serialized merkleblock,
+ * i.e. the output of Bitcoin Core `gettxoutproof`.
+ *
+ * The partial merkle tree of the merkleblock is fully traversed as specified in
+ * BIP37: every hash and flag bit must be consumed and the tree must rebuild the
+ * merkle root of the block header.
+ *
+ * @param {string} merkleBlockHex - The serialized merkleblock in hex.
+ * @param {string} txid - The txid of the transaction to prove.
+ * @returns {InclusionProof} - The inclusion proof.
+ * @throws {StakingError} - If the merkleblock is invalid or does not match the
+ * txid.
+ */
+export const buildInclusionProofFromMerkleBlock = (
+  merkleBlockHex: string,
+  txid: string,
+): InclusionProof => {
+  let header: { blockHashHex: string; merkleRoot: Buffer };
+  let totalTxs: number;
+  let hashes: Buffer[];
+  let flags: Buffer;
+  try {
+    const reader = new BufferReader(Buffer.from(merkleBlockHex, "hex"));
+    header = parseBlockHeader(reader.readSlice(BLOCK_HEADER_LENGTH));
+    totalTxs = reader.readUInt32();
+    const hashCount = reader.readVarInt();
+    hashes = [];
+    for (let i = 0; i < hashCount; i++) {
+      hashes.push(reader.readSlice(MERKLE_ROOT_LENGTH));
+    }
+    flags = reader.readVarSlice();
+    if (reader.offset !== reader.buffer.length) {
+      throw new Error("Unexpected trailing data");
+    }
+  } catch (error: unknown) {
+    throw StakingError.fromUnknown(
+      error,
+      StakingErrorCode.INVALID_INPUT,
+      "Cannot parse the merkleblock",
+    );
+  }
+
+  if (totalTxs === 0 || hashes.length === 0 || hashes.length > totalTxs) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      "Invalid merkleblock transaction or hash count",
+    );
+  }
+
+  // Number of nodes at the given height, leaves being at height 0
+  const width = (height: number) =>
+    Math.floor((totalTxs + 2 ** height - 1) / 2 ** height);
+  let treeHeight = 0;
+  while (width(treeHeight) > 1) {
+    treeHeight++;
+  }
+
+  // Computed hash of each traversed node, keyed by height then position
+  const nodes: Map<number, Buffer>[] = Array.from(
+    { length: treeHeight + 1 },
+    () => new Map(),
+  );
+  const matchedLeaves: number[] = [];
+  let hashIndex = 0;
+  let bitIndex = 0;
+
+  const traverse = (height: number, pos: number): Buffer => {
+    if (bitIndex >= flags.length * 8) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        "Merkleblock flag bits overflow",
+      );
+    }
+    const flag = (flags[bitIndex >> 3] >> (bitIndex & 7)) & 1;
+    bitIndex++;
+
+    let hash: Buffer;
+    if (height === 0 || !flag) {
+      if (hashIndex >= hashes.length) {
+        throw new StakingError(
+          StakingErrorCode.INVALID_INPUT,
+          "Merkleblock hashes overflow",
+        );
+      }
+      hash = hashes[hashIndex++];
+      if (height === 0 && flag) {
+        matchedLeaves.push(pos);
+      }
+    } else {
+      const left = traverse(height - 1, pos * 2);
+      let right = left;
+      if (pos * 2 + 1 < width(height - 1)) {
+        right = traverse(height - 1, pos * 2 + 1);
+        // Identical children allow to forge a block with the same merkle
+        // root (CVE-2012-2459)
+        if (right.equals(left)) {
+          throw new StakingError(
+            StakingErrorCode.INVALID_INPUT,
+            "Merkleblock contains duplicated hashes",
+          );
+        }
+      }
+      hash = hash256(Buffer.concat([left, right]));
+    }
+    nodes[height].set(pos, hash);
+    return hash;
+  };
+
+  const root = traverse(treeHeight, 0);
+  if (hashIndex !== hashes.length || Math.ceil(bitIndex / 8) !== flags.length) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      "Merkleblock has unused hashes or flag bits",
+    );
+  }
+  if (!root.equals(header.merkleRoot)) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      "The merkleblock does not match the merkle root of its block header",
+    );
+  }
+
+  const target = txidToHash(txid);
+  const pos = matchedLeaves.find((leaf) => nodes[0].get(leaf)!.equals(target));
+  if (pos === undefined) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      `Transaction ${txid} is not matched by the merkleblock`,
+    );
+  }
+
+  // Both children of every node on the path of a matched leaf are traversed,
+  // hence all siblings of the target are known
+  const merkle: string[] = [];
+  for (let height = 0; height < treeHeight; height++) {
+    const nodePos = Math.floor(pos / 2 ** height);
+    const siblingPos = Math.min(nodePos ^ 1, width(height) - 1);
+    merkle.push(hashToHex(nodes[height].get(siblingPos)!));
+  }
+  return { pos, merkle, blockHashHex: header.blockHashHex };
+};
+
+/**
+ * Parses an 80 bytes block header into its hash and merkle root.
+ */
+const parseBlockHeader = (
+  header: Buffer,
+): { blockHashHex: string; merkleRoot: Buffer } => {
+  if (header.length !== BLOCK_HEADER_LENGTH) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      `Expected an ${BLOCK_HEADER_LENGTH} bytes block header, got ` +
+        `${header.length} bytes`,
+    );
+  }
+  return {
+    blockHashHex: hashToHex(hash256(header)),
+    merkleRoot: header.subarray(
+      HEADER_MERKLE_ROOT_OFFSET,
+      HEADER_MERKLE_ROOT_OFFSET + MERKLE_ROOT_LENGTH,
+    ),
+  };
+};
+
+// Converts a txid (or block hash) in hex to its hash in internal byte order
+const txidToHash = (txid: string): Buffer => {
+  const hash = Buffer.from(txid, "hex").reverse();
+  if (hash.length !== MERKLE_ROOT_LENGTH) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      `Invalid txid: ${txid}`,
+    );
+  }
+  return hash;
+};
+
+// Converts a hash in internal byte order to its hex display form
+const hashToHex = (hash: Buffer): string =>
+  Buffer.from(hash).reverse().toString("hex");
@@ -0,0 +1,77 @@
+import { Psbt, payments } from "bitcoinjs-lib";
+import { StakingError, StakingErrorCode } from "../../error";
+import { validateSignedPsbtIntegrity } from "./validateSignedPsbt";
+
+/**
+ * Combines the PSBTs signed by several providers, e.g. the cosigners of a
+ * multisig wallet or a staker and a fee sponsor, into one finalized PSBT.
+ *
+ * Each signed PSBT is validated against the unsigned PSBT template before its
+ * signatures are combined. A multisig input keeps the signatures of the
+ * cosigners whose keys come first in its script up to the threshold, whatever
+ * order the PSBTs are given in, as the extra ones cannot be included in the
+ * final script.
+ *
+ * @param unsignedPsbt - The original unsigned PSBT template
+ * @param signedPsbts - The PSBTs returned from the signing providers
+ * @returns The combined and finalized PSBT
+ * @throws {StakingError} If a signed PSBT does not match the template or an
+ * input is missing signatures
+ */
+export function combineSignedPsbts(
+  unsignedPsbt: Psbt,
+  signedPsbts: Psbt[],
+): Psbt {
+  if (signedPsbts.length === 0) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      "At least one signed PSBT is required",
+    );
+  }
+  signedPsbts.forEach((signedPsbt) =>
+    validateSignedPsbtIntegrity(unsignedPsbt, signedPsbt),
+  );
+
+  const [combinedPsbt, ...otherPsbts] = signedPsbts.map((psbt) => psbt.clone());
+  if (otherPsbts.length > 0) {
+    combinedPsbt.combine(...otherPsbts);
+  }
+
+  combinedPsbt.data.inputs.forEach((input, index) => {
+    if (input.finalScriptWitness || input.finalScriptSig) {
+      return;
+    }
+    const multisig = getMultisig(input.witnessScript ?? input.redeemScript);
+    if (multisig && input.partialSig && input.partialSig.length > multisig.m) {
+      const keyIndex = (pubkey: Buffer) =>
+        multisig.pubkeys.findIndex((key) => key.equals(pubkey));
+      input.partialSig = [...input.partialSig]
+        .sort((a, b) => keyIndex(a.pubkey) - keyIndex(b.pubkey))
+        .slice(0, multisig.m);
+    }
+    try {
+      combinedPsbt.finalizeInput(index);
+    } catch (error) {
+      throw new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        `Input ${index} is missing signatures: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  });
+
+  return combinedPsbt;
+}
+
+const getMultisig = (
+  script?: Buffer,
+): { m: number; pubkeys: Buffer[] } | undefined => {
+  if (!script) {
+    return undefined;
+  }
+  try {
+    const { m, pubkeys } = payments.p2ms({ output: script });
+    return m !== undefined && pubkeys ? { m, pubkeys } : undefined;
+  } catch (error) {
+    return undefined;
+  }
+};
@@ -1 +1,2 @@
+export { combineSignedPsbts } from "./combineSignedPsbts";
 export { validateSignedPsbtIntegrity } from "./validateSignedPsbt";
@@ -1,8 +1,16 @@
-import { address, networks, payments, Transaction } from "bitcoinjs-lib";
+import {
+  address,
+  networks,
+  payments,
+  script,
+  Transaction,
+} from "bitcoinjs-lib";
 import { Taptree } from "bitcoinjs-lib/src/types";
 import { internalPubkey } from "../../constants/internalPubkey";
+import { REDEEM_VERSION } from "../../constants/transaction";
 import { StakingError, StakingErrorCode } from "../../error";
 import { TransactionOutput } from "../../types/psbtOutputs";
+import { WithdrawalInput } from "../../types/transaction";
 export interface OutputInfo {
   scriptPubKey: Buffer;
   outputAddress: string;
@@ -166,6 +174,109 @@ export const deriveSlashingOutput = (
   };
 };
 
+/**
+ * Derive the data spending an expired output of a delegation through the
+ * timelock path, i.e. the timelock script and its tap leaf script, the script
+ * tree of the output and the CSV sequence of the input.
+ *
+ * @param {WithdrawalInput} withdrawal - The expired output and its scripts.
+ * @param {networks.Network} network - The Bitcoin network.
+ * @returns The timelock script, script tree, tap leaf script and sequence.
+ * @throws {Error} - If the timelock script is not valid.
+ */
+export const deriveWithdrawalSpendInfo = (
+  withdrawal: WithdrawalInput,
+  network: networks.Network,
+) => {
+  const { timelockScript, scriptTree } = getWithdrawalScripts(withdrawal);
+  const redeem = {
+    output: timelockScript,
+    redeemVersion: REDEEM_VERSION,
+  };
+  const p2tr = payments.p2tr({
+    internalPubkey,
+    scriptTree,
+    redeem,
+    network,
+  });
+
+  return {
+    timelockScript,
+    scriptTree,
+    tapLeafScript: {
+      leafVersion: redeem.redeemVersion,
+      script: redeem.output,
+      controlBlock: p2tr.witness![p2tr.witness!.length - 1],
+    },
+    sequence: getTimelockBlocks(timelockScript),
+  };
+};
+
+// getWithdrawalScripts returns the timelock script spending the withdrawn
+// output and the script tree of the output
+const getWithdrawalScripts = (
+  withdrawal: WithdrawalInput,
+): { timelockScript: Buffer; scriptTree: Taptree } => {
+  switch (withdrawal.type) {
+    case "staking-expired": {
+      const { scripts } = withdrawal;
+      return {
+        timelockScript: scripts.timelockScript,
+        scriptTree: [
+          {
+            output: scripts.slashingScript,
+          },
+          [
+            { output: scripts.unbondingScript },
+            { output: scripts.timelockScript },
+          ],
+        ],
+      };
+    }
+    case "early-unbonded": {
+      const { scripts } = withdrawal;
+      return {
+        timelockScript: scripts.unbondingTimelockScript,
+        scriptTree: [
+          {
+            output: scripts.slashingScript,
+          },
+          { output: scripts.unbondingTimelockScript },
+        ],
+      };
+    }
+    case "slashing": {
+      // We use the unbonding timelock script as the timelock of the slashing
+      // transaction, since both timelocks are the same
+      const { scripts } = withdrawal;
+      return {
+        timelockScript: scripts.unbondingTimelockScript,
+        scriptTree: { output: scripts.unbondingTimelockScript },
+      };
+    }
+  }
+};
+
+// getTimelockBlocks decodes the number of blocks of a timelock script
+const getTimelockBlocks = (timelockScript: Buffer): number => {
+  // position of time in the timelock script
+  const timePosition = 2;
+  const decompiled = script.decompile(timelockScript);
+
+  if (!decompiled) {
+    throw new Error("Timelock script is not valid");
+  }
+
+  // if the timelock is a buffer, it means it's a number bigger than 16 blocks
+  if (typeof decompiled[timePosition] !== "number") {
+    const timeBuffer = decompiled[timePosition] as Buffer;
+    return script.number.decode(timeBuffer);
+  }
+  // in case timelock is <= 16 it will be a number, not a buffer
+  const wrap = decompiled[timePosition] % 16;
+  return wrap === 0 ? 16 : wrap;
+};
+
 /**
  * Find the matching output index for the given transaction.
  *
@@ -9,7 +9,7 @@ import { StakingParams, VersionedStakingParams } from "../../types/params";
 export const getBabylonParamByBtcHeight = (
   height: number,
   babylonParamsVersions: VersionedStakingParams[],
-): StakingParams => {
+): VersionedStakingParams => {
   // Sort by btcActivationHeight in ascending order
   const sortedParams = [...babylonParamsVersions].sort(
     (a, b) => b.btcActivationHeight - a.btcActivationHeight,
@@ -69,11 +69,11 @@ export const validateStakingExpansionInputs = ({
     );
   }
 
-  // TODO: We currently don't support increasing the staking amount
-  if (stakingInput.stakingAmountSat !== previousStakingInput.stakingAmountSat) {
+  // The staking amount can be increased but not decreased by an expansion
+  if (stakingInput.stakingAmountSat < previousStakingInput.stakingAmountSat) {
     throw new StakingError(
       StakingErrorCode.INVALID_INPUT,
-      "Staking expansion amount must equal the previous staking amount",
+      "Staking expansion amount must not be lower than the previous staking amount",
     );
   }
 
@@ -92,6 +92,9 @@ export const validateStakingExpansionInputs = ({
  * @param {StakingParams} params - The staking parameters.
  * @param {UTXO[]} inputUTXOs - The input UTXOs.
  * @param {number} feeRate - The Bitcoin fee rate in sat/vbyte
+ * @param {boolean} [requireInputUTXOs=true] - Whether the input UTXOs are
+ * required, which they are not when other outputs fund the transaction, e.g.
+ * the withdrawn outputs of a re-staking transaction.
  * @throws {StakingError} - If the input data is invalid.
  */
 export const validateStakingTxInputData = (
@@ -100,6 +103,7 @@ export const validateStakingTxInputData = (
   params: StakingParams,
   inputUTXOs: UTXO[],
   feeRate: number,
+  requireInputUTXOs: boolean = true,
 ) => {
   // Ensure integer inputs
   if (!Number.isInteger(stakingAmountSat)) {
@@ -149,7 +153,7 @@ export const validateStakingTxInputData = (
     throw new StakingError(StakingErrorCode.INVALID_INPUT, "Invalid timelock");
   }
 
-  if (inputUTXOs.length == 0) {
+  if (requireInputUTXOs && inputUTXOs.length == 0) {
     throw new StakingError(
       StakingErrorCode.INVALID_INPUT,
       "No input UTXOs provided",
@@ -89,14 +89,18 @@ const validateRedeemScript = (utxo: UTXO): Buffer => {
   return redeemScriptBuffer;
 };
 
-const validateWitnessScript = (utxo: UTXO): Buffer => {
+// The witness script of a P2SH-P2WSH output is checked against its redeem
+// script, which is the P2WSH output script
+const validateWitnessScript = (
+  utxo: UTXO,
+  scriptPubKey: Buffer = Buffer.from(utxo.scriptPubKey, "hex"),
+): Buffer => {
   if (!utxo.witnessScript) {
     throw new StakingError(
       StakingErrorCode.INVALID_INPUT,
       "Missing witnessScript for P2WSH input",
     );
   }
-  const scriptPubKey = Buffer.from(utxo.scriptPubKey, "hex");
   const witnessScriptBuffer = Buffer.from(utxo.witnessScript, "hex");
   // Compute SHA256(witnessScript) to get the 32-byte hash used in P2WSH addresses
   const witnessScriptHash = bitcoin.crypto.sha256(witnessScriptBuffer);
@@ -146,6 +150,9 @@ export const getPsbtInputFields = (
       return {
         nonWitnessUtxo,
         redeemScript,
+        ...(utxo.witnessScript && {
+          witnessScript: validateWitnessScript(utxo, redeemScript),
+        }),
       };
     }
     case BitcoinScriptType.P2WPKH: {
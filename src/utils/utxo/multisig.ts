@@ -0,0 +1,70 @@
+import { networks, payments } from "bitcoinjs-lib";
+
+import { StakingError, StakingErrorCode } from "../../error";
+import { MultisigFunding } from "../../types/multisig";
+import { UTXO } from "../../types/UTXO";
+
+/**
+ * Attaches the scripts of a multisig wallet to its UTXOs, so that the PSBT
+ * inputs spending them carry everything each cosigner needs to sign: the
+ * witness script of P2WSH outputs, the redeem script of P2SH outputs, and
+ * both for P2SH-P2WSH outputs.
+ *
+ * @param {UTXO[]} utxos - The UTXOs of the multisig wallet.
+ * @param {MultisigFunding} multisigFunding - The multisig wallet.
+ * @param {networks.Network} network - The Bitcoin network.
+ * @returns {UTXO[]} - The UTXOs with the scripts of the multisig wallet.
+ * @throws {StakingError} - If the multisig script or address is invalid, or
+ * a UTXO is not an output of the multisig script.
+ */
+export const attachMultisigScripts = (
+  utxos: UTXO[],
+  { address: multisigAddress, multisigScriptHex }: MultisigFunding,
+  network: networks.Network,
+): UTXO[] => {
+  const multisigScript = Buffer.from(multisigScriptHex, "hex");
+  try {
+    payments.p2ms({ output: multisigScript });
+  } catch (error) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      "Invalid multisig script",
+    );
+  }
+
+  const redeem = { output: multisigScript };
+  const p2wsh = payments.p2wsh({ redeem, network });
+  const p2sh = payments.p2sh({ redeem, network });
+  const p2shP2wsh = payments.p2sh({ redeem: p2wsh, network });
+  if (
+    ![p2wsh, p2sh, p2shP2wsh].some(
+      (payment) => payment.address === multisigAddress,
+    )
+  ) {
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      "The multisig address does not match the multisig script",
+    );
+  }
+
+  return utxos.map((utxo) => {
+    const scriptPubKey = Buffer.from(utxo.scriptPubKey, "hex");
+    if (scriptPubKey.equals(p2wsh.output!)) {
+      return { ...utxo, witnessScript: multisigScriptHex };
+    }
+    if (scriptPubKey.equals(p2sh.output!)) {
+      return { ...utxo, redeemScript: multisigScriptHex };
+    }
+    if (scriptPubKey.equals(p2shP2wsh.output!)) {
+      return {
+        ...utxo,
+        redeemScript: p2wsh.output!.toString("hex"),
+        witnessScript: multisigScriptHex,
+      };
+    }
+    throw new StakingError(
+      StakingErrorCode.INVALID_INPUT,
+      `UTXO ${utxo.txid}:${utxo.vout} is not an output of the multisig script`,
+    );
+  });
+};
@@ -0,0 +1,205 @@
+import { btcstakingtx } from "@babylonlabs-io/babylon-proto-ts";
+import * as ecc from "@bitcoin-js/tiny-secp256k1-asmjs";
+import {
+  decodeTxRaw,
+  DirectSecp256k1Wallet,
+  makeSignBytes,
+  makeSignDoc,
+} from "@cosmjs/proto-signing";
+import { crypto, networks, payments } from "bitcoinjs-lib";
+import { TxRaw } from "cosmjs-types/cosmos/tx/v1beta1/tx";
+import { BabylonBtcStakingManager } from "../../src";
+import { BABYLON_REGISTRY_TYPE_URLS } from "../../src/constants/registry";
+import { StakingError, StakingErrorCode } from "../../src/error";
+import {
+  PrivateKeyBabylonProvider,
+  PrivateKeyBtcProvider,
+} from "../../src/providers";
+import { testingNetworks } from "../helper";
+import {
+  btcTipHeight,
+  feeRate,
+  params,
+  stakingInput,
+} from "../staking/manager/__mock__/registration";
+
+const { stakingDatagen: dataGenerator } = testingNetworks[1].datagen;
+
+const options = {
+  chainId: "bbn-test-1",
+  accountNumber: 12,
+  sequence: 3,
+  fee: { amount: [{ denom: "ubbn", amount: "2000" }], gas: "400000" },
+  memo: "staking",
+};
+
+const delegationMsg = () => ({
+  typeUrl: BABYLON_REGISTRY_TYPE_URLS.MsgCreateBTCDelegation,
+  value: btcstakingtx.MsgCreateBTCDelegation.fromPartial({
+    stakerAddr: "bbn1cyqgpk0nlsutlm5ymkfpya30fqntanc8slpure",
+    stakingTime: 100,
+    stakingValue: 11_000,
+    stakingTx: Buffer.from(dataGenerator.generateRandomTxId(), "hex"),
+  }),
+});
+
+describe("PrivateKeyBabylonProvider", () => {
+  const setup = (extraOptions = {}) => {
+    const { privateKey, publicKey } = dataGenerator.generateRandomKeyPair();
+    const provider = new PrivateKeyBabylonProvider(privateKey, {
+      ...options,
+      ...extraOptions,
+    });
+    return { privateKey, publicKey, provider };
+  };
+
+  it("should derive the address of the key", async () => {
+    const { privateKey, provider } = setup();
+    const wallet = await DirectSecp256k1Wallet.fromKey(
+      Buffer.from(privateKey, "hex"),
+      "bbn",
+    );
+
+    const [account] = await wallet.getAccounts();
+
+    expect(provider.getAddress()).toBe(account.address);
+  });
+
+  it("should sign a transaction of the message", async () => {
+    const { publicKey, provider } = setup();
+    const msg = delegationMsg();
+
+    const txRaw = await provider.signTransaction(msg);
+
+    const tx = decodeTxRaw(txRaw);
+    expect(tx.body.memo).toBe(options.memo);
+    expect(tx.body.messages).toHaveLength(1);
+    expect(tx.body.messages[0].typeUrl).toBe(msg.typeUrl);
+    const decodedMsg = btcstakingtx.MsgCreateBTCDelegation.decode(
+      tx.body.messages[0].value,
+    );
+    expect(decodedMsg.stakerAddr).toBe(msg.value.stakerAddr);
+    expect(decodedMsg.stakingTime).toBe(msg.value.stakingTime);
+    expect(Buffer.from(decodedMsg.stakingTx)).toEqual(msg.value.stakingTx);
+    expect(tx.authInfo.signerInfos[0].sequence).toBe(BigInt(options.sequence));
+    expect(tx.authInfo.fee!.gasLimit).toBe(BigInt(options.fee.gas));
+    expect(tx.authInfo.fee!.amount).toEqual(options.fee.amount);
+
+    // The signature commits to the chain ID and account number
+    const { bodyBytes, authInfoBytes } = TxRaw.decode(txRaw);
+    const signBytes = makeSignBytes(
+      makeSignDoc(
+        bodyBytes,
+        authInfoBytes,
+        options.chainId,
+        options.accountNumber,
+      ),
+    );
+    expect(
+      ecc.verify(
+        crypto.sha256(Buffer.from(signBytes)),
+        Buffer.from(publicKey, "hex"),
+        tx.signatures[0],
+      ),
+    ).toBe(true);
+  });
+
+  it("should increment the sequence after each signed transaction", async () => {
+    const { provider } = setup();
+
+    await provider.signTransaction(delegationMsg());
+    const txRaw = await provider.signTransaction({
+      ...delegationMsg(),
+      typeUrl: BABYLON_REGISTRY_TYPE_URLS.MsgBtcStakeExpand,
+    });
+
+    const tx = decodeTxRaw(txRaw);
+    expect(tx.body.messages[0].typeUrl).toBe(
+      BABYLON_REGISTRY_TYPE_URLS.MsgBtcStakeExpand,
+    );
+    expect(tx.authInfo.signerInfos[0].sequence).toBe(
+      BigInt(options.sequence + 1),
+    );
+  });
+
+  it("should throw if the message type is not supported", async () => {
+    const { provider } = setup();
+    const typeUrl = "/cosmos.bank.v1beta1.MsgSend";
+
+    await expect(
+      provider.signTransaction({ ...delegationMsg(), typeUrl }),
+    ).rejects.toThrow(
+      new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        `Unsupported Babylon message type: ${typeUrl}`,
+      ),
+    );
+  });
+
+  it("should throw if the key is invalid", () => {
+    expect(
+      () => new PrivateKeyBabylonProvider("00".repeat(32), options),
+    ).toThrow(
+      new StakingError(StakingErrorCode.INVALID_INPUT, "Invalid private key"),
+    );
+  });
+
+  it("should use the chain getters given by the caller", async () => {
+    const { provider } = setup();
+    await expect(provider.getChainId()).resolves.toBe(options.chainId);
+    expect(provider.getCurrentHeight).toBeUndefined();
+
+    const getCurrentHeight = jest.fn().mockResolvedValue(150);
+    const getChainId = jest.fn().mockResolvedValue("bbn-1");
+    const { provider: pluggedProvider } = setup({
+      getCurrentHeight,
+      getChainId,
+    });
+    await expect(pluggedProvider.getCurrentHeight!()).resolves.toBe(150);
+    await expect(pluggedProvider.getChainId()).resolves.toBe("bbn-1");
+  });
+
+  it("should let the staking manager register a delegation offline", async () => {
+    const network = networks.testnet;
+    const btcProvider = new PrivateKeyBtcProvider(network, {
+      privateKeyHex: dataGenerator.generateRandomKeyPair().privateKey,
+    });
+    const { provider } = setup({
+      getCurrentHeight: () => Promise.resolve(100),
+    });
+    const stakerInfo = btcProvider.getStakerInfo();
+    const utxos = dataGenerator.generateRandomUTXOs(
+      stakingInput.stakingAmountSat * 2,
+      2,
+      payments
+        .p2tr({
+          internalPubkey: Buffer.from(stakerInfo.publicKeyNoCoordHex, "hex"),
+          network,
+        })
+        .output!.toString("hex"),
+    );
+    const manager = new BabylonBtcStakingManager(
+      network,
+      params,
+      btcProvider,
+      provider,
+    );
+
+    const { signedBabylonTx, stakingTx } =
+      await manager.preStakeRegistrationBabylonTransaction(
+        stakerInfo,
+        stakingInput,
+        btcTipHeight,
+        utxos,
+        feeRate,
+        provider.getAddress(),
+      );
+
+    const { body } = decodeTxRaw(signedBabylonTx);
+    const msg = btcstakingtx.MsgCreateBTCDelegation.decode(
+      body.messages[0].value,
+    );
+    expect(msg.stakerAddr).toBe(provider.getAddress());
+    expect(Buffer.from(msg.stakingTx).toString("hex")).toBe(stakingTx.toHex());
+  });
+});
@@ -0,0 +1,534 @@
+import * as ecc from "@bitcoin-js/tiny-secp256k1-asmjs";
+import {
+  crypto,
+  networks,
+  opcodes,
+  payments,
+  Psbt,
+  script,
+  Transaction,
+} from "bitcoinjs-lib";
+import { BufferReader } from "bitcoinjs-lib/src/bufferutils";
+import { tapleafHash } from "bitcoinjs-lib/src/payments/bip341";
+import {
+  BabylonBtcStakingManager,
+  getBabylonParamByBtcHeight,
+  Staking,
+  withdrawTimelockUnbondedTransaction,
+} from "../../src";
+import { REDEEM_VERSION } from "../../src/constants/transaction";
+import { StakingError, StakingErrorCode } from "../../src/error";
+import { PrivateKeyBtcProvider } from "../../src/providers";
+import { stakingPsbt } from "../../src/staking/psbt";
+import { ActionName } from "../../src/types/action";
+import { testingNetworks } from "../helper";
+import { babylonProvider } from "../staking/manager/__mock__/providers";
+import {
+  babylonAddress,
+  btcTipHeight,
+  feeRate,
+  params as registrationParams,
+  stakingInput,
+} from "../staking/manager/__mock__/registration";
+
+describe.each(testingNetworks)(
+  "PrivateKeyBtcProvider",
+  ({ network, networkName, datagen: { stakingDatagen: dataGenerator } }) => {
+    const setup = (addressType: "taproot" | "nativeSegwit" = "taproot") => {
+      const keyPair = dataGenerator.generateRandomKeyPair();
+      const provider = new PrivateKeyBtcProvider(
+        network,
+        { privateKeyHex: keyPair.privateKey },
+        addressType,
+      );
+      const stakerInfo = provider.getStakerInfo();
+      const scriptPubKey = payments.p2tr({
+        internalPubkey: Buffer.from(stakerInfo.publicKeyNoCoordHex, "hex"),
+        network,
+      }).output!;
+      const params = dataGenerator.generateStakingParams();
+      const staking = new Staking(
+        network,
+        stakerInfo,
+        params,
+        dataGenerator.generateRandomFidelityProviderPksNoCoordHex(1),
+        params.minStakingTimeBlocks,
+      );
+      return { keyPair, provider, stakerInfo, scriptPubKey, params, staking };
+    };
+
+    // Builds the BIP322 "to_sign" virtual transaction of the message
+    const bip322ToSign = (message: string, scriptPubKey: Buffer) => {
+      const tag = crypto.sha256(Buffer.from("BIP0322-signed-message"));
+      const toSpend = new Transaction();
+      toSpend.version = 0;
+      toSpend.addInput(
+        Buffer.alloc(32),
+        0xffffffff,
+        0,
+        script.compile([
+          opcodes.OP_0,
+          crypto.sha256(Buffer.concat([tag, tag, Buffer.from(message)])),
+        ]),
+      );
+      toSpend.addOutput(scriptPubKey, 0);
+      const toSign = new Transaction();
+      toSign.version = 0;
+      toSign.addInput(toSpend.getHash(), 0, 0);
+      toSign.addOutput(script.compile([opcodes.OP_RETURN]), 0);
+      return toSign;
+    };
+
+    describe("key", () => {
+      it(`${networkName} should accept a raw key, a WIF or an HD seed`, () => {
+        const { keyPair, stakerInfo } = setup();
+
+        const fromWif = new PrivateKeyBtcProvider(network, {
+          wif: keyPair.keyPair.toWIF(),
+        });
+        expect(fromWif.getStakerInfo()).toEqual(stakerInfo);
+        expect(stakerInfo.publicKeyNoCoordHex).toBe(keyPair.publicKeyNoCoord);
+
+        // BIP32 test vector 1, chain m/0H/1
+        const fromSeed = new PrivateKeyBtcProvider(network, {
+          seedHex: "000102030405060708090a0b0c0d0e0f",
+          derivationPath: "m/0'/1",
+        });
+        expect(fromSeed.getStakerInfo().publicKeyNoCoordHex).toBe(
+          "501e454bf00751f24b1b489aa925215d66af2234e3891c3b21a52bedb3cd711c",
+        );
+        // Same vector, chain m/0H/1/2H/2/1000000000
+        const fromLongPath = new PrivateKeyBtcProvider(network, {
+          seedHex: "000102030405060708090a0b0c0d0e0f",
+          derivationPath: "m/0h/1/2h/2/1000000000",
+        });
+        expect(fromLongPath.getStakerInfo().publicKeyNoCoordHex).toBe(
+          "2a471424da5e657499d1ff51cb43c47481a03b1e77f951fe64cec9f5a48f7011",
+        );
+      });
+
+      it(`${networkName} should throw if the derivation path is invalid`, () => {
+        const seedHex = "000102030405060708090a0b0c0d0e0f";
+
+        expect(
+          () =>
+            new PrivateKeyBtcProvider(network, {
+              seedHex,
+              derivationPath: "0'/1",
+            }),
+        ).toThrow(
+          new StakingError(
+            StakingErrorCode.INVALID_INPUT,
+            "The derivation path must start with m",
+          ),
+        );
+        expect(
+          () =>
+            new PrivateKeyBtcProvider(network, {
+              seedHex,
+              derivationPath: "m/2147483648'",
+            }),
+        ).toThrow(
+          new StakingError(
+            StakingErrorCode.INVALID_INPUT,
+            "Invalid derivation path component 2147483648'",
+          ),
+        );
+      });
+
+      it(`${networkName} should derive the address of the address type`, () => {
+        const { keyPair, stakerInfo } = setup("nativeSegwit");
+
+        expect(stakerInfo.address).toBe(
+          payments.p2wpkh({
+            pubkey: Buffer.from(keyPair.publicKey, "hex"),
+            network,
+          }).address,
+        );
+      });
+
+      it(`${networkName} should throw if the key is invalid`, () => {
+        const otherNetwork =
+          network.wif === networks.bitcoin.wif
+            ? networks.testnet
+            : networks.bitcoin;
+        const { keyPair } = setup();
+
+        expect(
+          () =>
+            new PrivateKeyBtcProvider(otherNetwork, {
+              wif: keyPair.keyPair.toWIF(),
+            }),
+        ).toThrow(
+          new StakingError(
+            StakingErrorCode.INVALID_INPUT,
+            "WIF does not match the network",
+          ),
+        );
+        expect(
+          () =>
+            new PrivateKeyBtcProvider(network, {
+              privateKeyHex: "00".repeat(32),
+            }),
+        ).toThrow(
+          new StakingError(
+            StakingErrorCode.INVALID_INPUT,
+            "Invalid private key",
+          ),
+        );
+      });
+    });
+
+    describe("signPsbt", () => {
+      it(`${networkName} should sign a staking transaction funded by its taproot address`, async () => {
+        const { provider, stakerInfo, scriptPubKey, params, staking } = setup();
+        const utxos = dataGenerator.generateRandomUTXOs(
+          params.maxStakingAmountSat * 2,
+          2,
+          scriptPubKey.toString("hex"),
+        );
+        const { transaction } = staking.createStakingTransaction(
+          params.minStakingAmountSat,
+          utxos,
+          1,
+        );
+        const psbt = stakingPsbt(
+          transaction,
+          network,
+          utxos,
+          Buffer.from(stakerInfo.publicKeyNoCoordHex, "hex"),
+        );
+
+        const signedTx = Psbt.fromHex(
+          await provider.signPsbt(psbt.toHex()),
+        ).extractTransaction();
+
+        expect(signedTx.getId()).toBe(transaction.getId());
+        const prevScripts = signedTx.ins.map(() => scriptPubKey);
+        const prevValues = signedTx.ins.map(
+          (input) =>
+            utxos.find(
+              (u) =>
+                u.txid === Buffer.from(input.hash).reverse().toString("hex") &&
+                u.vout === input.index,
+            )!.value,
+        );
+        signedTx.ins.forEach((input, index) => {
+          const sighash = signedTx.hashForWitnessV1(
+            index,
+            prevScripts,
+            prevValues,
+            Transaction.SIGHASH_DEFAULT,
+          );
+          expect(
+            ecc.verifySchnorr(
+              sighash,
+              scriptPubKey.subarray(2),
+              input.witness[0],
+            ),
+          ).toBe(true);
+        });
+      });
+
+      it(`${networkName} should sign a tapscript leaf having its key`, async () => {
+        const { provider, stakerInfo, scriptPubKey, params, staking } = setup();
+        const utxos = dataGenerator.generateRandomUTXOs(
+          params.maxStakingAmountSat * 2,
+          1,
+          scriptPubKey.toString("hex"),
+        );
+        const { transaction: stakingTx } = staking.createStakingTransaction(
+          params.minStakingAmountSat,
+          utxos,
+          1,
+        );
+        const scripts = staking.buildScripts();
+        const { psbt } = withdrawTimelockUnbondedTransaction(
+          scripts,
+          stakingTx,
+          stakerInfo.address,
+          network,
+          1,
+        );
+
+        const signedTx = Psbt.fromHex(
+          await provider.signPsbt(psbt.toHex()),
+        ).extractTransaction();
+
+        const sighash = signedTx.hashForWitnessV1(
+          0,
+          [stakingTx.outs[0].script],
+          [stakingTx.outs[0].value],
+          Transaction.SIGHASH_DEFAULT,
+          tapleafHash({
+            output: scripts.timelockScript,
+            version: REDEEM_VERSION,
+          }),
+        );
+        expect(
+          ecc.verifySchnorr(
+            sighash,
+            Buffer.from(stakerInfo.publicKeyNoCoordHex, "hex"),
+            signedTx.ins[0].witness[0],
+          ),
+        ).toBe(true);
+      });
+
+      it(`${networkName} should sign the inputs of its native segwit address`, async () => {
+        const { keyPair, provider, params, staking } = setup("nativeSegwit");
+        const { scriptPubKey } = dataGenerator.getAddressAndScriptPubKey(
+          keyPair.publicKey,
+        ).nativeSegwit;
+        const utxos = dataGenerator.generateRandomUTXOs(
+          params.maxStakingAmountSat * 2,
+          1,
+          scriptPubKey,
+        );
+        const { transaction } = staking.createStakingTransaction(
+          params.minStakingAmountSat,
+          utxos,
+          1,
+        );
+        const psbt = stakingPsbt(transaction, network, utxos);
+
+        const signedPsbt = Psbt.fromHex(await provider.signPsbt(psbt.toHex()));
+
+        const { witness } = signedPsbt.extractTransaction().ins[0];
+        expect(witness[1].toString("hex")).toBe(keyPair.publicKey);
+      });
+
+      it(`${networkName} should leave a multisig input partially signed`, async () => {
+        const { keyPair, provider, params, staking } = setup();
+        const p2wsh = payments.p2wsh({
+          redeem: payments.p2ms({
+            m: 2,
+            pubkeys: [
+              keyPair.publicKey,
+              dataGenerator.generateRandomKeyPair().publicKey,
+            ].map((pk) => Buffer.from(pk, "hex")),
+            network,
+          }),
+          network,
+        });
+        const utxos = dataGenerator
+          .generateRandomUTXOs(
+            params.maxStakingAmountSat * 2,
+            1,
+            p2wsh.output!.toString("hex"),
+          )
+          .map((utxo) => ({
+            ...utxo,
+            witnessScript: p2wsh.redeem!.output!.toString("hex"),
+          }));
+        const { transaction } = staking.createStakingTransaction(
+          params.minStakingAmountSat,
+          utxos,
+          1,
+        );
+        const psbt = stakingPsbt(transaction, network, utxos);
+
+        const signedPsbt = Psbt.fromHex(await provider.signPsbt(psbt.toHex()));
+
+        const [input] = signedPsbt.data.inputs;
+        expect(input.finalScriptWitness).toBeUndefined();
+        expect(input.partialSig).toHaveLength(1);
+        expect(input.partialSig![0].pubkey.toString("hex")).toBe(
+          keyPair.publicKey,
+        );
+      });
+
+      it(`${networkName} should only sign the requested inputs`, async () => {
+        const { provider, scriptPubKey, params, staking } = setup();
+        // Neither UTXO covers the staking amount on its own
+        const utxos = [1, 2].flatMap(() =>
+          dataGenerator.generateRandomUTXOs(
+            Math.ceil(params.minStakingAmountSat / 2) + 10_000,
+            1,
+            scriptPubKey.toString("hex"),
+          ),
+        );
+        const { transaction } = staking.createStakingTransaction(
+          params.minStakingAmountSat,
+          utxos,
+          1,
+        );
+        const psbt = staking.toStakingPsbt(transaction, utxos);
+
+        const signedPsbt = Psbt.fromHex(
+          await provider.signPsbt(psbt.toHex(), {
+            contracts: [],
+            action: { name: ActionName.SIGN_BTC_STAKING_TRANSACTION },
+            inputIndexes: [1],
+          }),
+        );
+
+        expect(signedPsbt.data.inputs[0].finalScriptWitness).toBeUndefined();
+        expect(signedPsbt.data.inputs[1].finalScriptWitness).toBeDefined();
+      });
+
+      it(`${networkName} should throw if no input can be signed`, async () => {
+        const { provider, staking, params } = setup();
+        const utxos = dataGenerator.generateRandomUTXOs(
+          params.maxStakingAmountSat * 2,
+          1,
+        );
+        const { transaction } = staking.createStakingTransaction(
+          params.minStakingAmountSat,
+          utxos,
+          1,
+        );
+        const psbt = stakingPsbt(transaction, network, utxos);
+
+        await expect(provider.signPsbt(psbt.toHex())).rejects.toThrow(
+          new StakingError(
+            StakingErrorCode.INVALID_INPUT,
+            "No input of the PSBT can be signed with the provider key",
+          ),
+        );
+      });
+    });
+
+    describe("signMessage", () => {
+      it(`${networkName} should sign an ecdsa message`, async () => {
+        const { keyPair, provider } = setup();
+        const message = "bbn1cyqgpk0nlsutlm5ymkfpya30fqntanc8slpure";
+
+        const sig = Buffer.from(
+          await provider.signMessage(message, "ecdsa"),
+          "base64",
+        );
+
+        const prefix = Buffer.from("Bitcoin Signed Message:\n");
+        const hash = crypto.hash256(
+          Buffer.concat([
+            Buffer.from([prefix.length]),
+            prefix,
+            Buffer.from([message.length]),
+            Buffer.from(message),
+          ]),
+        );
+        expect(sig).toHaveLength(65);
+        const recovered = ecc.recover(
+          hash,
+          sig.subarray(1),
+          ((sig[0] - 31) & 3) as 0 | 1 | 2 | 3,
+          true,
+        );
+        expect(Buffer.from(recovered!).toString("hex")).toBe(keyPair.publicKey);
+      });
+
+      it(`${networkName} should sign a bip322 simple message of a taproot address`, async () => {
+        const { provider, scriptPubKey } = setup();
+        const message = "Hello World";
+
+        const witness = new BufferReader(
+          Buffer.from(
+            await provider.signMessage(message, "bip322-simple"),
+            "base64",
+          ),
+        ).readVector();
+
+        const sighash = bip322ToSign(message, scriptPubKey).hashForWitnessV1(
+          0,
+          [scriptPubKey],
+          [0],
+          Transaction.SIGHASH_DEFAULT,
+        );
+        expect(witness).toHaveLength(1);
+        expect(
+          ecc.verifySchnorr(sighash, scriptPubKey.subarray(2), witness[0]),
+        ).toBe(true);
+      });
+    });
+
+    describe("getTransactionHex", () => {
+      it(`${networkName} should return the transactions it holds`, async () => {
+        const { provider } = setup();
+        const { stakingTx } =
+          dataGenerator.generateRandomStakingTransaction(network);
+
+        const txid = provider.addTransaction(stakingTx.toHex());
+
+        expect(txid).toBe(stakingTx.getId());
+        await expect(provider.getTransactionHex(txid)).resolves.toBe(
+          stakingTx.toHex(),
+        );
+        const unknownTxid = dataGenerator.generateRandomTxId();
+        await expect(provider.getTransactionHex(unknownTxid)).rejects.toThrow(
+          new StakingError(
+            StakingErrorCode.INVALID_INPUT,
+            `Transaction ${unknownTxid} is not known to the provider`,
+          ),
+        );
+      });
+    });
+  },
+);
+
+describe("PrivateKeyBtcProvider", () => {
+  it("should match the BIP322 test vectors of a native segwit address", async () => {
+    const provider = new PrivateKeyBtcProvider(
+      networks.bitcoin,
+      { wif: "L3VFeEujGtevx9w18HD1fhRbCH67Az2dpCymeRE1SoPK6XQtaN2k" },
+      "nativeSegwit",
+    );
+
+    expect(provider.getStakerInfo().address).toBe(
+      "bc1q9vza2e8x573nczrlzms0wvx3gsqjx7vavgkx0l",
+    );
+    await expect(provider.signMessage("", "bip322-simple")).resolves.toBe(
+      "AkcwRAIgM2gBAQqvZX15ZiysmKmQpDrG83avLIT492QBzLnQIxYCIBaTpOaD20qRlEylyxFSeEA2ba9YOixpX8z46TSDtS40ASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=",
+    );
+    await expect(
+      provider.signMessage("Hello World", "bip322-simple"),
+    ).resolves.toBe(
+      "AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=",
+    );
+  });
+
+  it("should let the staking manager register a delegation offline", async () => {
+    const network = networks.testnet;
+    const { stakingDatagen: dataGenerator } = testingNetworks[1].datagen;
+    const provider = new PrivateKeyBtcProvider(network, {
+      privateKeyHex: dataGenerator.generateRandomKeyPair().privateKey,
+    });
+    const stakerInfo = provider.getStakerInfo();
+    const scriptPubKey = payments.p2tr({
+      internalPubkey: Buffer.from(stakerInfo.publicKeyNoCoordHex, "hex"),
+      network,
+    }).output!;
+    const utxos = dataGenerator.generateRandomUTXOs(
+      stakingInput.stakingAmountSat * 2,
+      2,
+      scriptPubKey.toString("hex"),
+    );
+    babylonProvider.signTransaction.mockResolvedValueOnce(new Uint8Array([1]));
+    const manager = new BabylonBtcStakingManager(
+      network,
+      registrationParams,
+      provider,
+      babylonProvider,
+    );
+
+    const { stakingTx } = await manager.preStakeRegistrationBabylonTransaction(
+      stakerInfo,
+      stakingInput,
+      btcTipHeight,
+      utxos,
+      feeRate,
+      babylonAddress,
+    );
+    const signedStakingTx = await manager.createSignedBtcStakingTransaction(
+      stakerInfo,
+      stakingInput,
+      stakingTx,
+      utxos,
+      getBabylonParamByBtcHeight(btcTipHeight, registrationParams).version,
+    );
+
+    expect(signedStakingTx.getId()).toBe(stakingTx.getId());
+    expect(signedStakingTx.ins.every((input) => input.witness.length)).toBe(
+      true,
+    );
+  });
+});
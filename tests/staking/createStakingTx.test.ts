@@ -1,5 +1,5 @@
 import { address } from "bitcoinjs-lib";
-import { transactionIdToHash } from "../../src";
+import { ExactInputsCoinSelector, transactionIdToHash } from "../../src";
 import { BTC_DUST_SAT } from "../../src/constants/dustSat";
 import { NON_RBF_SEQUENCE } from "../../src/constants/psbt";
 import { StakingError, StakingErrorCode } from "../../src/error";
@@ -303,5 +303,34 @@ describe.each(testingNetworks)(
         expect(output.script).toEqual(txOutput.script);
       });
     });
+
+    it(`${networkName} should fund the staking transaction with the given coin selector`, async () => {
+      const staking = new Staking(
+        network,
+        stakerInfo,
+        params,
+        finalityProviderPksNoCoordHex,
+        timelock,
+      );
+      const fundingUTXO = {
+        ...utxos[0],
+        value: params.maxStakingAmountSat * 2,
+      };
+
+      const { transaction, fee } = staking.createStakingTransaction(
+        params.minStakingAmountSat,
+        [...utxos.slice(1), fundingUTXO],
+        feeRate,
+        { coinSelector: new ExactInputsCoinSelector([fundingUTXO]) },
+      );
+
+      expect(transaction.ins).toHaveLength(1);
+      expect(transaction.ins[0].hash).toEqual(
+        transactionIdToHash(fundingUTXO.txid),
+      );
+      expect(transaction.outs[transaction.outs.length - 1].value).toBe(
+        fundingUTXO.value - params.minStakingAmountSat - fee,
+      );
+    });
   },
 );
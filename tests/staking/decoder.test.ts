@@ -0,0 +1,210 @@
+import { ObservableStaking } from "../../src";
+import { StakingError, StakingErrorCode } from "../../src/error";
+import { decodeStakingTransaction } from "../../src/staking/decoder";
+import { VersionedStakingParams } from "../../src/types/params";
+import { testingNetworks } from "../helper";
+import { ObservableStakingDatagen } from "../helper/datagen/observable";
+
+describe.each(testingNetworks)(
+  "decodeStakingTransaction",
+  ({ network, networkName, datagen: { stakingDatagen: dataGenerator } }) => {
+    const generate = () => {
+      const params: VersionedStakingParams = {
+        ...dataGenerator.generateStakingParams(false, 3),
+        btcActivationHeight: 100,
+        version: 1,
+      };
+      return {
+        ...dataGenerator.generateRandomStakingTransaction(
+          network,
+          1,
+          undefined,
+          undefined,
+          undefined,
+          params,
+        ),
+        params,
+      };
+    };
+
+    it(`${networkName} should decode a staking transaction from candidates`, () => {
+      const {
+        stakingTx,
+        params,
+        stakerInfo,
+        finalityProviderPksNoCoordHex,
+        stakingAmountSat,
+        timelock,
+      } = generate();
+
+      const decoded = decodeStakingTransaction(stakingTx, network, [params], {
+        stakerPkNoCoordHex: stakerInfo.publicKeyNoCoordHex,
+        finalityProviderPksNoCoordHex: [
+          dataGenerator.generateRandomFidelityProviderPksNoCoordHex(1),
+          finalityProviderPksNoCoordHex,
+        ],
+      });
+
+      expect(decoded).toEqual({
+        stakerPkNoCoordHex: stakerInfo.publicKeyNoCoordHex,
+        stakingInput: {
+          finalityProviderPksNoCoordHex,
+          stakingAmountSat,
+          stakingTimelock: timelock,
+        },
+        outputIndex: 0,
+        paramsVersion: params.version,
+      });
+    });
+
+    it(`${networkName} should return the latest params version accepting the staking inputs`, () => {
+      const {
+        stakingTx,
+        params,
+        stakerInfo,
+        finalityProviderPksNoCoordHex,
+        timelock,
+      } = generate();
+      const paramsList: VersionedStakingParams[] = [
+        params,
+        // Same scripts, bounds accept the staking inputs
+        { ...params, version: 2, btcActivationHeight: 200 },
+        // Same scripts, bounds reject the staking amount
+        {
+          ...params,
+          version: 3,
+          btcActivationHeight: 300,
+          minStakingAmountSat: params.maxStakingAmountSat + 1,
+          maxStakingAmountSat: params.maxStakingAmountSat + 2,
+        },
+      ];
+
+      const decoded = decodeStakingTransaction(stakingTx, network, paramsList, {
+        stakerPkNoCoordHex: stakerInfo.publicKeyNoCoordHex,
+        finalityProviderPksNoCoordHex: [finalityProviderPksNoCoordHex],
+        stakingTimelocks: [timelock],
+      });
+
+      expect(decoded.paramsVersion).toBe(2);
+    });
+
+    it(`${networkName} should decode against params versions sharing the staking scripts`, () => {
+      const {
+        stakingTx,
+        params,
+        stakerInfo,
+        finalityProviderPksNoCoordHex,
+        stakingAmountSat,
+        timelock,
+      } = generate();
+      const paramsList: VersionedStakingParams[] = [1, 2, 3].map((version) => ({
+        ...params,
+        version,
+        btcActivationHeight: version * 100,
+      }));
+
+      const decoded = decodeStakingTransaction(stakingTx, network, paramsList, {
+        stakerPkNoCoordHex: stakerInfo.publicKeyNoCoordHex,
+        finalityProviderPksNoCoordHex: [
+          dataGenerator.generateRandomFidelityProviderPksNoCoordHex(1),
+          finalityProviderPksNoCoordHex,
+        ],
+      });
+
+      expect(decoded.stakingInput).toEqual({
+        finalityProviderPksNoCoordHex,
+        stakingAmountSat,
+        stakingTimelock: timelock,
+      });
+      expect(decoded.paramsVersion).toBe(3);
+    });
+
+    it(`${networkName} should throw if no candidates are provided for a non-observable transaction`, () => {
+      const { stakingTx, params } = generate();
+
+      expect(() =>
+        decodeStakingTransaction(stakingTx, network, [params]),
+      ).toThrow(
+        new StakingError(
+          StakingErrorCode.INVALID_INPUT,
+          "Staker key and finality provider candidates are required to decode " +
+            "a non-observable staking transaction",
+        ),
+      );
+    });
+
+    it(`${networkName} should throw if no candidate matches`, () => {
+      const { stakingTx, params, stakerInfo } = generate();
+
+      expect(() =>
+        decodeStakingTransaction(stakingTx, network, [params], {
+          stakerPkNoCoordHex: stakerInfo.publicKeyNoCoordHex,
+          finalityProviderPksNoCoordHex: [
+            dataGenerator.generateRandomFidelityProviderPksNoCoordHex(1),
+          ],
+        }),
+      ).toThrow(
+        new StakingError(
+          StakingErrorCode.INVALID_OUTPUT,
+          "No staking output matching the provided params and candidates found",
+        ),
+      );
+    });
+
+    it(`${networkName} should throw if no staking params are provided`, () => {
+      const { stakingTx } = generate();
+
+      expect(() => decodeStakingTransaction(stakingTx, network, [])).toThrow(
+        new StakingError(
+          StakingErrorCode.INVALID_PARAMS,
+          "No staking parameters provided",
+        ),
+      );
+    });
+
+    it(`${networkName} should decode an observable staking transaction without candidates`, () => {
+      const observableDatagen = new ObservableStakingDatagen(network);
+      const { publicKey, publicKeyNoCoord } =
+        observableDatagen.generateRandomKeyPair();
+      const { address, scriptPubKey } =
+        observableDatagen.getAddressAndScriptPubKey(publicKey).taproot;
+      const params = observableDatagen.generateStakingParams(true, 3);
+      const fpPks =
+        observableDatagen.generateRandomFidelityProviderPksNoCoordHex(1);
+      const timelock = observableDatagen.generateRandomTimelock(params);
+      const staking = new ObservableStaking(
+        network,
+        { address, publicKeyNoCoordHex: publicKeyNoCoord },
+        params,
+        fpPks,
+        timelock,
+      );
+      const utxos = observableDatagen.generateRandomUTXOs(
+        params.maxStakingAmountSat * 2,
+        2,
+        scriptPubKey,
+      );
+      const { transaction } = staking.createStakingTransaction(
+        params.minStakingAmountSat,
+        utxos,
+        1,
+      );
+
+      const decoded = decodeStakingTransaction(transaction, network, [
+        { ...params, tag: "00000000", version: params.version + 1 },
+        params,
+      ]);
+
+      expect(decoded).toEqual({
+        stakerPkNoCoordHex: publicKeyNoCoord,
+        stakingInput: {
+          finalityProviderPksNoCoordHex: fpPks,
+          stakingAmountSat: params.minStakingAmountSat,
+          stakingTimelock: timelock,
+        },
+        outputIndex: 0,
+        paramsVersion: params.version,
+      });
+    });
+  },
+);
@@ -0,0 +1,119 @@
+import { Transaction } from "bitcoinjs-lib";
+import { tapleafHash } from "bitcoinjs-lib/src/payments/bip341";
+import { filterValidCovenantSignatures, unbondingTransaction } from "../../src";
+import { REDEEM_VERSION } from "../../src/constants/transaction";
+import { CovenantSignatureError, StakingErrorCode } from "../../src/error";
+import { testingNetworks } from "../helper";
+
+describe.each(testingNetworks)(
+  "filterValidCovenantSignatures",
+  ({ network, networkName, datagen: { stakingDatagen: dataGenerator } }) => {
+    const setup = () => {
+      const covenants = Array.from({ length: 3 }, () =>
+        dataGenerator.generateRandomKeyPair(),
+      );
+      const params = {
+        ...dataGenerator.generateStakingParams(),
+        covenantNoCoordPks: covenants.map((c) => c.publicKeyNoCoord),
+        covenantQuorum: 2,
+      };
+      const { stakingTx, stakingInstance } =
+        dataGenerator.generateRandomStakingTransaction(
+          network,
+          1,
+          undefined,
+          undefined,
+          undefined,
+          params,
+        );
+      const scripts = stakingInstance.buildScripts();
+      const { transaction: unbondingTx } = unbondingTransaction(
+        scripts,
+        stakingTx,
+        params.unbondingFeeSat,
+        network,
+      );
+      const prevOutputs = [stakingTx.outs[0]];
+
+      const sign = (index: number, leafScript = scripts.unbondingScript) => {
+        const sighash = unbondingTx.hashForWitnessV1(
+          0,
+          prevOutputs.map((o) => o.script),
+          prevOutputs.map((o) => o.value),
+          Transaction.SIGHASH_DEFAULT,
+          tapleafHash({ output: leafScript, version: REDEEM_VERSION }),
+        );
+        return {
+          btcPkHex: covenants[index].publicKeyNoCoord,
+          sigHex: covenants[index].keyPair.signSchnorr(sighash).toString("hex"),
+        };
+      };
+
+      return { scripts, unbondingTx, prevOutputs, sign };
+    };
+
+    it(`${networkName} should keep the signatures that verify`, () => {
+      const { scripts, unbondingTx, prevOutputs, sign } = setup();
+      const sigs = [sign(0), sign(1), sign(2)];
+
+      expect(
+        filterValidCovenantSignatures(
+          unbondingTx,
+          0,
+          prevOutputs,
+          scripts.unbondingScript,
+          sigs,
+          2,
+        ),
+      ).toEqual(sigs);
+    });
+
+    it(`${networkName} should drop signatures that do not verify`, () => {
+      const { scripts, unbondingTx, prevOutputs, sign } = setup();
+      const sigs = [
+        sign(0),
+        // Signature of another leaf
+        sign(1, scripts.slashingScript),
+        // Signature of another key
+        { ...sign(2), btcPkHex: sign(0).btcPkHex },
+        sign(2),
+      ];
+
+      expect(
+        filterValidCovenantSignatures(
+          unbondingTx,
+          0,
+          prevOutputs,
+          scripts.unbondingScript,
+          sigs,
+          2,
+        ),
+      ).toEqual([sigs[0], sigs[3]]);
+    });
+
+    it(`${networkName} should throw if not enough signatures verify`, () => {
+      const { scripts, unbondingTx, prevOutputs, sign } = setup();
+      const invalidSig = { ...sign(1), sigHex: "00".repeat(64) };
+
+      try {
+        filterValidCovenantSignatures(
+          unbondingTx,
+          0,
+          prevOutputs,
+          scripts.unbondingScript,
+          [sign(0), invalidSig],
+          2,
+        );
+        throw new Error("Expected a covenant signature error");
+      } catch (error) {
+        expect(error).toBeInstanceOf(CovenantSignatureError);
+        expect((error as CovenantSignatureError).code).toBe(
+          StakingErrorCode.INVALID_INPUT,
+        );
+        expect((error as CovenantSignatureError).invalidCovenantPks).toEqual([
+          invalidSig.btcPkHex,
+        ]);
+      }
+    });
+  },
+);
@@ -0,0 +1,118 @@
+import { networks, payments } from "bitcoinjs-lib";
+
+import { type UTXO } from "../../../src";
+import { StakingError, StakingErrorCode } from "../../../src/error";
+import { PrivateKeyBtcProvider } from "../../../src/providers";
+import { BabylonBtcStakingManager } from "../../../src/staking/manager";
+import { testingNetworks } from "../../helper";
+import { babylonProvider } from "./__mock__/providers";
+import {
+  babylonAddress,
+  btcTipHeight,
+  feeRate,
+  params,
+  stakingInput,
+} from "./__mock__/registration";
+
+describe("Staking Manager - Abort", () => {
+  const network = networks.testnet;
+  const { stakingDatagen: dataGenerator } = testingNetworks[1].datagen;
+  const abortError = new StakingError(
+    StakingErrorCode.ABORTED,
+    "The operation was aborted",
+  );
+
+  let stakerProvider: PrivateKeyBtcProvider;
+  let manager: BabylonBtcStakingManager;
+  let inputUTXOs: UTXO[];
+  let controller: AbortController;
+
+  beforeEach(() => {
+    stakerProvider = new PrivateKeyBtcProvider(network, {
+      privateKeyHex: dataGenerator.generateRandomKeyPair().privateKey,
+    });
+    manager = new BabylonBtcStakingManager(
+      network,
+      params,
+      stakerProvider,
+      babylonProvider,
+    );
+    inputUTXOs = dataGenerator.generateRandomUTXOs(
+      stakingInput.stakingAmountSat * 2,
+      1,
+      payments
+        .p2tr({
+          internalPubkey: Buffer.from(
+            stakerProvider.getStakerInfo().publicKeyNoCoordHex,
+            "hex",
+          ),
+          network,
+        })
+        .output!.toString("hex"),
+    );
+    controller = new AbortController();
+    babylonProvider.signTransaction.mockResolvedValue(new Uint8Array([1]));
+  });
+
+  afterEach(() => {
+    babylonProvider.signTransaction.mockReset();
+  });
+
+  const register = () =>
+    manager.preStakeRegistrationBabylonTransaction(
+      stakerProvider.getStakerInfo(),
+      stakingInput,
+      btcTipHeight,
+      inputUTXOs,
+      feeRate,
+      babylonAddress,
+      { signal: controller.signal },
+    );
+
+  it("should reject a pending registration without waiting for the wallet", async () => {
+    let resolveSignMessage!: (signature: string) => void;
+    jest.spyOn(stakerProvider, "signMessage").mockImplementation(
+      () =>
+        new Promise((resolve) => {
+          resolveSignMessage = resolve;
+          controller.abort();
+        }),
+    );
+    stakerProvider.onAbort = jest.fn();
+
+    await expect(register()).rejects.toThrow(abortError);
+
+    expect(stakerProvider.onAbort).toHaveBeenCalledTimes(1);
+    // The signature of the wallet arriving later is ignored
+    resolveSignMessage("signature");
+    await Promise.resolve();
+    expect(babylonProvider.signTransaction).not.toHaveBeenCalled();
+  });
+
+  it("should pass the signal to the wallet and stop between its requests", async () => {
+    const signPsbt = jest
+      .spyOn(stakerProvider, "signPsbt")
+      .mockImplementationOnce(async (psbtHex, options) => {
+        controller.abort();
+        return PrivateKeyBtcProvider.prototype.signPsbt.call(
+          stakerProvider,
+          psbtHex,
+          options,
+        );
+      });
+
+    await expect(register()).rejects.toThrow(abortError);
+
+    expect(signPsbt).toHaveBeenCalledTimes(1);
+    expect(signPsbt.mock.calls[0][1]?.signal).toBe(controller.signal);
+  });
+
+  it("should not ask the wallet to sign if the signal is already aborted", async () => {
+    const signPsbt = jest.spyOn(stakerProvider, "signPsbt");
+    controller.abort();
+
+    await expect(register()).rejects.toThrow(abortError);
+
+    expect(signPsbt).not.toHaveBeenCalled();
+  });
+});
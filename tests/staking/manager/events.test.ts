@@ -0,0 +1,170 @@
+import { networks, payments } from "bitcoinjs-lib";
+import type { Emitter } from "nanoevents";
+
+import {
+  getBabylonParamByBtcHeight,
+  type ManagerEvents,
+  type RegistrationCheckpoint,
+  type UTXO,
+} from "../../../src";
+import { PrivateKeyBtcProvider } from "../../../src/providers";
+import { BabylonBtcStakingManager } from "../../../src/staking/manager";
+import { testingNetworks } from "../../helper";
+import { babylonProvider } from "./__mock__/providers";
+import {
+  babylonAddress,
+  btcTipHeight,
+  feeRate,
+  params,
+  stakingInput,
+} from "./__mock__/registration";
+
+describe("Staking Manager - Events", () => {
+  const network = networks.testnet;
+  const { stakingDatagen: dataGenerator } = testingNetworks[1].datagen;
+
+  let stakerProvider: PrivateKeyBtcProvider;
+  let manager: BabylonBtcStakingManager;
+  let inputUTXOs: UTXO[];
+  let emit: jest.Mock;
+
+  // The emitted events in order, as [channel, data]
+  const emittedEvents = (): [string, any][] =>
+    emit.mock.calls.map(([channel, data]) => [channel, data]);
+
+  beforeEach(() => {
+    stakerProvider = new PrivateKeyBtcProvider(network, {
+      privateKeyHex: dataGenerator.generateRandomKeyPair().privateKey,
+    });
+    emit = jest.fn();
+    manager = new BabylonBtcStakingManager(
+      network,
+      params,
+      stakerProvider,
+      babylonProvider,
+      { emit } as unknown as Emitter<ManagerEvents>,
+    );
+    inputUTXOs = dataGenerator.generateRandomUTXOs(
+      stakingInput.stakingAmountSat * 2,
+      1,
+      payments
+        .p2tr({
+          internalPubkey: Buffer.from(
+            stakerProvider.getStakerInfo().publicKeyNoCoordHex,
+            "hex",
+          ),
+          network,
+        })
+        .output!.toString("hex"),
+    );
+    babylonProvider.signTransaction.mockResolvedValue(new Uint8Array([1]));
+  });
+
+  afterEach(() => {
+    babylonProvider.signTransaction.mockReset();
+  });
+
+  const register = (checkpoint?: RegistrationCheckpoint) =>
+    manager.preStakeRegistrationBabylonTransaction(
+      stakerProvider.getStakerInfo(),
+      stakingInput,
+      btcTipHeight,
+      inputUTXOs,
+      feeRate,
+      babylonAddress,
+      { checkpoint },
+    );
+
+  it("should emit each registration step followed by its outcome", async () => {
+    const signPsbt = jest.spyOn(stakerProvider, "signPsbt");
+
+    await register();
+
+    const events = emittedEvents();
+    expect(events.map(([channel, { type }]) => [channel, type])).toEqual([
+      ["delegation:create", "staking-slashing"],
+      ["delegation:step-complete", "staking-slashing"],
+      ["delegation:create", "unbonding-slashing"],
+      ["delegation:step-complete", "unbonding-slashing"],
+      ["delegation:create", "proof-of-possession"],
+      ["delegation:step-complete", "proof-of-possession"],
+      ["delegation:create", "create-btc-delegation-msg"],
+      ["delegation:step-complete", "create-btc-delegation-msg"],
+    ]);
+    events.forEach(([, data], i) =>
+      expect(data).toMatchObject({
+        stepIndex: Math.floor(i / 2),
+        totalSteps: 4,
+      }),
+    );
+    const [[, stakingSlashing], , [, unbondingSlashing]] = events;
+    expect(stakingSlashing).toMatchObject({
+      stakerPk: stakerProvider.getStakerInfo().publicKeyNoCoordHex,
+      stakingDuration: stakingInput.stakingTimelock,
+      psbtHex: signPsbt.mock.calls[0][0],
+    });
+    expect(unbondingSlashing.psbtHex).toBe(signPsbt.mock.calls[1][0]);
+    expect(events[4][1].messageToSign).toEqual(expect.any(String));
+  });
+
+  it("should emit the failed step and skip the restored steps on resume", async () => {
+    const error = new Error("User rejected the request");
+    jest.spyOn(stakerProvider, "signMessage").mockRejectedValueOnce(error);
+    const checkpoint: RegistrationCheckpoint = {};
+
+    await expect(register(checkpoint)).rejects.toThrow(error);
+    expect(emit).toHaveBeenLastCalledWith("delegation:step-fail", {
+      channel: "delegation:create",
+      type: "proof-of-possession",
+      stepIndex: 2,
+      totalSteps: 4,
+      error,
+    });
+
+    emit.mockClear();
+    await register(checkpoint);
+    expect(
+      emittedEvents().map(([channel, { type }]) => [channel, type]),
+    ).toEqual([
+      ["delegation:create", "proof-of-possession"],
+      ["delegation:step-complete", "proof-of-possession"],
+      ["delegation:create", "create-btc-delegation-msg"],
+      ["delegation:step-complete", "create-btc-delegation-msg"],
+    ]);
+  });
+
+  it("should emit the PSBT of the staking transaction about to be signed", async () => {
+    const { stakingTx } = await register();
+    const signPsbt = jest.spyOn(stakerProvider, "signPsbt");
+    emit.mockClear();
+
+    await manager.createSignedBtcStakingTransaction(
+      stakerProvider.getStakerInfo(),
+      stakingInput,
+      stakingTx,
+      inputUTXOs,
+      getBabylonParamByBtcHeight(btcTipHeight, params).version,
+    );
+
+    expect(emittedEvents()).toEqual([
+      [
+        "delegation:stake",
+        expect.objectContaining({
+          type: "staking",
+          psbtHex: signPsbt.mock.calls[0][0],
+          stepIndex: 0,
+          totalSteps: 1,
+        }),
+      ],
+      [
+        "delegation:step-complete",
+        {
+          channel: "delegation:stake",
+          type: "staking",
+          stepIndex: 0,
+          totalSteps: 1,
+        },
+      ],
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+import { networks, payments, Psbt } from "bitcoinjs-lib";
+
+import {
+  getBabylonParamByBtcHeight,
+  type StakingFeeSponsor,
+  type UTXO,
+} from "../../../src";
+import { PrivateKeyBtcProvider } from "../../../src/providers";
+import { BabylonBtcStakingManager } from "../../../src/staking/manager";
+import { ActionName } from "../../../src/types/action";
+import { testingNetworks } from "../../helper";
+import { babylonProvider } from "./__mock__/providers";
+import {
+  babylonAddress,
+  btcTipHeight,
+  feeRate,
+  params,
+  stakingInput,
+} from "./__mock__/registration";
+
+describe("Staking Manager - Fee sponsor", () => {
+  const network = networks.testnet;
+  const { stakingDatagen: dataGenerator } = testingNetworks[1].datagen;
+  const version = getBabylonParamByBtcHeight(btcTipHeight, params).version;
+
+  let stakerProvider: PrivateKeyBtcProvider;
+  let feeSponsor: StakingFeeSponsor;
+  let stakerUTXOs: UTXO[];
+  let manager: BabylonBtcStakingManager;
+
+  const utxosOf = (provider: PrivateKeyBtcProvider, value: number) =>
+    dataGenerator.generateRandomUTXOs(
+      value,
+      1,
+      payments
+        .p2tr({
+          internalPubkey: Buffer.from(
+            provider.getStakerInfo().publicKeyNoCoordHex,
+            "hex",
+          ),
+          network,
+        })
+        .output!.toString("hex"),
+    );
+
+  beforeEach(() => {
+    stakerProvider = new PrivateKeyBtcProvider(network, {
+      privateKeyHex: dataGenerator.generateRandomKeyPair().privateKey,
+    });
+    // The operational wallet of an exchange paying the network fee
+    const sponsorProvider = new PrivateKeyBtcProvider(
+      network,
+      { privateKeyHex: dataGenerator.generateRandomKeyPair().privateKey },
+      "nativeSegwit",
+    );
+    const sponsorInfo = sponsorProvider.getStakerInfo();
+    feeSponsor = {
+      ...sponsorInfo,
+      inputUTXOs: dataGenerator.generateRandomUTXOs(
+        50_000,
+        1,
+        payments
+          .p2wpkh({ address: sponsorInfo.address, network })
+          .output!.toString("hex"),
+      ),
+      provider: sponsorProvider,
+    };
+    stakerUTXOs = utxosOf(stakerProvider, stakingInput.stakingAmountSat);
+    manager = new BabylonBtcStakingManager(
+      network,
+      params,
+      stakerProvider,
+      babylonProvider,
+    );
+    babylonProvider.signTransaction.mockResolvedValue(new Uint8Array([1]));
+  });
+
+  afterEach(() => {
+    babylonProvider.signTransaction.mockReset();
+  });
+
+  const createStakingTx = async () => {
+    const { stakingTx } = await manager.preStakeRegistrationBabylonTransaction(
+      stakerProvider.getStakerInfo(),
+      stakingInput,
+      btcTipHeight,
+      stakerUTXOs,
+      feeRate,
+      babylonAddress,
+      { feeSponsor },
+    );
+    return stakingTx;
+  };
+
+  it("should stake the whole balance of the staker", async () => {
+    const stakingTx = await createStakingTx();
+
+    // The staking output and the change of the sponsor
+    expect(stakingTx.outs).toHaveLength(2);
+    expect(stakingTx.outs[0].value).toBe(stakingInput.stakingAmountSat);
+    expect(stakingTx.outs[1].script).toEqual(
+      payments.p2wpkh({ address: feeSponsor.address, network }).output,
+    );
+    const fee = manager.estimateBtcStakingFee(
+      stakerProvider.getStakerInfo(),
+      btcTipHeight,
+      stakingInput,
+      stakerUTXOs,
+      feeRate,
+      { feeSponsor },
+    );
+    expect(stakingTx.outs[1].value).toBe(feeSponsor.inputUTXOs[0].value - fee);
+  });
+
+  it("should ask each provider to sign its own inputs", async () => {
+    const stakingTx = await createStakingTx();
+    const stakerSignPsbt = jest.spyOn(stakerProvider, "signPsbt");
+    const sponsorSignPsbt = jest.spyOn(feeSponsor.provider, "signPsbt");
+
+    const signedStakingTx = await manager.createSignedBtcStakingTransaction(
+      stakerProvider.getStakerInfo(),
+      stakingInput,
+      stakingTx,
+      stakerUTXOs,
+      version,
+      { feeSponsor },
+    );
+
+    expect(signedStakingTx.getId()).toBe(stakingTx.getId());
+    signedStakingTx.ins.forEach(({ witness }) => {
+      expect(witness.length).toBeGreaterThan(0);
+    });
+    expect(stakerSignPsbt).toHaveBeenCalledWith(expect.any(String), {
+      contracts: expect.any(Array),
+      action: { name: ActionName.SIGN_BTC_STAKING_TRANSACTION },
+      inputIndexes: [0],
+    });
+    expect(sponsorSignPsbt).toHaveBeenCalledWith(expect.any(String), {
+      contracts: expect.any(Array),
+      action: { name: ActionName.SIGN_BTC_STAKING_TRANSACTION },
+      inputIndexes: [1],
+    });
+  });
+
+  it("should validate the PSBTs signed by each provider", async () => {
+    const stakingTx = await createStakingTx();
+    // The sponsor tampers with its change output
+    jest
+      .spyOn(feeSponsor.provider, "signPsbt")
+      .mockImplementation(async (psbtHex) => {
+        const psbt = Psbt.fromHex(psbtHex);
+        const tampered = new Psbt({ network });
+        psbt.txInputs.forEach((input, i) =>
+          tampered.addInput({ ...input, ...psbt.data.inputs[i] }),
+        );
+        psbt.txOutputs.forEach(({ script, value }, i) =>
+          tampered.addOutput({
+            script,
+            value: i === 1 ? value - 1_000 : value,
+          }),
+        );
+        return tampered.toHex();
+      });
+
+    await expect(
+      manager.createSignedBtcStakingTransaction(
+        stakerProvider.getStakerInfo(),
+        stakingInput,
+        stakingTx,
+        stakerUTXOs,
+        version,
+        { feeSponsor },
+      ),
+    ).rejects.toThrow("PSBT integrity violation");
+  });
+});
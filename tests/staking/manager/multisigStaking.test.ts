@@ -0,0 +1,243 @@
+import { networks, payments, Psbt } from "bitcoinjs-lib";
+
+import {
+  getBabylonParamByBtcHeight,
+  type MultisigFunding,
+  type UTXO,
+} from "../../../src";
+import { StakingError, StakingErrorCode } from "../../../src/error";
+import { PrivateKeyBtcProvider } from "../../../src/providers";
+import { BabylonBtcStakingManager } from "../../../src/staking/manager";
+import { testingNetworks } from "../../helper";
+import { babylonProvider } from "./__mock__/providers";
+import {
+  babylonAddress,
+  btcTipHeight,
+  feeRate,
+  params,
+  stakingInput,
+} from "./__mock__/registration";
+
+describe("Staking Manager - Multisig staking", () => {
+  const network = networks.testnet;
+  const { stakingDatagen: dataGenerator } = testingNetworks[1].datagen;
+  const version = getBabylonParamByBtcHeight(btcTipHeight, params).version;
+
+  let stakingKeyProvider: PrivateKeyBtcProvider;
+  let cosigners: PrivateKeyBtcProvider[];
+  let multisigFunding: MultisigFunding;
+  let utxos: UTXO[];
+  let manager: BabylonBtcStakingManager;
+
+  beforeEach(() => {
+    // The staking key designated by a 2-of-3 P2WSH vault
+    stakingKeyProvider = new PrivateKeyBtcProvider(network, {
+      privateKeyHex: dataGenerator.generateRandomKeyPair().privateKey,
+    });
+    const cosignerKeyPairs = [1, 2, 3].map(() =>
+      dataGenerator.generateRandomKeyPair(),
+    );
+    cosigners = cosignerKeyPairs.map(
+      ({ privateKey }) =>
+        new PrivateKeyBtcProvider(network, { privateKeyHex: privateKey }),
+    );
+    const p2wsh = payments.p2wsh({
+      redeem: payments.p2ms({
+        m: 2,
+        pubkeys: cosignerKeyPairs.map(({ publicKey }) =>
+          Buffer.from(publicKey, "hex"),
+        ),
+        network,
+      }),
+      network,
+    });
+    multisigFunding = {
+      address: p2wsh.address!,
+      multisigScriptHex: p2wsh.redeem!.output!.toString("hex"),
+    };
+    utxos = dataGenerator.generateRandomUTXOs(
+      2_000_000,
+      2,
+      p2wsh.output!.toString("hex"),
+    );
+    manager = new BabylonBtcStakingManager(
+      network,
+      params,
+      stakingKeyProvider,
+      babylonProvider,
+    );
+    babylonProvider.signTransaction.mockResolvedValue(new Uint8Array([1]));
+  });
+
+  afterEach(() => {
+    babylonProvider.signTransaction.mockReset();
+  });
+
+  const createStakingTx = async () => {
+    const { stakingTx } = await manager.preStakeRegistrationBabylonTransaction(
+      stakingKeyProvider.getStakerInfo(),
+      stakingInput,
+      btcTipHeight,
+      utxos,
+      feeRate,
+      babylonAddress,
+      { multisigFunding },
+    );
+    return stakingTx;
+  };
+
+  it("should combine the signatures of the cosigners", async () => {
+    const stakingTx = await createStakingTx();
+    const signPsbts = cosigners.map((cosigner) =>
+      jest.spyOn(cosigner, "signPsbt"),
+    );
+
+    const signedStakingTx = await manager.createSignedBtcStakingTransaction(
+      stakingKeyProvider.getStakerInfo(),
+      stakingInput,
+      stakingTx,
+      utxos,
+      version,
+      { multisigFunding: { ...multisigFunding, cosigners } },
+    );
+
+    expect(signedStakingTx.getId()).toBe(stakingTx.getId());
+    signedStakingTx.ins.forEach(({ witness }) => {
+      // The empty item, the signatures of two cosigners and the script
+      expect(witness).toHaveLength(4);
+      expect(witness[3].toString("hex")).toBe(
+        multisigFunding.multisigScriptHex,
+      );
+    });
+    signPsbts.forEach((signPsbt) => {
+      expect(signPsbt).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it("should keep the signatures of the first keys of the script", async () => {
+    const stakingTx = await createStakingTx();
+    const signPsbts = cosigners.map((cosigner) =>
+      jest.spyOn(cosigner, "signPsbt"),
+    );
+
+    const signedStakingTx = await manager.createSignedBtcStakingTransaction(
+      stakingKeyProvider.getStakerInfo(),
+      stakingInput,
+      stakingTx,
+      utxos,
+      version,
+      {
+        multisigFunding: {
+          ...multisigFunding,
+          cosigners: [...cosigners].reverse(),
+        },
+      },
+    );
+
+    const signedPsbts = await Promise.all(
+      signPsbts.map(async (signPsbt) =>
+        Psbt.fromHex(await signPsbt.mock.results[0].value),
+      ),
+    );
+    signedStakingTx.ins.forEach(({ witness }, index) => {
+      expect(witness.slice(1, 3)).toEqual(
+        signedPsbts
+          .slice(0, 2)
+          .map((psbt) => psbt.data.inputs[index].partialSig![0].signature),
+      );
+    });
+  });
+
+  it("should send the change back to the multisig wallet", async () => {
+    const stakingTx = await createStakingTx();
+
+    const change = stakingTx.outs[stakingTx.outs.length - 1];
+    expect(change.script).toEqual(
+      payments.p2wsh({ address: multisigFunding.address, network }).output,
+    );
+    const fee =
+      utxos
+        .filter(({ txid }) =>
+          stakingTx.ins.some(
+            ({ hash }) => Buffer.from(hash).reverse().toString("hex") === txid,
+          ),
+        )
+        .reduce((acc, { value }) => acc + value, 0) -
+      stakingTx.outs.reduce((acc, { value }) => acc + value, 0);
+    expect(
+      manager.estimateBtcStakingFee(
+        stakingKeyProvider.getStakerInfo(),
+        btcTipHeight,
+        stakingInput,
+        utxos,
+        feeRate,
+        { multisigFunding },
+      ),
+    ).toBe(fee);
+
+    // The fee covers the size of the signed multisig inputs
+    const signedStakingTx = await manager.createSignedBtcStakingTransaction(
+      stakingKeyProvider.getStakerInfo(),
+      stakingInput,
+      stakingTx,
+      utxos,
+      version,
+      { multisigFunding: { ...multisigFunding, cosigners } },
+    );
+    expect(fee).toBeGreaterThanOrEqual(signedStakingTx.virtualSize() * feeRate);
+  });
+
+  it("should throw if the cosigners do not reach the threshold", async () => {
+    const stakingTx = await createStakingTx();
+
+    await expect(
+      manager.createSignedBtcStakingTransaction(
+        stakingKeyProvider.getStakerInfo(),
+        stakingInput,
+        stakingTx,
+        utxos,
+        version,
+        {
+          multisigFunding: {
+            ...multisigFunding,
+            cosigners: cosigners.slice(0, 1),
+          },
+        },
+      ),
+    ).rejects.toThrow("Input 0 is missing signatures");
+    await expect(
+      manager.createSignedBtcStakingTransaction(
+        stakingKeyProvider.getStakerInfo(),
+        stakingInput,
+        stakingTx,
+        utxos,
+        version,
+        { multisigFunding: { ...multisigFunding, cosigners: [] } },
+      ),
+    ).rejects.toThrow("At least one signed PSBT is required");
+  });
+
+  it("should throw if a UTXO is not an output of the multisig wallet", async () => {
+    const [utxo] = dataGenerator.generateRandomUTXOs(1_000_000, 1);
+    utxos = [...utxos, utxo];
+
+    await expect(createStakingTx()).rejects.toThrow(
+      `UTXO ${utxo.txid}:${utxo.vout} is not an output of the multisig script`,
+    );
+  });
+
+  it("should not sign a proof of possession for the multisig address", async () => {
+    await expect(
+      manager.createProofOfPossession(
+        "delegation:create",
+        babylonAddress,
+        multisigFunding.address,
+      ),
+    ).rejects.toThrow(
+      new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        "The proof of possession cannot be signed for a P2WSH address, use the staking key designated by the multisig wallet",
+      ),
+    );
+  });
+});
@@ -209,5 +209,24 @@ describe("Staking Manager", () => {
         ).toEqual(postStakingDelegationMsg);
       },
     );
+
+    it("should verify the inclusion proof before signing", async () => {
+      const [stakerInfo, { stakingTxHex }] = stakerInfoArr[0];
+
+      await expect(
+        manager.postStakeRegistrationBabylonTransaction(
+          stakerInfo,
+          Transaction.fromHex(stakingTxHex),
+          btcTipHeight,
+          stakingInput,
+          inclusionProof,
+          babylonAddress,
+          { blockHeaderHex: "00".repeat(32) },
+        ),
+      ).rejects.toThrow(
+        "Inclusion proof does not match the merkle root of the block",
+      );
+      expect(btcProvider.signPsbt).not.toHaveBeenCalled();
+    });
   });
 });
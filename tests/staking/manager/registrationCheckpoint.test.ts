@@ -0,0 +1,169 @@
+import { networks, payments } from "bitcoinjs-lib";
+
+import { type RegistrationCheckpoint, type UTXO } from "../../../src";
+import { StakingError, StakingErrorCode } from "../../../src/error";
+import { PrivateKeyBtcProvider } from "../../../src/providers";
+import { BabylonBtcStakingManager } from "../../../src/staking/manager";
+import { testingNetworks } from "../../helper";
+import { babylonProvider } from "./__mock__/providers";
+import {
+  babylonAddress,
+  btcTipHeight,
+  feeRate,
+  params,
+  stakingInput,
+} from "./__mock__/registration";
+
+describe("Staking Manager - Registration checkpoint", () => {
+  const network = networks.testnet;
+  const { stakingDatagen: dataGenerator } = testingNetworks[1].datagen;
+
+  let stakerProvider: PrivateKeyBtcProvider;
+  let manager: BabylonBtcStakingManager;
+  let inputUTXOs: UTXO[];
+
+  beforeEach(() => {
+    stakerProvider = new PrivateKeyBtcProvider(network, {
+      privateKeyHex: dataGenerator.generateRandomKeyPair().privateKey,
+    });
+    manager = new BabylonBtcStakingManager(
+      network,
+      params,
+      stakerProvider,
+      babylonProvider,
+    );
+    inputUTXOs = dataGenerator.generateRandomUTXOs(
+      stakingInput.stakingAmountSat * 2,
+      1,
+      payments
+        .p2tr({
+          internalPubkey: Buffer.from(
+            stakerProvider.getStakerInfo().publicKeyNoCoordHex,
+            "hex",
+          ),
+          network,
+        })
+        .output!.toString("hex"),
+    );
+    babylonProvider.signTransaction.mockResolvedValue(new Uint8Array([1]));
+  });
+
+  afterEach(() => {
+    babylonProvider.signTransaction.mockReset();
+  });
+
+  const register = (checkpoint: RegistrationCheckpoint, utxos = inputUTXOs) =>
+    manager.preStakeRegistrationBabylonTransaction(
+      stakerProvider.getStakerInfo(),
+      stakingInput,
+      btcTipHeight,
+      utxos,
+      feeRate,
+      babylonAddress,
+      { checkpoint },
+    );
+
+  it("should resume the registration from the last completed step", async () => {
+    const signPsbt = jest.spyOn(stakerProvider, "signPsbt");
+    const signMessage = jest
+      .spyOn(stakerProvider, "signMessage")
+      .mockRejectedValueOnce(new Error("User rejected the request"));
+    const checkpoint: RegistrationCheckpoint = {};
+
+    await expect(register(checkpoint)).rejects.toThrow(
+      "User rejected the request",
+    );
+    expect(signPsbt).toHaveBeenCalledTimes(2);
+    expect(Object.keys(checkpoint)).toEqual([
+      "stakingTxHash",
+      "stakingParamsVersion",
+      "staking-slashing",
+      "unbonding-slashing",
+    ]);
+
+    // The checkpoint is restored from its serialized form
+    const { stakingTx } = await register(
+      JSON.parse(JSON.stringify(checkpoint)),
+    );
+
+    expect(stakingTx.getId()).toBe(checkpoint.stakingTxHash);
+    expect(signPsbt).toHaveBeenCalledTimes(2);
+    expect(signMessage).toHaveBeenCalledTimes(2);
+    const { value: msg } = babylonProvider.signTransaction.mock.calls[0][0];
+    expect(Buffer.from(msg.delegatorSlashingSig).toString("hex")).toBe(
+      checkpoint["staking-slashing"],
+    );
+    expect(Buffer.from(msg.delegatorUnbondingSlashingSig).toString("hex")).toBe(
+      checkpoint["unbonding-slashing"],
+    );
+  });
+
+  it("should not ask the wallet again if the Babylon transaction fails to be signed", async () => {
+    babylonProvider.signTransaction.mockRejectedValueOnce(
+      new Error("Babylon provider unavailable"),
+    );
+    const checkpoint: RegistrationCheckpoint = {};
+    await expect(register(checkpoint)).rejects.toThrow(
+      "Babylon provider unavailable",
+    );
+    expect(checkpoint["proof-of-possession"]).toEqual({
+      babylonAddress,
+      btcSigType: expect.any(Number),
+      btcSigHex: expect.any(String),
+    });
+    const signPsbt = jest.spyOn(stakerProvider, "signPsbt");
+    const signMessage = jest.spyOn(stakerProvider, "signMessage");
+
+    const { signedBabylonTx } = await register(checkpoint);
+
+    expect(signedBabylonTx).toEqual(new Uint8Array([1]));
+    expect(signPsbt).not.toHaveBeenCalled();
+    expect(signMessage).not.toHaveBeenCalled();
+    const [failedMsg, msg] = babylonProvider.signTransaction.mock.calls.map(
+      ([{ value }]) => value,
+    );
+    expect(msg).toEqual(failedMsg);
+  });
+
+  it("should throw if the checkpoint belongs to another staking transaction", async () => {
+    const checkpoint: RegistrationCheckpoint = {};
+    await register(checkpoint);
+    const signPsbt = jest.spyOn(stakerProvider, "signPsbt");
+
+    await expect(
+      register(
+        checkpoint,
+        dataGenerator.generateRandomUTXOs(
+          stakingInput.stakingAmountSat * 2,
+          1,
+          inputUTXOs[0].scriptPubKey,
+        ),
+      ),
+    ).rejects.toThrow(
+      new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        "The registration checkpoint belongs to another staking transaction",
+      ),
+    );
+    expect(signPsbt).not.toHaveBeenCalled();
+  });
+
+  it("should throw if the checkpoint belongs to another params version", async () => {
+    const checkpoint: RegistrationCheckpoint = {};
+    await register(checkpoint);
+    const signPsbt = jest.spyOn(stakerProvider, "signPsbt");
+
+    await expect(
+      register({
+        ...checkpoint,
+        stakingParamsVersion: checkpoint.stakingParamsVersion! + 1,
+      }),
+    ).rejects.toThrow(
+      new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        "The registration checkpoint belongs to another params version",
+      ),
+    );
+    expect(signPsbt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,169 @@
+import { networks, payments } from "bitcoinjs-lib";
+
+import {
+  getBabylonParamByBtcHeight,
+  type DelegationWithdrawal,
+} from "../../../src";
+import { StakingError, StakingErrorCode } from "../../../src/error";
+import { PrivateKeyBtcProvider } from "../../../src/providers";
+import { BabylonBtcStakingManager } from "../../../src/staking/manager";
+import { ActionName } from "../../../src/types/action";
+import { ContractId } from "../../../src/types/contract";
+import { testingNetworks } from "../../helper";
+import { babylonProvider } from "./__mock__/providers";
+import {
+  babylonAddress,
+  btcTipHeight,
+  feeRate,
+  params,
+  stakingInput,
+} from "./__mock__/registration";
+
+describe("Staking Manager - Re-staking", () => {
+  const network = networks.testnet;
+  const { stakingDatagen: dataGenerator } = testingNetworks[1].datagen;
+  const version = getBabylonParamByBtcHeight(btcTipHeight, params).version;
+
+  let stakerProvider: PrivateKeyBtcProvider;
+  let manager: BabylonBtcStakingManager;
+  let withdrawals: DelegationWithdrawal[];
+
+  const expiredStakingInput = {
+    ...stakingInput,
+    stakingAmountSat: stakingInput.stakingAmountSat + 10_000,
+  };
+
+  beforeEach(async () => {
+    stakerProvider = new PrivateKeyBtcProvider(network, {
+      privateKeyHex: dataGenerator.generateRandomKeyPair().privateKey,
+    });
+    manager = new BabylonBtcStakingManager(
+      network,
+      params,
+      stakerProvider,
+      babylonProvider,
+    );
+    babylonProvider.signTransaction.mockResolvedValue(new Uint8Array([1]));
+
+    // The delegation whose staking output expired
+    const stakerInfo = stakerProvider.getStakerInfo();
+    const { stakingTx } = await manager.preStakeRegistrationBabylonTransaction(
+      stakerInfo,
+      expiredStakingInput,
+      btcTipHeight,
+      dataGenerator.generateRandomUTXOs(
+        expiredStakingInput.stakingAmountSat * 2,
+        1,
+        payments
+          .p2tr({
+            internalPubkey: Buffer.from(stakerInfo.publicKeyNoCoordHex, "hex"),
+            network,
+          })
+          .output!.toString("hex"),
+      ),
+      feeRate,
+      babylonAddress,
+    );
+    withdrawals = [
+      {
+        stakingInput: expiredStakingInput,
+        stakingParamsVersion: version,
+        transaction: stakingTx,
+        type: "staking-expired",
+      },
+    ];
+    babylonProvider.signTransaction.mockClear();
+  });
+
+  afterEach(() => {
+    babylonProvider.signTransaction.mockReset();
+  });
+
+  it("should register the re-staking transaction with the delegation message", async () => {
+    const { signedBabylonTx, stakingTx } =
+      await manager.restakeRegistrationBabylonTransaction(
+        stakerProvider.getStakerInfo(),
+        stakingInput,
+        btcTipHeight,
+        withdrawals,
+        [],
+        feeRate,
+        babylonAddress,
+      );
+
+    expect(signedBabylonTx).toEqual(new Uint8Array([1]));
+    expect(stakingTx.ins).toHaveLength(1);
+    expect(stakingTx.ins[0].hash).toEqual(withdrawals[0].transaction.getHash());
+    expect(stakingTx.ins[0].sequence).toBe(stakingInput.stakingTimelock);
+    expect(stakingTx.outs[0].value).toBe(stakingInput.stakingAmountSat);
+    expect(babylonProvider.signTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        typeUrl: "/babylon.btcstaking.v1.MsgCreateBTCDelegation",
+        value: expect.objectContaining({
+          stakingTx: Uint8Array.from(stakingTx.toBuffer()),
+          stakingValue: stakingInput.stakingAmountSat,
+        }),
+      }),
+    );
+  });
+
+  it("should sign the staking and withdraw contracts in one request", async () => {
+    const stakerInfo = stakerProvider.getStakerInfo();
+    const { stakingTx } = await manager.restakeRegistrationBabylonTransaction(
+      stakerInfo,
+      stakingInput,
+      btcTipHeight,
+      withdrawals,
+      [],
+      feeRate,
+      babylonAddress,
+    );
+    const signPsbt = jest.spyOn(stakerProvider, "signPsbt");
+
+    const signedTx = await manager.createSignedBtcRestakingTransaction(
+      stakerInfo,
+      stakingInput,
+      stakingTx,
+      withdrawals,
+      [],
+      version,
+    );
+
+    expect(signedTx.getId()).toBe(stakingTx.getId());
+    expect(signedTx.ins[0].witness.length).toBeGreaterThan(0);
+    expect(signPsbt).toHaveBeenCalledTimes(1);
+    expect(signPsbt).toHaveBeenCalledWith(expect.any(String), {
+      contracts: [
+        expect.objectContaining({ id: ContractId.STAKING }),
+        {
+          id: ContractId.WITHDRAW,
+          params: {
+            stakerPk: stakerInfo.publicKeyNoCoordHex,
+            timelockBlocks: stakingInput.stakingTimelock,
+          },
+        },
+      ],
+      action: { name: ActionName.SIGN_BTC_STAKING_TRANSACTION },
+    });
+  });
+
+  it("should throw if the withdrawn outputs cannot cover the staking amount", async () => {
+    await expect(
+      manager.restakeRegistrationBabylonTransaction(
+        stakerProvider.getStakerInfo(),
+        expiredStakingInput,
+        btcTipHeight,
+        withdrawals,
+        [],
+        feeRate,
+        babylonAddress,
+      ),
+    ).rejects.toThrow(
+      new StakingError(
+        StakingErrorCode.BUILD_TRANSACTION_FAILURE,
+        "Insufficient funds",
+      ),
+    );
+    expect(babylonProvider.signTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,277 @@
+import { networks, payments, Psbt } from "bitcoinjs-lib";
+
+import {
+  createSigningPolicy,
+  getBabylonParamByBtcHeight,
+  type SigningPolicy,
+  type SigningPolicyConfig,
+  type SigningPolicyRule,
+  type UTXO,
+} from "../../../src";
+import {
+  SigningPolicyError,
+  StakingError,
+  StakingErrorCode,
+} from "../../../src/error";
+import { PrivateKeyBtcProvider } from "../../../src/providers";
+import { BabylonBtcStakingManager } from "../../../src/staking/manager";
+import { ActionName } from "../../../src/types/action";
+import { ContractId } from "../../../src/types/contract";
+import { testingNetworks } from "../../helper";
+import { babylonProvider } from "./__mock__/providers";
+import {
+  babylonAddress,
+  btcTipHeight,
+  feeRate,
+  params,
+  stakingInput,
+} from "./__mock__/registration";
+
+describe("Staking Manager - Signing policy", () => {
+  const network = networks.testnet;
+  const { stakingDatagen: dataGenerator } = testingNetworks[1].datagen;
+  const version = getBabylonParamByBtcHeight(btcTipHeight, params).version;
+
+  let stakerProvider: PrivateKeyBtcProvider;
+  let inputUTXOs: UTXO[];
+
+  beforeEach(() => {
+    stakerProvider = new PrivateKeyBtcProvider(network, {
+      privateKeyHex: dataGenerator.generateRandomKeyPair().privateKey,
+    });
+    inputUTXOs = dataGenerator.generateRandomUTXOs(
+      stakingInput.stakingAmountSat * 2,
+      1,
+      payments
+        .p2tr({
+          internalPubkey: Buffer.from(
+            stakerProvider.getStakerInfo().publicKeyNoCoordHex,
+            "hex",
+          ),
+          network,
+        })
+        .output!.toString("hex"),
+    );
+    babylonProvider.signTransaction.mockResolvedValue(new Uint8Array([1]));
+  });
+
+  afterEach(() => {
+    babylonProvider.signTransaction.mockReset();
+  });
+
+  const createManager = (signingPolicy?: SigningPolicy) =>
+    new BabylonBtcStakingManager(
+      network,
+      params,
+      stakerProvider,
+      babylonProvider,
+      undefined,
+      undefined,
+      signingPolicy,
+    );
+
+  const register = (manager: BabylonBtcStakingManager) =>
+    manager.preStakeRegistrationBabylonTransaction(
+      stakerProvider.getStakerInfo(),
+      stakingInput,
+      btcTipHeight,
+      inputUTXOs,
+      feeRate,
+      babylonAddress,
+    );
+
+  const withdraw = async (
+    config: SigningPolicyConfig,
+    destinations = [{ address: stakerProvider.getStakerInfo().address }],
+  ) => {
+    const { stakingTx } = await register(createManager());
+    return createManager(
+      createSigningPolicy(config),
+    ).createSignedBtcWithdrawStakingExpiredTransaction(
+      stakerProvider.getStakerInfo(),
+      stakingInput,
+      version,
+      stakingTx,
+      feeRate,
+      {
+        destinations: destinations.map(({ address }) => ({
+          address,
+          remainder: true,
+        })),
+      },
+    );
+  };
+
+  it("should check each PSBT before it reaches the wallet", async () => {
+    const calls: string[] = [];
+    const signPsbt = jest
+      .spyOn(stakerProvider, "signPsbt")
+      .mockImplementation(async (psbtHex, options) => {
+        calls.push(`sign ${options?.action.name}`);
+        return PrivateKeyBtcProvider.prototype.signPsbt.call(
+          stakerProvider,
+          psbtHex,
+          options,
+        );
+      });
+    const signingPolicy = jest.fn(({ action }) => {
+      calls.push(`check ${action}`);
+    });
+
+    await register(createManager(signingPolicy));
+
+    expect(calls).toEqual([
+      `check ${ActionName.SIGN_BTC_SLASHING_TRANSACTION}`,
+      `sign ${ActionName.SIGN_BTC_SLASHING_TRANSACTION}`,
+      `check ${ActionName.SIGN_BTC_UNBONDING_SLASHING_TRANSACTION}`,
+      `sign ${ActionName.SIGN_BTC_UNBONDING_SLASHING_TRANSACTION}`,
+    ]);
+    const [{ psbt, contracts, delegations }] = signingPolicy.mock.calls[0];
+    expect(psbt.toHex()).toBe(signPsbt.mock.calls[0][0]);
+    expect(contracts.map(({ id }: { id: ContractId }) => id)).toEqual([
+      ContractId.STAKING,
+      ContractId.SLASHING,
+      ContractId.SLASHING_BURN,
+    ]);
+    expect(delegations).toEqual([
+      { stakingInput, stakingParamsVersion: version },
+    ]);
+  });
+
+  it.each([
+    [
+      "finality-provider",
+      {
+        finalityProviderPksNoCoordHex: [
+          dataGenerator.generateRandomKeyPair().publicKeyNoCoord,
+        ],
+      },
+    ],
+    [
+      "max-staking-amount",
+      { maxStakingAmountSat: stakingInput.stakingAmountSat - 1 },
+    ],
+    ["params-version", { stakingParamsVersions: [version + 1] }],
+  ])(
+    "should reject a registration violating the %s rule",
+    async (rule, config) => {
+      const signPsbt = jest.spyOn(stakerProvider, "signPsbt");
+
+      const error = await register(
+        createManager(createSigningPolicy(config)),
+      ).catch((e) => e);
+
+      expect(error).toBeInstanceOf(SigningPolicyError);
+      expect(error.code).toBe(StakingErrorCode.POLICY_VIOLATION);
+      expect(error.rule).toBe(rule);
+      expect(signPsbt).not.toHaveBeenCalled();
+    },
+  );
+
+  it("should check the staking amount against the staking output", async () => {
+    const { stakingTx } = await register(createManager());
+    const maxStakingAmountSat = stakingInput.stakingAmountSat - 1;
+    const signPsbt = jest.spyOn(stakerProvider, "signPsbt");
+
+    // The staking inputs understate the amount staked by the transaction
+    await expect(
+      createManager(
+        createSigningPolicy({ maxStakingAmountSat }),
+      ).createSignedBtcStakingTransaction(
+        stakerProvider.getStakerInfo(),
+        { ...stakingInput, stakingAmountSat: maxStakingAmountSat },
+        stakingTx,
+        inputUTXOs,
+        version,
+      ),
+    ).rejects.toThrow(
+      new StakingError(
+        StakingErrorCode.INVALID_OUTPUT,
+        `Staking output value ${stakingInput.stakingAmountSat} does not match the staking amount ${maxStakingAmountSat}`,
+      ),
+    );
+    expect(signPsbt).not.toHaveBeenCalled();
+  });
+
+  it("should register a delegation complying with the policy", async () => {
+    const { signedBabylonTx } = await register(
+      createManager(
+        createSigningPolicy({
+          finalityProviderPksNoCoordHex:
+            stakingInput.finalityProviderPksNoCoordHex,
+          maxStakingAmountSat: stakingInput.stakingAmountSat,
+          stakingParamsVersions: [version],
+          // The fees of the slashing transactions are set by the params
+          maxFeeSat: 0,
+        }),
+      ),
+    );
+
+    expect(signedBabylonTx).toEqual(new Uint8Array([1]));
+  });
+
+  it("should only withdraw to the allowed addresses", async () => {
+    const { address } = stakerProvider.getStakerInfo();
+    const other = dataGenerator.getAddressAndScriptPubKey(
+      dataGenerator.generateRandomKeyPair().publicKey,
+    ).nativeSegwit.address;
+
+    await expect(
+      withdraw({ withdrawalAddresses: [address] }),
+    ).resolves.toBeDefined();
+    await expect(
+      withdraw({ withdrawalAddresses: [address] }, [{ address: other }]),
+    ).rejects.toThrow(
+      new SigningPolicyError(
+        "withdrawal-destination",
+        "Output 0 is not sent to an allowed address",
+      ),
+    );
+  });
+
+  it("should cap the fee and the fee rate of a withdrawal", async () => {
+    const { fee } = await withdraw({ maxFeeSat: 100_000 });
+
+    await expect(withdraw({ maxFeeSat: fee })).resolves.toBeDefined();
+    await expect(withdraw({ maxFeeSat: fee - 1 })).rejects.toThrow(
+      new SigningPolicyError(
+        "max-fee",
+        `Fee ${fee} exceeds the maximum of ${fee - 1}`,
+      ),
+    );
+    // The fee rate is computed on the size of the signed transaction
+    const { transaction } = await withdraw({});
+    const signedFeeRate = fee / transaction.virtualSize();
+    await expect(withdraw({ maxFeeRate: feeRate })).resolves.toBeDefined();
+    await expect(
+      withdraw({ maxFeeRate: signedFeeRate - 0.01 }),
+    ).rejects.toMatchObject({
+      rule: "max-fee-rate",
+    });
+  });
+
+  it("should report an unknown input value under each fee rule", () => {
+    const psbt = new Psbt({ network });
+    psbt.addInput({ hash: Buffer.alloc(32), index: 0 });
+    psbt.addOutput({
+      script: payments.p2wpkh({ hash: Buffer.alloc(20) }).output!,
+      value: 1000,
+    });
+    const request = {
+      action: ActionName.SIGN_BTC_WITHDRAW_TRANSACTION,
+      psbt,
+      contracts: [],
+      delegations: [],
+    };
+    const rules: [SigningPolicyRule, SigningPolicyConfig][] = [
+      ["max-fee", { maxFeeSat: 100_000 }],
+      ["max-fee-rate", { maxFeeRate: feeRate }],
+    ];
+
+    rules.forEach(([rule, config]) => {
+      expect(() => createSigningPolicy(config)(request)).toThrow(
+        new SigningPolicyError(rule, "The value spent by input 0 is unknown"),
+      );
+    });
+  });
+});
@@ -141,10 +141,10 @@ describe("Staking Manager - Expansion", () => {
       ).toThrow("No input UTXOs provided");
     });
 
-    it("should validate staking amounts match", () => {
+    it("should reject a staking amount lower than the previous one", () => {
       const differentStakingInput = {
         ...stakingInput,
-        stakingAmountSat: 15_000, // Different from previous
+        stakingAmountSat: 10_000, // Lower than previous
       };
 
       expect(() =>
@@ -161,7 +161,7 @@ describe("Staking Manager - Expansion", () => {
           },
         ),
       ).toThrow(
-        "Staking expansion amount must equal the previous staking amount",
+        "Staking expansion amount must not be lower than the previous staking amount",
       );
     });
   });
@@ -244,10 +244,10 @@ describe("Staking Manager - Expansion", () => {
       ).rejects.toThrow("Invalid Babylon address");
     });
 
-    it("should validate staking amounts match", async () => {
+    it("should reject a staking amount lower than the previous one", async () => {
       const differentStakingInput = {
         ...stakingInput,
-        stakingAmountSat: 15_000,
+        stakingAmountSat: 10_000,
       };
 
       await expect(
@@ -265,7 +265,7 @@ describe("Staking Manager - Expansion", () => {
           },
         ),
       ).rejects.toThrow(
-        "Staking expansion amount must equal the previous staking amount",
+        "Staking expansion amount must not be lower than the previous staking amount",
       );
     });
   });
@@ -402,10 +402,10 @@ describe("Staking Manager - Expansion", () => {
       expect(true).toBe(true);
     });
 
-    it("should validate staking amounts match", async () => {
+    it("should reject a staking amount lower than the previous one", async () => {
       const differentStakingInput = {
         ...stakingInput,
-        stakingAmountSat: 15_000,
+        stakingAmountSat: 10_000,
       };
 
       await expect(
@@ -423,7 +423,7 @@ describe("Staking Manager - Expansion", () => {
           mockCovenantExpansionSignatures,
         ),
       ).rejects.toThrow(
-        "Staking expansion amount must equal the previous staking amount",
+        "Staking expansion amount must not be lower than the previous staking amount",
       );
     });
   });
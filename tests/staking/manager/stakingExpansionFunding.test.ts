@@ -0,0 +1,131 @@
+import { networks, payments, Transaction } from "bitcoinjs-lib";
+
+import { getBabylonParamByBtcHeight, Staking, type UTXO } from "../../../src";
+import { BABYLON_REGISTRY_TYPE_URLS } from "../../../src/constants/registry";
+import { PrivateKeyBtcProvider } from "../../../src/providers";
+import { BabylonBtcStakingManager } from "../../../src/staking/manager";
+import { transactionIdToHash } from "../../../src/utils/btc";
+import { testingNetworks } from "../../helper";
+import { babylonProvider } from "./__mock__/providers";
+import {
+  babylonAddress,
+  btcTipHeight,
+  feeRate,
+  params,
+  stakingInput,
+} from "./__mock__/registration";
+
+describe("Staking Manager - Expansion funding", () => {
+  const network = networks.testnet;
+  const { stakingDatagen: dataGenerator } = testingNetworks[1].datagen;
+  const additionalAmount = 100_000;
+
+  let stakerProvider: PrivateKeyBtcProvider;
+  let manager: BabylonBtcStakingManager;
+  let previousStakingTx: Transaction;
+  let scriptPubKey: string;
+
+  // Adds a transaction paying the staker to the provider, returning its UTXO
+  const addFundingTransaction = (value: number): UTXO => {
+    const tx = new Transaction();
+    tx.addInput(transactionIdToHash(dataGenerator.generateRandomTxId()), 0);
+    tx.addOutput(Buffer.from(scriptPubKey, "hex"), value);
+    return {
+      txid: stakerProvider.addTransaction(tx.toHex()),
+      vout: 0,
+      value,
+      scriptPubKey,
+    };
+  };
+
+  beforeEach(() => {
+    stakerProvider = new PrivateKeyBtcProvider(network, {
+      privateKeyHex: dataGenerator.generateRandomKeyPair().privateKey,
+    });
+    manager = new BabylonBtcStakingManager(
+      network,
+      params,
+      stakerProvider,
+      babylonProvider,
+    );
+    scriptPubKey = payments
+      .p2tr({
+        internalPubkey: Buffer.from(
+          stakerProvider.getStakerInfo().publicKeyNoCoordHex,
+          "hex",
+        ),
+        network,
+      })
+      .output!.toString("hex");
+    ({ transaction: previousStakingTx } = new Staking(
+      network,
+      stakerProvider.getStakerInfo(),
+      getBabylonParamByBtcHeight(btcTipHeight, params),
+      stakingInput.finalityProviderPksNoCoordHex,
+      stakingInput.stakingTimelock,
+    ).createStakingTransaction(
+      stakingInput.stakingAmountSat,
+      dataGenerator.generateRandomUTXOs(
+        stakingInput.stakingAmountSat * 2,
+        1,
+        scriptPubKey,
+      ),
+      feeRate,
+    ));
+    babylonProvider.signTransaction.mockResolvedValue(new Uint8Array([1]));
+  });
+
+  afterEach(() => {
+    babylonProvider.signTransaction.mockReset();
+  });
+
+  const expand = (inputUTXOs: UTXO[]) =>
+    manager.stakingExpansionRegistrationBabylonTransaction(
+      stakerProvider.getStakerInfo(),
+      {
+        ...stakingInput,
+        stakingAmountSat: stakingInput.stakingAmountSat + additionalAmount,
+      },
+      btcTipHeight,
+      inputUTXOs,
+      feeRate,
+      babylonAddress,
+      {
+        stakingTx: previousStakingTx,
+        paramVersion: getBabylonParamByBtcHeight(btcTipHeight, params).version,
+        stakingInput,
+      },
+    );
+
+  it("should register the transaction of the single funding input", async () => {
+    const smallUTXOs = [1, 2, 3].map(() => addFundingTransaction(40_000));
+    const fundingUTXO = addFundingTransaction(additionalAmount * 2);
+
+    const { stakingTx } = await expand([...smallUTXOs, fundingUTXO]);
+
+    expect(stakingTx.ins).toHaveLength(2);
+    expect(stakingTx.ins[0].hash).toEqual(previousStakingTx.getHash());
+    expect(stakingTx.ins[1].hash).toEqual(
+      transactionIdToHash(fundingUTXO.txid),
+    );
+    const [[{ typeUrl, value: msg }]] =
+      babylonProvider.signTransaction.mock.calls;
+    expect(typeUrl).toBe(BABYLON_REGISTRY_TYPE_URLS.MsgBtcStakeExpand);
+    expect(msg.previousStakingTxHash).toBe(previousStakingTx.getId());
+    expect(Buffer.from(msg.fundingTx).toString("hex")).toBe(
+      await stakerProvider.getTransactionHex(fundingUTXO.txid),
+    );
+    expect(msg.stakingValue).toBe(
+      stakingInput.stakingAmountSat + additionalAmount,
+    );
+  });
+
+  it("should not spend several funding UTXOs to cover the increase", async () => {
+    const smallUTXOs = [1, 2, 3].map(() => addFundingTransaction(40_000));
+
+    await expect(expand(smallUTXOs)).rejects.toThrow(
+      "Insufficient funds: unable to gather enough UTXOs to cover the staking amount and fees",
+    );
+    expect(babylonProvider.signTransaction).not.toHaveBeenCalled();
+  });
+});
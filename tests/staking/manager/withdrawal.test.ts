@@ -4,6 +4,7 @@ import { BabylonBtcStakingManager } from "../../../src/staking/manager";
 
 import { ActionName } from "../../../src/types/action";
 import { ContractId } from "../../../src/types/contract";
+import { getBatchWithdrawTxFee } from "../../../src/utils/fee";
 import { babylonProvider, btcProvider } from "./__mock__/providers";
 import {
   params,
@@ -204,5 +205,84 @@ describe("Staking Manager", () => {
         expect(fee).toEqual(288);
       });
     });
+
+    // Batch
+    describe("createSignedBtcBatchWithdrawalTransaction", () => {
+      const withdrawals = [
+        {
+          stakingInput,
+          stakingParamsVersion: version,
+          transaction: stakingTx,
+          type: "staking-expired" as const,
+        },
+        {
+          stakingInput,
+          stakingParamsVersion: version,
+          transaction: unboundingTx,
+          type: "early-unbonded" as const,
+        },
+      ];
+
+      it("should sign one withdrawal tx for all the outputs", async () => {
+        // Finalize each input with a dummy signature
+        btcProvider.signPsbt.mockImplementationOnce(async (psbtHex: string) => {
+          const psbt = Psbt.fromHex(psbtHex);
+          psbt.data.inputs.forEach((_, i) => {
+            psbt.updateInput(i, {
+              finalScriptWitness: Buffer.from("0140" + "00".repeat(64), "hex"),
+            });
+          });
+          return psbt.toHex();
+        });
+
+        const { transaction, fee } =
+          await manager.createSignedBtcBatchWithdrawalTransaction(
+            stakerInfo,
+            withdrawals,
+            4,
+          );
+
+        expect(btcProvider.signPsbt).toHaveBeenCalledTimes(1);
+        expect(btcProvider.signPsbt).toHaveBeenCalledWith(expect.any(String), {
+          contracts: [
+            {
+              id: ContractId.WITHDRAW,
+              params: {
+                stakerPk: stakerInfo.publicKeyNoCoordHex,
+                timelockBlocks: stakingInput.stakingTimelock,
+              },
+            },
+            {
+              id: ContractId.WITHDRAW,
+              params: {
+                stakerPk: stakerInfo.publicKeyNoCoordHex,
+                timelockBlocks: params[version].unbondingTime,
+              },
+            },
+          ],
+          action: {
+            name: ActionName.SIGN_BTC_WITHDRAW_TRANSACTION,
+          },
+        });
+        expect(transaction.ins.map((input) => input.sequence)).toEqual([
+          stakingInput.stakingTimelock,
+          params[version].unbondingTime,
+        ]);
+        expect(transaction.outs).toHaveLength(1);
+        expect(fee).toEqual(getBatchWithdrawTxFee(4, 2));
+      });
+
+      it("should validate the withdrawal address", async () => {
+        await expect(
+          manager.createSignedBtcBatchWithdrawalTransaction(
+            stakerInfo,
+            withdrawals,
+            4,
+            { withdrawalAddress: "invalid-address" },
+          ),
+        ).rejects.toThrow("Invalid withdrawal address");
+        expect(btcProvider.signPsbt).not.toHaveBeenCalled();
+      });
+    });
   });
 });
@@ -0,0 +1,170 @@
+import { networks, payments } from "bitcoinjs-lib";
+
+import {
+  getBabylonParamByBtcHeight,
+  type WithdrawalDestination,
+} from "../../../src";
+import { StakingError, StakingErrorCode } from "../../../src/error";
+import { PrivateKeyBtcProvider } from "../../../src/providers";
+import { BabylonBtcStakingManager } from "../../../src/staking/manager";
+import { ActionName } from "../../../src/types/action";
+import { ContractId } from "../../../src/types/contract";
+import { testingNetworks } from "../../helper";
+import { babylonProvider } from "./__mock__/providers";
+import {
+  babylonAddress,
+  btcTipHeight,
+  feeRate,
+  params,
+  stakingInput,
+} from "./__mock__/registration";
+
+describe("Staking Manager - Withdrawal destinations", () => {
+  const network = networks.testnet;
+  const { stakingDatagen: dataGenerator } = testingNetworks[1].datagen;
+  const version = getBabylonParamByBtcHeight(btcTipHeight, params).version;
+
+  let stakerProvider: PrivateKeyBtcProvider;
+  let manager: BabylonBtcStakingManager;
+  let destinations: WithdrawalDestination[];
+
+  beforeEach(() => {
+    stakerProvider = new PrivateKeyBtcProvider(network, {
+      privateKeyHex: dataGenerator.generateRandomKeyPair().privateKey,
+    });
+    manager = new BabylonBtcStakingManager(
+      network,
+      params,
+      stakerProvider,
+      babylonProvider,
+    );
+    // A treasury splitting the withdrawn funds between a hot wallet and its
+    // cold storage
+    const [hot, cold] = [1, 2].map(
+      () =>
+        dataGenerator.getAddressAndScriptPubKey(
+          dataGenerator.generateRandomKeyPair().publicKey,
+        ).nativeSegwit.address,
+    );
+    destinations = [
+      { address: hot, amount: 20_000 },
+      { address: cold, remainder: true },
+    ];
+    babylonProvider.signTransaction.mockResolvedValue(new Uint8Array([1]));
+  });
+
+  afterEach(() => {
+    babylonProvider.signTransaction.mockReset();
+  });
+
+  const createStakingTx = async () => {
+    const stakerInfo = stakerProvider.getStakerInfo();
+    const { stakingTx } = await manager.preStakeRegistrationBabylonTransaction(
+      stakerInfo,
+      stakingInput,
+      btcTipHeight,
+      dataGenerator.generateRandomUTXOs(
+        stakingInput.stakingAmountSat * 2,
+        1,
+        payments
+          .p2tr({
+            internalPubkey: Buffer.from(stakerInfo.publicKeyNoCoordHex, "hex"),
+            network,
+          })
+          .output!.toString("hex"),
+      ),
+      feeRate,
+      babylonAddress,
+    );
+    return stakingTx;
+  };
+
+  it("should show the destinations in the withdrawal contract", async () => {
+    const stakingTx = await createStakingTx();
+    const signPsbt = jest.spyOn(stakerProvider, "signPsbt");
+
+    const { transaction, fee } =
+      await manager.createSignedBtcWithdrawStakingExpiredTransaction(
+        stakerProvider.getStakerInfo(),
+        stakingInput,
+        version,
+        stakingTx,
+        feeRate,
+        { destinations },
+      );
+
+    const remainder = stakingInput.stakingAmountSat - 20_000 - fee;
+    expect(transaction.outs.map(({ value }) => value)).toEqual([
+      20_000,
+      remainder,
+    ]);
+    expect(signPsbt).toHaveBeenCalledWith(expect.any(String), {
+      contracts: [
+        {
+          id: ContractId.WITHDRAW,
+          params: {
+            stakerPk: stakerProvider.getStakerInfo().publicKeyNoCoordHex,
+            timelockBlocks: stakingInput.stakingTimelock,
+            destinationAddresses: destinations.map(({ address }) => address),
+            destinationAmounts: [20_000, remainder],
+          },
+        },
+      ],
+      action: { name: ActionName.SIGN_BTC_WITHDRAW_TRANSACTION },
+    });
+  });
+
+  it("should show the destinations in each contract of a batch withdrawal", async () => {
+    const stakingTx = await createStakingTx();
+    const signPsbt = jest.spyOn(stakerProvider, "signPsbt");
+
+    const { transaction } =
+      await manager.createSignedBtcBatchWithdrawalTransaction(
+        stakerProvider.getStakerInfo(),
+        [
+          {
+            stakingInput,
+            stakingParamsVersion: version,
+            transaction: stakingTx,
+            type: "staking-expired",
+          },
+        ],
+        feeRate,
+        { destinations },
+      );
+
+    expect(signPsbt).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({
+        contracts: [
+          expect.objectContaining({
+            params: expect.objectContaining({
+              destinationAddresses: destinations.map(({ address }) => address),
+              destinationAmounts: transaction.outs.map(({ value }) => value),
+            }),
+          }),
+        ],
+      }),
+    );
+  });
+
+  it("should throw if a destination is invalid", async () => {
+    const stakingTx = await createStakingTx();
+
+    await expect(
+      manager.createSignedBtcWithdrawStakingExpiredTransaction(
+        stakerProvider.getStakerInfo(),
+        stakingInput,
+        version,
+        stakingTx,
+        feeRate,
+        { destinations: [{ address: "invalid", remainder: true }] },
+      ),
+    ).rejects.toThrow(
+      new StakingError(
+        StakingErrorCode.BUILD_TRANSACTION_FAILURE,
+        "Invalid withdrawal destination address: invalid",
+      ),
+    );
+  });
+});
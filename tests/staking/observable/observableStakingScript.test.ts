@@ -1,5 +1,6 @@
 import { opcodes, script } from "bitcoinjs-lib";
 import { ObservableStakingScriptData } from "../../../src";
+import { StakingScriptParseError } from "../../../src/error";
 
 describe("observableStakingScript", () => {
   const pk1 = Buffer.from(
@@ -149,4 +150,48 @@ describe("observableStakingScript", () => {
       expect(scriptData.validate()).toBe(true);
     });
   });
+
+  describe("parseDataEmbedScript", () => {
+    it("should parse the data embed script", () => {
+      const scriptData = new ObservableStakingScriptData(
+        pk1, // Staker Pk
+        [pk2], // Finality Provider Pks
+        [pk3, pk4, pk5], // covenant Pks
+        2,
+        stakingTimeLock,
+        unbondingTimeLock,
+        magicBytes,
+      );
+      expect(
+        ObservableStakingScriptData.parseDataEmbedScript(
+          scriptData.buildDataEmbedScript(),
+        ),
+      ).toEqual({
+        magicBytes,
+        version: 0,
+        stakerKey: pk1,
+        finalityProviderKey: pk2,
+        stakingTimeLock,
+      });
+    });
+
+    it("should reject a script that is not OP_RETURN data", () => {
+      expect(() =>
+        ObservableStakingScriptData.parseDataEmbedScript(
+          script.compile([opcodes.OP_DUP, magicBytes]),
+        ),
+      ).toThrow(StakingScriptParseError);
+    });
+
+    it("should reject staking data of the wrong length", () => {
+      expect(() =>
+        ObservableStakingScriptData.parseDataEmbedScript(
+          script.compile([
+            opcodes.OP_RETURN,
+            Buffer.concat([magicBytes, Buffer.from([0]), pk1, pk2]),
+          ]),
+        ),
+      ).toThrow("Invalid dataEmbedScript: expected 71 bytes of staking data");
+    });
+  });
 });
@@ -0,0 +1,162 @@
+import { opcodes, script } from "bitcoinjs-lib";
+import {
+  ObservableStaking,
+  parseObservableStakingTransaction,
+} from "../../../src";
+import { StakingError, StakingErrorCode } from "../../../src/error";
+import { testingNetworks } from "../../helper";
+import { ObservableStakingDatagen } from "../../helper/datagen/observable";
+
+describe.each(testingNetworks)(
+  "parseObservableStakingTransaction",
+  ({ network, networkName }) => {
+    const dataGenerator = new ObservableStakingDatagen(network);
+
+    const generate = () => {
+      const { publicKey, publicKeyNoCoord } =
+        dataGenerator.generateRandomKeyPair();
+      const { address, scriptPubKey } =
+        dataGenerator.getAddressAndScriptPubKey(publicKey).taproot;
+      const params = dataGenerator.generateStakingParams(true, 3);
+      const fpPks =
+        dataGenerator.generateRandomFidelityProviderPksNoCoordHex(1);
+      const timelock = dataGenerator.generateRandomTimelock(params);
+      const staking = new ObservableStaking(
+        network,
+        { address, publicKeyNoCoordHex: publicKeyNoCoord },
+        params,
+        fpPks,
+        timelock,
+      );
+      const utxos = dataGenerator.generateRandomUTXOs(
+        params.maxStakingAmountSat * 2,
+        2,
+        scriptPubKey,
+      );
+      const { transaction } = staking.createStakingTransaction(
+        params.minStakingAmountSat,
+        utxos,
+        1,
+      );
+      return {
+        transaction,
+        params,
+        stakerPkNoCoordHex: publicKeyNoCoord,
+        fpPkNoCoordHex: fpPks[0],
+        timelock,
+        scripts: staking.buildScripts(),
+      };
+    };
+
+    it(`${networkName} should parse a valid observable staking transaction`, () => {
+      const {
+        transaction,
+        params,
+        stakerPkNoCoordHex,
+        fpPkNoCoordHex,
+        timelock,
+        scripts,
+      } = generate();
+
+      const info = parseObservableStakingTransaction(
+        transaction,
+        params,
+        network,
+      );
+
+      expect(info).toEqual({
+        stakerPkNoCoordHex,
+        finalityProviderPkNoCoordHex: fpPkNoCoordHex,
+        stakingTimelock: timelock,
+        stakingAmountSat: params.minStakingAmountSat,
+        stakingOutputIndex: 0,
+        dataEmbedOutputIndex: 1,
+        scripts,
+      });
+    });
+
+    it(`${networkName} should throw if the params tag does not match`, () => {
+      const { transaction, params } = generate();
+      const tag = dataGenerator.generateRandomTag().toString("hex");
+
+      expect(() =>
+        parseObservableStakingTransaction(
+          transaction,
+          { ...params, tag },
+          network,
+        ),
+      ).toThrow(
+        new StakingError(
+          StakingErrorCode.INVALID_OUTPUT,
+          `No data embed output found for tag: ${tag}`,
+        ),
+      );
+    });
+
+    it(`${networkName} should throw if there are multiple data embed outputs`, () => {
+      const { transaction, params } = generate();
+      transaction.addOutput(transaction.outs[1].script, 0);
+
+      expect(() =>
+        parseObservableStakingTransaction(transaction, params, network),
+      ).toThrow(
+        new StakingError(
+          StakingErrorCode.INVALID_OUTPUT,
+          "Staking transaction must have exactly one data embed output",
+        ),
+      );
+    });
+
+    it(`${networkName} should throw if the data embed version is not supported`, () => {
+      const { transaction, params } = generate();
+      const data = script.decompile(transaction.outs[1].script)![1] as Buffer;
+      const tampered = Buffer.from(data);
+      tampered.writeUInt8(1, 4);
+      transaction.outs[1].script = script.compile([
+        opcodes.OP_RETURN,
+        tampered,
+      ]);
+
+      expect(() =>
+        parseObservableStakingTransaction(transaction, params, network),
+      ).toThrow(
+        new StakingError(
+          StakingErrorCode.INVALID_OUTPUT,
+          "Unsupported data embed version: 1",
+        ),
+      );
+    });
+
+    it(`${networkName} should throw if no staking output matches the data embed output`, () => {
+      const { transaction } = generate();
+      const other = generate();
+      transaction.outs[1].script = other.transaction.outs[1].script;
+
+      expect(() =>
+        parseObservableStakingTransaction(transaction, other.params, network),
+      ).toThrow(
+        new StakingError(
+          StakingErrorCode.INVALID_OUTPUT,
+          "No staking output matches the data embed output",
+        ),
+      );
+    });
+
+    it(`${networkName} should throw if the params have no valid tag`, () => {
+      const { transaction, params } = generate();
+
+      expect(() =>
+        parseObservableStakingTransaction(
+          transaction,
+          { ...params, tag: "" },
+          network,
+        ),
+      ).toThrow(
+        new StakingError(
+          StakingErrorCode.INVALID_PARAMS,
+          "Observable staking parameters must include a 4 bytes tag",
+        ),
+      );
+    });
+  },
+);
@@ -170,6 +170,36 @@ describe.each(testingNetworks)(
             ).toThrow(
               "Staking expansion transaction must have exactly 2 inputs",
             );
+
+            // Add a second funding input, whose transaction would not be
+            // registered on Babylon
+            const extraInputTx = Transaction.fromBuffer(
+              stakingExpansionTx.toBuffer(),
+            );
+            const [extraUTXO] = dataGenerator.generateRandomUTXOs(
+              25_000,
+              1,
+              scriptPubKey,
+            );
+            extraInputTx.addInput(
+              transactionIdToHash(extraUTXO.txid),
+              extraUTXO.vout,
+            );
+
+            expect(() =>
+              stakingExpansionPsbt(
+                network,
+                extraInputTx,
+                {
+                  stakingTx: previousStakingTx,
+                  outputIndex: 0,
+                },
+                [...utxos, extraUTXO],
+                previousStakingScript,
+              ),
+            ).toThrow(
+              "Staking expansion transaction must have exactly 2 inputs",
+            );
           });
 
           it(`${networkName} - should throw an error if previous staking input hash doesn't match`, () => {
@@ -0,0 +1,241 @@
+import { payments, Transaction } from "bitcoinjs-lib";
+import { Taptree } from "bitcoinjs-lib/src/types";
+import {
+  classifyStakingSpend,
+  unbondingTransaction,
+  withdrawEarlyUnbondedTransaction,
+  withdrawTimelockUnbondedTransaction,
+} from "../../src";
+import { internalPubkey } from "../../src/constants/internalPubkey";
+import { REDEEM_VERSION } from "../../src/constants/transaction";
+import { StakingError, StakingErrorCode } from "../../src/error";
+import { testingNetworks } from "../helper";
+
+describe.each(testingNetworks)(
+  "classifyStakingSpend",
+  ({ network, networkName, datagen: { stakingDatagen: dataGenerator } }) => {
+    // A random 64 bytes schnorr signature in hex
+    const randomSig = () => dataGenerator.generateRandomTxId().repeat(2);
+
+    // Returns the witness revealing the leaf of the script tree
+    const scriptPathWitness = (
+      scriptTree: Taptree,
+      leaf: Buffer,
+      stack: Buffer[],
+    ): Buffer[] => {
+      const { witness } = payments.p2tr({
+        internalPubkey,
+        scriptTree,
+        redeem: { output: leaf, redeemVersion: REDEEM_VERSION },
+        network,
+      });
+      return [...stack, ...witness!];
+    };
+
+    const setup = () => {
+      const { stakingTx, stakingInstance, stakerInfo, keyPair } =
+        dataGenerator.generateRandomStakingTransaction(network, 1);
+      const scripts = stakingInstance.buildScripts();
+      const stakingTree: Taptree = [
+        { output: scripts.slashingScript },
+        [
+          { output: scripts.unbondingScript },
+          { output: scripts.timelockScript },
+        ],
+      ];
+      const unbondingTree: Taptree = [
+        { output: scripts.slashingScript },
+        { output: scripts.unbondingTimelockScript },
+      ];
+      return {
+        stakingTx,
+        scripts,
+        stakerInfo,
+        keyPair,
+        stakingTree,
+        unbondingTree,
+        covenantPks: [...stakingInstance.params.covenantNoCoordPks].sort(),
+        fpPks: [...stakingInstance.finalityProviderPksNoCoordHex].sort(),
+      };
+    };
+
+    it(`${networkName} should classify a timelock withdrawal`, () => {
+      const { stakingTx, scripts, stakerInfo, keyPair } = setup();
+      const { psbt } = withdrawTimelockUnbondedTransaction(
+        scripts,
+        stakingTx,
+        stakerInfo.address,
+        network,
+        1,
+      );
+      const tx = psbt
+        .signAllInputs(keyPair.keyPair)
+        .finalizeAllInputs()
+        .extractTransaction();
+
+      expect(classifyStakingSpend(tx, scripts, network)).toEqual([
+        {
+          inputIndex: 0,
+          spentOutput: "staking",
+          path: "timelockScript",
+          signatures: [
+            {
+              pkNoCoordHex: stakerInfo.publicKeyNoCoordHex,
+              sigHex: tx.ins[0].witness[0].toString("hex"),
+            },
+          ],
+        },
+      ]);
+    });
+
+    it(`${networkName} should classify an unbonding and map the covenant signatures`, () => {
+      const { stakingTx, scripts, stakerInfo, stakingTree, covenantPks } =
+        setup();
+      const { transaction: tx } = unbondingTransaction(
+        scripts,
+        stakingTx,
+        1000,
+        network,
+      );
+      const stakerSig = randomSig();
+      // The first covenant did not sign
+      const covenantSigs = covenantPks.map((_, i) =>
+        i === 0 ? "" : randomSig(),
+      );
+      // Covenant signatures are pushed in reverse key order
+      tx.ins[0].witness = scriptPathWitness(
+        stakingTree,
+        scripts.unbondingScript,
+        [
+          ...[...covenantSigs].reverse().map((sig) => Buffer.from(sig, "hex")),
+          Buffer.from(stakerSig, "hex"),
+        ],
+      );
+
+      expect(classifyStakingSpend(tx, scripts, network)).toEqual([
+        {
+          inputIndex: 0,
+          spentOutput: "staking",
+          path: "unbondingScript",
+          signatures: [
+            { pkNoCoordHex: stakerInfo.publicKeyNoCoordHex, sigHex: stakerSig },
+            ...covenantPks
+              .map((pkNoCoordHex, i) => ({
+                pkNoCoordHex,
+                sigHex: covenantSigs[i],
+              }))
+              .slice(1),
+          ],
+        },
+      ]);
+    });
+
+    it(`${networkName} should classify a slashing of the unbonding output`, () => {
+      const {
+        stakingTx,
+        scripts,
+        stakerInfo,
+        unbondingTree,
+        covenantPks,
+        fpPks,
+      } = setup();
+      const { transaction: unbondingTx } = unbondingTransaction(
+        scripts,
+        stakingTx,
+        1000,
+        network,
+      );
+      const tx = new Transaction();
+      tx.addInput(unbondingTx.getHash(), 0);
+      tx.addInput(Buffer.alloc(32), 0);
+      const stack = [...covenantPks, ...fpPks, "staker"].map(() =>
+        Buffer.from(randomSig(), "hex"),
+      );
+      tx.ins[0].witness = scriptPathWitness(
+        unbondingTree,
+        scripts.slashingScript,
+        stack,
+      );
+
+      const spends = classifyStakingSpend(tx, scripts, network);
+
+      expect(spends).toHaveLength(1);
+      expect(spends[0].spentOutput).toBe("unbonding");
+      expect(spends[0].path).toBe("slashingScript");
+      expect(spends[0].signatures.map((s) => s.pkNoCoordHex)).toEqual([
+        stakerInfo.publicKeyNoCoordHex,
+        ...fpPks,
+        ...covenantPks,
+      ]);
+    });
+
+    it(`${networkName} should classify a withdrawal of the unbonding output`, () => {
+      const { stakingTx, scripts, stakerInfo, keyPair } = setup();
+      const { transaction: unbondingTx } = unbondingTransaction(
+        scripts,
+        stakingTx,
+        1000,
+        network,
+      );
+      const { psbt } = withdrawEarlyUnbondedTransaction(
+        scripts,
+        unbondingTx,
+        stakerInfo.address,
+        network,
+        1,
+      );
+      const tx = psbt
+        .signAllInputs(keyPair.keyPair)
+        .finalizeAllInputs()
+        .extractTransaction();
+
+      const spends = classifyStakingSpend(tx, scripts, network);
+
+      expect(spends).toHaveLength(1);
+      expect(spends[0].spentOutput).toBe("unbonding");
+      expect(spends[0].path).toBe("unbondingTimelockScript");
+    });
+
+    it(`${networkName} should ignore inputs not committing to the staking outputs`, () => {
+      const { stakingTx, scripts } = setup();
+      const other = setup();
+      const { psbt } = withdrawTimelockUnbondedTransaction(
+        other.scripts,
+        other.stakingTx,
+        other.stakerInfo.address,
+        network,
+        1,
+      );
+      const tx = psbt
+        .signAllInputs(other.keyPair.keyPair)
+        .finalizeAllInputs()
+        .extractTransaction();
+
+      expect(classifyStakingSpend(tx, scripts, network)).toEqual([]);
+      expect(classifyStakingSpend(stakingTx, scripts, network)).toEqual([]);
+    });
+
+    it(`${networkName} should throw if the witness does not match the script keys`, () => {
+      const { stakingTx, scripts, stakingTree, covenantPks } = setup();
+      const { transaction: tx } = unbondingTransaction(
+        scripts,
+        stakingTx,
+        1000,
+        network,
+      );
+      tx.ins[0].witness = scriptPathWitness(
+        stakingTree,
+        scripts.unbondingScript,
+        [Buffer.from(randomSig(), "hex")],
+      );
+
+      expect(() => classifyStakingSpend(tx, scripts, network)).toThrow(
+        new StakingError(
+          StakingErrorCode.INVALID_INPUT,
+          `Input 0 has 1 witness elements for ${covenantPks.length + 1} ` +
+            "public keys",
+        ),
+      );
+    });
+  },
+);
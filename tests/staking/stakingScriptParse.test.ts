@@ -0,0 +1,285 @@
+import { opcodes, script } from "bitcoinjs-lib";
+import { StakingScriptData } from "../../src";
+import { StakingErrorCode, StakingScriptParseError } from "../../src/error";
+
+describe("stakingScript parsing", () => {
+  const pk1 = Buffer.from(
+    "6f13a6d104446520d1757caec13eaf6fbcf29f488c31e0107e7351d4994cd068",
+    "hex",
+  );
+  const pk2 = Buffer.from(
+    "f5199efae3f28bb82476163a7e458c7ad445d9bffb0682d10d3bdb2cb41f8e8e",
+    "hex",
+  );
+  const pk3 = Buffer.from(
+    "17921cf156ccb4e73d428f996ed11b245313e37e27c978ac4d2cc21eca4672e4",
+    "hex",
+  );
+  const pk4 = Buffer.from(
+    "76d1ae01f8fb6bf30108731c884cddcf57ef6eef2d9d9559e130894e0e40c62c",
+    "hex",
+  );
+  const pk5 = Buffer.from(
+    "49766ccd9e3cd94343e2040474a77fb37cdfd30530d05f9f1e96ae1e2102c86e",
+    "hex",
+  );
+  const pk6 = Buffer.from(
+    "a4d3d1a7b0e6d7e2b1f2d3c4b5a69788796a5b4c3d2e1f0a9b8c7d6e5f4a3b2c",
+    "hex",
+  );
+
+  const expectParseError = (fn: () => unknown, leaf: string) => {
+    try {
+      fn();
+      throw new Error("Expected a parse error");
+    } catch (error) {
+      expect(error).toBeInstanceOf(StakingScriptParseError);
+      expect((error as StakingScriptParseError).leaf).toBe(leaf);
+      expect((error as StakingScriptParseError).code).toBe(
+        StakingErrorCode.SCRIPT_FAILURE,
+      );
+    }
+  };
+
+  describe("Happy path", () => {
+    it.each([
+      [[pk2], [pk3], 1, 65535, 1000],
+      [[pk2], [pk3, pk4, pk5], 2, 10, 16],
+      [[pk6, pk2], [pk5, pk4, pk3], 3, 1, 17],
+    ])(
+      "should round trip the staking scripts (%#)",
+      (fpKeys, covenantKeys, threshold, stakingTimelock, unbondingTimelock) => {
+        const scriptData = new StakingScriptData(
+          pk1,
+          fpKeys,
+          covenantKeys,
+          threshold,
+          stakingTimelock,
+          unbondingTimelock,
+        );
+        const scripts = scriptData.buildScripts();
+
+        const parsed = StakingScriptData.fromScripts(scripts);
+
+        expect(parsed.stakerKey).toEqual(pk1);
+        expect(parsed.finalityProviderKeys).toEqual(
+          [...fpKeys].sort(Buffer.compare),
+        );
+        expect(parsed.covenantKeys).toEqual(
+          [...covenantKeys].sort(Buffer.compare),
+        );
+        expect(parsed.covenantThreshold).toBe(threshold);
+        expect(parsed.stakingTimeLock).toBe(stakingTimelock);
+        expect(parsed.unbondingTimeLock).toBe(unbondingTimelock);
+        expect(parsed.buildScripts()).toEqual(scripts);
+      },
+    );
+
+    it("should parse each leaf", () => {
+      const scriptData = new StakingScriptData(
+        pk1,
+        [pk2, pk6],
+        [pk3, pk4, pk5],
+        2,
+        1000,
+        100,
+      );
+
+      expect(
+        StakingScriptData.parseTimelockScript(
+          scriptData.buildStakingTimelockScript(),
+        ),
+      ).toEqual({ stakerKey: pk1, timelock: 1000 });
+      expect(
+        StakingScriptData.parseUnbondingScript(
+          scriptData.buildUnbondingScript(),
+        ),
+      ).toEqual({
+        stakerKey: pk1,
+        covenantKeys: [pk3, pk5, pk4],
+        covenantThreshold: 2,
+      });
+      expect(
+        StakingScriptData.parseSlashingScript(scriptData.buildSlashingScript()),
+      ).toEqual({
+        stakerKey: pk1,
+        finalityProviderKeys: [pk6, pk2],
+        covenantKeys: [pk3, pk5, pk4],
+        covenantThreshold: 2,
+      });
+    });
+  });
+
+  describe("Error path", () => {
+    const scripts = new StakingScriptData(
+      pk1,
+      [pk2],
+      [pk3, pk4, pk5],
+      2,
+      1000,
+      100,
+    ).buildScripts();
+
+    it("should report a malformed timelock script", () => {
+      const malformed = script.compile([
+        pk1,
+        opcodes.OP_CHECKSIG,
+        script.number.encode(1000),
+        opcodes.OP_CHECKSEQUENCEVERIFY,
+      ]);
+      expectParseError(
+        () =>
+          StakingScriptData.fromScripts({
+            ...scripts,
+            timelockScript: malformed,
+          }),
+        "timelockScript",
+      );
+      expectParseError(
+        () =>
+          StakingScriptData.fromScripts({
+            ...scripts,
+            unbondingTimelockScript: malformed,
+          }),
+        "unbondingTimelockScript",
+      );
+    });
+
+    it("should reject a timelock out of range", () => {
+      const malformed = script.compile([
+        pk1,
+        opcodes.OP_CHECKSIGVERIFY,
+        script.number.encode(65536),
+        opcodes.OP_CHECKSEQUENCEVERIFY,
+      ]);
+      expectParseError(
+        () => StakingScriptData.parseTimelockScript(malformed),
+        "timelockScript",
+      );
+    });
+
+    it("should reject unsorted covenant keys", () => {
+      const sorted = [pk3, pk4, pk5].sort(Buffer.compare).reverse();
+      const malformed = script.compile([
+        pk1,
+        opcodes.OP_CHECKSIGVERIFY,
+        sorted[0],
+        opcodes.OP_CHECKSIG,
+        sorted[1],
+        opcodes.OP_CHECKSIGADD,
+        sorted[2],
+        opcodes.OP_CHECKSIGADD,
+        script.number.encode(2),
+        opcodes.OP_NUMEQUAL,
+      ]);
+      expectParseError(
+        () =>
+          StakingScriptData.fromScripts({
+            ...scripts,
+            unbondingScript: malformed,
+          }),
+        "unbondingScript",
+      );
+    });
+
+    it("should reject a covenant threshold above the number of keys", () => {
+      const sorted = [pk3, pk4].sort(Buffer.compare);
+      const malformed = script.compile([
+        pk1,
+        opcodes.OP_CHECKSIGVERIFY,
+        sorted[0],
+        opcodes.OP_CHECKSIG,
+        sorted[1],
+        opcodes.OP_CHECKSIGADD,
+        script.number.encode(3),
+        opcodes.OP_NUMEQUAL,
+      ]);
+      expectParseError(
+        () => StakingScriptData.parseUnbondingScript(malformed),
+        "unbondingScript",
+      );
+    });
+
+    it("should reject trailing opcodes", () => {
+      expectParseError(
+        () =>
+          StakingScriptData.parseSlashingScript(
+            Buffer.concat([
+              scripts.slashingScript,
+              script.compile([opcodes.OP_DROP]),
+            ]),
+          ),
+        "slashingScript",
+      );
+    });
+
+    it("should reject a finality provider threshold other than 1", () => {
+      const fpKeys = [pk2, pk6].sort(Buffer.compare);
+      const malformed = Buffer.concat([
+        script.compile([pk1, opcodes.OP_CHECKSIGVERIFY]),
+        script.compile([
+          fpKeys[0],
+          opcodes.OP_CHECKSIG,
+          fpKeys[1],
+          opcodes.OP_CHECKSIGADD,
+          script.number.encode(2),
+          opcodes.OP_NUMEQUALVERIFY,
+        ]),
+        scripts.unbondingScript.subarray(34),
+      ]);
+      expectParseError(
+        () => StakingScriptData.parseSlashingScript(malformed),
+        "slashingScript",
+      );
+    });
+
+    it("should reject leaves with different staker keys", () => {
+      const other = new StakingScriptData(
+        pk6,
+        [pk2],
+        [pk3, pk4, pk5],
+        2,
+        1000,
+        100,
+      ).buildScripts();
+      expectParseError(
+        () =>
+          StakingScriptData.fromScripts({
+            ...scripts,
+            slashingScript: other.slashingScript,
+          }),
+        "slashingScript",
+      );
+    });
+
+    it("should reject leaves with different covenant committees", () => {
+      const other = new StakingScriptData(
+        pk1,
+        [pk2],
+        [pk3, pk4, pk5],
+        3,
+        1000,
+        100,
+      ).buildScripts();
+      expectParseError(
+        () =>
+          StakingScriptData.fromScripts({
+            ...scripts,
+            slashingScript: other.slashingScript,
+          }),
+        "slashingScript",
+      );
+    });
+
+    it("should reject a script that cannot be decompiled", () => {
+      expectParseError(
+        () =>
+          StakingScriptData.fromScripts({
+            ...scripts,
+            unbondingScript: Buffer.from("4c", "hex"),
+          }),
+        "unbondingScript",
+      );
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import { BTC_DUST_SAT } from "../../../src/constants/dustSat";
+import { StakingError, StakingErrorCode } from "../../../src/error";
+import {
+  batchStakingTransaction,
+  Staking,
+  stakingTransaction,
+} from "../../../src/index";
+import { getStakingTxInputUTXOsAndFees } from "../../../src/utils/fee";
+import { buildStakingTransactionOutputs } from "../../../src/utils/staking";
+import { testingNetworks } from "../../helper";
+
+const feeRate = 2;
+
+describe.each(testingNetworks)(
+  "batchStakingTransaction",
+  ({ networkName, network, datagen: { stakingDatagen: dataGenerator } }) => {
+    const params = dataGenerator.generateStakingParams(true);
+    const { publicKey, publicKeyNoCoord } =
+      dataGenerator.generateRandomKeyPair();
+    const { address: funderAddress, scriptPubKey } =
+      dataGenerator.getAddressAndScriptPubKey(publicKey).taproot;
+    const funderBtcInfo = {
+      address: funderAddress,
+      publicKeyNoCoordHex: publicKeyNoCoord,
+    };
+    const utxos = dataGenerator.generateRandomUTXOs(
+      params.maxStakingAmountSat * 3,
+      3,
+      scriptPubKey,
+    );
+
+    // A staking instance of the funder to a new finality provider
+    const newStaking = (stakerBtcInfo = funderBtcInfo) =>
+      new Staking(
+        network,
+        stakerBtcInfo,
+        params,
+        [dataGenerator.generateRandomKeyPair().publicKeyNoCoord],
+        params.minStakingTimeBlocks,
+      );
+
+    it(`${networkName} should create one staking output per delegation`, () => {
+      const stakingOutputs = [
+        dataGenerator.generateMockStakingScripts(),
+        dataGenerator.generateMockStakingScripts(),
+      ].map((scripts, i) => ({ scripts, amount: 100_000 * (i + 1) }));
+
+      const { transaction, fee } = batchStakingTransaction(
+        stakingOutputs,
+        funderAddress,
+        utxos,
+        network,
+        feeRate,
+      );
+
+      const outputs = stakingOutputs.flatMap(({ scripts, amount }) =>
+        buildStakingTransactionOutputs(scripts, network, amount),
+      );
+      const { selectedUTXOs, fee: expectedFee } = getStakingTxInputUTXOsAndFees(
+        utxos,
+        300_000,
+        feeRate,
+        outputs,
+      );
+      expect(fee).toBe(expectedFee);
+      expect(transaction.ins).toHaveLength(selectedUTXOs.length);
+      expect(transaction.outs).toHaveLength(3);
+      outputs.forEach((output, i) => {
+        expect(transaction.outs[i].script).toEqual(output.scriptPubKey);
+        expect(transaction.outs[i].value).toBe(output.value);
+      });
+      const change = transaction.outs[2].value;
+      expect(change).toBeGreaterThan(BTC_DUST_SAT);
+      expect(change).toBe(
+        selectedUTXOs.reduce((acc, u) => acc + u.value, 0) - 300_000 - fee,
+      );
+    });
+
+    it(`${networkName} should pay less fee than one transaction per delegation`, () => {
+      const stakingOutputs = [
+        dataGenerator.generateMockStakingScripts(),
+        dataGenerator.generateMockStakingScripts(),
+      ].map((scripts) => ({ scripts, amount: 100_000 }));
+
+      const { fee } = batchStakingTransaction(
+        stakingOutputs,
+        funderAddress,
+        utxos,
+        network,
+        feeRate,
+      );
+
+      const separateFees = stakingOutputs.reduce(
+        (acc, { scripts, amount }) =>
+          acc +
+          stakingTransaction(
+            scripts,
+            amount,
+            funderAddress,
+            utxos,
+            network,
+            feeRate,
+          ).fee,
+        0,
+      );
+      expect(fee).toBeLessThan(separateFees);
+    });
+
+    it(`${networkName} should throw if there is nothing or the same output to create`, () => {
+      const scripts = dataGenerator.generateMockStakingScripts();
+
+      expect(() =>
+        batchStakingTransaction([], funderAddress, utxos, network, feeRate),
+      ).toThrow("At least one staking output is required");
+      expect(() =>
+        batchStakingTransaction(
+          [
+            { scripts, amount: 100_000 },
+            { scripts, amount: 100_000 },
+          ],
+          funderAddress,
+          utxos,
+          network,
+          feeRate,
+        ),
+      ).toThrow("A staking output cannot be created more than once");
+      expect(() =>
+        batchStakingTransaction(
+          [
+            { scripts, amount: 100_000 },
+            { scripts: dataGenerator.generateMockStakingScripts(), amount: 0 },
+          ],
+          funderAddress,
+          utxos,
+          network,
+          feeRate,
+        ),
+      ).toThrow("Amount and fee rate must be bigger than 0");
+    });
+
+    describe(`${networkName} - Staking`, () => {
+      it("should let each delegation spend its own staking output", () => {
+        const stakings = [newStaking(), newStaking()];
+
+        const { transaction } = Staking.createBatchStakingTransaction(
+          stakings.map((staking) => ({
+            staking,
+            stakingAmountSat: params.minStakingAmountSat,
+          })),
+          funderBtcInfo,
+          utxos,
+          feeRate,
+        );
+
+        stakings.forEach((staking, i) => {
+          const { transaction: unbondingTx } =
+            staking.createUnbondingTransaction(transaction);
+          expect(unbondingTx.ins[0].hash).toEqual(transaction.getHash());
+          expect(unbondingTx.ins[0].index).toBe(i);
+          const { psbt: slashingPsbt } =
+            staking.createStakingOutputSlashingPsbt(transaction);
+          expect(slashingPsbt.txInputs[0].index).toBe(i);
+        });
+        const psbt = Staking.toBatchStakingPsbt(
+          stakings,
+          funderBtcInfo,
+          transaction,
+          utxos,
+        );
+        psbt.data.inputs.forEach((input) => {
+          expect(input.tapInternalKey).toEqual(
+            Buffer.from(publicKeyNoCoord, "hex"),
+          );
+        });
+      });
+
+      it("should validate each delegation", () => {
+        expect(() =>
+          Staking.createBatchStakingTransaction(
+            [
+              { staking: newStaking(), stakingAmountSat: 1 },
+              {
+                staking: newStaking(),
+                stakingAmountSat: params.minStakingAmountSat,
+              },
+            ],
+            funderBtcInfo,
+            utxos,
+            feeRate,
+          ),
+        ).toThrow(
+          new StakingError(
+            StakingErrorCode.INVALID_INPUT,
+            "Invalid staking amount",
+          ),
+        );
+        expect(() =>
+          Staking.createBatchStakingTransaction([], funderBtcInfo, utxos, 1),
+        ).toThrow(
+          new StakingError(
+            StakingErrorCode.INVALID_INPUT,
+            "At least one delegation is required",
+          ),
+        );
+      });
+
+      it("should reject the delegations of other stakers", () => {
+        const otherStakers = [0, 1].map(() => {
+          const { publicKey, publicKeyNoCoord } =
+            dataGenerator.generateRandomKeyPair();
+          return {
+            address:
+              dataGenerator.getAddressAndScriptPubKey(publicKey).taproot
+                .address,
+            publicKeyNoCoordHex: publicKeyNoCoord,
+          };
+        });
+        const stakings = otherStakers.map((staker) => newStaking(staker));
+        const { transaction } = Staking.createBatchStakingTransaction(
+          [newStaking()].map((staking) => ({
+            staking,
+            stakingAmountSat: params.minStakingAmountSat,
+          })),
+          funderBtcInfo,
+          utxos,
+          feeRate,
+        );
+        const error = new StakingError(
+          StakingErrorCode.INVALID_INPUT,
+          "All the delegations must be staked by the wallet funding the transaction",
+        );
+
+        expect(() =>
+          Staking.createBatchStakingTransaction(
+            stakings.map((staking) => ({
+              staking,
+              stakingAmountSat: params.minStakingAmountSat,
+            })),
+            funderBtcInfo,
+            utxos,
+            feeRate,
+          ),
+        ).toThrow(error);
+        expect(() =>
+          Staking.createBatchStakingTransaction(
+            [newStaking(), stakings[0]].map((staking) => ({
+              staking,
+              stakingAmountSat: params.minStakingAmountSat,
+            })),
+            funderBtcInfo,
+            utxos,
+            feeRate,
+          ),
+        ).toThrow(error);
+        expect(() =>
+          Staking.toBatchStakingPsbt(
+            stakings,
+            funderBtcInfo,
+            transaction,
+            utxos,
+          ),
+        ).toThrow(error);
+      });
+
+      it("should throw if the staking output of a delegation is missing", () => {
+        const { transaction } = Staking.createBatchStakingTransaction(
+          [
+            {
+              staking: newStaking(),
+              stakingAmountSat: params.minStakingAmountSat,
+            },
+          ],
+          funderBtcInfo,
+          utxos,
+          feeRate,
+        );
+
+        expect(() =>
+          Staking.toBatchStakingPsbt(
+            [newStaking()],
+            funderBtcInfo,
+            transaction,
+            utxos,
+          ),
+        ).toThrow(
+          expect.objectContaining({ code: StakingErrorCode.INVALID_OUTPUT }),
+        );
+      });
+    });
+  },
+);
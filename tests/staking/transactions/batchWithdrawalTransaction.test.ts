@@ -0,0 +1,169 @@
+import { address, Psbt } from "bitcoinjs-lib";
+import { batchWithdrawalTransaction, Staking } from "../../../src";
+import { StakingErrorCode } from "../../../src/error";
+import { PrivateKeyBtcProvider } from "../../../src/providers";
+import { getBatchWithdrawTxFee } from "../../../src/utils/fee";
+import { testingNetworks } from "../../helper";
+
+const feeRate = 3;
+
+describe.each(testingNetworks)(
+  "batchWithdrawalTransaction",
+  ({ networkName, network, datagen: { stakingDatagen: dataGenerator } }) => {
+    const params = dataGenerator.generateStakingParams(true);
+
+    const setup = () => {
+      const { privateKey } = dataGenerator.generateRandomKeyPair();
+      const provider = new PrivateKeyBtcProvider(network, {
+        privateKeyHex: privateKey,
+      });
+      const stakerInfo = provider.getStakerInfo();
+      const scriptPubKey = address
+        .toOutputScript(stakerInfo.address, network)
+        .toString("hex");
+      // Two delegations with different timelocks
+      const [first, second] = [
+        params.minStakingTimeBlocks,
+        params.maxStakingTimeBlocks,
+      ].map((stakingTimelock) => {
+        const staking = new Staking(
+          network,
+          stakerInfo,
+          params,
+          [dataGenerator.generateRandomKeyPair().publicKeyNoCoord],
+          stakingTimelock,
+        );
+        const { transaction: stakingTx } = staking.createStakingTransaction(
+          params.minStakingAmountSat,
+          dataGenerator.generateRandomUTXOs(
+            params.maxStakingAmountSat,
+            1,
+            scriptPubKey,
+          ),
+          1,
+        );
+        return { staking, stakingTx };
+      });
+      const { transaction: unbondingTx } =
+        second.staking.createUnbondingTransaction(second.stakingTx);
+      const withdrawals = [
+        first.staking.createWithdrawalInput("staking-expired", first.stakingTx),
+        second.staking.createWithdrawalInput("early-unbonded", unbondingTx),
+      ];
+      return { provider, stakerInfo, first, second, unbondingTx, withdrawals };
+    };
+
+    it(`${networkName} should spend each output through its timelock path`, async () => {
+      const { provider, stakerInfo, first, second, unbondingTx, withdrawals } =
+        setup();
+
+      const { psbt, fee } = batchWithdrawalTransaction(
+        withdrawals,
+        stakerInfo.address,
+        network,
+        feeRate,
+      );
+
+      expect(psbt.txInputs).toHaveLength(2);
+      expect(psbt.txInputs[0].hash).toEqual(first.stakingTx.getHash());
+      expect(psbt.txInputs[0].sequence).toBe(first.staking.stakingTimelock);
+      expect(psbt.data.inputs[0].tapLeafScript![0].script).toEqual(
+        first.staking.buildScripts().timelockScript,
+      );
+      expect(psbt.txInputs[1].hash).toEqual(unbondingTx.getHash());
+      expect(psbt.txInputs[1].index).toBe(0);
+      expect(psbt.txInputs[1].sequence).toBe(params.unbondingTime);
+      expect(psbt.data.inputs[1].tapLeafScript![0].script).toEqual(
+        second.staking.buildScripts().unbondingTimelockScript,
+      );
+      expect(fee).toBe(getBatchWithdrawTxFee(feeRate, 2));
+      expect(psbt.txOutputs).toHaveLength(1);
+      expect(psbt.txOutputs[0].address).toBe(stakerInfo.address);
+      expect(psbt.txOutputs[0].value).toBe(
+        first.stakingTx.outs[withdrawals[0].outputIndex].value +
+          unbondingTx.outs[0].value -
+          fee,
+      );
+
+      // A single signature request covers all the inputs
+      const signedTx = Psbt.fromHex(
+        await provider.signPsbt(psbt.toHex()),
+      ).extractTransaction();
+      signedTx.ins.forEach((input) => {
+        expect(input.witness.length).toBeGreaterThan(0);
+      });
+    });
+
+    it(`${networkName} should pay less fee than one withdrawal per output`, () => {
+      const { stakerInfo, first, unbondingTx, second, withdrawals } = setup();
+
+      const { fee } = batchWithdrawalTransaction(
+        withdrawals,
+        stakerInfo.address,
+        network,
+        feeRate,
+      );
+
+      const { fee: stakingExpiredFee } =
+        first.staking.createWithdrawStakingExpiredPsbt(
+          first.stakingTx,
+          feeRate,
+        );
+      const { fee: earlyUnbondedFee } =
+        second.staking.createWithdrawEarlyUnbondedTransaction(
+          unbondingTx,
+          feeRate,
+        );
+      expect(fee).toBeLessThan(stakingExpiredFee + earlyUnbondedFee);
+    });
+
+    it(`${networkName} should estimate the exact fee of the signed transaction`, async () => {
+      const { provider, stakerInfo, withdrawals } = setup();
+
+      const { psbt, fee } = batchWithdrawalTransaction(
+        withdrawals,
+        stakerInfo.address,
+        network,
+        feeRate,
+        "exact",
+      );
+
+      const signedTx = Psbt.fromHex(
+        await provider.signPsbt(psbt.toHex()),
+      ).extractTransaction();
+      expect(fee).toBe(signedTx.virtualSize() * feeRate);
+    });
+
+    it(`${networkName} should throw if there is nothing or the same output to withdraw`, () => {
+      const { stakerInfo, withdrawals } = setup();
+
+      expect(() =>
+        batchWithdrawalTransaction([], stakerInfo.address, network, feeRate),
+      ).toThrow("At least one withdrawal is required");
+      expect(() =>
+        batchWithdrawalTransaction(
+          [...withdrawals, withdrawals[0]],
+          stakerInfo.address,
+          network,
+          feeRate,
+        ),
+      ).toThrow("An output cannot be withdrawn more than once");
+      expect(() =>
+        batchWithdrawalTransaction(withdrawals, stakerInfo.address, network, 0),
+      ).toThrow("Withdrawal feeRate must be bigger than 0");
+    });
+
+    it(`${networkName} should throw if the transaction has no output of the delegation`, () => {
+      const { first, second } = setup();
+
+      expect(() =>
+        first.staking.createWithdrawalInput(
+          "staking-expired",
+          second.stakingTx,
+        ),
+      ).toThrow(
+        expect.objectContaining({ code: StakingErrorCode.INVALID_OUTPUT }),
+      );
+    });
+  },
+);
@@ -0,0 +1,323 @@
+import { Transaction } from "bitcoinjs-lib";
+import { BTC_DUST_SAT } from "../../../src/constants/dustSat";
+import {
+  INCREMENTAL_RELAY_FEE_RATE,
+  MAX_NON_LEGACY_OUTPUT_SIZE,
+} from "../../../src/constants/fee";
+import { NON_RBF_SEQUENCE, RBF_SEQUENCE } from "../../../src/constants/psbt";
+import { StakingError, StakingErrorCode } from "../../../src/error";
+import {
+  bumpStakingTransactionFee,
+  Staking,
+  stakingTransaction,
+  transactionIdToHash,
+  UTXO,
+} from "../../../src/index";
+import { getStakingTxInputUTXOsAndFees } from "../../../src/utils/fee";
+import { testingNetworks } from "../../helper";
+
+const originalFeeRate = 2;
+const newFeeRate = 10;
+
+const sumValues = (values: { value: number }[]) =>
+  values.reduce((acc, { value }) => acc + value, 0);
+
+describe.each(testingNetworks)(
+  "bumpStakingTransactionFee",
+  ({ networkName, network, datagen: { stakingDatagen: dataGenerator } }) => {
+    const setup = (balance: number, numberOfUTXOs: number) => {
+      const { publicKey, publicKeyNoCoord } =
+        dataGenerator.generateRandomKeyPair();
+      const { address: changeAddress, scriptPubKey } =
+        dataGenerator.getAddressAndScriptPubKey(publicKey).taproot;
+      const scripts = dataGenerator.generateMockStakingScripts();
+      const utxos = dataGenerator.generateRandomUTXOs(
+        balance,
+        numberOfUTXOs,
+        scriptPubKey,
+      );
+      const stakingAmount = 100_000;
+      const { transaction: originalTx, fee: originalFee } = stakingTransaction(
+        scripts,
+        stakingAmount,
+        changeAddress,
+        utxos,
+        network,
+        originalFeeRate,
+        { replaceable: true },
+      );
+      return {
+        publicKey,
+        publicKeyNoCoord,
+        changeAddress,
+        scriptPubKey,
+        scripts,
+        utxos,
+        stakingAmount,
+        originalTx,
+        originalFee,
+      };
+    };
+    const spentUTXOs = (tx: Transaction, utxos: UTXO[]) =>
+      tx.ins.map((input) =>
+        utxos.find(
+          (u) =>
+            transactionIdToHash(u.txid).equals(input.hash) &&
+            u.vout === input.index,
+        )!,
+      );
+
+    it(`${networkName} should signal replace-by-fee only if opted in`, () => {
+      const { originalTx, scripts, changeAddress, utxos, stakingAmount } =
+        setup(1_000_000, 2);
+
+      const { transaction } = stakingTransaction(
+        scripts,
+        stakingAmount,
+        changeAddress,
+        utxos,
+        network,
+        originalFeeRate,
+      );
+
+      originalTx.ins.forEach((input) => {
+        expect(input.sequence).toBe(RBF_SEQUENCE);
+      });
+      transaction.ins.forEach((input) => {
+        expect(input.sequence).toBe(NON_RBF_SEQUENCE);
+      });
+    });
+
+    it(`${networkName} should replace the transaction with a higher fee from its change`, () => {
+      const { originalTx, originalFee, changeAddress, utxos, stakingAmount } =
+        setup(1_000_000, 2);
+
+      const { transaction, fee } = bumpStakingTransactionFee(
+        originalTx,
+        newFeeRate,
+        utxos,
+        changeAddress,
+        network,
+      );
+
+      // Same inputs, replaceable again
+      expect(transaction.ins.map((input) => input.hash)).toEqual(
+        originalTx.ins.map((input) => input.hash),
+      );
+      transaction.ins.forEach((input) => {
+        expect(input.sequence).toBe(RBF_SEQUENCE);
+      });
+      // Same outputs but the change, which pays the higher fee
+      expect(transaction.outs.length).toBe(originalTx.outs.length);
+      transaction.outs.slice(0, -1).forEach((output, i) => {
+        expect(output.script).toEqual(originalTx.outs[i].script);
+        expect(output.value).toBe(originalTx.outs[i].value);
+      });
+      const { fee: expectedFee } = getStakingTxInputUTXOsAndFees(
+        spentUTXOs(originalTx, utxos),
+        stakingAmount,
+        newFeeRate,
+        transaction.outs.slice(0, -1).map((output) => ({
+          scriptPubKey: output.script,
+          value: output.value,
+        })),
+      );
+      expect(fee).toBe(expectedFee);
+      expect(fee).toBeGreaterThan(originalFee);
+      expect(sumValues(spentUTXOs(transaction, utxos))).toBe(
+        sumValues(transaction.outs) + fee,
+      );
+      expect(transaction.locktime).toBe(originalTx.locktime);
+      expect(transaction.getId()).not.toBe(originalTx.getId());
+    });
+
+    it(`${networkName} should pay at least the original fee plus the incremental relay fee`, () => {
+      const { originalTx, originalFee, changeAddress, utxos } = setup(
+        1_000_000,
+        1,
+      );
+
+      const { fee } = bumpStakingTransactionFee(
+        originalTx,
+        originalFeeRate,
+        utxos,
+        changeAddress,
+        network,
+      );
+
+      // The fee at the original fee rate gives the estimated size
+      expect(fee).toBe(
+        originalFee +
+          (originalFee / originalFeeRate) * INCREMENTAL_RELAY_FEE_RATE,
+      );
+    });
+
+    it(`${networkName} should add UTXOs if the original inputs do not cover the fee`, () => {
+      const { originalTx, changeAddress, utxos, stakingAmount, scriptPubKey } =
+        setup(1_000_000, 1);
+      // Spend the original input without change
+      const changeValue = originalTx.outs[originalTx.outs.length - 1].value;
+      const changelessTx = originalTx.clone();
+      changelessTx.outs.pop();
+      changelessTx.outs[0].value = stakingAmount + changeValue - 1_000;
+      const additionalUTXO = {
+        ...dataGenerator.generateRandomUTXOs(50_000, 1, scriptPubKey)[0],
+      };
+
+      const { transaction, fee } = bumpStakingTransactionFee(
+        changelessTx,
+        newFeeRate,
+        [...utxos, additionalUTXO],
+        changeAddress,
+        network,
+      );
+
+      expect(transaction.ins).toHaveLength(2);
+      expect(transaction.ins[1].hash).toEqual(
+        transactionIdToHash(additionalUTXO.txid),
+      );
+      expect(transaction.outs).toHaveLength(changelessTx.outs.length + 1);
+      const change = transaction.outs[transaction.outs.length - 1].value;
+      expect(change).toBeGreaterThan(BTC_DUST_SAT);
+      expect(
+        sumValues(spentUTXOs(transaction, [...utxos, additionalUTXO])),
+      ).toBe(sumValues(transaction.outs) + fee);
+      // The fee covers the change output added by the replacement
+      expect(fee).toBeGreaterThanOrEqual(
+        MAX_NON_LEGACY_OUTPUT_SIZE * newFeeRate,
+      );
+    });
+
+    it(`${networkName} should throw if the original transaction does not signal replace-by-fee`, () => {
+      const { scripts, changeAddress, utxos, stakingAmount } = setup(
+        1_000_000,
+        2,
+      );
+      const { transaction } = stakingTransaction(
+        scripts,
+        stakingAmount,
+        changeAddress,
+        utxos,
+        network,
+        originalFeeRate,
+      );
+
+      expect(() =>
+        bumpStakingTransactionFee(
+          transaction,
+          newFeeRate,
+          utxos,
+          changeAddress,
+          network,
+        ),
+      ).toThrow(
+        "The original transaction does not signal replace-by-fee and cannot be replaced",
+      );
+    });
+
+    it(`${networkName} should throw if an input of the original transaction is missing`, () => {
+      const { originalTx, changeAddress, utxos } = setup(1_000_000, 1);
+
+      expect(() =>
+        bumpStakingTransactionFee(
+          originalTx,
+          newFeeRate,
+          utxos.slice(1),
+          changeAddress,
+          network,
+        ),
+      ).toThrow("Input UTXO not found");
+    });
+
+    it(`${networkName} should throw if the UTXOs cannot cover the replacement fee`, () => {
+      const { originalTx, changeAddress, utxos } = setup(1_000_000, 1);
+
+      expect(() =>
+        bumpStakingTransactionFee(
+          originalTx,
+          100_000,
+          utxos,
+          changeAddress,
+          network,
+        ),
+      ).toThrow(
+        "Insufficient funds: unable to gather enough UTXOs to cover the replacement fee",
+      );
+    });
+
+    describe(`${networkName} - Staking`, () => {
+      const params = dataGenerator.generateStakingParams(true);
+      const { publicKey, publicKeyNoCoord } =
+        dataGenerator.generateRandomKeyPair();
+      const { address, scriptPubKey } =
+        dataGenerator.getAddressAndScriptPubKey(publicKey).taproot;
+      const stakerInfo = { address, publicKeyNoCoordHex: publicKeyNoCoord };
+      const newStaking = () =>
+        new Staking(
+          network,
+          stakerInfo,
+          params,
+          [dataGenerator.generateRandomKeyPair().publicKeyNoCoord],
+          params.minStakingTimeBlocks,
+        );
+      const utxos = dataGenerator.generateRandomUTXOs(
+        params.maxStakingAmountSat * 2,
+        2,
+        scriptPubKey,
+      );
+
+      it("should bump the fee of its replaceable staking transaction", () => {
+        const staking = newStaking();
+        const { transaction: originalTx } = staking.createStakingTransaction(
+          params.minStakingAmountSat,
+          utxos,
+          originalFeeRate,
+          { replaceable: true },
+        );
+
+        const { transaction } = staking.bumpStakingTransactionFee(
+          originalTx,
+          newFeeRate,
+          utxos,
+        );
+
+        expect(transaction.outs[0]).toEqual(originalTx.outs[0]);
+        expect(() => staking.toStakingPsbt(transaction, utxos)).not.toThrow();
+      });
+
+      it("should throw if the transaction does not have its staking output", () => {
+        const { transaction: originalTx } =
+          newStaking().createStakingTransaction(
+            params.minStakingAmountSat,
+            utxos,
+            originalFeeRate,
+            { replaceable: true },
+          );
+
+        expect(() =>
+          newStaking().bumpStakingTransactionFee(originalTx, newFeeRate, utxos),
+        ).toThrow(
+          expect.objectContaining({ code: StakingErrorCode.INVALID_OUTPUT }),
+        );
+      });
+
+      it("should throw a StakingError if the replacement cannot be built", () => {
+        const staking = newStaking();
+        const { transaction: originalTx } = staking.createStakingTransaction(
+          params.minStakingAmountSat,
+          utxos,
+          originalFeeRate,
+        );
+
+        expect(() =>
+          staking.bumpStakingTransactionFee(originalTx, newFeeRate, utxos),
+        ).toThrow(
+          new StakingError(
+            StakingErrorCode.BUILD_TRANSACTION_FAILURE,
+            "The original transaction does not signal replace-by-fee and cannot be replaced",
+          ),
+        );
+      });
+    });
+  },
+);
@@ -0,0 +1,222 @@
+import { address, Psbt } from "bitcoinjs-lib";
+import { cpfpTransaction, Staking, transactionIdToHash } from "../../../src";
+import { RBF_SEQUENCE } from "../../../src/constants/psbt";
+import { StakingError, StakingErrorCode } from "../../../src/error";
+import { PrivateKeyBtcProvider } from "../../../src/providers";
+import {
+  getCpfpChildFee,
+  getPlaceholderTxVirtualSize,
+  getUTXOPlaceholderInput,
+} from "../../../src/utils/fee";
+import { testingNetworks } from "../../helper";
+
+describe.each(testingNetworks)(
+  "cpfpTransaction",
+  ({ networkName, network, datagen: { stakingDatagen: dataGenerator } }) => {
+    const params = dataGenerator.generateStakingParams(true);
+    const stakingAmount = params.minStakingAmountSat;
+
+    // Builds and signs a staking transaction leaving the given change to the
+    // staker, along with other UTXOs of the staker wallet
+    const setup = async (change: number) => {
+      const { privateKey } = dataGenerator.generateRandomKeyPair();
+      const provider = new PrivateKeyBtcProvider(network, {
+        privateKeyHex: privateKey,
+      });
+      const stakerInfo = provider.getStakerInfo();
+      const staking = new Staking(
+        network,
+        stakerInfo,
+        params,
+        [dataGenerator.generateRandomKeyPair().publicKeyNoCoord],
+        params.minStakingTimeBlocks,
+      );
+      const scriptPubKey = address
+        .toOutputScript(stakerInfo.address, network)
+        .toString("hex");
+      const fundingUTXOs = dataGenerator.generateRandomUTXOs(
+        stakingAmount + change,
+        1,
+        scriptPubKey,
+      );
+      const { transaction: unsignedParentTx, fee: parentFee } =
+        staking.createStakingTransaction(stakingAmount, fundingUTXOs, 1);
+      const parentTx = Psbt.fromHex(
+        await provider.signPsbt(
+          staking.toStakingPsbt(unsignedParentTx, fundingUTXOs).toHex(),
+        ),
+      ).extractTransaction();
+      const walletUTXOs = dataGenerator.generateRandomUTXOs(
+        200_000,
+        3,
+        scriptPubKey,
+      );
+      return {
+        provider,
+        stakerInfo,
+        staking,
+        unsignedParentTx,
+        parentTx,
+        parentFee,
+        walletUTXOs,
+      };
+    };
+
+    it(`${networkName} should compute the child fee from the package`, () => {
+      expect(getCpfpChildFee(200, 200, 100, 10)).toBe(2800);
+      // The parent already pays more than the target fee rate
+      expect(getCpfpChildFee(200, 5000, 100, 10)).toBe(1000);
+      expect(getCpfpChildFee(150, 100, 111, 1.5)).toBe(292);
+    });
+
+    it(`${networkName} should spend the parent change to reach the target fee rate`, async () => {
+      const { provider, stakerInfo, parentTx, parentFee, walletUTXOs } =
+        await setup(100_000);
+      const targetFeeRate = 20;
+
+      const { psbt, fee } = cpfpTransaction(
+        { transaction: parentTx, fee: parentFee },
+        parentTx.outs.length - 1,
+        walletUTXOs,
+        stakerInfo.address,
+        network,
+        targetFeeRate,
+        Buffer.from(stakerInfo.publicKeyNoCoordHex, "hex"),
+      );
+
+      expect(psbt.txInputs).toHaveLength(1);
+      expect(psbt.txInputs[0].hash).toEqual(parentTx.getHash());
+      expect(psbt.txInputs[0].sequence).toBe(RBF_SEQUENCE);
+      expect(psbt.txOutputs).toHaveLength(1);
+      expect(psbt.txOutputs[0].value).toBe(
+        parentTx.outs[parentTx.outs.length - 1].value - fee,
+      );
+
+      const childTx = Psbt.fromHex(
+        await provider.signPsbt(psbt.toHex()),
+      ).extractTransaction();
+      const packageFeeRate =
+        (parentFee + fee) / (parentTx.virtualSize() + childTx.virtualSize());
+      expect(packageFeeRate).toBeGreaterThanOrEqual(targetFeeRate);
+      expect(packageFeeRate).toBeLessThan(targetFeeRate + 0.1);
+    });
+
+    it(`${networkName} should add wallet UTXOs if the parent output does not cover the fee`, async () => {
+      const { stakerInfo, parentTx, parentFee, walletUTXOs } =
+        await setup(3_000);
+      const parentOutputIndex = parentTx.outs.length - 1;
+      const parentOutput = parentTx.outs[parentOutputIndex];
+      // The wallet lists the unconfirmed parent output along with its UTXOs
+      const utxos = [
+        {
+          txid: parentTx.getId(),
+          vout: parentOutputIndex,
+          value: parentOutput.value,
+          scriptPubKey: parentOutput.script.toString("hex"),
+        },
+        ...walletUTXOs,
+      ];
+
+      const { psbt, fee } = cpfpTransaction(
+        { transaction: parentTx, fee: parentFee },
+        parentOutputIndex,
+        utxos,
+        stakerInfo.address,
+        network,
+        50,
+        Buffer.from(stakerInfo.publicKeyNoCoordHex, "hex"),
+      );
+
+      const largestUTXO = [...walletUTXOs].sort((a, b) => b.value - a.value)[0];
+      expect(psbt.txInputs).toHaveLength(2);
+      expect(psbt.txInputs[1].hash).toEqual(
+        transactionIdToHash(largestUTXO.txid),
+      );
+      expect(psbt.data.inputs[1].tapInternalKey).toEqual(
+        Buffer.from(stakerInfo.publicKeyNoCoordHex, "hex"),
+      );
+      const childVsize = getPlaceholderTxVirtualSize(
+        [{ ...utxos[0], rawTxHex: undefined }, largestUTXO].map(
+          getUTXOPlaceholderInput,
+        ),
+        [],
+        true,
+      );
+      expect(fee).toBe(
+        getCpfpChildFee(parentTx.virtualSize(), parentFee, childVsize, 50),
+      );
+      expect(psbt.txOutputs[0].value).toBe(
+        parentOutput.value + largestUTXO.value - fee,
+      );
+    });
+
+    it(`${networkName} should throw if the parent transaction is not signed`, async () => {
+      const { stakerInfo, unsignedParentTx, parentFee, walletUTXOs } =
+        await setup(100_000);
+
+      expect(() =>
+        cpfpTransaction(
+          { transaction: unsignedParentTx, fee: parentFee },
+          unsignedParentTx.outs.length - 1,
+          walletUTXOs,
+          stakerInfo.address,
+          network,
+          10,
+        ),
+      ).toThrow("The parent transaction must be signed");
+    });
+
+    it(`${networkName} should throw if the UTXOs cannot cover the child fee`, async () => {
+      const { stakerInfo, parentTx, parentFee } = await setup(3_000);
+
+      expect(() =>
+        cpfpTransaction(
+          { transaction: parentTx, fee: parentFee },
+          parentTx.outs.length - 1,
+          [],
+          stakerInfo.address,
+          network,
+          50,
+        ),
+      ).toThrow(
+        "Insufficient funds: unable to gather enough UTXOs to cover the child transaction fee",
+      );
+      expect(() =>
+        cpfpTransaction(
+          { transaction: parentTx, fee: parentFee },
+          parentTx.outs.length,
+          [],
+          stakerInfo.address,
+          network,
+          50,
+        ),
+      ).toThrow("Parent output index is out of range");
+    });
+
+    it(`${networkName} should only spend a parent output to the staker address`, async () => {
+      const { stakerInfo, staking, parentTx, parentFee, walletUTXOs } =
+        await setup(100_000);
+
+      const { psbt } = staking.createCpfpPsbt(
+        { transaction: parentTx, fee: parentFee },
+        parentTx.outs.length - 1,
+        walletUTXOs,
+        10,
+      );
+      expect(psbt.txOutputs[0].address).toBe(stakerInfo.address);
+      expect(() =>
+        staking.createCpfpPsbt(
+          { transaction: parentTx, fee: parentFee },
+          0,
+          walletUTXOs,
+          10,
+        ),
+      ).toThrow(
+        new StakingError(
+          StakingErrorCode.INVALID_INPUT,
+          "The parent output is not sent to the staker address",
+        ),
+      );
+    });
+  },
+);
@@ -0,0 +1,232 @@
+import { address, Psbt } from "bitcoinjs-lib";
+import { restakingTransaction, Staking } from "../../../src";
+import { NON_RBF_SEQUENCE } from "../../../src/constants/psbt";
+import { PrivateKeyBtcProvider } from "../../../src/providers";
+import { inputValueSum } from "../../../src/utils/fee/utils";
+import { testingNetworks } from "../../helper";
+
+const feeRate = 2;
+
+describe.each(testingNetworks)(
+  "restakingTransaction",
+  ({ networkName, network, datagen: { stakingDatagen: dataGenerator } }) => {
+    const params = dataGenerator.generateStakingParams(true);
+
+    const setup = () => {
+      const provider = new PrivateKeyBtcProvider(network, {
+        privateKeyHex: dataGenerator.generateRandomKeyPair().privateKey,
+      });
+      const stakerInfo = provider.getStakerInfo();
+      const scriptPubKey = address
+        .toOutputScript(stakerInfo.address, network)
+        .toString("hex");
+      const newStaking = () =>
+        new Staking(
+          network,
+          stakerInfo,
+          params,
+          [dataGenerator.generateRandomKeyPair().publicKeyNoCoord],
+          params.minStakingTimeBlocks,
+        );
+      // An expired delegation and an unbonded one
+      const [first, second] = [1, 2].map(() => {
+        const staking = newStaking();
+        const { transaction: stakingTx } = staking.createStakingTransaction(
+          params.maxStakingAmountSat,
+          dataGenerator.generateRandomUTXOs(
+            params.maxStakingAmountSat * 2,
+            1,
+            scriptPubKey,
+          ),
+          1,
+        );
+        return { staking, stakingTx };
+      });
+      const { transaction: unbondingTx } =
+        second.staking.createUnbondingTransaction(second.stakingTx);
+      const withdrawals = [
+        first.staking.createWithdrawalInput("staking-expired", first.stakingTx),
+        second.staking.createWithdrawalInput("early-unbonded", unbondingTx),
+      ];
+      const withdrawnValue =
+        first.stakingTx.outs[withdrawals[0].outputIndex].value +
+        unbondingTx.outs[0].value;
+      const inputUTXOs = dataGenerator.generateRandomUTXOs(
+        params.maxStakingAmountSat,
+        2,
+        scriptPubKey,
+      );
+      return {
+        provider,
+        stakerInfo,
+        staking: newStaking(),
+        first,
+        unbondingTx,
+        withdrawals,
+        withdrawnValue,
+        inputUTXOs,
+      };
+    };
+
+    it(`${networkName} should re-stake the withdrawn outputs without wallet inputs`, async () => {
+      const {
+        provider,
+        stakerInfo,
+        staking,
+        first,
+        unbondingTx,
+        withdrawals,
+        withdrawnValue,
+      } = setup();
+      const amount = params.minStakingAmountSat;
+
+      const { transaction, fee, fundingUTXOs } = restakingTransaction(
+        staking.buildScripts(),
+        amount,
+        withdrawals,
+        stakerInfo.address,
+        [],
+        network,
+        feeRate,
+      );
+
+      expect(fundingUTXOs).toEqual([]);
+      expect(transaction.version).toBe(2);
+      expect(transaction.ins).toHaveLength(2);
+      expect(transaction.ins[0].hash).toEqual(first.stakingTx.getHash());
+      expect(transaction.ins[0].sequence).toBe(params.minStakingTimeBlocks);
+      expect(transaction.ins[1].hash).toEqual(unbondingTx.getHash());
+      expect(transaction.ins[1].sequence).toBe(params.unbondingTime);
+      expect(transaction.outs[0].value).toBe(amount);
+      const change = transaction.outs[transaction.outs.length - 1];
+      expect(change.script).toEqual(
+        address.toOutputScript(stakerInfo.address, network),
+      );
+      expect(change.value).toBe(withdrawnValue - amount - fee);
+
+      // The staker signs the timelock path of each withdrawn output
+      const psbt = staking.toRestakingPsbt(transaction, withdrawals, []);
+      const signedTx = Psbt.fromHex(
+        await provider.signPsbt(psbt.toHex()),
+      ).extractTransaction();
+      expect(signedTx.getId()).toBe(transaction.getId());
+      signedTx.ins.forEach(({ witness }) => {
+        expect(witness.length).toBeGreaterThan(0);
+      });
+    });
+
+    it(`${networkName} should fund the rest of the staking amount from the wallet`, async () => {
+      const {
+        provider,
+        stakerInfo,
+        staking,
+        withdrawals,
+        withdrawnValue,
+        inputUTXOs,
+      } = setup();
+      const amount = withdrawnValue + 10_000;
+
+      const { transaction, fee, fundingUTXOs } = restakingTransaction(
+        staking.buildScripts(),
+        amount,
+        withdrawals,
+        stakerInfo.address,
+        inputUTXOs,
+        network,
+        feeRate,
+      );
+
+      expect(fundingUTXOs.length).toBeGreaterThan(0);
+      expect(transaction.ins).toHaveLength(
+        withdrawals.length + fundingUTXOs.length,
+      );
+      transaction.ins.slice(withdrawals.length).forEach(({ sequence }) => {
+        expect(sequence).toBe(NON_RBF_SEQUENCE);
+      });
+      expect(transaction.outs[0].value).toBe(amount);
+      expect(transaction.outs[transaction.outs.length - 1].value).toBe(
+        withdrawnValue + inputValueSum(fundingUTXOs) - amount - fee,
+      );
+
+      const psbt = staking.toRestakingPsbt(
+        transaction,
+        withdrawals,
+        inputUTXOs,
+      );
+      const signedTx = Psbt.fromHex(
+        await provider.signPsbt(psbt.toHex()),
+      ).extractTransaction();
+      expect(signedTx.getId()).toBe(transaction.getId());
+    });
+
+    it(`${networkName} should estimate the exact fee of the signed transaction`, async () => {
+      const { provider, stakerInfo, staking, withdrawals } = setup();
+
+      const { transaction, fee } = restakingTransaction(
+        staking.buildScripts(),
+        params.minStakingAmountSat,
+        withdrawals,
+        stakerInfo.address,
+        [],
+        network,
+        feeRate,
+        { feeEstimationMode: "exact" },
+      );
+
+      const psbt = staking.toRestakingPsbt(transaction, withdrawals, []);
+      const signedTx = Psbt.fromHex(
+        await provider.signPsbt(psbt.toHex()),
+      ).extractTransaction();
+      expect(fee).toBe(signedTx.virtualSize() * feeRate);
+    });
+
+    it(`${networkName} should throw if the re-staking transaction cannot be built`, () => {
+      const { stakerInfo, staking, withdrawals, withdrawnValue } = setup();
+      const build = (
+        amount: number,
+        restaked = withdrawals,
+        changeAddress = stakerInfo.address,
+      ) =>
+        restakingTransaction(
+          staking.buildScripts(),
+          amount,
+          restaked,
+          changeAddress,
+          [],
+          network,
+          feeRate,
+        );
+
+      expect(() => build(0)).toThrow(
+        "Amount and fee rate must be bigger than 0",
+      );
+      expect(() =>
+        build(params.minStakingAmountSat, withdrawals, "invalid"),
+      ).toThrow("Invalid change address");
+      expect(() => build(params.minStakingAmountSat, [])).toThrow(
+        "At least one withdrawal is required",
+      );
+      expect(() =>
+        build(params.minStakingAmountSat, [withdrawals[0], withdrawals[0]]),
+      ).toThrow("An output cannot be withdrawn more than once");
+      expect(() => build(withdrawnValue)).toThrow("Insufficient funds");
+    });
+
+    it(`${networkName} should throw if the PSBT does not spend the withdrawn outputs`, () => {
+      const { stakerInfo, staking, withdrawals } = setup();
+      const { transaction } = restakingTransaction(
+        staking.buildScripts(),
+        params.minStakingAmountSat,
+        withdrawals,
+        stakerInfo.address,
+        [],
+        network,
+        feeRate,
+      );
+
+      expect(() =>
+        staking.toRestakingPsbt(transaction, [...withdrawals].reverse(), []),
+      ).toThrow("Input 0 does not spend the withdrawn output");
+    });
+  },
+);
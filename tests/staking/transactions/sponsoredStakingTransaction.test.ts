@@ -0,0 +1,157 @@
+import { address, Psbt } from "bitcoinjs-lib";
+import { Staking, stakingTransaction } from "../../../src";
+import { BTC_DUST_SAT } from "../../../src/constants/dustSat";
+import { PrivateKeyBtcProvider } from "../../../src/providers";
+import { inputValueSum } from "../../../src/utils/fee/utils";
+import { testingNetworks } from "../../helper";
+
+const feeRate = 2;
+
+describe.each(testingNetworks)(
+  "stakingTransaction with a fee sponsor",
+  ({ networkName, network, datagen: { stakingDatagen: dataGenerator } }) => {
+    const params = dataGenerator.generateStakingParams(true);
+    const stakingAmount = params.minStakingAmountSat;
+
+    const setup = () => {
+      const [staker, sponsor] = [1, 2].map(() => {
+        const provider = new PrivateKeyBtcProvider(network, {
+          privateKeyHex: dataGenerator.generateRandomKeyPair().privateKey,
+        });
+        const info = provider.getStakerInfo();
+        const scriptPubKey = address
+          .toOutputScript(info.address, network)
+          .toString("hex");
+        return { provider, info, scriptPubKey };
+      });
+      const stakerUTXOs = dataGenerator.generateRandomUTXOs(
+        stakingAmount * 3,
+        2,
+        staker.scriptPubKey,
+      );
+      const feeSponsor = {
+        ...sponsor.info,
+        inputUTXOs: dataGenerator.generateRandomUTXOs(
+          100_000,
+          2,
+          sponsor.scriptPubKey,
+        ),
+      };
+      return { staker, sponsor, stakerUTXOs, feeSponsor };
+    };
+
+    it(`${networkName} should pay the staking amount from the staker and the fee from the sponsor`, () => {
+      const { staker, stakerUTXOs, feeSponsor } = setup();
+      const scripts = dataGenerator.generateMockStakingScripts();
+
+      const { transaction, fee } = stakingTransaction(
+        scripts,
+        stakingAmount,
+        staker.info.address,
+        stakerUTXOs,
+        network,
+        feeRate,
+        { feeSponsor },
+      );
+
+      const utxosOfInputs = (utxos: typeof stakerUTXOs) =>
+        transaction.ins.map(({ hash, index }) =>
+          utxos.find(
+            ({ txid, vout }) =>
+              Buffer.from(hash).reverse().toString("hex") === txid &&
+              vout === index,
+          ),
+        );
+      // The inputs of the staker come first
+      const stakerInputs = utxosOfInputs(stakerUTXOs).filter((u) => !!u);
+      const sponsorInputs = utxosOfInputs(feeSponsor.inputUTXOs).filter(
+        (u) => !!u,
+      );
+      expect(stakerInputs.length + sponsorInputs.length).toBe(
+        transaction.ins.length,
+      );
+      expect(utxosOfInputs(stakerUTXOs)[0]).toBeDefined();
+      expect(
+        utxosOfInputs(feeSponsor.inputUTXOs)[transaction.ins.length - 1],
+      ).toBeDefined();
+
+      // Each party receives its own change
+      const stakerChange = inputValueSum(stakerInputs) - stakingAmount;
+      const sponsorChange = inputValueSum(sponsorInputs) - fee;
+      expect(stakerChange).toBeGreaterThan(BTC_DUST_SAT);
+      expect(sponsorChange).toBeGreaterThan(BTC_DUST_SAT);
+      const changeOutputs = transaction.outs.slice(-2);
+      expect(changeOutputs[0].script.toString("hex")).toBe(staker.scriptPubKey);
+      expect(changeOutputs[0].value).toBe(stakerChange);
+      expect(changeOutputs[1].script).toEqual(
+        address.toOutputScript(feeSponsor.address, network),
+      );
+      expect(changeOutputs[1].value).toBe(sponsorChange);
+    });
+
+    it(`${networkName} should let each provider sign its own inputs`, async () => {
+      const { staker, sponsor, stakerUTXOs, feeSponsor } = setup();
+      const staking = new Staking(
+        network,
+        staker.info,
+        params,
+        [dataGenerator.generateRandomKeyPair().publicKeyNoCoord],
+        params.minStakingTimeBlocks,
+      );
+      const { transaction } = staking.createStakingTransaction(
+        stakingAmount,
+        stakerUTXOs,
+        feeRate,
+        { feeSponsor },
+      );
+      const psbt = staking.toStakingPsbt(transaction, stakerUTXOs, {
+        feeSponsor,
+      });
+      const sponsorInputIndex = transaction.ins.length - 1;
+
+      const stakerPsbt = Psbt.fromHex(
+        await staker.provider.signPsbt(psbt.toHex()),
+      );
+      const sponsorPsbt = Psbt.fromHex(
+        await sponsor.provider.signPsbt(psbt.toHex()),
+      );
+
+      expect(
+        stakerPsbt.data.inputs[sponsorInputIndex].finalScriptWitness,
+      ).toBeUndefined();
+      expect(sponsorPsbt.data.inputs[0].finalScriptWitness).toBeUndefined();
+      const signedTx = stakerPsbt.combine(sponsorPsbt).extractTransaction();
+      expect(signedTx.getId()).toBe(transaction.getId());
+    });
+
+    it(`${networkName} should throw if a UTXO belongs to both the staker and the sponsor`, () => {
+      const { staker, stakerUTXOs, feeSponsor } = setup();
+      const scripts = dataGenerator.generateMockStakingScripts();
+      const build = (sponsor: typeof feeSponsor) =>
+        stakingTransaction(
+          scripts,
+          stakingAmount,
+          staker.info.address,
+          stakerUTXOs,
+          network,
+          feeRate,
+          { feeSponsor: sponsor },
+        );
+
+      expect(() =>
+        build({
+          ...feeSponsor,
+          inputUTXOs: [...feeSponsor.inputUTXOs, stakerUTXOs[0]],
+        }),
+      ).toThrow(
+        "A UTXO cannot be spent by both the staker and the fee sponsor",
+      );
+      expect(() => build({ ...feeSponsor, address: "invalid" })).toThrow(
+        "Invalid fee sponsor change address",
+      );
+      expect(() => build({ ...feeSponsor, inputUTXOs: [] })).toThrow(
+        "Insufficient funds",
+      );
+    });
+  },
+);
@@ -96,6 +96,70 @@ describe("stakingExpansionTransaction", () => {
     );
   });
 
+  it("should increase the staking amount from a single funding UTXO", () => {
+    const additionalAmount = 50_000;
+    const fundingUTXOs = [
+      ...[1, 2, 3].map(
+        () => stakingDatagen.generateRandomUTXOs(25_000, 1, scriptPubKey)[0],
+      ),
+      stakingDatagen.generateRandomUTXOs(100_000, 1, scriptPubKey)[0],
+    ];
+    const {
+      transaction: stakingExpansionTx,
+      fee,
+      fundingUTXO,
+    } = stakingExpansionTransaction(
+      network,
+      previousStakingScript,
+      stakingAmountSat + additionalAmount,
+      stakerInfo.address,
+      1,
+      fundingUTXOs,
+      {
+        stakingTx: previousStakingTx,
+        scripts: previousStakingScript,
+      },
+    );
+
+    // The only UTXO covering the additional amount on its own
+    expect(fundingUTXO).toEqual(fundingUTXOs[3]);
+    expect(stakingExpansionTx.ins).toHaveLength(2);
+    expect(stakingExpansionTx.ins[1].hash).toEqual(
+      transactionIdToHash(fundingUTXO.txid),
+    );
+    expect(stakingExpansionTx.ins[1].index).toBe(fundingUTXO.vout);
+    expect(stakingExpansionTx.outs[0].value).toBe(
+      stakingAmountSat + additionalAmount,
+    );
+    expect(
+      stakingExpansionTx.outs[stakingExpansionTx.outs.length - 1].value,
+    ).toBe(fundingUTXO.value - additionalAmount - fee);
+  });
+
+  it("should not gather several funding UTXOs", () => {
+    const fundingUTXOs = [1, 2, 3].map(
+      () => stakingDatagen.generateRandomUTXOs(25_000, 1, scriptPubKey)[0],
+    );
+
+    // The UTXOs only cover the additional amount together
+    expect(() =>
+      stakingExpansionTransaction(
+        network,
+        previousStakingScript,
+        stakingAmountSat + 50_000,
+        stakerInfo.address,
+        1,
+        fundingUTXOs,
+        {
+          stakingTx: previousStakingTx,
+          scripts: previousStakingScript,
+        },
+      ),
+    ).toThrow(
+      "Insufficient funds: unable to gather enough UTXOs to cover the staking amount and fees",
+    );
+  });
+
   it("should throw error when amount is less than or equal to 0", () => {
     expect(() =>
       stakingExpansionTransaction(
@@ -147,8 +211,8 @@ describe("stakingExpansionTransaction", () => {
     ).toThrow("Invalid BTC change address");
   });
 
-  it("should throw error when expansion amount does not match previous staking amount", () => {
-    const differentAmount = stakingAmountSat + 1000; // Different amount
+  it("should throw error when expansion amount is lower than the previous staking amount", () => {
+    const differentAmount = stakingAmountSat - 1000; // Lower amount
     expect(() =>
       stakingExpansionTransaction(
         network,
@@ -163,7 +227,7 @@ describe("stakingExpansionTransaction", () => {
         },
       ),
     ).toThrow(
-      "Expansion staking transaction amount must be equal to the previous staking amount",
+      "Expansion staking transaction amount must not be lower than the previous staking amount",
     );
   });
 
@@ -204,6 +268,8 @@ describe("stakingExpansionTransaction", () => {
           scripts: previousStakingScript,
         },
       ),
-    ).toThrow("Insufficient funds: unable to find a UTXO to cover the fees");
+    ).toThrow(
+      "Insufficient funds: unable to gather enough UTXOs to cover the staking amount and fees",
+    );
   });
 });
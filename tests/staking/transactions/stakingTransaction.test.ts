@@ -188,7 +188,7 @@ describe.each(testingNetworks)(
                 utxos,
                 network,
                 feeRate,
-                invalidLockHeight,
+                { lockHeight: invalidLockHeight },
               ),
             ).toThrow("Invalid lock height");
           });
@@ -310,7 +310,7 @@ describe.each(testingNetworks)(
               utxos,
               network,
               feeRate,
-              lockHeight,
+              { lockHeight },
             );
             validateCommonFields(
               transactionResult,
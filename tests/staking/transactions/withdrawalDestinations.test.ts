@@ -0,0 +1,136 @@
+import { address } from "bitcoinjs-lib";
+import {
+  Staking,
+  withdrawTimelockUnbondedTransaction,
+  type WithdrawalDestination,
+} from "../../../src";
+import { BTC_DUST_SAT } from "../../../src/constants/dustSat";
+import { PrivateKeyBtcProvider } from "../../../src/providers";
+import { getBatchWithdrawTxFee } from "../../../src/utils/fee";
+import { testingNetworks } from "../../helper";
+
+const feeRate = 2;
+
+describe.each(testingNetworks)(
+  "withdrawal transaction with destinations",
+  ({ networkName, network, datagen: { stakingDatagen: dataGenerator } }) => {
+    const params = dataGenerator.generateStakingParams(true);
+
+    const setup = () => {
+      const provider = new PrivateKeyBtcProvider(network, {
+        privateKeyHex: dataGenerator.generateRandomKeyPair().privateKey,
+      });
+      const stakerInfo = provider.getStakerInfo();
+      const staking = new Staking(
+        network,
+        stakerInfo,
+        params,
+        [dataGenerator.generateRandomKeyPair().publicKeyNoCoord],
+        params.minStakingTimeBlocks,
+      );
+      const { transaction: stakingTx } = staking.createStakingTransaction(
+        params.minStakingAmountSat,
+        dataGenerator.generateRandomUTXOs(
+          params.maxStakingAmountSat,
+          1,
+          address.toOutputScript(stakerInfo.address, network).toString("hex"),
+        ),
+        1,
+      );
+      const withdraw = (destinations?: WithdrawalDestination[]) =>
+        withdrawTimelockUnbondedTransaction(
+          staking.buildScripts(),
+          stakingTx,
+          stakerInfo.address,
+          network,
+          feeRate,
+          0,
+          "heuristic",
+          destinations,
+        );
+      return { stakerInfo, stakingTx, withdraw };
+    };
+    const randomAddress = () =>
+      dataGenerator.getAddressAndScriptPubKey(
+        dataGenerator.generateRandomKeyPair().publicKey,
+      ).taproot.address;
+
+    it(`${networkName} should send the fixed amounts and the remainder to the destinations`, () => {
+      const { stakingTx, withdraw } = setup();
+      const [hot, cold] = [randomAddress(), randomAddress()];
+
+      const { psbt, fee } = withdraw([
+        { address: hot, amount: 10_000 },
+        { address: cold, remainder: true },
+      ]);
+
+      expect(fee).toBe(
+        getBatchWithdrawTxFee(feeRate, 1, "heuristic", undefined, 2),
+      );
+      expect(psbt.txOutputs).toHaveLength(2);
+      expect(psbt.txOutputs[0].address).toBe(hot);
+      expect(psbt.txOutputs[0].value).toBe(10_000);
+      expect(psbt.txOutputs[1].address).toBe(cold);
+      expect(psbt.txOutputs[1].value).toBe(
+        stakingTx.outs[0].value - 10_000 - fee,
+      );
+    });
+
+    it(`${networkName} should send the remainder to the withdrawal address if no destination receives it`, () => {
+      const { stakerInfo, stakingTx, withdraw } = setup();
+      const cold = randomAddress();
+
+      const { psbt, fee } = withdraw([{ address: cold, amount: 10_000 }]);
+
+      expect(psbt.txOutputs.map(({ address }) => address)).toEqual([
+        cold,
+        stakerInfo.address,
+      ]);
+      expect(psbt.txOutputs[1].value).toBe(
+        stakingTx.outs[0].value - 10_000 - fee,
+      );
+    });
+
+    it(`${networkName} should withdraw to the withdrawal address without destinations`, () => {
+      const { stakerInfo, withdraw } = setup();
+
+      expect(withdraw().psbt.txOutputs).toEqual(
+        withdraw([{ address: stakerInfo.address, remainder: true }]).psbt
+          .txOutputs,
+      );
+    });
+
+    it(`${networkName} should throw if a destination is invalid`, () => {
+      const { stakingTx, withdraw } = setup();
+      const cold = randomAddress();
+
+      expect(() => withdraw([{ address: "invalid", amount: 10_000 }])).toThrow(
+        "Invalid withdrawal destination address: invalid",
+      );
+      expect(() =>
+        withdraw([{ address: cold, amount: BTC_DUST_SAT - 1 }]),
+      ).toThrow(
+        `Withdrawal destination amount must be an integer of at least ${BTC_DUST_SAT} satoshis`,
+      );
+      expect(() =>
+        withdraw([
+          { address: cold, remainder: true },
+          { address: randomAddress(), remainder: true },
+        ]),
+      ).toThrow("Only one withdrawal destination can receive the remainder");
+      expect(() =>
+        withdraw([{ address: cold, amount: stakingTx.outs[0].value + 1 }]),
+      ).toThrow("Not enough funds to cover the withdrawal destination amounts");
+      // The remainder left after the fee would be dust
+      const fee = getBatchWithdrawTxFee(feeRate, 1, "heuristic", undefined, 2);
+      expect(() =>
+        withdraw([
+          {
+            address: cold,
+            amount: stakingTx.outs[0].value - fee - BTC_DUST_SAT + 1,
+          },
+        ]),
+      ).toThrow("Output value is less than dust limit");
+    });
+  },
+);
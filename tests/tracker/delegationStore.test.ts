@@ -0,0 +1,107 @@
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import {
+  InMemoryDelegationStore,
+  type DelegationStore,
+  type TrackedDelegation,
+} from "../../src";
+import { JsonFileDelegationStore } from "../../src/node";
+
+const delegation = (stakingTxHash: string): TrackedDelegation => ({
+  stakingTxHash,
+  state: "active",
+  stakerBtcInfo: {
+    address: "tb1qaddress",
+    publicKeyNoCoordHex: "00".repeat(32),
+  },
+  stakingInput: {
+    finalityProviderPksNoCoordHex: ["01".repeat(32)],
+    stakingAmountSat: 500_000,
+    stakingTimelock: 64_000,
+  },
+  stakingParamsVersion: 1,
+  registered: true,
+  stakingTxHex: "02000000",
+  stakingTxHeight: 900_000,
+});
+
+describe("DelegationStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "delegations-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe.each([
+    ["InMemoryDelegationStore", () => new InMemoryDelegationStore()],
+    [
+      "JsonFileDelegationStore",
+      () => new JsonFileDelegationStore(join(dir, "delegations.json")),
+    ],
+  ] as [string, () => DelegationStore][])("%s", (_, createStore) => {
+    it("should put, get and delete delegations", async () => {
+      const store = createStore();
+      expect(await store.get("a")).toBeUndefined();
+      expect(await store.getAll()).toEqual([]);
+
+      await store.put(delegation("a"));
+      await store.put(delegation("b"));
+      await store.put({ ...delegation("a"), state: "withdrawable" });
+
+      expect(await store.get("a")).toEqual({
+        ...delegation("a"),
+        state: "withdrawable",
+      });
+      expect(await store.getAll()).toHaveLength(2);
+
+      await store.delete("a");
+      expect(await store.get("a")).toBeUndefined();
+      expect(await store.getAll()).toEqual([delegation("b")]);
+    });
+
+    it("should not be modified through the returned delegations", async () => {
+      const store = createStore();
+      await store.put(delegation("a"));
+
+      const stored = (await store.get("a"))!;
+      stored.state = "withdrawn";
+      stored.stakingInput.stakingAmountSat = 0;
+
+      expect(await store.get("a")).toEqual(delegation("a"));
+    });
+  });
+
+  it("should persist the delegations in the JSON file", async () => {
+    const filePath = join(dir, "delegations.json");
+    const store = new JsonFileDelegationStore(filePath);
+
+    await Promise.all(
+      ["a", "b", "c"].map((hash) => store.put(delegation(hash))),
+    );
+
+    expect(JSON.parse(await readFile(filePath, "utf8"))).toEqual({
+      a: delegation("a"),
+      b: delegation("b"),
+      c: delegation("c"),
+    });
+    // Another process reads the same delegations
+    expect(await new JsonFileDelegationStore(filePath).getAll()).toHaveLength(
+      3,
+    );
+  });
+
+  it("should throw if the JSON file cannot be parsed", async () => {
+    const filePath = join(dir, "delegations.json");
+    await writeFile(filePath, "{", "utf8");
+
+    await expect(
+      new JsonFileDelegationStore(filePath).getAll(),
+    ).rejects.toThrow(SyntaxError);
+  });
+});
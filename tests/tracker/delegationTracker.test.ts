@@ -0,0 +1,266 @@
+import { networks, payments, Transaction } from "bitcoinjs-lib";
+
+import {
+  DelegationTracker,
+  getBabylonParamByBtcHeight,
+  InMemoryDelegationStore,
+  Staking,
+  type UTXO,
+} from "../../src";
+import { StakingError, StakingErrorCode } from "../../src/error";
+import { PrivateKeyBtcProvider } from "../../src/providers";
+import { BabylonBtcStakingManager } from "../../src/staking/manager";
+import { testingNetworks } from "../helper";
+import { babylonProvider } from "../staking/manager/__mock__/providers";
+import {
+  babylonAddress,
+  btcTipHeight,
+  feeRate,
+  inclusionProof,
+  params,
+  stakingInput,
+} from "../staking/manager/__mock__/registration";
+
+describe("DelegationTracker", () => {
+  const network = networks.testnet;
+  const { stakingDatagen: dataGenerator } = testingNetworks[1].datagen;
+  const stakingParams = getBabylonParamByBtcHeight(btcTipHeight, params);
+  const stakingTxHeight = btcTipHeight + 1;
+
+  let stakerProvider: PrivateKeyBtcProvider;
+  let manager: BabylonBtcStakingManager;
+  let tracker: DelegationTracker;
+  let inputUTXOs: UTXO[];
+
+  beforeEach(() => {
+    stakerProvider = new PrivateKeyBtcProvider(network, {
+      privateKeyHex: dataGenerator.generateRandomKeyPair().privateKey,
+    });
+    manager = new BabylonBtcStakingManager(
+      network,
+      params,
+      stakerProvider,
+      babylonProvider,
+    );
+    tracker = new DelegationTracker(
+      manager,
+      params,
+      new InMemoryDelegationStore(),
+    );
+    inputUTXOs = dataGenerator.generateRandomUTXOs(
+      stakingInput.stakingAmountSat * 2,
+      1,
+      payments
+        .p2tr({
+          internalPubkey: Buffer.from(
+            stakerProvider.getStakerInfo().publicKeyNoCoordHex,
+            "hex",
+          ),
+          network,
+        })
+        .output!.toString("hex"),
+    );
+    babylonProvider.signTransaction.mockResolvedValue(new Uint8Array([1]));
+  });
+
+  afterEach(() => {
+    babylonProvider.signTransaction.mockReset();
+  });
+
+  // Creates and stakes a pre-staking delegation confirmed at the staking
+  // height
+  const createActiveDelegation = async () => {
+    const stakerInfo = stakerProvider.getStakerInfo();
+    const { stakingTx } = await tracker.create(
+      stakerInfo,
+      stakingInput,
+      btcTipHeight,
+      inputUTXOs,
+      feeRate,
+      babylonAddress,
+    );
+    await tracker.stake(
+      stakerInfo,
+      stakingInput,
+      stakingTx,
+      inputUTXOs,
+      stakingParams.version,
+    );
+    await tracker.confirmStakingTransaction(stakingTx.getId(), stakingTxHeight);
+    return stakingTx;
+  };
+
+  it("should track a pre-staking delegation until it is withdrawn", async () => {
+    const stakerInfo = stakerProvider.getStakerInfo();
+    const { stakingTx } = await tracker.create(
+      stakerInfo,
+      stakingInput,
+      btcTipHeight,
+      inputUTXOs,
+      feeRate,
+      babylonAddress,
+    );
+    const stakingTxHash = stakingTx.getId();
+    expect(await tracker.getDelegation(stakingTxHash)).toEqual({
+      stakingTxHash,
+      state: "awaiting-staking-signature",
+      stakerBtcInfo: stakerInfo,
+      stakingInput,
+      stakingParamsVersion: stakingParams.version,
+      registered: true,
+      stakingTxHex: stakingTx.toHex(),
+    });
+
+    const signedStakingTx = await tracker.stake(
+      stakerInfo,
+      stakingInput,
+      stakingTx,
+      inputUTXOs,
+      stakingParams.version,
+    );
+    expect(await tracker.getDelegation(stakingTxHash)).toMatchObject({
+      state: "awaiting-btc-confirmation",
+      stakingTxHex: signedStakingTx.toHex(),
+    });
+
+    await tracker.confirmStakingTransaction(stakingTxHash, stakingTxHeight);
+    expect(await tracker.getDelegations("active")).toEqual([
+      expect.objectContaining({ stakingTxHash, stakingTxHeight }),
+    ]);
+
+    // The withdrawal can be included once the timelock expired
+    const expiryHeight = stakingTxHeight + stakingInput.stakingTimelock;
+    expect(await tracker.updateBtcHeight(expiryHeight - 2)).toEqual([]);
+    expect(await tracker.updateBtcHeight(expiryHeight - 1)).toEqual([
+      expect.objectContaining({ stakingTxHash, state: "withdrawable" }),
+    ]);
+
+    const { transaction } = await tracker.withdraw(stakingTxHash, feeRate);
+    expect(transaction.ins[0].hash).toEqual(signedStakingTx.getHash());
+    expect(transaction.ins[0].sequence).toBe(stakingInput.stakingTimelock);
+    expect(await tracker.getDelegation(stakingTxHash)).toMatchObject({
+      state: "withdrawn",
+      withdrawalTxHex: transaction.toHex(),
+    });
+  });
+
+  it("should track a post-staking delegation until it is registered", async () => {
+    const stakerInfo = stakerProvider.getStakerInfo();
+    const staking = new Staking(
+      network,
+      stakerInfo,
+      stakingParams,
+      stakingInput.finalityProviderPksNoCoordHex,
+      stakingInput.stakingTimelock,
+    );
+    const { transaction: stakingTx } = staking.createStakingTransaction(
+      stakingInput.stakingAmountSat,
+      inputUTXOs,
+      feeRate,
+    );
+    const stakingTxHash = stakingTx.getId();
+    const postStakeRegistration = jest
+      .spyOn(manager, "postStakeRegistrationBabylonTransaction")
+      .mockResolvedValue({ signedBabylonTx: new Uint8Array([1]) });
+
+    const signedStakingTx = await tracker.stake(
+      stakerInfo,
+      stakingInput,
+      stakingTx,
+      inputUTXOs,
+      stakingParams.version,
+    );
+    expect(await tracker.getDelegation(stakingTxHash)).toMatchObject({
+      state: "awaiting-btc-confirmation",
+      registered: false,
+    });
+    await tracker.confirmStakingTransaction(stakingTxHash, stakingTxHeight);
+    expect(await tracker.getDelegation(stakingTxHash)).toMatchObject({
+      state: "pending-registration",
+    });
+
+    await tracker.register(stakingTxHash, inclusionProof, babylonAddress);
+
+    expect(postStakeRegistration).toHaveBeenCalledWith(
+      stakerInfo,
+      signedStakingTx,
+      stakingTxHeight,
+      stakingInput,
+      inclusionProof,
+      babylonAddress,
+    );
+    expect(await tracker.getDelegation(stakingTxHash)).toMatchObject({
+      state: "active",
+      registered: true,
+    });
+  });
+
+  it("should withdraw an unbonded delegation once its unbonding time expired", async () => {
+    const stakingTx = await createActiveDelegation();
+    const stakingTxHash = stakingTx.getId();
+    const staking = new Staking(
+      network,
+      stakerProvider.getStakerInfo(),
+      stakingParams,
+      stakingInput.finalityProviderPksNoCoordHex,
+      stakingInput.stakingTimelock,
+    );
+    const { transaction: unbondingTx } =
+      staking.createUnbondingTransaction(stakingTx);
+    // The covenant signatures are checked by the manager tests
+    jest
+      .spyOn(manager, "createSignedBtcUnbondingTransaction")
+      .mockResolvedValue({ transaction: unbondingTx, fee: 0 });
+
+    await tracker.unbond(stakingTxHash, unbondingTx, []);
+    expect(await tracker.getDelegation(stakingTxHash)).toMatchObject({
+      state: "unbonding",
+      unbondingTxHex: unbondingTx.toHex(),
+    });
+    // The unbonding time is counted once the unbonding tx is confirmed
+    const unbondingTxHeight = stakingTxHeight + 10;
+    expect(
+      await tracker.updateBtcHeight(
+        unbondingTxHeight + stakingParams.unbondingTime,
+      ),
+    ).toEqual([]);
+
+    await tracker.confirmUnbondingTransaction(stakingTxHash, unbondingTxHeight);
+    expect(
+      await tracker.updateBtcHeight(
+        unbondingTxHeight + stakingParams.unbondingTime - 1,
+      ),
+    ).toEqual([expect.objectContaining({ stakingTxHash })]);
+
+    const { transaction } = await tracker.withdraw(stakingTxHash, feeRate);
+    expect(transaction.ins[0].hash).toEqual(unbondingTx.getHash());
+    expect(transaction.ins[0].sequence).toBe(stakingParams.unbondingTime);
+  });
+
+  it("should throw if a step does not follow the lifecycle", async () => {
+    const stakingTx = await createActiveDelegation();
+    const stakingTxHash = stakingTx.getId();
+
+    await expect(tracker.withdraw(stakingTxHash, feeRate)).rejects.toThrow(
+      new StakingError(
+        StakingErrorCode.INVALID_INPUT,
+        `Delegation ${stakingTxHash} is active, expected withdrawable`,
+      ),
+    );
+    await expect(
+      tracker.stake(
+        stakerProvider.getStakerInfo(),
+        stakingInput,
+        stakingTx,
+        inputUTXOs,
+        stakingParams.version,
+      ),
+    ).rejects.toThrow(
+      `Delegation ${stakingTxHash} is active, expected awaiting-staking-signature`,
+    );
+    const unknownTxHash = new Transaction().getId();
+    await expect(
+      tracker.confirmStakingTransaction(unknownTxHash, stakingTxHeight),
+    ).rejects.toThrow(`Delegation ${unknownTxHash} is not tracked`);
+  });
+});
@@ -0,0 +1,203 @@
+import { BTC_DUST_SAT } from "../../../src/constants/dustSat";
+import {
+  MAX_NON_LEGACY_OUTPUT_SIZE,
+  P2TR_INPUT_SIZE,
+} from "../../../src/constants/fee";
+import { UTXO } from "../../../src/types/UTXO";
+import {
+  BranchAndBoundCoinSelector,
+  CoinSelector,
+  ExactInputsCoinSelector,
+  getStakingTxInputUTXOsAndFees,
+  LargestFirstCoinSelector,
+  LeastWasteCoinSelector,
+  SingleUTXOCoinSelector,
+  SmallestFirstCoinSelector,
+} from "../../../src/utils/fee";
+import { buildStakingTransactionOutputs } from "../../../src/utils/staking";
+import { testingNetworks } from "../../helper";
+
+const feeRate = 5;
+const stakingAmount = 100_000;
+const costOfChange = (MAX_NON_LEGACY_OUTPUT_SIZE + P2TR_INPUT_SIZE) * feeRate;
+
+describe.each(testingNetworks)(
+  "utils - fee - coin selection",
+  ({ networkName, network, datagen: { stakingDatagen: dataGenerator } }) => {
+    const { publicKey } = dataGenerator.generateRandomKeyPair();
+    const { scriptPubKey } =
+      dataGenerator.getAddressAndScriptPubKey(publicKey).taproot;
+    const outputs = buildStakingTransactionOutputs(
+      dataGenerator.generateMockStakingScripts(),
+      network,
+      stakingAmount,
+    );
+    const utxo = (value: number): UTXO => ({
+      txid: dataGenerator.generateRandomTxId(),
+      vout: 0,
+      scriptPubKey,
+      value,
+    });
+    const select = (utxos: UTXO[], coinSelector?: CoinSelector) =>
+      getStakingTxInputUTXOsAndFees(
+        utxos,
+        stakingAmount,
+        feeRate,
+        outputs,
+        "heuristic",
+        coinSelector,
+      );
+    // The fee of a changeless transaction spending the number of inputs
+    const changelessFee = (inputCount: number) => {
+      const probe = Array.from({ length: inputCount }, () => utxo(1_000_000));
+      const { fee } = select(probe, new ExactInputsCoinSelector(probe));
+      return fee - MAX_NON_LEGACY_OUTPUT_SIZE * feeRate;
+    };
+
+    it(`${networkName} should select the largest UTXOs first by default`, () => {
+      const utxos = [utxo(30_000), utxo(90_000), utxo(60_000)];
+
+      const { selectedUTXOs, fee, waste } = select(utxos);
+
+      expect(selectedUTXOs).toEqual([utxos[1], utxos[2]]);
+      expect(fee).toBe(changelessFee(2) + MAX_NON_LEGACY_OUTPUT_SIZE * feeRate);
+      expect(waste).toBe(costOfChange);
+      expect(select(utxos, new LargestFirstCoinSelector())).toEqual({
+        selectedUTXOs,
+        fee,
+        waste,
+      });
+    });
+
+    it(`${networkName} should select the smallest UTXOs first`, () => {
+      // The first UTXO does not cover the fee of spending it
+      const utxos = [utxo(200), utxo(90_000), utxo(30_000), utxo(60_000)];
+
+      const { selectedUTXOs } = select(utxos, new SmallestFirstCoinSelector());
+
+      expect(selectedUTXOs).toEqual([utxos[2], utxos[3], utxos[1]]);
+    });
+
+    it(`${networkName} should select the smallest single UTXO covering the staking amount`, () => {
+      const utxos = [utxo(300_000), utxo(150_000), utxo(60_000)];
+
+      const { selectedUTXOs } = select(utxos, new SingleUTXOCoinSelector());
+
+      expect(selectedUTXOs).toEqual([utxos[1]]);
+    });
+
+    it(`${networkName} should fall back if no single UTXO covers the staking amount`, () => {
+      const utxos = [utxo(60_000), utxo(70_000)];
+
+      expect(() => select(utxos, new SingleUTXOCoinSelector())).toThrow(
+        "Insufficient funds: unable to gather enough UTXOs to cover the staking amount and fees",
+      );
+      const { selectedUTXOs } = select(
+        utxos,
+        new SingleUTXOCoinSelector({
+          fallback: new LargestFirstCoinSelector(),
+        }),
+      );
+      expect(selectedUTXOs).toEqual([utxos[1], utxos[0]]);
+    });
+
+    it(`${networkName} should find a changeless selection with branch and bound`, () => {
+      const excess = 100;
+      const first = utxo(60_000);
+      const second = utxo(stakingAmount + changelessFee(2) + excess - 60_000);
+      const utxos = [utxo(5_000_000), first, utxo(7_777), second];
+
+      const selection = select(utxos, new BranchAndBoundCoinSelector());
+
+      expect(selection.selectedUTXOs).toHaveLength(2);
+      expect(selection.selectedUTXOs).toEqual(
+        expect.arrayContaining([first, second]),
+      );
+      // The excess is paid as fee instead of creating a change output
+      expect(selection.fee).toBe(changelessFee(2) + excess);
+      expect(selection.waste).toBe(excess);
+      expect(select(utxos).waste).toBe(costOfChange);
+    });
+
+    it(`${networkName} should fall back if there is no changeless selection`, () => {
+      const utxos = [utxo(300_000), utxo(200_000)];
+
+      const { selectedUTXOs, waste } = select(
+        utxos,
+        new BranchAndBoundCoinSelector(),
+      );
+
+      expect(selectedUTXOs).toEqual([utxos[0]]);
+      expect(waste).toBe(costOfChange);
+      expect(() =>
+        select(
+          utxos,
+          new BranchAndBoundCoinSelector({
+            fallback: new ExactInputsCoinSelector([utxo(300_000)]),
+          }),
+        ),
+      ).toThrow("is not part of the available UTXOs");
+    });
+
+    it(`${networkName} should weight the inputs by the long-term fee rate`, () => {
+      const utxos = [utxo(30_000), utxo(90_000), utxo(60_000)];
+      const longTermFeeRate = 1;
+
+      const { waste } = select(
+        utxos,
+        new LargestFirstCoinSelector({ longTermFeeRate }),
+      );
+
+      const inputsFee = 2 * P2TR_INPUT_SIZE * feeRate;
+      expect(waste).toBe(
+        Math.round(
+          (inputsFee * (feeRate - longTermFeeRate)) / feeRate +
+            MAX_NON_LEGACY_OUTPUT_SIZE * feeRate +
+            P2TR_INPUT_SIZE * longTermFeeRate,
+        ),
+      );
+    });
+
+    it(`${networkName} should spend exactly the given UTXOs`, () => {
+      const utxos = [utxo(300_000), utxo(20_000), utxo(100_000)];
+      const inputs = [utxos[1], utxos[2]];
+
+      const { selectedUTXOs, fee } = select(
+        utxos,
+        new ExactInputsCoinSelector(inputs),
+      );
+
+      expect(selectedUTXOs).toEqual(inputs);
+      expect(20_000 + 100_000 - stakingAmount - fee).toBeGreaterThan(
+        BTC_DUST_SAT,
+      );
+      expect(() =>
+        select(utxos, new ExactInputsCoinSelector([utxos[1]])),
+      ).toThrow(
+        "Insufficient funds: unable to gather enough UTXOs to cover the staking amount and fees",
+      );
+    });
+
+    it(`${networkName} should keep the selection with the least waste`, () => {
+      const first = utxo(60_000);
+      const second = utxo(stakingAmount + changelessFee(2) + 50 - 60_000);
+      const utxos = [utxo(5_000_000), first, second];
+
+      const selection = select(
+        utxos,
+        new LeastWasteCoinSelector([
+          new SingleUTXOCoinSelector(),
+          new LargestFirstCoinSelector(),
+          new BranchAndBoundCoinSelector({
+            fallback: new ExactInputsCoinSelector([]),
+          }),
+        ]),
+      );
+
+      expect(selection.waste).toBe(50);
+      expect(selection.selectedUTXOs).toEqual(
+        expect.arrayContaining([first, second]),
+      );
+    });
+  },
+);
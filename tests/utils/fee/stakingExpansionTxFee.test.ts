@@ -1,7 +1,11 @@
 import { BTC_DUST_SAT } from "../../../src/constants/dustSat";
 import { UTXO } from "../../../src/types/UTXO";
 import { TransactionOutput } from "../../../src/types/psbtOutputs";
-import { getStakingExpansionTxFundingUTXOAndFees } from "../../../src/utils/fee";
+import {
+  getStakingExpansionTxFundingUTXOAndFees,
+  getStakingExpansionTxInputUTXOsAndFees,
+} from "../../../src/utils/fee";
+import { ExactInputsCoinSelector } from "../../../src/utils/fee/coinSelection";
 import {
   buildStakingTransactionOutputs,
   deriveStakingOutputInfo,
@@ -363,5 +367,96 @@ describe.each(testingNetworks)(
         });
       });
     });
+
+    describe(`${networkName} - getStakingExpansionTxInputUTXOsAndFees`, () => {
+      const dataGenerator = datagen.stakingDatagen;
+      const outputs = buildStakingTransactionOutputs(
+        dataGenerator.generateMockStakingScripts(),
+        network,
+        100_000,
+      );
+      const utxo = (value: number): UTXO => ({
+        txid: dataGenerator.generateRandomTxId(),
+        vout: 0,
+        scriptPubKey: dataGenerator.generateRandomScriptPubKey(),
+        value,
+      });
+
+      it("should select the same UTXO as the fee only selection", () => {
+        const availableUTXOs = [utxo(1_000_000), utxo(50_000), utxo(100_000)];
+
+        const { selectedUTXOs, fee } = getStakingExpansionTxInputUTXOsAndFees(
+          availableUTXOs,
+          0,
+          DEFAULT_TEST_FEE_RATE,
+          outputs,
+        );
+
+        const legacy = getStakingExpansionTxFundingUTXOAndFees(
+          availableUTXOs,
+          DEFAULT_TEST_FEE_RATE,
+          outputs,
+        );
+        expect(selectedUTXOs).toEqual([legacy.selectedUTXO]);
+        expect(fee).toBe(legacy.fee);
+      });
+
+      it("should select a single UTXO covering an additional staking amount", () => {
+        const availableUTXOs = [utxo(30_000), utxo(40_000), utxo(100_000)];
+
+        const { selectedUTXOs, fee } = getStakingExpansionTxInputUTXOsAndFees(
+          availableUTXOs,
+          60_000,
+          DEFAULT_TEST_FEE_RATE,
+          outputs,
+        );
+
+        expect(selectedUTXOs).toEqual([availableUTXOs[2]]);
+        expect(100_000).toBeGreaterThanOrEqual(60_000 + fee);
+        // The two smaller UTXOs only cover the amount together
+        expect(() =>
+          getStakingExpansionTxInputUTXOsAndFees(
+            availableUTXOs.slice(0, 2),
+            60_000,
+            DEFAULT_TEST_FEE_RATE,
+            outputs,
+          ),
+        ).toThrow(
+          "Insufficient funds: unable to gather enough UTXOs to cover the staking amount and fees",
+        );
+      });
+
+      it("should reject a coin selector selecting several UTXOs", () => {
+        const availableUTXOs = [utxo(30_000), utxo(40_000), utxo(100_000)];
+
+        expect(() =>
+          getStakingExpansionTxInputUTXOsAndFees(
+            availableUTXOs,
+            0,
+            DEFAULT_TEST_FEE_RATE,
+            outputs,
+            undefined,
+            undefined,
+            new ExactInputsCoinSelector(availableUTXOs.slice(0, 2)),
+          ),
+        ).toThrow(
+          "A staking expansion transaction must be funded by a single UTXO",
+        );
+      });
+
+      it("should require the previous staking input in the exact mode", () => {
+        expect(() =>
+          getStakingExpansionTxInputUTXOsAndFees(
+            [utxo(1_000_000)],
+            0,
+            DEFAULT_TEST_FEE_RATE,
+            outputs,
+            "exact",
+          ),
+        ).toThrow(
+          "The previous staking input is required by the exact fee estimation",
+        );
+      });
+    });
   },
 );
@@ -0,0 +1,178 @@
+import { Psbt, payments } from "bitcoinjs-lib";
+import {
+  stakingTransaction,
+  withdrawTimelockUnbondedTransaction,
+} from "../../../src";
+import { StakingError, StakingErrorCode } from "../../../src/error";
+import { PrivateKeyBtcProvider } from "../../../src/providers";
+import { stakingPsbt } from "../../../src/staking/psbt";
+import {
+  getPlaceholderTxVirtualSize,
+  getStakingExpansionTxFundingUTXOAndFees,
+  getStakingTxInputUTXOsAndFees,
+  getUTXOPlaceholderInput,
+} from "../../../src/utils/fee";
+import { buildStakingTransactionOutputs } from "../../../src/utils/staking";
+import { testingNetworks } from "../../helper";
+
+const feeRate = 7;
+
+describe.each(testingNetworks)(
+  "utils - fee - exact estimation",
+  ({ networkName, network, datagen: { stakingDatagen: dataGenerator } }) => {
+    const setup = (addressType: "taproot" | "nativeSegwit") => {
+      const keyPair = dataGenerator.generateRandomKeyPair();
+      const provider = new PrivateKeyBtcProvider(
+        network,
+        { privateKeyHex: keyPair.privateKey },
+        addressType,
+      );
+      const stakerInfo = provider.getStakerInfo();
+      const scriptPubKey = dataGenerator.getAddressAndScriptPubKey(
+        keyPair.publicKey,
+      )[addressType].scriptPubKey;
+      const scripts = dataGenerator.generateMockStakingScripts(keyPair);
+      return { keyPair, provider, stakerInfo, scriptPubKey, scripts };
+    };
+
+    describe.each(["taproot", "nativeSegwit"] as const)(
+      `${networkName} - %s wallet`,
+      (addressType) => {
+        it("should estimate a staking fee covering the signed transaction", async () => {
+          const { provider, stakerInfo, scriptPubKey, scripts } =
+            setup(addressType);
+          const utxos = dataGenerator.generateRandomUTXOs(
+            200_000,
+            3,
+            scriptPubKey,
+          );
+
+          const { transaction, fee } = stakingTransaction(
+            scripts,
+            100_000,
+            stakerInfo.address,
+            utxos,
+            network,
+            feeRate,
+            { feeEstimationMode: "exact" },
+          );
+          const psbt = stakingPsbt(
+            transaction,
+            network,
+            utxos,
+            addressType === "taproot"
+              ? Buffer.from(stakerInfo.publicKeyNoCoordHex, "hex")
+              : undefined,
+          );
+          const signedTx = Psbt.fromHex(
+            await provider.signPsbt(psbt.toHex()),
+          ).extractTransaction();
+
+          const signedFee = signedTx.virtualSize() * feeRate;
+          expect(fee).toBeGreaterThanOrEqual(signedFee);
+          // ECDSA signatures may be one byte shorter than the placeholder and
+          // the change placeholder is sized as a taproot output
+          expect(fee - signedFee).toBeLessThanOrEqual(
+            (Math.ceil(signedTx.ins.length / 4) + 13) * feeRate,
+          );
+        });
+      },
+    );
+
+    it(`${networkName} should estimate a withdrawal fee covering the signed transaction`, async () => {
+      const { provider, stakerInfo, scriptPubKey, scripts } = setup("taproot");
+      const utxos = dataGenerator.generateRandomUTXOs(200_000, 1, scriptPubKey);
+      const { transaction: stakingTx } = stakingTransaction(
+        scripts,
+        100_000,
+        stakerInfo.address,
+        utxos,
+        network,
+        feeRate,
+      );
+
+      const { psbt, fee } = withdrawTimelockUnbondedTransaction(
+        scripts,
+        stakingTx,
+        stakerInfo.address,
+        network,
+        feeRate,
+        0,
+        "exact",
+      );
+      const signedTx = Psbt.fromHex(
+        await provider.signPsbt(psbt.toHex()),
+      ).extractTransaction();
+
+      expect(fee).toBe(signedTx.virtualSize() * feeRate);
+    });
+
+    it(`${networkName} should add the change output only if the change is above dust`, () => {
+      const { scriptPubKey, scripts } = setup("taproot");
+      const outputs = buildStakingTransactionOutputs(scripts, network, 100_000);
+      const utxos = dataGenerator.generateRandomUTXOs(300_000, 1, scriptPubKey);
+      const inputs = utxos.map(getUTXOPlaceholderInput);
+
+      const { fee } = getStakingTxInputUTXOsAndFees(
+        utxos,
+        100_000,
+        feeRate,
+        outputs,
+        "exact",
+      );
+
+      expect(fee).toBe(
+        Math.ceil(getPlaceholderTxVirtualSize(inputs, outputs, true) * feeRate),
+      );
+    });
+
+    it(`${networkName} should require the previous staking input to estimate an expansion fee`, () => {
+      const { scriptPubKey, scripts } = setup("taproot");
+      const outputs = buildStakingTransactionOutputs(scripts, network, 100_000);
+      const utxos = dataGenerator.generateRandomUTXOs(300_000, 1, scriptPubKey);
+
+      expect(() =>
+        getStakingExpansionTxFundingUTXOAndFees(
+          utxos,
+          feeRate,
+          outputs,
+          "exact",
+        ),
+      ).toThrow(
+        "The previous staking input is required by the exact fee estimation",
+      );
+    });
+
+    it(`${networkName} should size the multisig inputs by their threshold`, () => {
+      const pubkeys = [1, 2, 3].map(
+        () => dataGenerator.generateRandomKeyPair().keyPair.publicKey,
+      );
+      const p2wsh = payments.p2wsh({
+        redeem: payments.p2ms({ m: 2, pubkeys, network }),
+        network,
+      });
+      const utxo = {
+        txid: dataGenerator.generateRandomTxId(),
+        vout: 0,
+        value: 10_000,
+        scriptPubKey: p2wsh.output!.toString("hex"),
+        witnessScript: p2wsh.redeem!.output!.toString("hex"),
+      };
+
+      const { script, witness } = getUTXOPlaceholderInput(utxo);
+
+      expect(script).toHaveLength(0);
+      // The dummy element, two signatures and the witness script
+      expect(witness).toHaveLength(4);
+      expect(witness[witness.length - 1]).toEqual(p2wsh.redeem!.output);
+      expect(() =>
+        getUTXOPlaceholderInput({ ...utxo, witnessScript: undefined }),
+      ).toThrow(
+        new StakingError(
+          StakingErrorCode.INVALID_INPUT,
+          "Missing witnessScript for P2WSH input",
+        ),
+      );
+    });
+  },
+);
@@ -0,0 +1,388 @@
+import { hash256 } from "bitcoinjs-lib/src/crypto";
+import {
+  buildInclusionProofFromMerkleBlock,
+  buildInclusionProofFromTxids,
+  verifyInclusionProof,
+} from "../../src";
+import { StakingError, StakingErrorCode } from "../../src/error";
+import { InclusionProof } from "../../src/types/manager";
+import { testingNetworks } from "../helper";
+
+describe.each(testingNetworks)(
+  "verifyInclusionProof",
+  ({ network, networkName, datagen: { stakingDatagen: dataGenerator } }) => {
+    // Builds a block of random transactions, returning the block header and the
+    // inclusion proof of the transaction at the given position
+    const buildBlock = (txCount: number, pos: number) => {
+      const txs = Array.from(
+        { length: txCount },
+        () => dataGenerator.generateRandomStakingTransaction(network).stakingTx,
+      );
+      let level = txs.map((tx) => tx.getHash());
+      let index = pos;
+      const merkle: string[] = [];
+      while (level.length > 1) {
+        if (level.length % 2 === 1) {
+          level.push(level[level.length - 1]);
+        }
+        merkle.push(
+          Buffer.from(level[index ^ 1])
+            .reverse()
+            .toString("hex"),
+        );
+        const next: Buffer[] = [];
+        for (let i = 0; i < level.length; i += 2) {
+          next.push(hash256(Buffer.concat([level[i], level[i + 1]])));
+        }
+        level = next;
+        index = Math.floor(index / 2);
+      }
+      const merkleRoot = level[0];
+      const header = Buffer.concat([
+        Buffer.from("00000020", "hex"),
+        Buffer.from(dataGenerator.generateRandomTxId(), "hex"),
+        merkleRoot,
+        Buffer.alloc(12, 1),
+      ]);
+      const inclusionProof: InclusionProof = {
+        pos,
+        merkle,
+        blockHashHex: Buffer.from(hash256(header)).reverse().toString("hex"),
+      };
+      return {
+        tx: txs[pos],
+        txids: txs.map((tx) => tx.getId()),
+        header,
+        merkleRootHex: Buffer.from(merkleRoot).reverse().toString("hex"),
+        inclusionProof,
+      };
+    };
+
+    it.each([
+      [1, 0],
+      [2, 1],
+      [5, 4],
+      [7, 2],
+    ])(
+      `${networkName} should verify the proof of tx in a block of %i txs at position %i`,
+      (txCount, pos) => {
+        const { tx, header, merkleRootHex, inclusionProof } = buildBlock(
+          txCount,
+          pos,
+        );
+
+        expect(() =>
+          verifyInclusionProof(tx, inclusionProof, header.toString("hex")),
+        ).not.toThrow();
+        expect(() =>
+          verifyInclusionProof(tx, inclusionProof, merkleRootHex),
+        ).not.toThrow();
+      },
+    );
+
+    it(`${networkName} should throw if the position is wrong`, () => {
+      const { tx, header, inclusionProof } = buildBlock(6, 3);
+
+      expect(() =>
+        verifyInclusionProof(
+          tx,
+          { ...inclusionProof, pos: 2 },
+          header.toString("hex"),
+        ),
+      ).toThrow(
+        new StakingError(
+          StakingErrorCode.INVALID_INPUT,
+          "Inclusion proof does not match the merkle root of the block",
+        ),
+      );
+      expect(() =>
+        verifyInclusionProof(
+          tx,
+          { ...inclusionProof, pos: 8 },
+          header.toString("hex"),
+        ),
+      ).toThrow(
+        new StakingError(
+          StakingErrorCode.INVALID_INPUT,
+          "Inclusion proof position 8 is out of range for a merkle branch of " +
+            "3 hashes",
+        ),
+      );
+    });
+
+    it(`${networkName} should throw if a merkle hash is wrong`, () => {
+      const { tx, merkleRootHex, inclusionProof } = buildBlock(4, 1);
+      const merkle = [...inclusionProof.merkle];
+      merkle[1] = dataGenerator.generateRandomTxId();
+
+      expect(() =>
+        verifyInclusionProof(tx, { ...inclusionProof, merkle }, merkleRootHex),
+      ).toThrow(
+        new StakingError(
+          StakingErrorCode.INVALID_INPUT,
+          "Inclusion proof does not match the merkle root of the block",
+        ),
+      );
+    });
+
+    it(`${networkName} should throw if the header does not hash to the block hash`, () => {
+      const { tx, header, inclusionProof } = buildBlock(3, 0);
+      const blockHashHex = dataGenerator.generateRandomTxId();
+
+      expect(() =>
+        verifyInclusionProof(
+          tx,
+          { ...inclusionProof, blockHashHex },
+          header.toString("hex"),
+        ),
+      ).toThrow(
+        new StakingError(
+          StakingErrorCode.INVALID_INPUT,
+          `Block header hash ${inclusionProof.blockHashHex} does not match ` +
+            `the inclusion proof block hash ${blockHashHex}`,
+        ),
+      );
+    });
+
+    it(`${networkName} should throw if neither a header nor a merkle root is given`, () => {
+      const { tx, inclusionProof } = buildBlock(2, 0);
+
+      expect(() => verifyInclusionProof(tx, inclusionProof, "00")).toThrow(
+        new StakingError(
+          StakingErrorCode.INVALID_INPUT,
+          "Expected an 80 bytes block header or a 32 bytes merkle root",
+        ),
+      );
+    });
+
+    // Serializes a merkleblock matching the txs at the given positions, as
+    // built by Bitcoin Core (BIP37 partial merkle tree)
+    const buildMerkleBlock = (
+      header: Buffer,
+      txids: string[],
+      matched: number[],
+    ) => {
+      const leaves = txids.map((id) => Buffer.from(id, "hex").reverse());
+      const width = (height: number) =>
+        Math.floor((leaves.length + 2 ** height - 1) / 2 ** height);
+      const nodeHash = (height: number, pos: number): Buffer => {
+        if (height === 0) {
+          return leaves[pos];
+        }
+        const left = nodeHash(height - 1, pos * 2);
+        const right =
+          pos * 2 + 1 < width(height - 1)
+            ? nodeHash(height - 1, pos * 2 + 1)
+            : left;
+        return hash256(Buffer.concat([left, right]));
+      };
+      const bits: number[] = [];
+      const hashes: Buffer[] = [];
+      const traverse = (height: number, pos: number) => {
+        const isParentOfMatch = matched.some(
+          (m) => Math.floor(m / 2 ** height) === pos,
+        );
+        bits.push(isParentOfMatch ? 1 : 0);
+        if (height === 0 || !isParentOfMatch) {
+          hashes.push(nodeHash(height, pos));
+        } else {
+          traverse(height - 1, pos * 2);
+          if (pos * 2 + 1 < width(height - 1)) {
+            traverse(height - 1, pos * 2 + 1);
+          }
+        }
+      };
+      let height = 0;
+      while (width(height) > 1) {
+        height++;
+      }
+      traverse(height, 0);
+
+      const flags = Buffer.alloc(Math.ceil(bits.length / 8));
+      bits.forEach((bit, i) => {
+        flags[i >> 3] |= bit << (i & 7);
+      });
+      const totalTxs = Buffer.alloc(4);
+      totalTxs.writeUInt32LE(leaves.length);
+      return Buffer.concat([
+        header,
+        totalTxs,
+        Buffer.from([hashes.length]),
+        ...hashes,
+        Buffer.from([flags.length]),
+        flags,
+      ]);
+    };
+
+    describe("buildInclusionProofFromTxids", () => {
+      it.each([
+        [1, 0],
+        [4, 3],
+        [7, 6],
+        [9, 4],
+      ])(
+        `${networkName} should build the proof of tx in a block of %i txs at position %i`,
+        (txCount, pos) => {
+          const { tx, txids, header, inclusionProof } = buildBlock(
+            txCount,
+            pos,
+          );
+
+          const proof = buildInclusionProofFromTxids(
+            txids,
+            tx.getId(),
+            header.toString("hex"),
+          );
+
+          expect(proof).toEqual(inclusionProof);
+          expect(() =>
+            verifyInclusionProof(tx, proof, header.toString("hex")),
+          ).not.toThrow();
+        },
+      );
+
+      it(`${networkName} should throw if the txid is not in the block`, () => {
+        const { txids, header } = buildBlock(3, 0);
+        const txid = dataGenerator.generateRandomTxId();
+
+        expect(() =>
+          buildInclusionProofFromTxids(txids, txid, header.toString("hex")),
+        ).toThrow(
+          new StakingError(
+            StakingErrorCode.INVALID_INPUT,
+            `Transaction ${txid} is not in the block txids list`,
+          ),
+        );
+      });
+
+      it(`${networkName} should throw if the txids do not match the header`, () => {
+        const { tx, txids, header } = buildBlock(3, 0);
+
+        expect(() =>
+          buildInclusionProofFromTxids(
+            txids.slice(0, 2),
+            tx.getId(),
+            header.toString("hex"),
+          ),
+        ).toThrow(
+          new StakingError(
+            StakingErrorCode.INVALID_INPUT,
+            "The block txids do not match the merkle root of the block header",
+          ),
+        );
+      });
+
+      it(`${networkName} should throw if the txids contain duplicates`, () => {
+        const { tx, txids, header } = buildBlock(3, 0);
+
+        expect(() =>
+          buildInclusionProofFromTxids(
+            [...txids, txids[2]],
+            tx.getId(),
+            header.toString("hex"),
+          ),
+        ).toThrow(
+          new StakingError(
+            StakingErrorCode.INVALID_INPUT,
+            "The block txids list contains duplicates",
+          ),
+        );
+      });
+    });
+
+    describe("buildInclusionProofFromMerkleBlock", () => {
+      it.each([
+        [1, 0, [0]],
+        [5, 4, [4]],
+        [7, 2, [1, 2, 5]],
+        [9, 8, [0, 8]],
+      ])(
+        `${networkName} should build the proof of tx in a block of %i txs at position %i`,
+        (txCount, pos, matched) => {
+          const { tx, txids, header, inclusionProof } = buildBlock(
+            txCount,
+            pos,
+          );
+          const merkleBlock = buildMerkleBlock(header, txids, matched);
+
+          const proof = buildInclusionProofFromMerkleBlock(
+            merkleBlock.toString("hex"),
+            tx.getId(),
+          );
+
+          expect(proof).toEqual(inclusionProof);
+          expect(() =>
+            verifyInclusionProof(tx, proof, header.toString("hex")),
+          ).not.toThrow();
+        },
+      );
+
+      it(`${networkName} should throw if the txid is not matched`, () => {
+        const { txids, header } = buildBlock(4, 0);
+        const merkleBlock = buildMerkleBlock(header, txids, [0]);
+
+        expect(() =>
+          buildInclusionProofFromMerkleBlock(
+            merkleBlock.toString("hex"),
+            txids[1],
+          ),
+        ).toThrow(
+          new StakingError(
+            StakingErrorCode.INVALID_INPUT,
+            `Transaction ${txids[1]} is not matched by the merkleblock`,
+          ),
+        );
+      });
+
+      it(`${networkName} should throw if a hash is tampered`, () => {
+        const { tx, txids, header } = buildBlock(4, 0);
+        const merkleBlock = buildMerkleBlock(header, txids, [0]);
+        // Flip a byte of the last hash
+        merkleBlock[merkleBlock.length - 3] ^= 1;
+
+        expect(() =>
+          buildInclusionProofFromMerkleBlock(
+            merkleBlock.toString("hex"),
+            tx.getId(),
+          ),
+        ).toThrow(
+          new StakingError(
+            StakingErrorCode.INVALID_INPUT,
+            "The merkleblock does not match the merkle root of its block header",
+          ),
+        );
+      });
+
+      it(`${networkName} should throw if the merkleblock has unused data`, () => {
+        const { tx, txids, header } = buildBlock(4, 0);
+        const merkleBlock = buildMerkleBlock(header, txids, [0]);
+
+        expect(() =>
+          buildInclusionProofFromMerkleBlock(
+            merkleBlock.toString("hex") + "00",
+            tx.getId(),
+          ),
+        ).toThrow(
+          new StakingError(
+            StakingErrorCode.INVALID_INPUT,
+            "Unexpected trailing data",
+          ),
+        );
+        // Add an extra flag byte
+        const extraFlags = Buffer.concat([merkleBlock, Buffer.from([0])]);
+        extraFlags[extraFlags.length - 3] += 1;
+        expect(() =>
+          buildInclusionProofFromMerkleBlock(
+            extraFlags.toString("hex"),
+            tx.getId(),
+          ),
+        ).toThrow(
+          new StakingError(
+            StakingErrorCode.INVALID_INPUT,
+            "Merkleblock has unused hashes or flag bits",
+          ),
+        );
+      });
+    });
+  },
+);
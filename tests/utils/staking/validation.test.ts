@@ -284,7 +284,7 @@ describe("validateStakingExpansionInputs", () => {
         babylonAddress: babylonAddress,
       }),
     ).toThrow(
-      "Staking expansion amount must equal the previous staking amount",
+      "Staking expansion amount must not be lower than the previous staking amount",
     );
   });
 });
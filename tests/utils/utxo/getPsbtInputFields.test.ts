@@ -207,6 +207,40 @@ describe.each(testingNetworks)(
             expect(fields.witnessUtxo).toBeUndefined();
           });
 
+          it("returns the witnessScript of a P2SH-P2WSH output", () => {
+            const { publicKey } = dataGenerator.generateRandomKeyPair();
+            const multisig = bitcoin.payments.p2ms({
+              m: 1,
+              pubkeys: [Buffer.from(publicKey, "hex")],
+              network,
+            });
+            const nested = bitcoin.payments.p2wsh({
+              redeem: multisig,
+              network,
+            });
+            const p2sh = bitcoin.payments.p2sh({ redeem: nested, network });
+            const generatedUtxo = dataGenerator.generateValidUTXOWithRawTx(
+              p2sh.output!.toString("hex"),
+              dummyValue,
+            );
+
+            const utxo = makeUTXO(p2sh.output!.toString("hex"), {
+              txid: generatedUtxo.txid,
+              rawTxHex: generatedUtxo.rawTxHex,
+              redeemScript: nested.output!.toString("hex"),
+              witnessScript: multisig.output!.toString("hex"),
+            });
+            const fields = getPsbtInputFields(utxo);
+            expect(fields.redeemScript).toEqual(nested.output!);
+            expect(fields.witnessScript).toEqual(multisig.output!);
+            expect(() =>
+              getPsbtInputFields({
+                ...utxo,
+                witnessScript: nested.output!.toString("hex"),
+              }),
+            ).toThrow("Witness script hash does not match P2WSH scriptPubKey");
+          });
+
           it("throws if rawTxHex is missing for P2SH", () => {
             const { publicKey } = dataGenerator.generateRandomKeyPair();
             const nested = bitcoin.payments.p2wpkh({
@@ -0,0 +1,96 @@
+import { payments } from "bitcoinjs-lib";
+
+import { StakingError, StakingErrorCode } from "../../../src/error";
+import { attachMultisigScripts } from "../../../src/utils/utxo/multisig";
+import { testingNetworks } from "../../helper";
+
+describe.each(testingNetworks)(
+  "attachMultisigScripts",
+  ({ networkName, network, datagen: { stakingDatagen: dataGenerator } }) => {
+    const p2ms = payments.p2ms({
+      m: 2,
+      pubkeys: [1, 2, 3].map(() =>
+        Buffer.from(dataGenerator.generateRandomKeyPair().publicKey, "hex"),
+      ),
+      network,
+    });
+    const multisigScriptHex = p2ms.output!.toString("hex");
+    const p2wsh = payments.p2wsh({ redeem: p2ms, network });
+    const p2sh = payments.p2sh({ redeem: p2ms, network });
+    const p2shP2wsh = payments.p2sh({ redeem: p2wsh, network });
+
+    const utxoOf = (output: Buffer) =>
+      dataGenerator.generateRandomUTXOs(100_000, 1, output.toString("hex"))[0];
+
+    it(`${networkName} should attach the scripts of each wrapping of the multisig script`, () => {
+      const [p2wshUTXO, p2shUTXO, p2shP2wshUTXO] = attachMultisigScripts(
+        [
+          utxoOf(p2wsh.output!),
+          utxoOf(p2sh.output!),
+          utxoOf(p2shP2wsh.output!),
+        ],
+        { address: p2wsh.address!, multisigScriptHex },
+        network,
+      );
+
+      expect(p2wshUTXO.witnessScript).toBe(multisigScriptHex);
+      expect(p2wshUTXO.redeemScript).toBeUndefined();
+      expect(p2shUTXO.redeemScript).toBe(multisigScriptHex);
+      expect(p2shUTXO.witnessScript).toBeUndefined();
+      expect(p2shP2wshUTXO.redeemScript).toBe(p2wsh.output!.toString("hex"));
+      expect(p2shP2wshUTXO.witnessScript).toBe(multisigScriptHex);
+    });
+
+    it(`${networkName} should accept the P2SH and P2SH-P2WSH addresses of the multisig script`, () => {
+      [p2sh, p2shP2wsh].forEach(({ address }) => {
+        expect(
+          attachMultisigScripts(
+            [utxoOf(p2wsh.output!)],
+            { address: address!, multisigScriptHex },
+            network,
+          ),
+        ).toHaveLength(1);
+      });
+    });
+
+    it(`${networkName} should throw if a UTXO is not an output of the multisig script`, () => {
+      const utxo = dataGenerator.generateRandomUTXOs(100_000, 1)[0];
+
+      expect(() =>
+        attachMultisigScripts(
+          [utxoOf(p2wsh.output!), utxo],
+          { address: p2wsh.address!, multisigScriptHex },
+          network,
+        ),
+      ).toThrow(
+        new StakingError(
+          StakingErrorCode.INVALID_INPUT,
+          `UTXO ${utxo.txid}:${utxo.vout} is not an output of the multisig script`,
+        ),
+      );
+    });
+
+    it(`${networkName} should throw if the multisig script or address is invalid`, () => {
+      expect(() =>
+        attachMultisigScripts(
+          [utxoOf(p2wsh.output!)],
+          {
+            address: p2wsh.address!,
+            multisigScriptHex: p2wsh.output!.toString("hex"),
+          },
+          network,
+        ),
+      ).toThrow("Invalid multisig script");
+      const { address } = dataGenerator.getAddressAndScriptPubKey(
+        dataGenerator.generateRandomKeyPair().publicKey,
+      ).nativeSegwit;
+      expect(() =>
+        attachMultisigScripts(
+          [utxoOf(p2wsh.output!)],
+          { address, multisigScriptHex },
+          network,
+        ),
+      ).toThrow("The multisig address does not match the multisig script");
+    });
+  },
+);